@@ -0,0 +1,210 @@
+#!/usr/bin/env node
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { ChildProcess, spawn } from "child_process";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { BuildSettings } from "../common/buildSettings";
+import { Constants } from "../common/constants";
+import { ICredentialProvider } from "../core/credentialProvider";
+import { CredentialProviderFactory } from "../core/credentialProviderFactory";
+import { DockerCommand } from "../core/dockerCommand";
+import { EnvProfiles } from "../core/envProfiles";
+import { ImageLock } from "../core/imageLock";
+import { IDeploymentInfo, IEnvironment, ManifestGenerator } from "../core/manifestGenerator";
+import { IManifestProblem, ManifestProblemSeverity, ManifestValidator } from "../core/manifestValidator";
+
+const usage: string = `Usage: azure-iot-edge <command> <template> [options]
+
+Commands:
+  generate    Generate the deployment manifest from the deployment template
+  build       Generate the deployment manifest and build the module images
+  push        Generate the deployment manifest, build and push the module images
+
+Options:
+  --platform <platform>    Default target platform of the solution (default: amd64)
+  --env <path>             Path of the .env file (default: .env next to the template)
+  --profile <profile>      Environment profile whose .env.<profile> file next to the template overrides the .env file.
+                           The profile is added to the file names of the deployment manifests
+  --credential-store <store>
+                           Store of the secrets missing in the .env file and the environment: keychain, encryptedFile
+                           or environment (default: environment). The passphrase of the encrypted file is read from
+                           the ${Constants.credentialPassphraseEnv} environment variable
+  --pin-digests            Reference the module images by digest in the deployment manifests, using the digests of the
+                           lock file next to the template. The push command resolves the digests again after pushing
+`;
+
+// Command line entry of the build pipeline, generates the same deployment manifest as the extension
+export class Cli {
+    public static async run(args: string[]): Promise<number> {
+        let options: { command: string, templateFile: string, platform: string, envFile: string, profile: string, credentialStore: string, pinDigests: boolean };
+        try {
+            options = Cli.parseArgs(args);
+        } catch (error) {
+            process.stderr.write(`${error.message}\n\n${usage}`);
+            return 1;
+        }
+
+        try {
+            const slnPath: string = path.dirname(options.templateFile);
+            const env: IEnvironment = await EnvProfiles.loadProfile(slnPath, options.profile, await ManifestGenerator.loadEnvFile(options.envFile, process.env));
+            await Cli.loadSecrets(options.credentialStore, slnPath, env);
+            const moduleToImageMap: Map<string, string> = new Map();
+            const imageToBuildSettings: Map<string, BuildSettings> = new Map();
+            await ManifestGenerator.setSlnModulesMap(slnPath, options.platform, env, moduleToImageMap, imageToBuildSettings);
+            const deployment: IDeploymentInfo = await ManifestGenerator.generateDeployment(options.templateFile,
+                path.join(slnPath, Constants.outputConfig), options.platform, env, moduleToImageMap, options.profile);
+            process.stdout.write(`Deployment manifest generated at ${deployment.manifestFile}\n`);
+            let valid: boolean = await Cli.validateManifest(deployment.manifestFile);
+            for (const overlay of deployment.overlays) {
+                process.stdout.write(`Deployment manifest of overlay ${path.basename(overlay.overlayFile)} generated at ${overlay.manifestFile}\n`);
+                for (const conflict of overlay.conflicts) {
+                    process.stderr.write(`${overlay.overlayFile}: warning: ${conflict.path}: ${conflict.message}\n`);
+                }
+                valid = await Cli.validateManifest(overlay.manifestFile) && valid;
+            }
+            if (!valid) {
+                return 1;
+            }
+
+            if (options.command === "generate") {
+                if (options.pinDigests) {
+                    await Cli.pinDigests(options.templateFile, deployment, false);
+                }
+                return 0;
+            }
+
+            const buildMap: Map<string, BuildSettings> = ManifestGenerator.getBuildMap(deployment, imageToBuildSettings);
+            for (const [image, buildSettings] of buildMap) {
+                await Cli.runCommand(DockerCommand.constructBuildCmd(image, buildSettings));
+                if (options.command === "push") {
+                    await Cli.runCommand(DockerCommand.constructPushCmd(image));
+                }
+            }
+            // images which are only built locally can't be pinned
+            if (options.pinDigests && options.command === "push") {
+                await Cli.pinDigests(options.templateFile, deployment, true);
+            }
+            return 0;
+        } catch (error) {
+            process.stderr.write(`${error.message}\n`);
+            return 1;
+        }
+    }
+
+    // Add the secrets of the credential store which are not set by the .env file or the environment
+    private static async loadSecrets(credentialStore: string, slnPath: string, env: IEnvironment): Promise<void> {
+        const provider: ICredentialProvider = CredentialProviderFactory.createForSolution(credentialStore, {
+            env,
+            loadKeytar: () => require("keytar"),
+            credentialFile: path.join(os.homedir(), Constants.userConfigFolder, Constants.credentialFile),
+            getPassphrase: async () => process.env[Constants.credentialPassphraseEnv],
+        }, slnPath);
+        if (!provider) {
+            return;
+        }
+        const secrets: { [key: string]: string } = await provider.getAll();
+        for (const key of Object.keys(secrets)) {
+            if (!env[key]) {
+                env[key] = secrets[key];
+            }
+        }
+    }
+
+    private static async pinDigests(templateFile: string, deployment: IDeploymentInfo, refresh: boolean): Promise<void> {
+        const lock: ImageLock = await ImageLock.load(ImageLock.getLockFile(templateFile));
+        const resolved: string[] = await lock.pin(deployment, ImageLock.createResolver(ImageLock.getRegistryCredentials(deployment.manifestObj)), refresh);
+        await lock.save();
+        for (const image of resolved) {
+            process.stdout.write(`Resolved ${image} to ${lock.get(image)}\n`);
+        }
+        process.stdout.write(`Image digests locked in ${lock.lockFile}\n`);
+    }
+
+    // Print the schema problems of the deployment manifest, return false if there is any error
+    private static async validateManifest(manifestFile: string): Promise<boolean> {
+        const text: string = await fse.readFile(manifestFile, "utf8");
+        const problems: IManifestProblem[] = ManifestValidator.validate(text, false);
+        for (const problem of problems) {
+            const lines: string[] = text.substr(0, problem.offset).split("\n");
+            const severity: string = problem.severity === ManifestProblemSeverity.Warning ? "warning" : "error";
+            process.stderr.write(`${manifestFile}(${lines.length},${lines[lines.length - 1].length + 1}): ${severity}: ${problem.message}\n`);
+        }
+        return !problems.some((problem) => problem.severity === ManifestProblemSeverity.Error);
+    }
+
+    private static parseArgs(args: string[]): {
+        command: string, templateFile: string, platform: string, envFile: string, profile: string, credentialStore: string, pinDigests: boolean,
+    } {
+        const positional: string[] = [];
+        let platform: string = "amd64";
+        let envFile: string;
+        let profile: string;
+        let credentialStore: string = CredentialProviderFactory.environment;
+        let pinDigests: boolean = false;
+        for (let i = 0; i < args.length; i++) {
+            if (args[i] === "--pin-digests") {
+                pinDigests = true;
+            } else if (args[i] === "--platform" || args[i] === "--env" || args[i] === "--profile" || args[i] === "--credential-store") {
+                if (i + 1 >= args.length) {
+                    throw new Error(`Missing value of ${args[i]}`);
+                }
+                if (args[i] === "--platform") {
+                    platform = args[++i];
+                } else if (args[i] === "--env") {
+                    envFile = path.resolve(args[++i]);
+                } else if (args[i] === "--profile") {
+                    profile = args[++i];
+                } else {
+                    credentialStore = args[++i];
+                }
+            } else if (args[i].startsWith("--")) {
+                throw new Error(`Unknown option ${args[i]}`);
+            } else {
+                positional.push(args[i]);
+            }
+        }
+
+        if (positional.length !== 2) {
+            throw new Error("Command and deployment template are required");
+        }
+        const command: string = positional[0];
+        if (["generate", "build", "push"].indexOf(command) < 0) {
+            throw new Error(`Unknown command ${command}`);
+        }
+        const templateFile: string = path.resolve(positional[1]);
+        return {
+            command,
+            templateFile,
+            platform,
+            envFile: envFile || path.join(path.dirname(templateFile), Constants.envFile),
+            profile,
+            credentialStore,
+            pinDigests,
+        };
+    }
+
+    private static async runCommand(command: string): Promise<void> {
+        process.stdout.write(`Executing ${command}\n`);
+        await new Promise((resolve: () => void, reject: (e: Error) => void): void => {
+            const p: ChildProcess = spawn(command, [], { shell: true, stdio: "inherit" });
+            p.on("error", (err: Error) => {
+                reject(new Error(err.toString()));
+            });
+            p.on("exit", (code: number, signal: string) => {
+                if (code !== 0) {
+                    reject(new Error(`Command failed with exit code ${code}`));
+                } else {
+                    resolve();
+                }
+            });
+        });
+    }
+}
+
+if (require.main === module) {
+    Cli.run(process.argv.slice(2)).then((code: number) => process.exit(code));
+}
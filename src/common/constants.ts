@@ -11,13 +11,23 @@ export class Constants {
     public static dotNetProjectFileNamePattern = "**/*.{csproj,fsproj}";
     public static moduleConfigFileNamePattern = "**/module.json";
     public static moduleConfigFile = "Module Config file";
+    public static moduleOrTemplateDesc = "Module Config file or Deployment Template file";
     public static deploymentTemplatePattern = "**/deployment.template.json";
     public static debugDeploymentTemplatePattern = "**/deployment.debug.template.json";
     public static tsonPattern = "**/*.template.json";
     public static tson = ".template.json";
     public static deploymentTemplateDesc = "Deployment Template file";
+    public static envFilePattern = "**/.env";
+    // the files which the variables and the modules of a solution are read from
+    public static solutionFilesPattern = "**/{.env*,module.json,modules/*}";
+    public static envFileDesc = ".env file";
     public static deploymentFilePattern = "**/deployment.json";
     public static deploymentFileDesc = "Deployment Manifest file";
+    public static deploymentManifestPattern = "{**/deployment.*.json,**/deployment.json,**/deployment.*.debug.json,**/config/*.json}";
+    public static compareWithTemplate = "Deployment manifest generated from the template now";
+    public static compareWithRevision = "Deployment manifest at a git branch, tag or commit";
+    public static compareWithFile = "Another deployment manifest";
+    public static deploymentManifestFileNamePattern: RegExp = /^deployment(?!.*\.(template|overlay)\.json)(\.debug)?(\.[-a-z0-9]+)*\.json$/;
     public static EdgeDebugSessionPrefix = "Debug IoT Edge";
     public static moduleNamePlaceholder = "%MODULE%";
     public static moduleImagePlaceholder = "%MODULE_IMAGE%";
@@ -66,24 +76,60 @@ export class Constants {
     public static repositoryPrompt = "Provide Docker Image Repository for the Module";
     public static imagePattern = `${Constants.registryPlaceholder}/${Constants.repoNamePlaceholder}:${Constants.tagPlaceholder}`;
     public static imagePrompt = "Provide Docker Image for the Module";
+    public static selectRegistry = "Select Container Registry";
+    public static enterImageUrl = "Enter Full Image URL";
+    public static otherRegistry = "Other Registry...";
+    public static registryAddressPrompt = "Provide the address of a registry supporting the Docker Registry HTTP API V2";
+    public static localRegistry = "localhost:5000";
     public static selectTemplate = "Select Module Template";
     public static parentFolderLabel = "Select Folder";
     public static moduleManifest = "module.json";
+    public static desiredPropertiesSchema = "desiredPropertiesSchema";
     public static outputConfig = "config";
+    public static buildCacheFile = ".buildcache";
+    public static changelogFile = "CHANGELOG.md";
     public static vscodeFolder = ".vscode";
     public static buildModuleImageEvent = "buildModuleImage";
     public static buildAndPushModuleImageEvent = "buildAndPushModuleImage";
     public static buildSolutionEvent = "buildSolution";
+    public static buildSolutionForPlatformsEvent = "buildSolutionForPlatforms";
     public static runSolutionEvent = "runSolution";
     public static generateDeploymentEvent = "generateDeployment";
     public static addModuleEvent = "addModule";
+    public static removeModuleEvent = "removeModule";
+    public static renameModuleEvent = "renameModule";
+    public static bumpModuleVersionEvent = "bumpModuleVersion";
+    public static compareDeploymentEvent = "compareDeployment";
+    public static migrateCredentialsEvent = "migrateCredentials";
+    public static showMessageFlowEvent = "showMessageFlow";
+    public static debugModuleInSimulatorEvent = "debugModuleInSimulator";
+    public static messageFlowViewType = "azure-iot-edge.messageFlow";
+    public static openMessagePanelEvent = "openMessagePanel";
+    public static messagePanelViewType = "azure-iot-edge.messagePanel";
+    public static simulatorPort = 8883;
+    public static simulatorCertificatesFolder = "simulator";
+    public static simulatorContainersViewId = "azure-iot-edge.simulatorContainers";
+    public static simulatorContainersRefreshInterval = 5000;
+    public static simulatorPollInterval = 2000;
+    public static simulatorDebugPlatform = "amd64";
+    public static debugModuleTimeout = 300000;
+    public static simulatorNotRunning = "IoT Edge Simulator is not running.";
+    public static dockerNotAvailable = "Failed to list the containers with Docker. Make sure Docker is running.";
     public static launchCSharp = "launch_csharp.json";
     public static launchNode = "launch_node.json";
     public static launchC = "launch_c.json";
     public static launchJava = "launch_java.json";
     public static launchPython = "launch_python.json";
+    public static edgeDebugType = "azure-iot-edge";
+    public static selectDebugModule = "Select the module to debug";
     public static noSolutionFileWithModulesFolder = "No solution file for the selected modules folder can be found in workspace.";
+    public static selectModuleToRemove = "Select the module to remove";
+    public static selectModuleToRename = "Select the module to rename";
     public static selectPlatform = "Select Platform";
+    public static selectPlatforms = "Select the platforms to build for";
+    public static buildOnly = "Build";
+    public static buildAndPush = "Build and Push";
+    public static buildPushAndPublishManifestList = "Build, Push and Publish Multi-Arch Manifest List";
     // the last item is the module name enterred by the user which cannot be determined yet and will be skipped for checking
     public static moduleDeploymentManifestJsonPath = ["modulesContent", "$edgeAgent", "properties.desired", "modules", "*"];
     public static moduleNameDeploymentManifestJsonPathIndex = 4;
@@ -91,6 +137,10 @@ export class Constants {
     public static imgDeploymentManifestJsonPath = ["modulesContent", "$edgeAgent", "properties.desired", "modules", "*", "settings", "image"];
     // the last item is the route name enterred by the user which cannot be determined yet and will be skipped for checking
     public static routeDeploymentManifestJsonPath = ["modulesContent", "$edgeHub", "properties.desired", "routes", "*"];
+    // since schema 1.1, a route can be an object with the route string in the "route" property
+    public static routeObjectDeploymentManifestJsonPath = ["modulesContent", "$edgeHub", "properties.desired", "routes", "*", "route"];
+    // the 2nd item is the module name of the module twin
+    public static desiredPropertiesDeploymentManifestJsonPath = ["modulesContent", "*", "properties.desired"];
     public static moduleTypes = ["docker"];
     public static moduleStatuses = ["running", "stopped"];
     public static moduleRestartPolicies = ["always", "never", "on-failed", "on-unhealthy"];
@@ -108,13 +158,32 @@ export class Constants {
     public static groupId = "groupId";
     public static defPlatformConfig = "defaultPlatform";
     public static platformsConfig = "platforms";
+    public static buildConcurrencyConfig = "buildConcurrency";
+    public static pinImageDigestsConfig = "pinImageDigests";
     public static thirdPartyModuleTemplatesConfig = "3rdPartyModuleTemplates";
+    public static templatePackPathsConfig = "templatePackPaths";
+    public static templatePackManifest = "templatePack.json";
+    public static templatePackFilesFolder = "template";
+    public static templatePacksFolder = "templatePacks";
+    public static moduleScaffoldManifest = "scaffold.json";
+    public static useRemoteModuleTemplatesConfig = "useRemoteModuleTemplates";
+    public static envProfileConfig = "envProfile";
+    public static unresolvedEnvVariableCode = "unresolvedEnvVariable";
+    public static addEnvVariableCommand = "azure-iot-edge.addEnvVariable";
+    public static userConfigFolder = ".iotedge";
+    public static credentialStoreConfig = "credentialStore";
+    public static credentialFile = "credentials.json";
+    public static credentialPassphraseEnv = "IOTEDGE_CREDENTIAL_PASSPHRASE";
     public static platformKey = "platform";
     public static aliasKey = "alias";
     public static TwinValueMaxSize = 512;
     public static TwinValueMaxChunks = 8;
     public static SchemaTemplate = "$schema-template";
+    public static Overlays = "$overlays";
+    public static overlaySuffix = ".overlay.json";
     public static platformStatusBarTooltip = "Default Platform of IoT Edge Solution";
+    public static envProfileStatusBarTooltip = "Environment Profile of IoT Edge Solution";
+    public static selectEnvProfile = "Select the environment profile of the IoT Edge solution";
     public static moduleNameSubstitution = "${moduleName}";
     public static repositoryNameSubstitution = "${repositoryName}";
 }
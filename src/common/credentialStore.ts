@@ -0,0 +1,103 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { ICredentialProvider } from "../core/credentialProvider";
+import { CredentialProviderFactory } from "../core/credentialProviderFactory";
+import { IEnvironment } from "../core/manifestGenerator";
+import { SolutionCredentialProvider } from "../core/solutionCredentialProvider";
+import { Constants } from "./constants";
+
+// The credential provider selected by the azure-iot-edge.credentialStore setting
+export class CredentialStore {
+    // Fired with the path of a solution when one of its secrets is set or deleted
+    public static readonly onDidChange: vscode.Event<string> = CredentialStore.getChangeEmitter().event;
+
+    // The provider of the secrets of a solution, whose keys are scoped to the solution in the shared store.
+    // Return undefined if the secrets are kept in the .env file.
+    public static getProvider(slnPath: string): ICredentialProvider {
+        const provider: ICredentialProvider = CredentialStore.getSharedProvider();
+        return provider && provider.canStore ?
+            new SolutionCredentialProvider(provider, slnPath, () => CredentialStore.getChangeEmitter().fire(slnPath)) : provider;
+    }
+
+    // Add the stored secrets to the variables of a solution, unless the .env file or the environment already sets them
+    public static async loadSecrets(slnPath: string, env: IEnvironment): Promise<void> {
+        let provider: ICredentialProvider;
+        try {
+            provider = CredentialStore.getProvider(slnPath);
+            if (!provider) {
+                return;
+            }
+            const secrets: { [key: string]: string } = await provider.getAll();
+            for (const key of Object.keys(secrets)) {
+                if (!env[key]) {
+                    env[key] = secrets[key];
+                }
+            }
+        } catch (error) {
+            vscode.window.showWarningMessage(`Failed to load secrets from the ${provider ? provider.name : ""} credential store: ${error.message}`);
+        }
+    }
+
+    // The keys of the stored secrets of a solution, e.g. to tell that a variable without value in the .env file is set by the store.
+    // Nothing is shown to the user, so return no keys when the store can't be read.
+    public static async getKeys(slnPath: string): Promise<string[]> {
+        try {
+            const provider: ICredentialProvider = CredentialStore.getProvider(slnPath);
+            return provider ? await provider.getKeys() : [];
+        } catch (error) {
+            return [];
+        }
+    }
+
+    private static provider: ICredentialProvider;
+    private static store: string;
+    private static changeEmitter: vscode.EventEmitter<string>;
+
+    private static getChangeEmitter(): vscode.EventEmitter<string> {
+        if (!CredentialStore.changeEmitter) {
+            CredentialStore.changeEmitter = new vscode.EventEmitter<string>();
+        }
+        return CredentialStore.changeEmitter;
+    }
+
+    // The provider of the secrets of all the solutions, which is kept so that the passphrase of the encrypted file is asked once
+    private static getSharedProvider(): ICredentialProvider {
+        const store: string = vscode.workspace.getConfiguration("azure-iot-edge").get<string>(Constants.credentialStoreConfig, CredentialProviderFactory.envFile);
+        if (store !== CredentialStore.store) {
+            CredentialStore.provider = CredentialProviderFactory.create(store, {
+                env: process.env,
+                loadKeytar: CredentialStore.loadKeytar,
+                credentialFile: path.join(os.homedir(), Constants.userConfigFolder, Constants.credentialFile),
+                getPassphrase: CredentialStore.getPassphrase,
+            });
+            CredentialStore.store = store;
+        }
+        return CredentialStore.provider;
+    }
+
+    // keytar is shipped with VS Code as a native module
+    private static loadKeytar(): any {
+        for (const folder of ["node_modules.asar", "node_modules"]) {
+            try {
+                return require(path.join(vscode.env.appRoot, folder, "keytar"));
+            } catch (error) { }
+        }
+        throw new Error("keytar can't be found in VS Code");
+    }
+
+    private static async getPassphrase(): Promise<string> {
+        if (process.env[Constants.credentialPassphraseEnv]) {
+            return process.env[Constants.credentialPassphraseEnv];
+        }
+        return await vscode.window.showInputBox({
+            prompt: "Passphrase of the encrypted credential file",
+            password: true,
+            ignoreFocusOut: true,
+        });
+    }
+}
@@ -2,7 +2,7 @@
 // Licensed under the MIT license.
 
 "use strict";
-import { ChildProcess, exec, execSync, spawn, SpawnOptions } from "child_process";
+import { ChildProcess, exec, execFile, execSync, spawn, SpawnOptions } from "child_process";
 import * as vscode from "vscode";
 import { Constants } from "./constants";
 
@@ -23,6 +23,25 @@ export class Executor {
         return execSync(command, { encoding: "utf8" });
     }
 
+    public static execAsync(command: string): Promise<string> {
+        return new Promise((resolve: (stdout: string) => void, reject: (e: Error) => void): void => {
+            exec(command, { encoding: "utf8" }, (error: Error, stdout: string) => error ? reject(error) : resolve(stdout));
+        });
+    }
+
+    // Run a program with its arguments without a shell, so that the arguments are never interpreted by a shell
+    public static execFileAsync(file: string, args: string[], cwd?: string): Promise<string> {
+        return new Promise((resolve: (stdout: string) => void, reject: (e: Error) => void): void => {
+            execFile(file, args, { encoding: "utf8", cwd, maxBuffer: 64 * 1024 * 1024 }, (error: Error, stdout: string, stderr: string) => {
+                if (error) {
+                    reject(new Error(stderr ? stderr.trim() : error.message));
+                } else {
+                    resolve(stdout);
+                }
+            });
+        });
+    }
+
     public static onDidCloseTerminal(closedTerminal: vscode.Terminal): void {
         delete this.terminals[closedTerminal.name];
     }
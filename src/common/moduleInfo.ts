@@ -6,9 +6,11 @@ export class ModuleInfo {
     public readonly moduleTwin: object;
     public readonly createOptions: string;
     public readonly debugCreateOptions: string;
+    // the debug host ports allocated for the ports written in the debug createOptions of a template pack
+    public readonly debugHostPorts: { [port: number]: number };
 
     constructor(moduleName: string, repositoryName: string, imageName: string, moduleTwin: object, createOptions: any,
-                debugImageName: string, debugCreateOptions: any) {
+                debugImageName: string, debugCreateOptions: any, debugHostPorts: { [port: number]: number } = {}) {
         this.moduleName = moduleName;
         this.repositoryName = repositoryName;
         this.imageName = imageName;
@@ -17,5 +19,6 @@ export class ModuleInfo {
         this.createOptions = createOptions ? createOptions : {};
         this.debugImageName = debugImageName;
         this.debugCreateOptions = debugCreateOptions ? debugCreateOptions : {};
+        this.debugHostPorts = debugHostPorts;
     }
 }
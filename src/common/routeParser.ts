@@ -0,0 +1,482 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { Constants } from "./constants";
+
+// Parser of the Edge Hub route expression: FROM <source> [WHERE <condition>] INTO <sink>
+// The parser has no dependency on vscode so that it can be shared by IntelliSense and non-editor features.
+// All offsets are relative to the route string (the decoded JSON string value).
+
+export interface IRouteError {
+    message: string;
+    offset: number;
+    length: number;
+}
+
+export interface IRouteSource {
+    path: string;
+    offset: number;
+    length: number;
+    moduleId?: string;
+    moduleIdOffset?: number;
+    output?: string;
+}
+
+export interface IRouteCondition {
+    text: string;
+    offset: number;
+    length: number;
+}
+
+export interface IRouteSink {
+    type: "upstream" | "brokeredEndpoint";
+    offset: number;
+    length: number;
+    moduleId?: string;
+    moduleIdOffset?: number;
+    input?: string;
+}
+
+export interface IRoute {
+    source?: IRouteSource;
+    condition?: IRouteCondition;
+    sink?: IRouteSink;
+    errors: IRouteError[];
+}
+
+export enum RouteCompletionKind {
+    Keyword,
+    Source,
+    Condition,
+    Sink,
+    EndpointPath,
+}
+
+export interface IRouteCompletionContext {
+    kind: RouteCompletionKind;
+    // offset of the text to be replaced by the completion item
+    start: number;
+    prefix: string;
+    keywords: string[];
+}
+
+interface IClauseKeyword {
+    keyword: string;
+    offset: number;
+}
+
+interface IConditionToken {
+    kind: "word" | "string" | "number" | "operator" | "punctuation" | "eof";
+    text: string;
+    offset: number;
+}
+
+export class RouteParser {
+    public static readonly keywords: string[] = ["FROM", "WHERE", "INTO"];
+    public static readonly upstream: string = "$upstream";
+    public static readonly brokeredEndpoint: string = "BrokeredEndpoint";
+    public static readonly conditionKeywords: string[] = ["AND", "OR", "NOT", "true", "false", "null"];
+    public static readonly systemProperties: string[] = [
+        "$contentType", "$contentEncoding", "$connectionDeviceId", "$connectionModuleId",
+        "$correlationId", "$messageId", "$to", "$userId", "$iothub-enqueuedtime", "$body",
+    ];
+    public static readonly functions: string[] = [
+        "ABS", "EXP", "POWER", "SQUARE", "CEILING", "FLOOR", "SIGN", "SQRT",
+        "AS_NUMBER", "IS_ARRAY", "IS_BOOL", "IS_DEFINED", "IS_NULL", "IS_NUMBER", "IS_OBJECT", "IS_PRIMITIVE", "IS_STRING",
+        "CONCAT", "LENGTH", "LOWER", "UPPER", "SUBSTRING", "INDEX_OF", "STARTS_WITH", "ENDS_WITH", "CONTAINS",
+    ];
+    public static readonly sourcePatterns: string[] = [
+        "/*",
+        "/messages/*",
+        "/messages/modules/*",
+        "/messages/modules/{moduleId}/*",
+        "/messages/modules/{moduleId}/outputs/*",
+        "/messages/modules/{moduleId}/outputs/{output}",
+        "/twinChangeNotifications",
+    ];
+
+    public static parse(text: string): IRoute {
+        const route: IRoute = { errors: [] };
+        const keywords: IClauseKeyword[] = RouteParser.findKeywords(text);
+
+        const from: IClauseKeyword = keywords.find((k) => k.keyword === "FROM");
+        const firstToken = RouteParser.skipWhitespace(text, 0);
+        if (!from || from.offset !== firstToken) {
+            const word = RouteParser.readUntilWhitespace(text, firstToken);
+            route.errors.push({ message: "Route must start with FROM", offset: firstToken, length: Math.max(word.length, 1) });
+            return route;
+        }
+
+        for (const keyword of keywords) {
+            if (keywords.filter((k) => k.keyword === keyword.keyword).indexOf(keyword) > 0) {
+                route.errors.push({ message: `Unexpected ${keyword.keyword}`, offset: keyword.offset, length: keyword.keyword.length });
+                return route;
+            }
+        }
+
+        const where: IClauseKeyword = keywords.find((k) => k.keyword === "WHERE");
+        const into: IClauseKeyword = keywords.find((k) => k.keyword === "INTO");
+        if (where && into && where.offset > into.offset) {
+            route.errors.push({ message: "WHERE must be placed before INTO", offset: where.offset, length: where.keyword.length });
+            return route;
+        }
+
+        const sourceEnd: number = where ? where.offset : (into ? into.offset : text.length);
+        RouteParser.parseSource(text, from.offset + from.keyword.length, sourceEnd, route);
+
+        if (where) {
+            const conditionEnd: number = into ? into.offset : text.length;
+            RouteParser.parseCondition(text, where.offset + where.keyword.length, conditionEnd, route);
+        }
+
+        if (!into) {
+            route.errors.push({ message: "Missing INTO clause", offset: text.length, length: 0 });
+        } else {
+            RouteParser.parseSink(text, into.offset + into.keyword.length, text.length, route);
+        }
+
+        return route;
+    }
+
+    // Whether the JSON path of a deployment template is the one of a route string, i.e. the value of a route
+    // or the "route" property of a route object
+    public static isRouteJsonPath(jsonPath: Array<string | number>): boolean {
+        return [Constants.routeDeploymentManifestJsonPath, Constants.routeObjectDeploymentManifestJsonPath].some((routePath) =>
+            routePath.length === jsonPath.length && routePath.every((segment, index) => segment === "*" || segment === jsonPath[index]));
+    }
+
+    public static getCompletionContext(text: string, offset: number): IRouteCompletionContext {
+        const prefixText: string = text.substring(0, offset);
+        const keywords: IClauseKeyword[] = RouteParser.findKeywords(prefixText)
+            .filter((k) => k.offset + k.keyword.length < offset);
+        let start: number = offset;
+        while (start > 0 && !/\s/.test(prefixText.charAt(start - 1))) {
+            start--;
+        }
+        const prefix: string = prefixText.substring(start);
+
+        if (keywords.length === 0) {
+            return { kind: RouteCompletionKind.Keyword, start, prefix, keywords: ["FROM"] };
+        }
+
+        const last: IClauseKeyword = keywords[keywords.length - 1];
+        const clauseStart: number = last.offset + last.keyword.length;
+        const tokenIndex: number = prefixText.substring(clauseStart, start).trim().split(/\s+/).filter((s) => s).length;
+        switch (last.keyword) {
+            case "FROM":
+                return tokenIndex === 0
+                    ? { kind: RouteCompletionKind.Source, start, prefix, keywords: [] }
+                    : { kind: RouteCompletionKind.Keyword, start, prefix, keywords: ["WHERE", "INTO"] };
+            case "WHERE":
+                return { kind: RouteCompletionKind.Condition, start, prefix, keywords: ["INTO"] };
+            default:
+                const endpointMatch = /BrokeredEndpoint\s*\(\s*("|')([^"']*)$/i.exec(prefixText.substring(clauseStart));
+                if (endpointMatch) {
+                    const pathStart: number = offset - endpointMatch[2].length;
+                    return { kind: RouteCompletionKind.EndpointPath, start: pathStart, prefix: endpointMatch[2], keywords: [] };
+                }
+                return tokenIndex === 0
+                    ? { kind: RouteCompletionKind.Sink, start, prefix, keywords: [] }
+                    : { kind: RouteCompletionKind.Keyword, start, prefix, keywords: [] };
+        }
+    }
+
+    // Find the FROM, WHERE and INTO keywords which are not enclosed by quotes
+    private static findKeywords(text: string): IClauseKeyword[] {
+        const result: IClauseKeyword[] = [];
+        let quote: string;
+        let i = 0;
+        while (i < text.length) {
+            const ch: string = text.charAt(i);
+            if (quote) {
+                if (ch === quote) {
+                    quote = undefined;
+                }
+                i++;
+            } else if (ch === "\"" || ch === "'") {
+                quote = ch;
+                i++;
+            } else if (/[A-Za-z_$]/.test(ch)) {
+                const word: string = /^[\w$\-]+/.exec(text.substring(i))[0];
+                const upper: string = word.toUpperCase();
+                if (RouteParser.keywords.indexOf(upper) >= 0 && (i === 0 || /[\s)"']/.test(text.charAt(i - 1)))) {
+                    result.push({ keyword: upper, offset: i });
+                }
+                i += word.length;
+            } else {
+                i++;
+            }
+        }
+        return result;
+    }
+
+    private static parseSource(text: string, start: number, end: number, route: IRoute): void {
+        const offset: number = RouteParser.skipWhitespace(text, start);
+        const sourceText: string = text.substring(offset, end).trim();
+        if (!sourceText) {
+            route.errors.push({ message: "Missing route source after FROM", offset: start - "FROM".length, length: "FROM".length });
+            return;
+        }
+
+        if (/\s/.test(sourceText)) {
+            route.errors.push({ message: `Invalid route source '${sourceText}'`, offset, length: sourceText.length });
+            return;
+        }
+
+        const source: IRouteSource = { path: sourceText, offset, length: sourceText.length };
+        const moduleMatch = /^\/messages\/modules\/([^\/]+)\/(\*|outputs\/(\*|[^\/]+))$/.exec(sourceText);
+        if (moduleMatch) {
+            source.moduleId = moduleMatch[1];
+            source.moduleIdOffset = offset + "/messages/modules/".length;
+            if (moduleMatch[3] && moduleMatch[3] !== "*") {
+                source.output = moduleMatch[3];
+            }
+        } else if (["/*", "/messages/*", "/messages/modules/*", "/twinChangeNotifications"].indexOf(sourceText) < 0) {
+            route.errors.push({
+                message: `Invalid route source '${sourceText}'. Expected one of ${RouteParser.sourcePatterns.join(", ")}`,
+                offset,
+                length: sourceText.length,
+            });
+            return;
+        }
+        route.source = source;
+    }
+
+    private static parseSink(text: string, start: number, end: number, route: IRoute): void {
+        const offset: number = RouteParser.skipWhitespace(text, start);
+        const sinkText: string = text.substring(offset, end).replace(/\s+$/, "");
+        if (!sinkText) {
+            route.errors.push({ message: "Missing route sink after INTO", offset: start - "INTO".length, length: "INTO".length });
+            return;
+        }
+
+        if (sinkText.toLowerCase() === RouteParser.upstream.toLowerCase()) {
+            route.sink = { type: "upstream", offset, length: sinkText.length };
+            return;
+        }
+
+        const endpointMatch = /^BrokeredEndpoint\s*\(\s*("|')(.*)\1\s*\)$/i.exec(sinkText);
+        if (!endpointMatch) {
+            route.errors.push({
+                message: `Invalid route sink '${sinkText}'. Expected ${RouteParser.upstream} or ${RouteParser.brokeredEndpoint}("/modules/{moduleId}/inputs/{input}")`,
+                offset,
+                length: sinkText.length,
+            });
+            return;
+        }
+
+        const endpoint: string = endpointMatch[2];
+        const endpointOffset: number = offset + sinkText.indexOf(endpointMatch[1]) + 1;
+        const pathMatch = /^\/modules\/([^\/]+)\/inputs\/([^\/]+)$/.exec(endpoint);
+        if (!pathMatch) {
+            route.errors.push({
+                message: `Invalid endpoint '${endpoint}'. Expected /modules/{moduleId}/inputs/{input}`,
+                offset: endpointOffset,
+                length: endpoint.length,
+            });
+            return;
+        }
+
+        route.sink = {
+            type: "brokeredEndpoint",
+            offset,
+            length: sinkText.length,
+            moduleId: pathMatch[1],
+            moduleIdOffset: endpointOffset + "/modules/".length,
+            input: pathMatch[2],
+        };
+    }
+
+    private static parseCondition(text: string, start: number, end: number, route: IRoute): void {
+        const offset: number = RouteParser.skipWhitespace(text, start);
+        const conditionText: string = text.substring(offset, end).replace(/\s+$/, "");
+        if (!conditionText) {
+            route.errors.push({ message: "Missing condition after WHERE", offset: start - "WHERE".length, length: "WHERE".length });
+            return;
+        }
+
+        route.condition = { text: conditionText, offset, length: conditionText.length };
+        const tokens: IConditionToken[] = RouteParser.tokenizeCondition(conditionText, offset, route.errors);
+        if (route.errors.length > 0) {
+            return;
+        }
+
+        let position = 0;
+        const peek = (): IConditionToken => tokens[position];
+        const next = (): IConditionToken => tokens[position++];
+        const isWord = (token: IConditionToken, word: string): boolean => token.kind === "word" && token.text.toUpperCase() === word;
+        const fail = (token: IConditionToken, message: string): never => {
+            throw { message, offset: token.offset, length: Math.max(token.text.length, 1) } as IRouteError;
+        };
+
+        const parseOr = (): void => {
+            parseAnd();
+            while (isWord(peek(), "OR")) {
+                next();
+                parseAnd();
+            }
+        };
+        const parseAnd = (): void => {
+            parseNot();
+            while (isWord(peek(), "AND")) {
+                next();
+                parseNot();
+            }
+        };
+        const parseNot = (): void => {
+            if (isWord(peek(), "NOT")) {
+                next();
+                parseNot();
+            } else {
+                parseComparison();
+            }
+        };
+        const parseComparison = (): void => {
+            parseAdditive();
+            if (peek().kind === "operator" && ["=", "!=", "<>", "<", ">", "<=", ">="].indexOf(peek().text) >= 0) {
+                next();
+                parseAdditive();
+            }
+        };
+        const parseAdditive = (): void => {
+            parseMultiplicative();
+            while (peek().kind === "operator" && ["+", "-", "||"].indexOf(peek().text) >= 0) {
+                next();
+                parseMultiplicative();
+            }
+        };
+        const parseMultiplicative = (): void => {
+            parseUnary();
+            while (peek().kind === "operator" && ["*", "/", "%"].indexOf(peek().text) >= 0) {
+                next();
+                parseUnary();
+            }
+        };
+        const parseUnary = (): void => {
+            if (peek().kind === "operator" && peek().text === "-") {
+                next();
+            }
+            parsePrimary();
+        };
+        const parsePrimary = (): void => {
+            const token: IConditionToken = next();
+            switch (token.kind) {
+                case "string":
+                case "number":
+                    return;
+                case "punctuation":
+                    if (token.text === "(") {
+                        parseOr();
+                        if (peek().text !== ")") {
+                            fail(peek(), "Expected ')'");
+                        }
+                        next();
+                        return;
+                    }
+                    return fail(token, `Unexpected '${token.text}'`);
+                case "word":
+                    if (["AND", "OR", "NOT"].indexOf(token.text.toUpperCase()) >= 0) {
+                        return fail(token, `Unexpected ${token.text.toUpperCase()}`);
+                    }
+                    if (peek().text === "(") {
+                        if (RouteParser.functions.indexOf(token.text.toUpperCase()) < 0) {
+                            fail(token, `Unknown function '${token.text}'`);
+                        }
+                        next();
+                        if (peek().text !== ")") {
+                            parseOr();
+                            while (peek().text === ",") {
+                                next();
+                                parseOr();
+                            }
+                        }
+                        if (peek().text !== ")") {
+                            fail(peek(), "Expected ')'");
+                        }
+                        next();
+                        return;
+                    }
+                    while (peek().text === "." || peek().text === "[") {
+                        if (next().text === ".") {
+                            if (peek().kind !== "word") {
+                                fail(peek(), "Expected property name");
+                            }
+                            next();
+                        } else {
+                            parseOr();
+                            if (peek().text !== "]") {
+                                fail(peek(), "Expected ']'");
+                            }
+                            next();
+                        }
+                    }
+                    return;
+                case "eof":
+                    return fail(token, "Unexpected end of condition");
+                default:
+                    return fail(token, `Unexpected '${token.text}'`);
+            }
+        };
+
+        try {
+            parseOr();
+            if (peek().kind !== "eof") {
+                fail(peek(), `Unexpected '${peek().text}'`);
+            }
+        } catch (error) {
+            route.errors.push(error as IRouteError);
+        }
+    }
+
+    private static tokenizeCondition(text: string, baseOffset: number, errors: IRouteError[]): IConditionToken[] {
+        const tokens: IConditionToken[] = [];
+        let i = 0;
+        while (i < text.length) {
+            const ch: string = text.charAt(i);
+            const rest: string = text.substring(i);
+            const numberMatch = /^\d+(\.\d+)?([eE][+\-]?\d+)?/.exec(rest);
+            const wordMatch = /^\$[\w\-]+|^[A-Za-z_][\w]*/.exec(rest);
+            const operatorMatch = /^(<>|!=|<=|>=|\|\||[=<>+\-*\/%])/.exec(rest);
+            if (/\s/.test(ch)) {
+                i++;
+                continue;
+            } else if (ch === "'" || ch === "\"") {
+                const close: number = text.indexOf(ch, i + 1);
+                if (close < 0) {
+                    errors.push({ message: "Unterminated string literal", offset: baseOffset + i, length: text.length - i });
+                    return tokens;
+                }
+                tokens.push({ kind: "string", text: text.substring(i, close + 1), offset: baseOffset + i });
+                i = close + 1;
+                continue;
+            } else if (numberMatch) {
+                tokens.push({ kind: "number", text: numberMatch[0], offset: baseOffset + i });
+            } else if (wordMatch) {
+                tokens.push({ kind: "word", text: wordMatch[0], offset: baseOffset + i });
+            } else if (operatorMatch) {
+                tokens.push({ kind: "operator", text: operatorMatch[0], offset: baseOffset + i });
+            } else if ("().,[]".indexOf(ch) >= 0) {
+                tokens.push({ kind: "punctuation", text: ch, offset: baseOffset + i });
+            } else {
+                errors.push({ message: `Unexpected character '${ch}'`, offset: baseOffset + i, length: 1 });
+                return tokens;
+            }
+            i += tokens[tokens.length - 1].text.length;
+        }
+        tokens.push({ kind: "eof", text: "", offset: baseOffset + text.length });
+        return tokens;
+    }
+
+    private static skipWhitespace(text: string, offset: number): number {
+        while (offset < text.length && /\s/.test(text.charAt(offset))) {
+            offset++;
+        }
+        return offset;
+    }
+
+    private static readUntilWhitespace(text: string, offset: number): string {
+        const match = /^\S*/.exec(text.substring(offset));
+        return match ? match[0] : "";
+    }
+}
@@ -2,16 +2,18 @@
 // Licensed under the MIT license.
 
 "use strict";
-import * as dotenv from "dotenv";
 import * as fse from "fs-extra";
 import * as isPortReachable from "is-port-reachable";
 import * as os from "os";
 import * as path from "path";
 import * as vscode from "vscode";
+import { EnvProfiles } from "../core/envProfiles";
+import { IEnvironment, ManifestGenerator } from "../core/manifestGenerator";
 import { AzureSession } from "../typings/azure-account.api";
 import { IDeviceItem } from "../typings/IDeviceItem";
 import { BuildSettings } from "./buildSettings";
 import { Constants, ContainerState } from "./constants";
+import { CredentialStore } from "./credentialStore";
 import { Executor } from "./executor";
 import { Platform } from "./platform";
 import { TelemetryClient } from "./telemetryClient";
@@ -47,6 +49,17 @@ export class Utility {
         await Utility.getConfiguration().update(id, value, false);
     }
 
+    // The active environment profile of a solution is set for the workspace folder of the solution, e.g. "prod" for .env.prod
+    public static getEnvProfile(slnPath: string): string {
+        return vscode.workspace.getConfiguration("azure-iot-edge", vscode.Uri.file(slnPath)).get<string>(Constants.envProfileConfig) || undefined;
+    }
+
+    public static async setEnvProfile(folder: vscode.WorkspaceFolder, profile: string): Promise<void> {
+        const target: vscode.ConfigurationTarget = vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 1 ?
+            vscode.ConfigurationTarget.WorkspaceFolder : vscode.ConfigurationTarget.Workspace;
+        await vscode.workspace.getConfiguration("azure-iot-edge", folder.uri).update(Constants.envProfileConfig, profile || undefined, target);
+    }
+
     public static adjustFilePath(filePath: string): string {
         if (os.platform() === "win32") {
             const windowsShell = vscode.workspace.getConfiguration("terminal").get<string>("integrated.shell.windows");
@@ -181,49 +194,20 @@ export class Utility {
         });
     }
 
-    public static expandEnv(input: string, ...exceptKeys: string[]): string {
-        const pattern: RegExp = new RegExp(/\$([a-zA-Z0-9_]+)|\${([a-zA-Z0-9_]+)}/g);
-        const exceptSet: Set<string> = new Set(exceptKeys);
-        return input.replace(pattern, (matched) => {
-            if (exceptKeys && exceptSet.has(matched)) {
-                return matched;
-            }
-            const key: string = matched.replace(/\$|{|}/g, "");
-            return process.env[key] || matched;
-        });
+    public static expandEnv(input: string, env: IEnvironment, ...exceptKeys: string[]): string {
+        return ManifestGenerator.expandEnv(input, env, ...exceptKeys);
     }
 
-    public static async readJsonAndExpandEnv(filePath: string, ...exceptKeys: string[]): Promise<any> {
-        const content: string = await fse.readFile(filePath, "utf8");
-        const expandedContent = Utility.expandEnv(content, ...exceptKeys);
-        return JSON.parse(expandedContent);
+    public static async readJsonAndExpandEnv(filePath: string, env: IEnvironment, ...exceptKeys: string[]): Promise<any> {
+        return ManifestGenerator.readJsonAndExpandEnv(filePath, env, ...exceptKeys);
     }
 
     public static expandModules(input: string, moduleMap: Map<string, string>): string {
-        return input.replace(Constants.imagePlaceholderPattern, (matched) => {
-            const key: string = matched.replace(/\$|{|}/g, "");
-            if (moduleMap.has(key)) {
-                const value: string = moduleMap.get(key);
-                return value;
-            } else {
-                return matched;
-            }
-        });
+        return ManifestGenerator.expandModules(input, moduleMap);
     }
 
     public static async getSubDirectories(parentPath: string): Promise<string[]> {
-        const filesAndDirs = await fse.readdir(parentPath);
-        const directories = [];
-        await Promise.all(
-            filesAndDirs.map(async (name) => {
-                const subPath = path.join(parentPath, name);
-                const stat: fse.Stats = await fse.stat(subPath);
-                if (stat.isDirectory()) {
-                    directories.push(subPath);
-                }
-            }),
-        );
-        return directories;
+        return ManifestGenerator.getSubDirectories(parentPath);
     }
 
     public static getValidModuleName(moduleFolderName: string): string {
@@ -232,15 +216,15 @@ export class Utility {
     }
 
     public static getModuleKey(name: string, platform: string): string {
-        return `MODULES.${name}.${platform}`;
+        return ManifestGenerator.getModuleKey(name, platform);
     }
 
     public static getModuleKeyNoPlatform(name: string, isDebug: boolean): string {
-        return isDebug ? `MODULES.${name}.debug` : `MODULES.${name}`;
+        return ManifestGenerator.getModuleKeyNoPlatform(name, isDebug);
     }
 
     public static getImage(repo: string, version: string, platform: string): string {
-        return `${repo}:${version}-${platform}`;
+        return ManifestGenerator.getImage(repo, version, platform);
     }
 
     public static async showInputBox(plcHolder: string,
@@ -265,20 +249,10 @@ export class Utility {
     }
 
     public static async setSlnModulesMap(slnPath: string,
+                                         env: IEnvironment,
                                          moduleToImageMap: Map<string, string>,
                                          imageToBuildSettings?: Map<string, BuildSettings>): Promise<void> {
-        const modulesPath: string = path.join(slnPath, Constants.moduleFolder);
-        const stat: fse.Stats = await fse.lstat(modulesPath);
-        if (!stat.isDirectory()) {
-            throw new Error("no modules folder");
-        }
-
-        const moduleDirs: string[] = await Utility.getSubDirectories(modulesPath);
-        await Promise.all(
-            moduleDirs.map(async (module) => {
-                await this.setModuleMap(module, moduleToImageMap, imageToBuildSettings);
-            }),
-        );
+        await ManifestGenerator.setSlnModulesMap(slnPath, Platform.getDefaultPlatform().platform, env, moduleToImageMap, imageToBuildSettings);
     }
 
     public static getBuildSettings(
@@ -286,41 +260,14 @@ export class Utility {
         dockerFilePath: string,
         buildOptions?: string[],
         contextPath?: string): BuildSettings {
-        const optionArray = (buildOptions && buildOptions instanceof Array) ? buildOptions : undefined;
-        const context = contextPath ? path.resolve(modulePath, contextPath) : path.dirname(dockerFilePath);
-        return new BuildSettings(dockerFilePath, context, optionArray);
+        return ManifestGenerator.getBuildSettings(modulePath, dockerFilePath, buildOptions, contextPath);
     }
 
     public static async setModuleMap(modulePath: string,
+                                     env: IEnvironment,
                                      moduleToImageMap: Map<string, string>,
                                      imageToBuildSettings?: Map<string, BuildSettings>): Promise<void> {
-        const moduleFile = path.join(modulePath, Constants.moduleManifest);
-        const name: string = path.basename(modulePath);
-        if (await fse.pathExists(moduleFile)) {
-            const module = await Utility.readJsonAndExpandEnv(moduleFile, Constants.moduleSchemaVersion);
-            const platformKeys: string[] = Object.keys(module.image.tag.platforms);
-            const repo: string = module.image.repository;
-            const version: string = module.image.tag.version;
-            platformKeys.map((platform) => {
-                const moduleKey: string = Utility.getModuleKey(name, platform);
-                const image: string = Utility.getImage(repo, version, platform);
-                moduleToImageMap.set(moduleKey, image);
-                if (imageToBuildSettings !== undefined) {
-                    const dockerFilePath = path.resolve(modulePath, module.image.tag.platforms[platform]);
-                    imageToBuildSettings.set(
-                        image,
-                        Utility.getBuildSettings(modulePath,
-                            dockerFilePath, module.image.buildOptions, module.image.contextPath));
-                }
-
-                const defaultPlatform: Platform = Platform.getDefaultPlatform();
-                if (platform === defaultPlatform.platform) {
-                    moduleToImageMap.set(Utility.getModuleKeyNoPlatform(name, false), image);
-                } else if (platform === `${defaultPlatform.platform}.debug`) {
-                    moduleToImageMap.set(Utility.getModuleKeyNoPlatform(name, true), image);
-                }
-            });
-        }
+        await ManifestGenerator.setModuleMap(modulePath, Platform.getDefaultPlatform().platform, env, moduleToImageMap, imageToBuildSettings);
     }
 
     // Remove the wrapping "${" and "}" of a image placeholder
@@ -332,22 +279,22 @@ export class Utility {
         return undefined;
     }
 
-    public static async loadEnv(envFilePath: string) {
-        try {
-            const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(envFilePath));
-            if (!workspaceFolder) {
-                return;
-            }
-            const directory = path.dirname(envFilePath);
-            // Check whether .env file is in the root folder of solution
-            if (await fse.pathExists(path.join(directory, Constants.deploymentTemplate)) && await fse.pathExists(envFilePath)) {
+    // The variables of a solution: the environment, overridden by .env and the .env file of the environment profile, which is the
+    // active one unless given, and the secrets of the credential store. process.env is never changed, so the solutions of a workspace
+    // don't share variables.
+    public static async loadEnv(slnPath: string, withSecrets: boolean = true, profile: string = Utility.getEnvProfile(slnPath)): Promise<IEnvironment> {
+        let env: IEnvironment = Object.assign({}, process.env);
+        // Check whether the solution is in the workspace
+        if (vscode.workspace.getWorkspaceFolder(vscode.Uri.file(slnPath)) && await fse.pathExists(path.join(slnPath, Constants.deploymentTemplate))) {
+            if (await fse.pathExists(EnvProfiles.getEnvFile(slnPath))) {
                 TelemetryClient.sendEvent("envFileDetected");
-                const envConfig = dotenv.parse(await fse.readFile(envFilePath));
-                for (const k of Object.keys(envConfig)) {
-                    process.env[k] = envConfig[k];
-                }
             }
-        } catch (error) { }
+            env = await EnvProfiles.load(slnPath, profile, env);
+        }
+        if (withSecrets) {
+            await CredentialStore.loadSecrets(slnPath, env);
+        }
+        return env;
     }
 
     public static async initLocalRegistry(images: string[]) {
@@ -466,65 +413,17 @@ export class Utility {
     }
 
     public static convertCreateOptions(deployment: any): any {
-        if (deployment) {
-            const moduleProperties = deployment.modulesContent.$edgeAgent["properties.desired"];
-            const systemModules = moduleProperties.systemModules;
-            if (systemModules) {
-                moduleProperties.systemModules = Utility.serializeCreateOptionsForEachModule(systemModules);
-            }
-            const modules = moduleProperties.modules;
-            if (modules) {
-                moduleProperties.modules = Utility.serializeCreateOptionsForEachModule(modules);
-            }
-        }
-
-        return deployment;
+        return ManifestGenerator.convertCreateOptions(deployment);
     }
 
     // Temp utility to sovle the compatibale issue because of the schema change in IoT Hub Service.
     // moduleContent -> modulesContent
     public static updateSchema(deployment: any): any {
-        if (deployment && deployment.moduleContent) {
-            deployment.modulesContent = deployment.moduleContent;
-            delete deployment.moduleContent;
-        }
-        return deployment;
+        return ManifestGenerator.updateSchema(deployment);
     }
 
     public static serializeCreateOptions(settings: any, createOptions: any): any {
-        let optionStr: string;
-        if (typeof createOptions === "string") {
-            optionStr = createOptions;
-        } else {
-            optionStr = JSON.stringify(createOptions);
-        }
-        const re = new RegExp(`(.|[\r\n]){1,${Constants.TwinValueMaxSize}}`, "g");
-        const options = optionStr.match(re);
-        if (options.length > Constants.TwinValueMaxChunks) {
-            throw new Error(`Size of createOptions of ${settings.image} is too big. The maximum size of createOptions is 4K`);
-        }
-        options.map((value, index) => {
-            if (index === 0) {
-                settings.createOptions = value;
-            } else {
-                const formattedNumber = (`0${index}`).slice(-2);
-                settings[`createOptions${formattedNumber}`] = value;
-            }
-        });
-
-        return settings;
-    }
-
-    private static serializeCreateOptionsForEachModule(modules: any): any {
-        for (const key in modules) {
-            if (modules.hasOwnProperty(key)) {
-                const moduleVar = modules[key];
-                if (moduleVar.settings && moduleVar.settings.createOptions) {
-                    moduleVar.settings = Utility.serializeCreateOptions(moduleVar.settings, moduleVar.settings.createOptions);
-                }
-            }
-        }
-        return modules;
+        return ManifestGenerator.serializeCreateOptions(settings, createOptions);
     }
 
     private static getLocalRegistryState(): ContainerState {
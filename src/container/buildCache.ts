@@ -0,0 +1,125 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as crypto from "crypto";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { BuildSettings } from "../common/buildSettings";
+
+interface IBuildCacheEntry {
+    hash: string;
+    pushed: boolean;
+}
+
+// Content hashes of the images built from the solution. An image is only rebuilt when the files
+// of its build context, its Dockerfile or its build options change.
+export class BuildCache {
+    public static async load(cacheFile: string): Promise<BuildCache> {
+        const cache = new BuildCache(cacheFile);
+        try {
+            cache.entries = await fse.readJson(cacheFile);
+        } catch (error) { }
+        return cache;
+    }
+
+    public static async computeHash(image: string, buildSettings: BuildSettings): Promise<string> {
+        const hash: crypto.Hash = crypto.createHash("sha256");
+        hash.update(`${image}\n${(buildSettings.options || []).join(" ")}\n`);
+        hash.update(await fse.readFile(buildSettings.dockerFile));
+
+        const ignorePatterns: Array<{ regex: RegExp, exclude: boolean }> = await BuildCache.readDockerIgnore(buildSettings.contextPath);
+        const files: string[] = await BuildCache.listFiles(buildSettings.contextPath, "", ignorePatterns);
+        for (const file of files.sort()) {
+            hash.update(`\n${file}\n`);
+            hash.update(await fse.readFile(path.join(buildSettings.contextPath, file)));
+        }
+        return hash.digest("hex");
+    }
+
+    // Files excluded by .dockerignore are not sent to docker, so they do not invalidate the image
+    private static async readDockerIgnore(contextPath: string): Promise<Array<{ regex: RegExp, exclude: boolean }>> {
+        const ignoreFile: string = path.join(contextPath, ".dockerignore");
+        if (!await fse.pathExists(ignoreFile)) {
+            return [];
+        }
+
+        const content: string = await fse.readFile(ignoreFile, "utf8");
+        return content.split(/\r?\n/)
+            .map((line) => line.trim())
+            .filter((line) => line && !line.startsWith("#"))
+            .map((line) => {
+                const exclude: boolean = !line.startsWith("!");
+                const pattern: string = (exclude ? line : line.substr(1)).trim().replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+                const source: string = pattern.split(/(\*\*|\*|\?)/).map((part) => {
+                    switch (part) {
+                        case "**":
+                            return ".*";
+                        case "*":
+                            return "[^/]*";
+                        case "?":
+                            return "[^/]";
+                        default:
+                            return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+                    }
+                }).join("");
+                return { regex: new RegExp(`^${source}(/.*)?$`), exclude };
+            });
+    }
+
+    private static isIgnored(relativePath: string, ignorePatterns: Array<{ regex: RegExp, exclude: boolean }>): boolean {
+        let ignored: boolean = false;
+        for (const pattern of ignorePatterns) {
+            if (pattern.regex.test(relativePath)) {
+                ignored = pattern.exclude;
+            }
+        }
+        return ignored;
+    }
+
+    private static async listFiles(contextPath: string, relativeDir: string, ignorePatterns: Array<{ regex: RegExp, exclude: boolean }>): Promise<string[]> {
+        const files: string[] = [];
+        for (const name of await fse.readdir(path.join(contextPath, relativeDir))) {
+            const relativePath: string = relativeDir ? `${relativeDir}/${name}` : name;
+            const stat: fse.Stats = await fse.stat(path.join(contextPath, relativePath));
+            if (stat.isDirectory()) {
+                // an ignored directory could still contain files re-included by a "!" pattern
+                if (!BuildCache.isIgnored(relativePath, ignorePatterns) || ignorePatterns.some((pattern) => !pattern.exclude)) {
+                    files.push(...await BuildCache.listFiles(contextPath, relativePath, ignorePatterns));
+                }
+            } else if (!BuildCache.isIgnored(relativePath, ignorePatterns)) {
+                files.push(relativePath);
+            }
+        }
+        return files;
+    }
+
+    private entries: { [image: string]: IBuildCacheEntry } = {};
+    private readonly cacheFile: string;
+
+    private constructor(cacheFile: string) {
+        this.cacheFile = cacheFile;
+    }
+
+    public isBuilt(image: string, hash: string): boolean {
+        const entry: IBuildCacheEntry = this.entries[image];
+        return entry !== undefined && entry.hash === hash;
+    }
+
+    public isPushed(image: string, hash: string): boolean {
+        return this.isBuilt(image, hash) && this.entries[image].pushed;
+    }
+
+    public setBuilt(image: string, hash: string): void {
+        this.entries[image] = { hash, pushed: false };
+    }
+
+    public setPushed(image: string, hash: string): void {
+        this.entries[image] = { hash, pushed: true };
+    }
+
+    public async save(): Promise<void> {
+        await fse.ensureDir(path.dirname(this.cacheFile));
+        await fse.writeFile(this.cacheFile, JSON.stringify(this.entries, null, 2), { encoding: "utf8" });
+    }
+}
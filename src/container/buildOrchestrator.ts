@@ -0,0 +1,113 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as vscode from "vscode";
+import { BuildSettings } from "../common/buildSettings";
+import { Executor } from "../common/executor";
+import { DockerCommand } from "../core/dockerCommand";
+import { BuildCache } from "./buildCache";
+import { PrefixedOutputChannel } from "./prefixedOutputChannel";
+
+export enum BuildStatus {
+    Succeeded,
+    Skipped,
+    Failed,
+}
+
+export interface IBuildResult {
+    image: string;
+    status: BuildStatus;
+    duration: number;
+    error?: string;
+}
+
+// Build (and push) module images as child processes. Images are built in parallel up to the given concurrency,
+// and the images whose build context has not changed since the last successful build are skipped.
+export class BuildOrchestrator {
+    private readonly outputChannel: vscode.OutputChannel;
+    private readonly concurrency: number;
+
+    constructor(outputChannel: vscode.OutputChannel, concurrency: number) {
+        this.outputChannel = outputChannel;
+        this.concurrency = Math.max(1, Math.floor(concurrency) || 1);
+    }
+
+    public async build(buildMap: Map<string, BuildSettings>, push: boolean, cacheFile: string,
+                       progress?: vscode.Progress<{ message?: string }>): Promise<IBuildResult[]> {
+        const cache: BuildCache = await BuildCache.load(cacheFile);
+        const queue: Array<[string, BuildSettings]> = [...buildMap.entries()];
+        const results: IBuildResult[] = [];
+        const reportProgress = () => {
+            if (progress) {
+                progress.report({ message: `${results.length}/${buildMap.size} images done` });
+            }
+        };
+        reportProgress();
+
+        const workers: Array<Promise<void>> = [];
+        for (let i = 0; i < Math.min(this.concurrency, queue.length); i++) {
+            workers.push((async () => {
+                while (queue.length > 0) {
+                    const [image, buildSettings] = queue.shift();
+                    results.push(await this.buildImage(image, buildSettings, push, cache));
+                    reportProgress();
+                }
+            })());
+        }
+        await Promise.all(workers);
+
+        await cache.save();
+        this.showSummary(results);
+        return results;
+    }
+
+    private async buildImage(image: string, buildSettings: BuildSettings, push: boolean, cache: BuildCache): Promise<IBuildResult> {
+        const start: number = Date.now();
+        // the lines of the images built in parallel are prefixed with the image
+        const outputChannel: PrefixedOutputChannel = this.concurrency > 1 ? new PrefixedOutputChannel(this.outputChannel, image) : undefined;
+        try {
+            const hash: string = await BuildCache.computeHash(image, buildSettings);
+            const built: boolean = cache.isBuilt(image, hash) && await this.imageExists(image);
+            if (built && (!push || cache.isPushed(image, hash))) {
+                return { image, status: BuildStatus.Skipped, duration: Date.now() - start };
+            }
+
+            if (!built) {
+                await Executor.executeCMD(outputChannel || this.outputChannel, DockerCommand.constructBuildCmd(image, buildSettings), { shell: true });
+                cache.setBuilt(image, hash);
+            }
+            if (push) {
+                await Executor.executeCMD(outputChannel || this.outputChannel, DockerCommand.constructPushCmd(image), { shell: true });
+                cache.setPushed(image, hash);
+            }
+            return { image, status: BuildStatus.Succeeded, duration: Date.now() - start };
+        } catch (error) {
+            return { image, status: BuildStatus.Failed, duration: Date.now() - start, error: error.message };
+        } finally {
+            if (outputChannel) {
+                outputChannel.flush();
+            }
+        }
+    }
+
+    // The image could have been removed after it was built
+    private async imageExists(image: string): Promise<boolean> {
+        try {
+            await Executor.execAsync(`docker image inspect ${image} --format="{{.Id}}"`);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private showSummary(results: IBuildResult[]): void {
+        this.outputChannel.appendLine("");
+        this.outputChannel.appendLine("Build summary:");
+        for (const result of results) {
+            const detail: string = result.status === BuildStatus.Skipped ? "unchanged" : `${(result.duration / 1000).toFixed(1)}s`;
+            const error: string = result.error ? `: ${result.error}` : "";
+            this.outputChannel.appendLine(`  [${BuildStatus[result.status].toLowerCase()}] ${result.image} (${detail})${error}`);
+        }
+    }
+}
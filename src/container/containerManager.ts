@@ -3,13 +3,29 @@
 
 "use strict";
 import * as fse from "fs-extra";
+import * as os from "os";
 import * as path from "path";
+import * as stripJsonComments from "strip-json-comments";
 import * as vscode from "vscode";
 import { BuildSettings } from "../common/buildSettings";
 import { Constants } from "../common/constants";
 import { Executor } from "../common/executor";
 import { Platform } from "../common/platform";
+import { TelemetryClient } from "../common/telemetryClient";
+import { UserCancelledError } from "../common/UserCancelledError";
 import { Utility } from "../common/utility";
+import { DebugConfigurationBuilder } from "../core/debugConfigurationBuilder";
+import { DockerCommand } from "../core/dockerCommand";
+import { EnvProfiles } from "../core/envProfiles";
+import { ImageLock } from "../core/imageLock";
+import { JsonEditor } from "../core/jsonEditor";
+import { IManifestChange, ManifestDiff } from "../core/manifestDiff";
+import { IDeploymentInfo, IEnvironment, ManifestGenerator } from "../core/manifestGenerator";
+import { ModuleRemover } from "../core/moduleRemover";
+import { ISimulatorContainer, SimulatorContainers } from "../core/simulatorContainers";
+import { VersionBumper } from "../core/versionBumper";
+import { BuildOrchestrator, BuildStatus, IBuildResult } from "./buildOrchestrator";
+import { SimulatorContainerProvider } from "./simulatorContainerProvider";
 
 export class ContainerManager {
     public async buildModuleImage(fileUri?: vscode.Uri, pushImage: boolean = false) {
@@ -18,8 +34,8 @@ export class ContainerManager {
 
         if (moduleConfigFilePath) {
             const directory = path.dirname(moduleConfigFilePath);
-            await Utility.loadEnv(path.join(directory, "..", "..", Constants.envFile));
-            const moduleConfig = await Utility.readJsonAndExpandEnv(moduleConfigFilePath, Constants.moduleSchemaVersion);
+            const env: IEnvironment = await Utility.loadEnv(path.join(directory, "..", ".."));
+            const moduleConfig = await Utility.readJsonAndExpandEnv(moduleConfigFilePath, env, Constants.moduleSchemaVersion);
             const platforms = moduleConfig.image.tag.platforms;
             const platform = await vscode.window.showQuickPick(Object.keys(platforms), { placeHolder: Constants.selectPlatform, ignoreFocusOut: true });
             if (platform) {
@@ -38,7 +54,7 @@ export class ContainerManager {
         }
     }
 
-    public async buildSolution(templateUri?: vscode.Uri, push: boolean = true, run: boolean = false): Promise<void> {
+    public async buildSolution(outputChannel: vscode.OutputChannel, templateUri?: vscode.Uri, push: boolean = true, run: boolean = false): Promise<void> {
         const pattern = `{${Constants.tsonPattern}}`;
         const templateFile: string = await Utility.getInputFilePath(templateUri,
             pattern,
@@ -47,15 +63,66 @@ export class ContainerManager {
         if (!templateFile) {
             return;
         }
-        const deployFile = await this.createDeploymentFile(templateFile, true, push, run);
-        vscode.window.showInformationMessage(`Deployment manifest generated at ${deployFile}. Module images are being built`);
+        await this.createDeploymentFile(templateFile, outputChannel, true, push, run);
+    }
+
+    public async buildSolutionForPlatforms(outputChannel: vscode.OutputChannel, templateUri?: vscode.Uri): Promise<void> {
+        const pattern = `{${Constants.tsonPattern}}`;
+        const templateFile: string = await Utility.getInputFilePath(templateUri,
+            pattern,
+            Constants.deploymentTemplateDesc,
+            `${Constants.buildSolutionForPlatformsEvent}.selectTemplate`);
+        if (!templateFile) {
+            return;
+        }
+
+        const slnPath: string = path.dirname(templateFile);
+        const env: IEnvironment = await Utility.loadEnv(slnPath);
+        const platforms: string[] = await this.selectPlatforms(slnPath, env);
+        const action: string = await vscode.window.showQuickPick(
+            [Constants.buildOnly, Constants.buildAndPush, Constants.buildPushAndPublishManifestList],
+            { placeHolder: "Select how to publish the module images", ignoreFocusOut: true });
+        if (!action) {
+            throw new UserCancelledError();
+        }
+        const push: boolean = action !== Constants.buildOnly;
+        TelemetryClient.sendEvent(`${Constants.buildSolutionForPlatformsEvent}.selectPlatforms`, { platforms: platforms.join(","), action });
+
+        // generate all the deployment manifests before building, so that an invalid platform fails fast
+        const buildMap: Map<string, BuildSettings> = new Map();
+        const imageToPlatform: Map<string, string> = new Map();
+        const manifestFiles: string[] = [];
+        for (const platform of platforms) {
+            const imageToBuildSettings: Map<string, BuildSettings> = new Map();
+            const deployment: IDeploymentInfo = await this.generateDeploymentForPlatform(templateFile, platform, env, imageToBuildSettings);
+            if (manifestFiles.indexOf(deployment.manifestFile) >= 0) {
+                throw new Error(`Deployment manifests of different platforms are all generated at ${deployment.manifestFile}. `
+                    + `Please set ${Constants.SchemaTemplate} of the deployment template to 1.0.0 or later`);
+            }
+            const placeholders: string[] = JSON.stringify(deployment.manifestObj).match(Constants.imagePlaceholderPattern);
+            if (placeholders) {
+                throw new Error(`Images of ${placeholders.join(", ")} are not defined for platform ${platform}`);
+            }
+            manifestFiles.push(deployment.manifestFile, ...deployment.overlays.map((overlay) => overlay.manifestFile));
+            ManifestGenerator.getBuildMap(deployment, imageToBuildSettings).forEach((buildSettings, image) => {
+                buildMap.set(image, buildSettings);
+                imageToPlatform.set(image, platform);
+            });
+        }
+
+        const results: IBuildResult[] = await this.buildImages(outputChannel, buildMap, push, slnPath);
+        let message: string = `Deployment manifests generated at ${manifestFiles.join(", ")}. ${this.getBuildSummary(results, push)}`;
+        if (action === Constants.buildPushAndPublishManifestList) {
+            const manifestLists: string[] = await this.publishManifestLists(outputChannel, imageToPlatform);
+            message += `. Multi-arch manifest list(s) published: ${manifestLists.join(", ")}`;
+        }
+        vscode.window.showInformationMessage(message);
     }
 
     public async runSolution(deployFileUri?: vscode.Uri, commands: string[] = []): Promise<void> {
-        const pattern = "{**/deployment.*.json,**/deployment.json,**/deployment.*.debug.json,**/config/*.json}";
         const excludePattern = `{${Constants.tsonPattern}}`;
         const deployFile: string = await Utility.getInputFilePath(deployFileUri,
-            pattern,
+            Constants.deploymentManifestPattern,
             Constants.deploymentFileDesc,
             `${Constants.runSolutionEvent}.selectDeploymentFile`,
             excludePattern);
@@ -67,7 +134,146 @@ export class ContainerManager {
         Executor.runInTerminal(Utility.combineCommands(commands), this.getRunCmdTerminalTitle());
     }
 
+    // Show the semantic diff of a deployment manifest and another manifest, the manifest at a git revision,
+    // or the manifest which the deployment template generates now
+    public async compareDeployment(deployFileUri?: vscode.Uri): Promise<void> {
+        const deployFile: string = await Utility.getInputFilePath(deployFileUri,
+            Constants.deploymentManifestPattern,
+            Constants.deploymentFileDesc,
+            `${Constants.compareDeploymentEvent}.selectDeploymentFile`,
+            `{${Constants.tsonPattern}}`);
+        if (!deployFile) {
+            return;
+        }
+
+        const source: string = await vscode.window.showQuickPick([Constants.compareWithTemplate, Constants.compareWithRevision, Constants.compareWithFile],
+            { placeHolder: `Compare ${path.basename(deployFile)} with`, ignoreFocusOut: true });
+        if (!source) {
+            throw new UserCancelledError();
+        }
+        TelemetryClient.sendEvent(`${Constants.compareDeploymentEvent}.selectSource`, { source });
+
+        const deployJson = await fse.readJson(deployFile);
+        let oldManifest: any = deployJson;
+        let newManifest: any;
+        let oldLabel: string = deployFile;
+        let newLabel: string;
+        if (source === Constants.compareWithTemplate) {
+            const generated = await this.generateManifestInMemory(deployFile);
+            newManifest = generated.manifestObj;
+            newLabel = `${generated.templateFile} (generated now)`;
+        } else if (source === Constants.compareWithRevision) {
+            const revision: string = await Utility.showInputBox("branch, tag or commit", `The git revision to compare ${path.basename(deployFile)} with`);
+            // a revision starting with - would be taken as an option of git
+            if (!revision || revision.startsWith("-")) {
+                throw new Error(`Invalid git revision '${revision}'`);
+            }
+            const content: string = await Executor.execFileAsync("git", ["show", `${revision}:./${path.basename(deployFile)}`], path.dirname(deployFile));
+            oldManifest = JSON.parse(content);
+            oldLabel = `${deployFile} at ${revision}`;
+            newManifest = deployJson;
+            newLabel = deployFile;
+        } else {
+            const otherFile: string = await Utility.getInputFilePath(undefined,
+                Constants.deploymentManifestPattern,
+                Constants.deploymentFileDesc,
+                `${Constants.compareDeploymentEvent}.selectOtherDeploymentFile`,
+                `{${Constants.tsonPattern}}`);
+            if (!otherFile) {
+                throw new UserCancelledError();
+            }
+            newManifest = await fse.readJson(otherFile);
+            newLabel = otherFile;
+        }
+
+        const changes: IManifestChange[] = ManifestDiff.compare(oldManifest, newManifest);
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({
+            language: "markdown",
+            content: ManifestDiff.toMarkdown(changes, oldLabel, newLabel),
+        });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    // Build the amd64.debug image of a module, run the debug deployment manifest in the simulator, wait for the debug port
+    // of the module container, then attach the debugger of the module language
+    public async debugModuleInSimulator(outputChannel: vscode.OutputChannel, fileUri?: vscode.Uri): Promise<void> {
+        const moduleConfigFilePath: string = await Utility.getInputFilePath(fileUri, Constants.moduleConfigFileNamePattern, Constants.moduleConfigFile,
+            `${Constants.debugModuleInSimulatorEvent}.selectModuleConfigFile`);
+        if (!moduleConfigFilePath) {
+            return;
+        }
+
+        const modulePath: string = path.dirname(moduleConfigFilePath);
+        const moduleFolder: string = path.basename(modulePath);
+        const slnPath: string = path.resolve(modulePath, "..", "..");
+        const templateFile: string = path.join(slnPath, Constants.deploymentDebugTemplate);
+        if (!await fse.pathExists(templateFile)) {
+            throw new Error(`${Constants.deploymentDebugTemplate} is not found in ${slnPath}`);
+        }
+        const templateJson: any = Utility.updateSchema(await fse.readJson(templateFile));
+        const moduleName: string = Object.keys(templateJson.modulesContent.$edgeAgent["properties.desired"].modules || {})
+            .find((name) => ModuleRemover.getModuleFolder(templateJson, name) === moduleFolder);
+        if (!moduleName) {
+            throw new Error(`No module of ${Constants.deploymentDebugTemplate} uses the image of the module folder '${moduleFolder}'`);
+        }
+        const language: string = await DebugConfigurationBuilder.getLanguage(modulePath);
+        if (!DebugConfigurationBuilder.getLaunchTemplateFile(language)) {
+            throw new Error(`The language of module '${moduleName}' is unknown. Set "language" of ${Constants.moduleManifest}, e.g. "csharp" or "python"`);
+        }
+        TelemetryClient.sendEvent(`${Constants.debugModuleInSimulatorEvent}.selectModule`, { language });
+
+        // only the image of the module is built
+        const env: IEnvironment = await Utility.loadEnv(slnPath);
+        const imageToBuildSettings: Map<string, BuildSettings> = new Map();
+        const deployment: IDeploymentInfo = await this.generateDeploymentForPlatform(templateFile, Constants.simulatorDebugPlatform, env, imageToBuildSettings);
+        const image: string = deployment.manifestObj.modulesContent.$edgeAgent["properties.desired"].modules[moduleName].settings.image;
+        if (!imageToBuildSettings.has(image)) {
+            throw new Error(`The image ${image} of module '${moduleName}' is not defined for platform ${Constants.simulatorDebugPlatform}.debug`);
+        }
+        await this.buildImages(outputChannel, new Map([[image, imageToBuildSettings.get(image)]]), false, slnPath);
+
+        // the containers are recreated when the simulator starts, so the containers running before are ignored
+        const previousIds: string[] = (await SimulatorContainerProvider.listContainers()).map((container) => container.id);
+        await this.runSolution(vscode.Uri.file(deployment.manifestFile));
+
+        const containerPort: number = DebugConfigurationBuilder.debugPorts[language];
+        const hostPort: number = containerPort ? DebugConfigurationBuilder.getHostPort(templateJson, moduleName, containerPort) || containerPort : undefined;
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Starting module '${moduleName}' in IoT Edge Simulator`,
+            cancellable: true,
+        }, async (progress, token) => {
+            const isCancelled = () => token.isCancellationRequested;
+            if (!await SimulatorContainerProvider.waitForContainer(moduleName, previousIds, Constants.debugModuleTimeout, isCancelled)) {
+                throw new Error(`Container of module '${moduleName}' is not running. See the terminal of the simulator for details`);
+            }
+            if (hostPort) {
+                progress.report({ message: `Waiting for debug port ${hostPort}` });
+                if (!await SimulatorContainers.waitFor(() => SimulatorContainers.canConnect(hostPort), Constants.debugModuleTimeout, Constants.simulatorPollInterval, isCancelled)) {
+                    throw new Error(`Debug port ${hostPort} of module '${moduleName}' is not open`);
+                }
+            }
+        });
+
+        await vscode.debug.startDebugging(vscode.workspace.getWorkspaceFolder(vscode.Uri.file(slnPath)), {
+            name: `${moduleName} Remote Debug`,
+            type: Constants.edgeDebugType,
+            request: "attach",
+            module: moduleName,
+            solution: slnPath,
+        });
+    }
+
     public async stopSolution(): Promise<void> {
+        try {
+            const containers: ISimulatorContainer[] = await SimulatorContainerProvider.listContainers();
+            if (!containers.some((container) => container.running)) {
+                vscode.window.showInformationMessage(Constants.simulatorNotRunning);
+                return;
+            }
+        } catch (error) {
+            // stop the simulator anyway when the containers can't be listed
+        }
         Executor.runInTerminal(Utility.adjustTerminalCommand(`iotedgehubdev stop`));
     }
 
@@ -80,117 +286,287 @@ export class ContainerManager {
         if (!templateFile) {
             return;
         }
-        const deployFile = await this.createDeploymentFile(templateFile, false);
-        vscode.window.showInformationMessage(`Deployment manifest generated at ${deployFile}.`);
+        const deployment: IDeploymentInfo = await this.createDeploymentFile(templateFile, undefined, false);
+        vscode.window.showInformationMessage(`${this.getGeneratedMessage(deployment)}.`);
     }
 
-    private async createDeploymentFile(templateFile: string, build: boolean = true, push: boolean = true, run: boolean = false): Promise<string> {
-        const moduleToImageMap: Map<string, string> = new Map();
+    // Bump image.tag.version of module.json of a module, or the modules of a solution, then regenerate the deployment manifests
+    public async bumpModuleVersion(outputChannel: vscode.OutputChannel, fileUri?: vscode.Uri): Promise<void> {
+        const pattern = `{${Constants.moduleConfigFileNamePattern},**/${Constants.deploymentTemplate}}`;
+        const filePath: string = await Utility.getInputFilePath(fileUri, pattern, Constants.moduleOrTemplateDesc, `${Constants.bumpModuleVersionEvent}.selectFile`);
+        if (!filePath) {
+            return;
+        }
+
+        let slnPath: string;
+        let moduleFolders: string[];
+        if (path.basename(filePath) === Constants.moduleManifest) {
+            slnPath = path.resolve(path.dirname(filePath), "..", "..");
+            moduleFolders = [path.basename(path.dirname(filePath))];
+        } else {
+            slnPath = path.dirname(filePath);
+            moduleFolders = await this.selectModulesToBump(slnPath);
+        }
+
+        const modules: Array<{ folder: string, file: string, text: string, json: any, version: string }> = [];
+        for (const folder of moduleFolders) {
+            const file: string = path.join(slnPath, Constants.moduleFolder, folder, Constants.moduleManifest);
+            const text: string = await fse.readFile(file, "utf8");
+            const json = JSON.parse(stripJsonComments(text));
+            const version: string = json.image && json.image.tag ? json.image.tag.version : undefined;
+            // fail before any file is changed if a version can't be bumped
+            VersionBumper.bump(version, "patch");
+            modules.push({ folder, file, text, json, version });
+        }
+
+        const kindItems: vscode.QuickPickItem[] = VersionBumper.kinds.map((kind) => ({
+            label: kind,
+            description: modules.map((module) => `${module.folder} ${module.version} → ${VersionBumper.bump(module.version, kind)}`).join(", "),
+        }));
+        const kindItem: vscode.QuickPickItem = await vscode.window.showQuickPick(kindItems, { placeHolder: "Select the version increment", ignoreFocusOut: true });
+        if (!kindItem) {
+            throw new UserCancelledError();
+        }
+        const entry: string = await vscode.window.showInputBox({
+            prompt: "Changelog entry of the new version, leave it empty to skip the changelog",
+            ignoreFocusOut: true,
+        });
+        if (entry === undefined) {
+            throw new UserCancelledError();
+        }
+        TelemetryClient.sendEvent(`${Constants.bumpModuleVersionEvent}.selectKind`, { kind: kindItem.label, modules: modules.length.toString() });
+
+        const now: Date = new Date();
+        for (const module of modules) {
+            const version: string = VersionBumper.bump(module.version, kindItem.label);
+            module.json.image.tag.version = version;
+            await fse.writeFile(module.file, JsonEditor.update(module.text, module.json), { encoding: "utf8" });
+            outputChannel.appendLine(`${path.relative(slnPath, module.file)}: ${module.version} → ${version}`);
+            if (entry) {
+                const changelogFile: string = path.join(path.dirname(module.file), Constants.changelogFile);
+                const content: string = await fse.pathExists(changelogFile) ? await fse.readFile(changelogFile, "utf8") : undefined;
+                await fse.writeFile(changelogFile, VersionBumper.addChangelogEntry(content, version, now, entry), { encoding: "utf8" });
+                outputChannel.appendLine(`${path.relative(slnPath, changelogFile)}: add the entry of ${version}`);
+            }
+        }
+
+        // the new images are not pushed yet, so the manifests are generated without pinning the digests
+        const env: IEnvironment = await Utility.loadEnv(slnPath);
+        const manifestFiles: string[] = [];
+        for (const templateFile of [Constants.deploymentTemplate, Constants.deploymentDebugTemplate].map((name) => path.join(slnPath, name))) {
+            if (await fse.pathExists(templateFile)) {
+                const deployment: IDeploymentInfo = await this.generateDeploymentForPlatform(templateFile, Platform.getDefaultPlatform().platform, env, new Map());
+                manifestFiles.push(deployment.manifestFile, ...deployment.overlays.map((overlay) => overlay.manifestFile));
+            }
+        }
+        const bumped: string = modules.map((module) => `'${module.folder}' to ${module.json.image.tag.version}`).join(", ");
+        vscode.window.showInformationMessage(`Version of ${bumped} bumped. Deployment manifests generated at ${manifestFiles.join(", ")}.`);
+    }
+
+    private async createDeploymentFile(templateFile: string, outputChannel?: vscode.OutputChannel,
+                                       build: boolean = true, push: boolean = true, run: boolean = false): Promise<IDeploymentInfo> {
         const imageToBuildSettings: Map<string, BuildSettings> = new Map();
         const slnPath: string = path.dirname(templateFile);
-        await Utility.loadEnv(path.join(slnPath, Constants.envFile));
-        await Utility.setSlnModulesMap(slnPath, moduleToImageMap, imageToBuildSettings);
-        const configPath: string = path.join(slnPath, Constants.outputConfig);
-        const deployment: any = await this.generateDeploymentInfo(templateFile, configPath, moduleToImageMap);
-        const dpManifest: any = deployment.manifestObj;
-        const deployFile: string = deployment.manifestFile;
-
+        const env: IEnvironment = await Utility.loadEnv(slnPath);
+        const deployment: IDeploymentInfo = await this.generateDeploymentForPlatform(templateFile, Platform.getDefaultPlatform().platform, env, imageToBuildSettings);
         if (!build) {
-            return deployFile;
+            await this.pinImageDigests(templateFile, deployment, false);
+            return deployment;
         }
 
         // build docker images
-        const buildMap: Map<string, any> = this.getBuildMapFromDeployment(dpManifest, imageToBuildSettings);
-        const commands: string[] = [];
-        await Utility.initLocalRegistry([...buildMap.keys()]);
-        buildMap.forEach((buildSettings, image) => {
-            commands.push(this.constructBuildCmd(image, buildSettings));
-            if (push) {
-                commands.push(this.constructPushCmd(image));
-            }
-        });
+        const buildMap: Map<string, BuildSettings> = ManifestGenerator.getBuildMap(deployment, imageToBuildSettings);
+        const results: IBuildResult[] = await this.buildImages(outputChannel, buildMap, push, slnPath);
+        // images which are only built locally can't be pinned
+        if (push) {
+            await this.pinImageDigests(templateFile, deployment, true);
+        }
+        vscode.window.showInformationMessage(`${this.getGeneratedMessage(deployment)}. ${this.getBuildSummary(results, push)}`);
 
         if (run) {
-            await this.runSolution(vscode.Uri.file(deployFile), commands);
-            return deployFile;
-        }
-
-        Executor.runInTerminal(Utility.combineCommands(commands));
-        return deployFile;
-    }
-
-    private async generateDeploymentInfo(templateFile: string,
-                                         configPath: string,
-                                         moduleToImageMap: Map<string, string>): Promise<any> {
-        const data: string = await fse.readFile(templateFile, "utf8");
-        const moduleExpanded: string = Utility.expandModules(data, moduleToImageMap);
-        const exceptStr = ["$edgeHub", "$edgeAgent", "$upstream", Constants.SchemaTemplate];
-        const generatedDeployFile: string = Utility.expandEnv(moduleExpanded, ...exceptStr);
-        const dpManifest = Utility.convertCreateOptions(Utility.updateSchema(JSON.parse(generatedDeployFile)));
-        const templateSchemaVersion = dpManifest[Constants.SchemaTemplate];
-        delete dpManifest[Constants.SchemaTemplate];
-        // generate config file
-        await fse.ensureDir(configPath);
-        const templateFileName = path.basename(templateFile);
-        const deploymentFileName = this.getDeployFileName(templateFileName, templateSchemaVersion);
-        const deployFile = path.join(configPath, deploymentFileName);
-        await fse.remove(deployFile);
-        await fse.writeFile(deployFile, JSON.stringify(dpManifest, null, 2), { encoding: "utf8" });
-        return {
-            manifestObj: dpManifest,
-            manifestFile: deployFile,
-        };
-    }
-
-    private getDeployFileName(templateFileName: string, templateSchemaVersion: string): string {
-        const platform = templateSchemaVersion > "0.0.1" ? `.${Platform.getDefaultPlatform().platform}` : "";
-        let name: string = templateFileName;
-        const tempLength = templateFileName.length;
-        if (templateFileName.endsWith(Constants.tson)) {
-            name = templateFileName.substr(0, tempLength - Constants.tson.length);
-        } else if (templateFileName.endsWith(".json")) {
-            name = templateFileName.substr(0, tempLength - ".json".length);
-        }
-        return `${name}${platform}.json`;
-    }
-
-    private getBuildMapFromDeployment(manifestObj: any,
-                                      imageToBuildSettings: Map<string, BuildSettings>): Map<string, BuildSettings> {
+            await this.runSolution(vscode.Uri.file(deployment.manifestFile));
+        }
+        return deployment;
+    }
+
+    // Generate the manifests of the template of a deployment manifest in config/ into a temporary folder,
+    // and return the one with the same file name
+    private async generateManifestInMemory(deployFile: string): Promise<{ templateFile: string, manifestObj: any }> {
+        const slnPath: string = path.dirname(path.dirname(deployFile));
+        const fileName: string = path.basename(deployFile);
+        const templateFile: string = path.join(slnPath, fileName.startsWith("deployment.debug.") ? Constants.deploymentDebugTemplate : Constants.deploymentTemplate);
+        if (!await fse.pathExists(templateFile)) {
+            throw new Error(`The deployment template of ${deployFile} can't be found at ${templateFile}`);
+        }
+        // e.g. deployment.prod.amd64.json is generated with the variables of the prod environment profile
+        let segments: string[] = fileName.split(".");
+        const profile: string = (await EnvProfiles.list(slnPath)).find((name) => segments.slice(1, -1).indexOf(name) >= 0);
+        segments = segments.filter((segment) => segment !== profile);
+        // e.g. deployment.arm32v7.json is generated for the arm32v7 platform
+        const platform: string = segments.length > 2 && segments[segments.length - 2] !== "debug" ?
+            segments[segments.length - 2] : Platform.getDefaultPlatform().platform;
+
+        const env: IEnvironment = await Utility.loadEnv(slnPath, true, profile || "");
+        const configPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "deployment-"));
         try {
-            const buildMap: Map<string, any> = new Map<string, any>();
-            const modules = manifestObj.modulesContent.$edgeAgent["properties.desired"].modules;
-            for (const m in modules) {
-                if (modules.hasOwnProperty(m)) {
-                    let image: string;
-                    try {
-                        image = modules[m].settings.image;
-                    } catch (e) { }
-                    if (image && imageToBuildSettings.get(image) !== undefined) {
-                        buildMap.set(image, imageToBuildSettings.get(image));
-                    }
+            const moduleToImageMap: Map<string, string> = new Map();
+            await ManifestGenerator.setSlnModulesMap(slnPath, platform, env, moduleToImageMap);
+            const deployment: IDeploymentInfo = await ManifestGenerator.generateDeployment(templateFile, configPath, platform, env, moduleToImageMap, profile);
+            const generated: Array<{ manifestObj: any, manifestFile: string }> = [deployment, ...deployment.overlays];
+            const matched = generated.find((manifest) => path.basename(manifest.manifestFile) === fileName) || deployment;
+            return { templateFile, manifestObj: matched.manifestObj };
+        } finally {
+            await fse.remove(configPath);
+        }
+    }
+
+    private async generateDeploymentForPlatform(templateFile: string, platform: string, env: IEnvironment,
+                                                imageToBuildSettings: Map<string, BuildSettings>): Promise<IDeploymentInfo> {
+        const moduleToImageMap: Map<string, string> = new Map();
+        const slnPath: string = path.dirname(templateFile);
+        await ManifestGenerator.setSlnModulesMap(slnPath, platform, env, moduleToImageMap, imageToBuildSettings);
+        const configPath: string = path.join(slnPath, Constants.outputConfig);
+        const deployment: IDeploymentInfo = await ManifestGenerator.generateDeployment(templateFile, configPath, platform, env, moduleToImageMap,
+            Utility.getEnvProfile(slnPath));
+        for (const overlay of deployment.overlays) {
+            if (overlay.conflicts.length > 0) {
+                const conflicts: string = overlay.conflicts.map((conflict) => `${conflict.path}: ${conflict.message}`).join("; ");
+                vscode.window.showWarningMessage(`Conflicts found when merging ${path.basename(overlay.overlayFile)}: ${conflicts}`);
+            }
+        }
+        return deployment;
+    }
+
+    // The manifests must be pinned after the images are built, since the build map is looked up by the image names
+    private async pinImageDigests(templateFile: string, deployment: IDeploymentInfo, refresh: boolean): Promise<void> {
+        if (!Utility.getConfigurationProperty(Constants.pinImageDigestsConfig)) {
+            return;
+        }
+        const lock: ImageLock = await ImageLock.load(ImageLock.getLockFile(templateFile));
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: "Resolving module image digests",
+        }, () => lock.pin(deployment, ImageLock.createResolver(ImageLock.getRegistryCredentials(deployment.manifestObj)), refresh));
+        await lock.save();
+    }
+
+    // The modules changed since the last git tag are selected by default
+    private async selectModulesToBump(slnPath: string): Promise<string[]> {
+        const modulesPath: string = path.join(slnPath, Constants.moduleFolder);
+        const folders: string[] = [];
+        for (const moduleDir of await Utility.getSubDirectories(modulesPath)) {
+            if (await fse.pathExists(path.join(moduleDir, Constants.moduleManifest))) {
+                folders.push(path.basename(moduleDir));
+            }
+        }
+        if (folders.length === 0) {
+            throw new Error(`No module can be found in ${modulesPath}`);
+        }
+
+        const changes = this.getModulesChangedSinceLastTag(slnPath);
+        const items: vscode.QuickPickItem[] = folders.sort().map((folder) => ({
+            label: folder,
+            description: changes && changes.folders.indexOf(folder) >= 0 ? `changed since ${changes.tag}` : undefined,
+            picked: changes !== undefined && changes.folders.indexOf(folder) >= 0,
+        }));
+        const placeHolder: string = changes ? `Select the modules to bump, the modules changed since ${changes.tag} are selected` : "Select the modules to bump";
+        const selected: vscode.QuickPickItem[] = await vscode.window.showQuickPick(items, { placeHolder, ignoreFocusOut: true, canPickMany: true });
+        if (!selected || selected.length === 0) {
+            throw new UserCancelledError();
+        }
+        return selected.map((item) => item.label);
+    }
+
+    // Return undefined if the solution is not in a git repository or there is no tag
+    private getModulesChangedSinceLastTag(slnPath: string): { tag: string, folders: string[] } {
+        try {
+            const tag: string = Executor.execSync(`git -C "${slnPath}" describe --tags --abbrev=0`).trim();
+            const changedFiles: string = Executor.execSync(`git -C "${slnPath}" diff --name-only --relative ${tag} -- ${Constants.moduleFolder}`);
+            const untrackedFiles: string = Executor.execSync(`git -C "${slnPath}" ls-files --others --exclude-standard -- ${Constants.moduleFolder}`);
+            return { tag, folders: VersionBumper.getChangedModuleFolders(`${changedFiles}\n${untrackedFiles}`.split("\n"), Constants.moduleFolder) };
+        } catch (error) {
+            return undefined;
+        }
+    }
+
+    private async buildImages(outputChannel: vscode.OutputChannel, buildMap: Map<string, BuildSettings>,
+                              push: boolean, slnPath: string): Promise<IBuildResult[]> {
+        await Utility.initLocalRegistry([...buildMap.keys()]);
+        const orchestrator = new BuildOrchestrator(outputChannel, Utility.getConfigurationProperty(Constants.buildConcurrencyConfig));
+        const cacheFile: string = path.join(slnPath, Constants.outputConfig, Constants.buildCacheFile);
+        const results: IBuildResult[] = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: push ? "Building and pushing module images" : "Building module images",
+        }, (progress) => orchestrator.build(buildMap, push, cacheFile, progress));
+
+        TelemetryClient.sendEvent(`${Constants.buildSolutionEvent}.summary`, {
+            succeeded: this.countResults(results, BuildStatus.Succeeded).toString(),
+            skipped: this.countResults(results, BuildStatus.Skipped).toString(),
+            failed: this.countResults(results, BuildStatus.Failed).toString(),
+        });
+        const failedImages: string[] = results.filter((result) => result.status === BuildStatus.Failed).map((result) => result.image);
+        if (failedImages.length > 0) {
+            throw new Error(`Failed to build ${failedImages.join(", ")}. See the output for details`);
+        }
+        return results;
+    }
+
+    private async selectPlatforms(slnPath: string, env: IEnvironment): Promise<string[]> {
+        const platforms: Set<string> = new Set(await ManifestGenerator.getSolutionPlatforms(slnPath, env));
+        Platform.getPlatformsSetting().forEach((platform) => platforms.add(platform.platform));
+        const defaultPlatform: string = Platform.getDefaultPlatform().platform;
+        const items: vscode.QuickPickItem[] = [...platforms].map((platform) => {
+            return { label: platform, description: null, picked: platform === defaultPlatform };
+        });
+        const selected: vscode.QuickPickItem[] = await vscode.window.showQuickPick(items,
+            { placeHolder: Constants.selectPlatforms, ignoreFocusOut: true, canPickMany: true });
+        if (!selected || selected.length === 0) {
+            throw new UserCancelledError();
+        }
+        return selected.map((item) => item.label);
+    }
+
+    // Publish a manifest list for the images of each module, so that a device pulls the image of its own platform
+    private async publishManifestLists(outputChannel: vscode.OutputChannel, imageToPlatform: Map<string, string>): Promise<string[]> {
+        // docker manifest is an experimental feature of older docker CLI
+        const options = { shell: true, env: Object.assign({}, process.env, { DOCKER_CLI_EXPERIMENTAL: "enabled" }) };
+        const manifestLists: Map<string, Array<{ image: string, platform: string }>> = DockerCommand.getManifestLists(imageToPlatform);
+        for (const [manifestList, images] of manifestLists) {
+            await Executor.executeCMD(outputChannel, DockerCommand.constructManifestCreateCmd(manifestList, images.map((entry) => entry.image)), options);
+            for (const entry of images) {
+                const annotateCmd: string = DockerCommand.constructManifestAnnotateCmd(manifestList, entry.image, entry.platform);
+                if (annotateCmd) {
+                    await Executor.executeCMD(outputChannel, annotateCmd, options);
                 }
             }
-            return buildMap;
-        } catch (err) {
-            throw new Error("Cannot parse deployment manifest");
+            await Executor.executeCMD(outputChannel, DockerCommand.constructManifestPushCmd(manifestList), options);
         }
+        return [...manifestLists.keys()];
     }
 
-    private constructBuildCmd(imageName: string, buildSettings: BuildSettings): string {
-        let optionString: string = "";
-        if (buildSettings.options !== undefined) {
-            const filteredOption = buildSettings.options.filter((value, index) => {
-                const trimmed = value.trim();
-                const parsedOption: string[] = trimmed.split(/\s+/g);
-                return parsedOption.length > 0 && ["--rm", "--tag", "-t", "--file", "-f"].indexOf(parsedOption[0]) < 0;
-            });
-            optionString = filteredOption.join(" ");
+    private countResults(results: IBuildResult[], status: BuildStatus): number {
+        return results.filter((result) => result.status === status).length;
+    }
+
+    private getBuildSummary(results: IBuildResult[], push: boolean): string {
+        return `${this.countResults(results, BuildStatus.Succeeded)} module image(s) ${push ? "built and pushed" : "built"}, `
+            + `${this.countResults(results, BuildStatus.Skipped)} unchanged`;
+    }
+
+    private getGeneratedMessage(deployment: IDeploymentInfo): string {
+        if (deployment.overlays.length === 0) {
+            return `Deployment manifest generated at ${deployment.manifestFile}`;
         }
-        return `docker build ${optionString} --rm -f \"${Utility.adjustFilePath(buildSettings.dockerFile)}\" -t ${imageName} \"${Utility.adjustFilePath(buildSettings.contextPath)}\"`;
+        const manifestFiles: string[] = [deployment.manifestFile, ...deployment.overlays.map((overlay) => overlay.manifestFile)];
+        return `Deployment manifests generated at ${manifestFiles.join(", ")}`;
+    }
+
+    private constructBuildCmd(imageName: string, buildSettings: BuildSettings): string {
+        return DockerCommand.constructBuildCmd(imageName, buildSettings, Utility.adjustFilePath);
     }
 
     private constructPushCmd(imageName: string): string {
-        return `docker push ${imageName}`;
+        return DockerCommand.constructPushCmd(imageName);
     }
 
     private constructRunCmd(deployFile: string): string {
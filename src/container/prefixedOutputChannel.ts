@@ -0,0 +1,56 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as vscode from "vscode";
+
+// An output channel which writes the lines of one of the commands running in parallel to a shared output channel,
+// each line prefixed with e.g. the image being built. The text appended without line break is kept until the line ends
+// or the channel is flushed, so that the lines of the commands don't interleave.
+export class PrefixedOutputChannel implements vscode.OutputChannel {
+    public readonly name: string;
+    private readonly outputChannel: vscode.OutputChannel;
+    private readonly prefix: string;
+    private pending: string = "";
+
+    constructor(outputChannel: vscode.OutputChannel, prefix: string) {
+        this.outputChannel = outputChannel;
+        this.prefix = prefix;
+        this.name = outputChannel.name;
+    }
+
+    public append(value: string): void {
+        const lines: string[] = (this.pending + value).split("\n");
+        this.pending = lines.pop();
+        for (const line of lines) {
+            this.outputChannel.appendLine(`[${this.prefix}] ${line.replace(/\r$/, "")}`);
+        }
+    }
+
+    public appendLine(value: string): void {
+        this.append(`${value}\n`);
+    }
+
+    // Write the text of the last line which didn't end
+    public flush(): void {
+        if (this.pending) {
+            this.appendLine("");
+        }
+    }
+
+    public clear(): void {
+        this.pending = "";
+    }
+
+    public show(columnOrPreserveFocus?: any, preserveFocus?: boolean): void {
+        this.outputChannel.show(columnOrPreserveFocus, preserveFocus);
+    }
+
+    public hide(): void {
+        this.outputChannel.hide();
+    }
+
+    public dispose(): void {
+        this.flush();
+    }
+}
@@ -0,0 +1,114 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as vscode from "vscode";
+import { Constants } from "../common/constants";
+import { UserCancelledError } from "../common/UserCancelledError";
+import { Utility } from "../common/utility";
+import { IRegistryCredential, RegistryClient } from "../core/registryClient";
+
+interface IRegistryQuickPickItem extends vscode.QuickPickItem {
+    address?: string;
+    credential?: IRegistryCredential;
+}
+
+// Browse the repositories and tags of any registry speaking the Docker Registry HTTP API V2
+export class RegistryManager {
+    // registryCredentials are the runtime.settings.registryCredentials of the deployment template, with the environment variables expanded
+    public async selectImage(registryCredentials: any): Promise<string> {
+        const registryItem: IRegistryQuickPickItem = await vscode.window.showQuickPick(this.loadRegistryItems(registryCredentials),
+            { placeHolder: Constants.selectRegistry, ignoreFocusOut: true });
+        if (registryItem === undefined) {
+            throw new UserCancelledError();
+        }
+        if (registryItem.label === Constants.enterImageUrl) {
+            return await Utility.showInputBox(Constants.imagePattern, Constants.imagePrompt);
+        }
+
+        let address: string = registryItem.address;
+        if (address === undefined) {
+            address = await Utility.showInputBox(Constants.registryPlaceholder, Constants.registryAddressPrompt);
+        }
+        const client: RegistryClient = new RegistryClient(address, registryItem.credential);
+
+        const repository: string = await this.selectRepository(client);
+        const tagItem: vscode.QuickPickItem = await vscode.window.showQuickPick(this.loadTagItems(client, repository),
+            { placeHolder: "Select Tag", ignoreFocusOut: true });
+        if (tagItem === undefined) {
+            throw new UserCancelledError();
+        }
+        return tagItem.description;
+    }
+
+    private loadRegistryItems(registryCredentials: any): IRegistryQuickPickItem[] {
+        const registryItems: IRegistryQuickPickItem[] = [];
+        for (const key of Object.keys(registryCredentials || {})) {
+            const registry = registryCredentials[key];
+            if (!registry.address || registryItems.find((item) => item.address === registry.address)) {
+                continue;
+            }
+            // the credential can't be used if its environment variables are not set
+            const credential: IRegistryCredential = registry.username && !registry.username.includes("$") && registry.password && !registry.password.includes("$") ?
+                { username: registry.username, password: registry.password } : undefined;
+            registryItems.push({
+                label: registry.address,
+                description: `registryCredentials.${key}`,
+                address: registry.address,
+                credential,
+            });
+        }
+        registryItems.sort((a, b) => a.label.localeCompare(b.label));
+
+        for (const address of [RegistryClient.dockerHub, Constants.localRegistry]) {
+            if (!registryItems.find((item) => item.address === address)) {
+                registryItems.push({ label: address, address });
+            }
+        }
+        registryItems.push({ label: Constants.otherRegistry });
+        registryItems.unshift({ label: Constants.enterImageUrl, description: Constants.imagePattern });
+        return registryItems;
+    }
+
+    private async selectRepository(client: RegistryClient): Promise<string> {
+        let repositories: string[];
+        try {
+            repositories = await client.listRepositories();
+        } catch (error) {
+            // registries like Docker Hub don't allow listing the repositories, let the user input one instead
+            if ([401, 403, 404].indexOf(error.statusCode) < 0) {
+                error.message = `Error fetching repository list: ${error.message}`;
+                throw error;
+            }
+        }
+        if (repositories === undefined) {
+            return await Utility.showInputBox("namespace/repository", `Provide the repository in ${client.address} since its repositories can't be listed`);
+        }
+        if (repositories.length === 0) {
+            throw new Error(`Please make sure that there is at least one repository in the registry ${client.address}`);
+        }
+
+        repositories.sort((a, b) => a.localeCompare(b));
+        const repoItem: vscode.QuickPickItem = await vscode.window.showQuickPick(repositories.map((repository) => ({
+            label: repository,
+            description: RegistryClient.getImageName(client.address, repository),
+        })), { placeHolder: "Select Repository", ignoreFocusOut: true });
+        if (repoItem === undefined) {
+            throw new UserCancelledError();
+        }
+        return repoItem.label;
+    }
+
+    private async loadTagItems(client: RegistryClient, repository: string): Promise<vscode.QuickPickItem[]> {
+        try {
+            const tags: string[] = await client.listTags(repository);
+            return tags.sort((a, b) => a.localeCompare(b)).map((tag) => ({
+                label: tag,
+                description: RegistryClient.getImageName(client.address, repository, tag),
+            }));
+        } catch (error) {
+            error.message = `Error fetching tag list: ${error.message}`;
+            throw error;
+        }
+    }
+}
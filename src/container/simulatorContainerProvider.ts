@@ -0,0 +1,140 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as vscode from "vscode";
+import { Constants } from "../common/constants";
+import { Executor } from "../common/executor";
+import { UserCancelledError } from "../common/UserCancelledError";
+import { ISimulatorContainer, SimulatorContainers } from "../core/simulatorContainers";
+
+export interface ISimulatorContainerNode {
+    label: string;
+    container?: ISimulatorContainer;
+    // the nodes of the image, state, restart count and ports of a container
+    isDetail?: boolean;
+}
+
+// The tree view of the containers of the solution running in IoT Edge Simulator.
+// It is refreshed periodically, and VS Code only asks for the containers when the view is expanded.
+export class SimulatorContainerProvider implements vscode.TreeDataProvider<ISimulatorContainerNode>, vscode.Disposable {
+    public static async listContainers(): Promise<ISimulatorContainer[]> {
+        const ids: string[] = SimulatorContainers.getIds(await Executor.execAsync(SimulatorContainers.constructListCmd()));
+        if (ids.length === 0) {
+            return [];
+        }
+        return SimulatorContainers.parseInspect(await Executor.execAsync(SimulatorContainers.constructInspectCmd(ids)));
+    }
+
+    // Wait until the container of a name runs, ignoring the containers of the excluded ids, e.g. the ones before the simulator is restarted
+    public static async waitForContainer(name: string, excludedIds: string[], timeout: number, isCancelled?: () => boolean): Promise<boolean> {
+        return SimulatorContainers.waitFor(async () => {
+            const containers: ISimulatorContainer[] = await SimulatorContainerProvider.listContainers().catch((): ISimulatorContainer[] => []);
+            return containers.some((container) => container.name === name && container.running && excludedIds.indexOf(container.id) < 0);
+        }, timeout, Constants.simulatorPollInterval, isCancelled);
+    }
+
+    private static getNode(container: ISimulatorContainer): ISimulatorContainerNode {
+        return { label: `${container.name} (${container.state})`, container };
+    }
+
+    public readonly onDidChangeTreeData: vscode.Event<ISimulatorContainerNode>;
+    private readonly changeEmitter: vscode.EventEmitter<ISimulatorContainerNode> = new vscode.EventEmitter<ISimulatorContainerNode>();
+    private timer: NodeJS.Timer;
+
+    constructor() {
+        this.onDidChangeTreeData = this.changeEmitter.event;
+        this.timer = setInterval(() => this.refresh(), Constants.simulatorContainersRefreshInterval);
+    }
+
+    public refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    public getTreeItem(node: ISimulatorContainerNode): vscode.TreeItem {
+        if (!node.container || node.isDetail) {
+            return new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.None);
+        }
+        const item: vscode.TreeItem = new vscode.TreeItem(node.label, vscode.TreeItemCollapsibleState.Collapsed);
+        item.id = node.container.id;
+        item.tooltip = node.container.image;
+        item.contextValue = node.container.running ? "simulatorContainer.running" : "simulatorContainer.stopped";
+        return item;
+    }
+
+    public async getChildren(node?: ISimulatorContainerNode): Promise<ISimulatorContainerNode[]> {
+        if (node) {
+            const container: ISimulatorContainer = node.container;
+            return [
+                `Image: ${container.image}`,
+                `State: ${container.state}`,
+                `Restart Count: ${container.restartCount}`,
+                `Ports: ${container.ports.length > 0 ? container.ports.join(", ") : "none"}`,
+            ].map((label) => ({ label, container, isDetail: true }));
+        }
+
+        let containers: ISimulatorContainer[];
+        try {
+            containers = await SimulatorContainerProvider.listContainers();
+        } catch (error) {
+            return [{ label: Constants.dockerNotAvailable }];
+        }
+        return containers.length > 0 ? containers.map(SimulatorContainerProvider.getNode) : [{ label: Constants.simulatorNotRunning }];
+    }
+
+    public async showLogs(node?: ISimulatorContainerNode): Promise<void> {
+        const container: ISimulatorContainer = await this.getContainer(node, false);
+        if (container) {
+            Executor.runInTerminal(SimulatorContainers.constructLogsCmd(container), `Logs: ${container.name}`);
+        }
+    }
+
+    public async execInContainer(node?: ISimulatorContainerNode): Promise<void> {
+        const container: ISimulatorContainer = await this.getContainer(node, true);
+        if (container) {
+            Executor.runInTerminal(SimulatorContainers.constructExecCmd(container), `Shell: ${container.name}`);
+        }
+    }
+
+    public async restartContainer(node?: ISimulatorContainerNode): Promise<void> {
+        const container: ISimulatorContainer = await this.getContainer(node, false);
+        if (container) {
+            await Executor.execAsync(SimulatorContainers.constructRestartCmd(container));
+            this.refresh();
+            vscode.window.showInformationMessage(`Container ${container.name} restarted.`);
+        }
+    }
+
+    public async stopContainer(node?: ISimulatorContainerNode): Promise<void> {
+        const container: ISimulatorContainer = await this.getContainer(node, true);
+        if (container) {
+            await Executor.execAsync(SimulatorContainers.constructStopCmd(container));
+            this.refresh();
+            vscode.window.showInformationMessage(`Container ${container.name} stopped.`);
+        }
+    }
+
+    public dispose(): void {
+        clearInterval(this.timer);
+        this.changeEmitter.dispose();
+    }
+
+    // The container of a node of the tree view, or the one picked when the command is run from the command palette
+    private async getContainer(node: ISimulatorContainerNode, runningOnly: boolean): Promise<ISimulatorContainer> {
+        if (node && node.container) {
+            return node.container;
+        }
+        const containers: ISimulatorContainer[] = (await SimulatorContainerProvider.listContainers())
+            .filter((container) => !runningOnly || container.running);
+        if (containers.length === 0) {
+            vscode.window.showInformationMessage(Constants.simulatorNotRunning);
+            return undefined;
+        }
+        const picked: ISimulatorContainerNode = await vscode.window.showQuickPick(containers.map(SimulatorContainerProvider.getNode),
+            { placeHolder: "Select a container", ignoreFocusOut: true });
+        if (!picked) {
+            throw new UserCancelledError();
+        }
+        return picked.container;
+    }
+}
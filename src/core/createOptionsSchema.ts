@@ -0,0 +1,202 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { Constants } from "../common/constants";
+
+export interface ICreateOptionsSchema {
+    type: string;
+    description: string;
+    properties?: { [name: string]: ICreateOptionsSchema };
+    // the schema of the properties whose names are not fixed, e.g. the ports of PortBindings
+    additionalProperties?: ICreateOptionsSchema;
+    items?: ICreateOptionsSchema;
+    enum?: string[];
+}
+
+const stringArray = (description: string): ICreateOptionsSchema => ({ type: "array", description, items: { type: "string", description } });
+const stringMap = (description: string): ICreateOptionsSchema => ({ type: "object", description, additionalProperties: { type: "string", description } });
+const emptyObjectMap = (description: string): ICreateOptionsSchema => ({ type: "object", description, additionalProperties: { type: "object", description: "{}" } });
+
+const portBinding: ICreateOptionsSchema = {
+    type: "object",
+    description: "A port of the host bound to the container port",
+    properties: {
+        HostIp: { type: "string", description: "The host IP address, e.g. 0.0.0.0" },
+        HostPort: { type: "string", description: "The host port number as a string, e.g. \"8080\"" },
+    },
+};
+
+const hostConfig: ICreateOptionsSchema = {
+    type: "object",
+    description: "Container configuration that depends on the host the container runs on",
+    properties: {
+        Binds: stringArray("Volume bindings, each in the form host-src:container-dest[:options] or volume-name:container-dest[:options], e.g. /var/data:/data:ro"),
+        PortBindings: {
+            type: "object",
+            description: "Maps the exposed ports of the container, e.g. \"80/tcp\", to ports of the host",
+            additionalProperties: { type: "array", description: "The host ports bound to the container port", items: portBinding },
+        },
+        Privileged: { type: "boolean", description: "Give the container full access to the host" },
+        Devices: {
+            type: "array",
+            description: "Devices of the host to add to the container",
+            items: {
+                type: "object",
+                description: "A device mapping",
+                properties: {
+                    PathOnHost: { type: "string", description: "Path of the device on the host, e.g. /dev/ttyACM0" },
+                    PathInContainer: { type: "string", description: "Path of the device in the container" },
+                    CgroupPermissions: { type: "string", description: "Cgroup permissions of the device, e.g. rwm" },
+                },
+            },
+        },
+        Mounts: {
+            type: "array",
+            description: "Mounts to add to the container",
+            items: {
+                type: "object",
+                description: "A mount",
+                properties: {
+                    Target: { type: "string", description: "Path in the container" },
+                    Source: { type: "string", description: "Name of the volume, or path on the host for a bind mount" },
+                    Type: { type: "string", description: "The type of the mount", enum: ["bind", "volume", "tmpfs", "npipe"] },
+                    ReadOnly: { type: "boolean", description: "Whether the mount is read-only" },
+                },
+            },
+        },
+        NetworkMode: { type: "string", description: "Network mode of the container, e.g. bridge, host, none or the name of a network" },
+        Memory: { type: "integer", description: "Memory limit in bytes" },
+        MemorySwap: { type: "integer", description: "Total memory limit (memory + swap) in bytes, -1 for unlimited swap" },
+        MemoryReservation: { type: "integer", description: "Memory soft limit in bytes" },
+        NanoCpus: { type: "integer", description: "CPU quota in units of 10^-9 CPUs" },
+        CpuShares: { type: "integer", description: "CPU shares, the relative weight of the container" },
+        CpuPeriod: { type: "integer", description: "The length of a CPU period in microseconds" },
+        CpuQuota: { type: "integer", description: "Microseconds of CPU time the container can get in a CPU period" },
+        CpusetCpus: { type: "string", description: "CPUs in which to allow execution, e.g. 0-3 or 0,1" },
+        CapAdd: stringArray("Kernel capabilities to add to the container, e.g. NET_ADMIN"),
+        CapDrop: stringArray("Kernel capabilities to drop from the container"),
+        ExtraHosts: stringArray("Hostnames and IP addresses to add to /etc/hosts, each in the form hostname:IP"),
+        Dns: stringArray("DNS servers for the container"),
+        IpcMode: { type: "string", description: "IPC sharing mode of the container, e.g. host, private or shareable" },
+        PidMode: { type: "string", description: "PID namespace of the container, e.g. host" },
+        ShmSize: { type: "integer", description: "Size of /dev/shm in bytes" },
+        Sysctls: stringMap("Namespaced kernel parameters to set in the container, e.g. {\"net.ipv4.ip_forward\": \"1\"}"),
+        Ulimits: {
+            type: "array",
+            description: "Resource limits of the container",
+            items: {
+                type: "object",
+                description: "A resource limit",
+                properties: {
+                    Name: { type: "string", description: "Name of the ulimit, e.g. nofile" },
+                    Soft: { type: "integer", description: "Soft limit" },
+                    Hard: { type: "integer", description: "Hard limit" },
+                },
+            },
+        },
+        LogConfig: {
+            type: "object",
+            description: "The logging configuration of the container",
+            properties: {
+                Type: { type: "string", description: "The logging driver", enum: ["json-file", "syslog", "journald", "gelf", "fluentd", "awslogs", "splunk", "etwlogs", "none"] },
+                Config: stringMap("Options of the logging driver, e.g. {\"max-size\": \"10m\", \"max-file\": \"3\"}"),
+            },
+        },
+        VolumeDriver: { type: "string", description: "Driver of the volumes of the container" },
+        ReadonlyRootfs: { type: "boolean", description: "Mount the root filesystem of the container as read-only" },
+        Runtime: { type: "string", description: "Runtime of the container, e.g. nvidia" },
+    },
+};
+
+// A subset of the body of the container create request of the Docker Engine API, which edgeAgent passes to Docker
+const createOptions: ICreateOptionsSchema = {
+    type: "object",
+    description: "Options of the Docker container create request, see https://docs.docker.com/engine/api/v1.32/#operation/ContainerCreate",
+    properties: {
+        Hostname: { type: "string", description: "The hostname of the container" },
+        Domainname: { type: "string", description: "The domain name of the container" },
+        User: { type: "string", description: "The user that commands are run as inside the container" },
+        Env: stringArray("Environment variables of the container, each in the form VAR=value"),
+        Cmd: stringArray("Command to run"),
+        Entrypoint: stringArray("The entry point of the container"),
+        WorkingDir: { type: "string", description: "The working directory of the commands" },
+        Labels: stringMap("User-defined key/value metadata"),
+        ExposedPorts: emptyObjectMap("Ports exposed by the container, e.g. {\"80/tcp\": {}}"),
+        Volumes: emptyObjectMap("Mount points of volumes in the container, e.g. {\"/data\": {}}"),
+        StopSignal: { type: "string", description: "Signal to stop the container, e.g. SIGTERM" },
+        StopTimeout: { type: "integer", description: "Timeout to stop the container in seconds" },
+        Healthcheck: {
+            type: "object",
+            description: "A test to check that the container is healthy",
+            properties: {
+                Test: stringArray("The test to perform, e.g. [\"CMD-SHELL\", \"curl -f http://localhost/ || exit 1\"]"),
+                Interval: { type: "integer", description: "The time to wait between checks in nanoseconds" },
+                Timeout: { type: "integer", description: "The time to wait before considering the check to have hung in nanoseconds" },
+                Retries: { type: "integer", description: "The number of consecutive failures needed to consider the container unhealthy" },
+                StartPeriod: { type: "integer", description: "Start period for the container to initialize before the retries count in nanoseconds" },
+            },
+        },
+        HostConfig: hostConfig,
+        NetworkingConfig: {
+            type: "object",
+            description: "The networking configuration of the container",
+            properties: {
+                EndpointsConfig: {
+                    type: "object",
+                    description: "The endpoints of the networks the container connects to, by network name",
+                    additionalProperties: {
+                        type: "object",
+                        description: "The configuration of a network endpoint",
+                        properties: {
+                            Aliases: stringArray("Aliases of the container in the network"),
+                            IPAMConfig: {
+                                type: "object",
+                                description: "The IP address management configuration",
+                                properties: {
+                                    IPv4Address: { type: "string", description: "The IPv4 address of the container" },
+                                    IPv6Address: { type: "string", description: "The IPv6 address of the container" },
+                                },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    },
+};
+
+// The schema of settings.createOptions of the modules in a deployment template, and its size budget in the module twin
+export class CreateOptionsSchema {
+    public static readonly maxSize: number = Constants.TwinValueMaxSize * Constants.TwinValueMaxChunks;
+
+    // The schema at a path relative to createOptions, e.g. ["HostConfig", "PortBindings", "80/tcp", 0]
+    public static getSchema(path: Array<string | number>): ICreateOptionsSchema {
+        let schema: ICreateOptionsSchema = createOptions;
+        for (const segment of path) {
+            if (!schema) {
+                return undefined;
+            }
+            if (typeof segment === "number") {
+                schema = schema.items;
+            } else {
+                schema = schema.properties && schema.properties[segment] ? schema.properties[segment] : schema.additionalProperties;
+            }
+        }
+        return schema;
+    }
+
+    // The size of createOptions once serialized into the module twin, see ManifestGenerator.serializeCreateOptions
+    public static getSerializedSize(value: any, expandEnv: (text: string) => string = (text) => text): number {
+        return expandEnv(typeof value === "string" ? value : JSON.stringify(value)).length;
+    }
+
+    // The number of createOptions, createOptions01... properties the serialized createOptions is split into
+    public static getChunkCount(size: number): number {
+        return Math.max(1, Math.ceil(size / Constants.TwinValueMaxSize));
+    }
+
+    public static describeSize(size: number): string {
+        return `${size} of ${CreateOptionsSchema.maxSize} characters once serialized (${CreateOptionsSchema.getChunkCount(size)} of ${Constants.TwinValueMaxChunks} chunks)`;
+    }
+}
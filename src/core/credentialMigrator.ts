@@ -0,0 +1,46 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as dotenv from "dotenv";
+
+// Move the registry credentials of a .env file into a credential store
+export class CredentialMigrator {
+    // The variables used by the registry credentials of the templates, e.g. CONTAINER_REGISTRY_PASSWORD_myacr
+    public static getSecretKeys(templateJsons: any[]): Set<string> {
+        const keys: Set<string> = new Set();
+        for (const templateJson of templateJsons) {
+            const modulesContent = templateJson.modulesContent || {};
+            const edgeAgent = modulesContent.$edgeAgent;
+            const runtime = edgeAgent && edgeAgent["properties.desired"] ? edgeAgent["properties.desired"].runtime : undefined;
+            const registries = runtime && runtime.settings ? runtime.settings.registryCredentials : undefined;
+            for (const name of Object.keys(registries || {})) {
+                for (const value of [registries[name].username, registries[name].password]) {
+                    for (const variable of (typeof value === "string" ? value.match(/\$\{?[a-zA-Z0-9_]+\}?/g) : null) || []) {
+                        keys.add(variable.replace(/\$|{|}/g, ""));
+                    }
+                }
+            }
+        }
+        return keys;
+    }
+
+    // Return the secrets found in the .env content, and the content where each secret is replaced by a comment
+    public static extractSecrets(envContent: string, isSecret: (key: string) => boolean, storeName: string): { content: string, secrets: { [key: string]: string } } {
+        const secrets: { [key: string]: string } = {};
+        const lines: string[] = envContent.split(/\r?\n/).map((line) => {
+            const parsed = dotenv.parse(line);
+            const key: string = Object.keys(parsed)[0];
+            if (key === undefined || !isSecret(key) || !parsed[key]) {
+                return line;
+            }
+            secrets[key] = parsed[key];
+            return `# ${key} is stored in the ${storeName} credential store`;
+        });
+        return { content: lines.join("\n"), secrets };
+    }
+
+    public static isRegistryCredential(key: string): boolean {
+        return /^CONTAINER_REGISTRY_(USERNAME|PASSWORD)_/.test(key);
+    }
+}
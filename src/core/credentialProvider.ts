@@ -0,0 +1,20 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+
+// Store of the secrets referenced by deployment templates, e.g. $CONTAINER_REGISTRY_PASSWORD_myacr, so that they
+// don't have to be written to the .env file in plain text. Keys are the names of the environment variables, which
+// SolutionCredentialProvider scopes to a solution in the stores shared by all the solutions.
+export interface ICredentialProvider {
+    // Name shown to the user, e.g. "OS keychain"
+    readonly name: string;
+    // The environment provider only reads the secrets of the environment and cannot store any
+    readonly canStore: boolean;
+    get(key: string): Promise<string | undefined>;
+    set(key: string, value: string): Promise<void>;
+    delete(key: string): Promise<void>;
+    getAll(): Promise<{ [key: string]: string }>;
+    // The keys of the stored secrets, which are listed without decrypting the secrets or prompting the user
+    getKeys(): Promise<string[]>;
+}
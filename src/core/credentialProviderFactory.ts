@@ -0,0 +1,48 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { ICredentialProvider } from "./credentialProvider";
+import { EncryptedFileCredentialProvider } from "./encryptedFileCredentialProvider";
+import { EnvironmentCredentialProvider } from "./environmentCredentialProvider";
+import { KeychainCredentialProvider } from "./keychainCredentialProvider";
+import { IEnvironment } from "./manifestGenerator";
+import { SolutionCredentialProvider } from "./solutionCredentialProvider";
+
+export interface ICredentialProviderOptions {
+    env: IEnvironment;
+    loadKeytar: () => any;
+    credentialFile: string;
+    getPassphrase: () => Promise<string>;
+}
+
+export class CredentialProviderFactory {
+    public static readonly envFile: string = "envFile";
+    public static readonly keychain: string = "keychain";
+    public static readonly encryptedFile: string = "encryptedFile";
+    public static readonly environment: string = "environment";
+    public static readonly keychainService: string = "azure-iot-edge";
+
+    // The provider of the secrets of a solution, where the secrets stored by a provider are scoped to the solution
+    public static createForSolution(store: string, options: ICredentialProviderOptions, slnPath: string): ICredentialProvider {
+        const provider: ICredentialProvider = CredentialProviderFactory.create(store, options);
+        return provider && provider.canStore ? new SolutionCredentialProvider(provider, slnPath) : provider;
+    }
+
+    // Return undefined for the envFile store, where secrets stay in the .env file
+    public static create(store: string, options: ICredentialProviderOptions): ICredentialProvider {
+        switch (store) {
+            case CredentialProviderFactory.envFile:
+                return undefined;
+            case CredentialProviderFactory.keychain:
+                return new KeychainCredentialProvider(CredentialProviderFactory.keychainService, options.loadKeytar);
+            case CredentialProviderFactory.encryptedFile:
+                return new EncryptedFileCredentialProvider(options.credentialFile, options.getPassphrase);
+            case CredentialProviderFactory.environment:
+                return new EnvironmentCredentialProvider(options.env);
+            default:
+                throw new Error(`Unknown credential store ${store}, it should be one of ${CredentialProviderFactory.envFile}, ` +
+                    `${CredentialProviderFactory.keychain}, ${CredentialProviderFactory.encryptedFile} and ${CredentialProviderFactory.environment}`);
+        }
+    }
+}
@@ -0,0 +1,206 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { Constants } from "../common/constants";
+
+export interface IDebugModule {
+    name: string;
+    // the folder of the module in the modules folder of the solution
+    folder: string;
+    // e.g. Constants.LANGUAGE_NODE
+    language: string;
+    // the host port bound to the debug port of the module container in deployment.debug.template.json
+    hostPort?: number;
+    groupId?: string;
+}
+
+// Build the debug configurations of a module from the launch_*.json templates of the extension, with the current
+// module name, folder and debug port, so that the configurations never go stale after the solution changes.
+export class DebugConfigurationBuilder {
+    // the ports the debuggers listen on in the containers built with the .debug Dockerfiles
+    public static debugPorts: { [language: string]: number } = {
+        [Constants.LANGUAGE_NODE]: 9229,
+        [Constants.LANGUAGE_JAVA]: 5005,
+        [Constants.LANGUAGE_PYTHON]: 5678,
+    };
+
+    public static getLaunchTemplateFile(language: string): string {
+        return DebugConfigurationBuilder.launchTemplates[language];
+    }
+
+    // The language of a module is the "language" of module.json, or guessed from the files of the module
+    public static async getLanguage(modulePath: string): Promise<string> {
+        const moduleJsonFile: string = path.join(modulePath, Constants.moduleManifest);
+        const moduleJson: any = await fse.pathExists(moduleJsonFile) ? await fse.readJson(moduleJsonFile) : {};
+        const files: string[] = await fse.readdir(modulePath);
+        const language: string = DebugConfigurationBuilder.languages[(moduleJson.language || "").toLowerCase()]
+            || DebugConfigurationBuilder.guessLanguage(files);
+        return language === Constants.LANGUAGE_CSHARP && files.indexOf("host.json") >= 0 ? Constants.CSHARP_FUNCTION : language;
+    }
+
+    public static async getGroupId(modulePath: string): Promise<string> {
+        const pomFile: string = path.join(modulePath, "pom.xml");
+        if (!await fse.pathExists(pomFile)) {
+            return undefined;
+        }
+        const matches = /<groupId>([^<]+)<\/groupId>/.exec(await fse.readFile(pomFile, "utf8"));
+        return matches ? matches[1].trim() : undefined;
+    }
+
+    public static getHostPort(templateJson: any, moduleName: string, containerPort: number): number {
+        const portBindings = DebugConfigurationBuilder.getPortBindings(templateJson, moduleName);
+        const bindings = portBindings[`${containerPort}/tcp`] || portBindings[`${containerPort}`];
+        const hostPort: number = Array.isArray(bindings) && bindings.length > 0 ? parseInt(bindings[0].HostPort, 10) : NaN;
+        return isNaN(hostPort) ? undefined : hostPort;
+    }
+
+    public static getUsedHostPorts(templateJson: any): number[] {
+        const ports: number[] = [];
+        for (const moduleName of Object.keys(DebugConfigurationBuilder.getModules(templateJson))) {
+            const portBindings = DebugConfigurationBuilder.getPortBindings(templateJson, moduleName);
+            for (const key of Object.keys(portBindings)) {
+                (Array.isArray(portBindings[key]) ? portBindings[key] : [])
+                    .map((binding) => parseInt(binding.HostPort, 10))
+                    .filter((port) => !isNaN(port))
+                    .forEach((port) => ports.push(port));
+            }
+        }
+        return ports;
+    }
+
+    // The preferred port, or the next port no other module is bound to
+    public static allocateHostPort(preferredPort: number, usedPorts: number[]): number {
+        let port: number = preferredPort;
+        while (usedPorts.indexOf(port) >= 0) {
+            port++;
+        }
+        return port;
+    }
+
+    // Bind the host ports of the createOptions of e.g. a template pack to the ports as written, or to the next ports no other
+    // module is bound to, which are added to the used ports. Return the createOptions and the host port allocated for each port as written.
+    public static allocateHostPorts(createOptions: any, usedPorts: number[]): { createOptions: any, hostPorts: { [port: number]: number } } {
+        const result: any = JSON.parse(JSON.stringify(createOptions || {}));
+        const hostPorts: { [port: number]: number } = {};
+        const portBindings = result.HostConfig && result.HostConfig.PortBindings ? result.HostConfig.PortBindings : {};
+        for (const key of Object.keys(portBindings)) {
+            for (const binding of Array.isArray(portBindings[key]) ? portBindings[key] : []) {
+                const port: number = binding ? parseInt(binding.HostPort, 10) : NaN;
+                if (!isNaN(port)) {
+                    const hostPort: number = DebugConfigurationBuilder.allocateHostPort(port, usedPorts);
+                    usedPorts.push(hostPort);
+                    binding.HostPort = hostPort.toString();
+                    hostPorts[port] = hostPort;
+                }
+            }
+        }
+        return { createOptions: result, hostPorts };
+    }
+
+    // Point the attach configurations written for the ports of allocateHostPorts to the allocated host ports
+    public static updateAttachPorts(configurations: any[], hostPorts: { [port: number]: number }): void {
+        for (const config of configurations || []) {
+            if (config && config.request === "attach" && hostPorts[config.port] !== undefined) {
+                config.port = hostPorts[config.port];
+            }
+        }
+    }
+
+    public static getConfigurations(launchTemplate: any, module: IDebugModule): any[] {
+        const values: Map<string, string> = new Map<string, string>([
+            [Constants.moduleFolderPlaceholder, module.folder],
+            [Constants.moduleNamePlaceholder, module.name],
+            [Constants.appFolder, "/app"],
+            [Constants.groupIDPlaceholder, module.groupId || ""],
+        ]);
+        let content: string = JSON.stringify(launchTemplate.configurations || []);
+        values.forEach((value, placeholder) => {
+            // the values are escaped since they are replaced in the JSON text
+            content = content.split(placeholder).join(JSON.stringify(value).slice(1, -1));
+        });
+        return (JSON.parse(content) as any[])
+            .filter((config) => module.language !== Constants.CSHARP_FUNCTION || config.request !== "launch")
+            .map((config) => {
+                if (config.request === "attach" && config.port !== undefined && module.hostPort) {
+                    config.port = module.hostPort;
+                }
+                return config;
+            });
+    }
+
+    // The configurations saved to launch.json, which are resolved to the full configurations when debugging starts
+    public static getOnDemandConfigurations(launchTemplate: any, module: IDebugModule): any[] {
+        return DebugConfigurationBuilder.getConfigurations(launchTemplate, module).map((config) => ({
+            name: config.name,
+            type: Constants.edgeDebugType,
+            request: config.request,
+            module: module.name,
+        }));
+    }
+
+    // The configuration of the same name, or the first one of the same request when the name has been changed
+    public static resolve(launchTemplate: any, module: IDebugModule, name: string, request: string): any {
+        const configurations: any[] = DebugConfigurationBuilder.getConfigurations(launchTemplate, module);
+        const resolved: any = configurations.find((config) => config.name === name)
+            || configurations.find((config) => config.request === (request || "attach"));
+        if (resolved && name) {
+            resolved.name = name;
+        }
+        return resolved;
+    }
+
+    private static launchTemplates: { [language: string]: string } = {
+        [Constants.LANGUAGE_CSHARP]: Constants.launchCSharp,
+        [Constants.CSHARP_FUNCTION]: Constants.launchCSharp,
+        [Constants.LANGUAGE_NODE]: Constants.launchNode,
+        [Constants.LANGUAGE_C]: Constants.launchC,
+        [Constants.LANGUAGE_JAVA]: Constants.launchJava,
+        [Constants.LANGUAGE_PYTHON]: Constants.launchPython,
+    };
+
+    private static languages: { [language: string]: string } = {
+        csharp: Constants.LANGUAGE_CSHARP,
+        javascript: Constants.LANGUAGE_NODE,
+        node: Constants.LANGUAGE_NODE,
+        nodejs: Constants.LANGUAGE_NODE,
+        c: Constants.LANGUAGE_C,
+        java: Constants.LANGUAGE_JAVA,
+        python: Constants.LANGUAGE_PYTHON,
+    };
+
+    private static guessLanguage(files: string[]): string {
+        if (files.some((file) => /\.csproj$/i.test(file))) {
+            return Constants.LANGUAGE_CSHARP;
+        } else if (files.indexOf("package.json") >= 0) {
+            return Constants.LANGUAGE_NODE;
+        } else if (files.indexOf("pom.xml") >= 0) {
+            return Constants.LANGUAGE_JAVA;
+        } else if (files.indexOf("main.py") >= 0 || files.indexOf("requirements.txt") >= 0) {
+            return Constants.LANGUAGE_PYTHON;
+        } else if (files.indexOf("CMakeLists.txt") >= 0 || files.indexOf("main.c") >= 0) {
+            return Constants.LANGUAGE_C;
+        }
+        return undefined;
+    }
+
+    private static getModules(templateJson: any): any {
+        const edgeAgent = templateJson && templateJson.modulesContent ? templateJson.modulesContent.$edgeAgent : undefined;
+        return edgeAgent && edgeAgent["properties.desired"] ? edgeAgent["properties.desired"].modules || {} : {};
+    }
+
+    private static getPortBindings(templateJson: any, moduleName: string): any {
+        const module = DebugConfigurationBuilder.getModules(templateJson)[moduleName];
+        let createOptions = module && module.settings ? module.settings.createOptions : undefined;
+        if (typeof createOptions === "string") {
+            try {
+                createOptions = JSON.parse(createOptions);
+            } catch (error) {
+                createOptions = undefined;
+            }
+        }
+        return createOptions && createOptions.HostConfig && createOptions.HostConfig.PortBindings ? createOptions.HostConfig.PortBindings : {};
+    }
+}
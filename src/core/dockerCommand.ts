@@ -0,0 +1,64 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { BuildSettings } from "../common/buildSettings";
+
+export class DockerCommand {
+    public static constructBuildCmd(imageName: string, buildSettings: BuildSettings,
+                                    adjustFilePath: (filePath: string) => string = (filePath) => filePath): string {
+        let optionString: string = "";
+        if (buildSettings.options !== undefined) {
+            const filteredOption = buildSettings.options.filter((value, index) => {
+                const trimmed = value.trim();
+                const parsedOption: string[] = trimmed.split(/\s+/g);
+                return parsedOption.length > 0 && ["--rm", "--tag", "-t", "--file", "-f"].indexOf(parsedOption[0]) < 0;
+            });
+            optionString = filteredOption.join(" ");
+        }
+        return `docker build ${optionString} --rm -f \"${adjustFilePath(buildSettings.dockerFile)}\" -t ${imageName} \"${adjustFilePath(buildSettings.contextPath)}\"`;
+    }
+
+    public static constructPushCmd(imageName: string): string {
+        return `docker push ${imageName}`;
+    }
+
+    public static constructManifestCreateCmd(manifestList: string, imageNames: string[]): string {
+        return `docker manifest create --amend ${manifestList} ${imageNames.join(" ")}`;
+    }
+
+    // Return undefined if the OS and architecture of the platform are unknown
+    public static constructManifestAnnotateCmd(manifestList: string, imageName: string, platform: string): string {
+        const annotation: string = DockerCommand.platformAnnotations[platform];
+        return annotation ? `docker manifest annotate ${manifestList} ${imageName} ${annotation}` : undefined;
+    }
+
+    public static constructManifestPushCmd(manifestList: string): string {
+        return `docker manifest push --purge ${manifestList}`;
+    }
+
+    // Group the images of the same module by the tag without platform, e.g. repo:0.0.1-amd64 and repo:0.0.1-arm32v7
+    // into repo:0.0.1, and repo:0.0.1-amd64.debug into repo:0.0.1-debug
+    public static getManifestLists(imageToPlatform: Map<string, string>): Map<string, Array<{ image: string, platform: string }>> {
+        const manifestLists: Map<string, Array<{ image: string, platform: string }>> = new Map();
+        imageToPlatform.forEach((platform, image) => {
+            const suffix: RegExp = new RegExp(`-${platform.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(\\.debug)?$`);
+            if (!suffix.test(image)) {
+                return;
+            }
+            const manifestList: string = image.replace(suffix, (matched, debug) => debug ? "-debug" : "");
+            if (!manifestLists.has(manifestList)) {
+                manifestLists.set(manifestList, []);
+            }
+            manifestLists.get(manifestList).push({ image, platform });
+        });
+        return manifestLists;
+    }
+
+    private static platformAnnotations: { [platform: string]: string } = {
+        "amd64": "--os linux --arch amd64",
+        "arm32v7": "--os linux --arch arm --variant v7",
+        "arm64v8": "--os linux --arch arm64 --variant v8",
+        "windows-amd64": "--os windows --arch amd64",
+    };
+}
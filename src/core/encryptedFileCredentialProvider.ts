@@ -0,0 +1,114 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as crypto from "crypto";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { ICredentialProvider } from "./credentialProvider";
+
+interface IEncryptedFile {
+    version: number;
+    salt: string;
+    iv: string;
+    tag: string;
+    data: string;
+    // the keys of the secrets in clear text, so that they are listed without the passphrase
+    keys?: string[];
+}
+
+// Secrets are stored in a file encrypted with AES-256-GCM, using a key derived from a passphrase.
+// The passphrase is only requested once per provider.
+export class EncryptedFileCredentialProvider implements ICredentialProvider {
+    private static readonly algorithm: string = "aes-256-gcm";
+    private static readonly iterations: number = 100000;
+
+    public readonly name: string = "encrypted file";
+    public readonly canStore: boolean = true;
+    private readonly credentialFile: string;
+    private readonly getPassphrase: () => Promise<string>;
+    private passphrase: string;
+
+    constructor(credentialFile: string, getPassphrase: () => Promise<string>) {
+        this.credentialFile = credentialFile;
+        this.getPassphrase = getPassphrase;
+    }
+
+    public async get(key: string): Promise<string | undefined> {
+        return (await this.getAll())[key];
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        const secrets: { [key: string]: string } = await this.getAll();
+        secrets[key] = value;
+        await this.write(secrets);
+    }
+
+    public async delete(key: string): Promise<void> {
+        const secrets: { [key: string]: string } = await this.getAll();
+        if (secrets[key] !== undefined) {
+            delete secrets[key];
+            await this.write(secrets);
+        }
+    }
+
+    public async getAll(): Promise<{ [key: string]: string }> {
+        if (!await fse.pathExists(this.credentialFile)) {
+            return {};
+        }
+
+        const file: IEncryptedFile = await fse.readJson(this.credentialFile);
+        if (file.version !== 1) {
+            throw new Error(`Unsupported version ${file.version} of the credential file ${this.credentialFile}`);
+        }
+        const key: Buffer = crypto.pbkdf2Sync(await this.requestPassphrase(), Buffer.from(file.salt, "base64"), EncryptedFileCredentialProvider.iterations, 32, "sha256");
+        const decipher = crypto.createDecipheriv(EncryptedFileCredentialProvider.algorithm, key, Buffer.from(file.iv, "base64"));
+        decipher.setAuthTag(Buffer.from(file.tag, "base64"));
+        try {
+            const data: string = decipher.update(file.data, "base64", "utf8") + decipher.final("utf8");
+            return JSON.parse(data);
+        } catch (error) {
+            // let the user retry with another passphrase
+            this.passphrase = undefined;
+            throw new Error(`Failed to decrypt the credential file ${this.credentialFile}, the passphrase may be wrong`);
+        }
+    }
+
+    // The files written before the keys were indexed list no keys until a secret is set or deleted
+    public async getKeys(): Promise<string[]> {
+        if (!await fse.pathExists(this.credentialFile)) {
+            return [];
+        }
+        const file: IEncryptedFile = await fse.readJson(this.credentialFile);
+        return file.keys || [];
+    }
+
+    private async write(secrets: { [key: string]: string }): Promise<void> {
+        const salt: Buffer = crypto.randomBytes(16);
+        const iv: Buffer = crypto.randomBytes(12);
+        const key: Buffer = crypto.pbkdf2Sync(await this.requestPassphrase(), salt, EncryptedFileCredentialProvider.iterations, 32, "sha256");
+        const cipher = crypto.createCipheriv(EncryptedFileCredentialProvider.algorithm, key, iv);
+        const data: string = cipher.update(JSON.stringify(secrets), "utf8", "base64") + cipher.final("base64");
+        const file: IEncryptedFile = {
+            version: 1,
+            salt: salt.toString("base64"),
+            iv: iv.toString("base64"),
+            tag: cipher.getAuthTag().toString("base64"),
+            data,
+            keys: Object.keys(secrets).sort(),
+        };
+        await fse.ensureDir(path.dirname(this.credentialFile));
+        await fse.writeFile(this.credentialFile, JSON.stringify(file, null, 2), { encoding: "utf8", mode: 0o600 });
+    }
+
+    private async requestPassphrase(): Promise<string> {
+        if (!this.passphrase) {
+            const passphrase: string = await this.getPassphrase();
+            if (!passphrase) {
+                throw new Error("A passphrase is required to use the encrypted credential file");
+            }
+            this.passphrase = passphrase;
+        }
+        return this.passphrase;
+    }
+}
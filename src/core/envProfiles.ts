@@ -0,0 +1,51 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { Constants } from "../common/constants";
+import { IEnvironment, ManifestGenerator } from "./manifestGenerator";
+
+// Environment profiles of a solution, e.g. .env.dev and .env.prod next to the deployment template. The variables of
+// .env are shared by all the profiles, and the variables of the .env file of the active profile override them.
+export class EnvProfiles {
+    public static profileNamePattern: RegExp = /^[A-Za-z0-9_-]+$/;
+
+    public static getEnvFile(slnPath: string, profile?: string): string {
+        return path.join(slnPath, profile ? `${Constants.envFile}.${profile}` : Constants.envFile);
+    }
+
+    // The profiles of the .env.<profile> files in the solution folder, sorted by name
+    public static async list(slnPath: string): Promise<string[]> {
+        if (!await fse.pathExists(slnPath)) {
+            return [];
+        }
+        const prefix: string = `${Constants.envFile}.`;
+        return (await fse.readdir(slnPath))
+            .filter((name) => name.startsWith(prefix) && EnvProfiles.profileNamePattern.test(name.substr(prefix.length)))
+            .map((name) => name.substr(prefix.length))
+            .sort();
+    }
+
+    // Return a copy of the base environment with the variables of .env and of the .env file of the profile
+    public static async load(slnPath: string, profile: string, baseEnv: IEnvironment = {}): Promise<IEnvironment> {
+        const env: IEnvironment = await ManifestGenerator.loadEnvFile(EnvProfiles.getEnvFile(slnPath), baseEnv);
+        return EnvProfiles.loadProfile(slnPath, profile, env);
+    }
+
+    // A missing .env file of the active profile is an error, so that a manifest is never generated with the variables of another profile
+    public static async loadProfile(slnPath: string, profile: string, env: IEnvironment): Promise<IEnvironment> {
+        if (!profile) {
+            return Object.assign({}, env);
+        }
+        if (!EnvProfiles.profileNamePattern.test(profile)) {
+            throw new Error(`Invalid environment profile name '${profile}'. Use only letters, digits, '-' and '_'`);
+        }
+        const envFile: string = EnvProfiles.getEnvFile(slnPath, profile);
+        if (!await fse.pathExists(envFile)) {
+            throw new Error(`The ${path.basename(envFile)} file of environment profile '${profile}' can't be found in ${slnPath}`);
+        }
+        return ManifestGenerator.loadEnvFile(envFile, env);
+    }
+}
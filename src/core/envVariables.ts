@@ -0,0 +1,97 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as dotenv from "dotenv";
+import * as fse from "fs-extra";
+import { EnvProfiles } from "./envProfiles";
+import { IEnvironment } from "./manifestGenerator";
+
+export interface IEnvReference {
+    name: string;
+    // the offset and length of $NAME or ${NAME} in the text
+    offset: number;
+    length: number;
+}
+
+export interface IEnvCompletionContext {
+    prefix: string;
+    // the offset of the $ in the text before the cursor
+    start: number;
+    braced: boolean;
+}
+
+// The references to the variables of .env and the environment, e.g. $CONTAINER_REGISTRY_ADDRESS or ${CONTAINER_REGISTRY_PASSWORD},
+// which are expanded by ManifestGenerator.expandEnv in deployment templates and module.json
+export class EnvVariables {
+    public static maskedValue: string = "******";
+
+    // Find the references of a text except the keys like $edgeAgent. An except key is matched at the offset of the
+    // reference since keys like $schema-template are longer than the name of a variable.
+    public static findReferences(text: string, ...exceptKeys: string[]): IEnvReference[] {
+        const pattern: RegExp = new RegExp(/\$([a-zA-Z0-9_]+)|\${([a-zA-Z0-9_]+)}/g);
+        const references: IEnvReference[] = [];
+        for (let match: RegExpExecArray = pattern.exec(text); match; match = pattern.exec(text)) {
+            const offset: number = match.index;
+            if (!exceptKeys.some((key) => text.startsWith(key, offset))) {
+                references.push({ name: match[1] || match[2], offset, length: match[0].length });
+            }
+        }
+        return references;
+    }
+
+    // The references without value, which are kept as they are when the text is expanded
+    public static getUnresolved(text: string, env: IEnvironment, ...exceptKeys: string[]): IEnvReference[] {
+        return EnvVariables.findReferences(text, ...exceptKeys).filter((reference) => !env[reference.name]);
+    }
+
+    public static getReferenceAt(text: string, offset: number, ...exceptKeys: string[]): IEnvReference {
+        return EnvVariables.findReferences(text, ...exceptKeys).find((reference) => reference.offset <= offset && offset <= reference.offset + reference.length);
+    }
+
+    // Return the name typed so far when the text before the cursor ends with $ or ${ and the start of a name
+    public static getCompletionContext(textBeforeCursor: string): IEnvCompletionContext {
+        const match: RegExpExecArray = /\$(\{?)([a-zA-Z0-9_]*)$/.exec(textBeforeCursor);
+        if (!match) {
+            return undefined;
+        }
+        return { prefix: match[2], start: match.index, braced: match[1] === "{" };
+    }
+
+    // Registry passwords, keys, tokens and connection strings are masked when they are shown
+    public static isSecret(name: string): boolean {
+        return /PASSWORD|PASSWD|SECRET|TOKEN|KEY|CONNECTION_?STRING|CREDENTIAL/i.test(name);
+    }
+
+    public static formatValue(name: string, value: string): string {
+        return EnvVariables.isSecret(name) ? EnvVariables.maskedValue : value;
+    }
+
+    // The names of the variables defined in .env and the .env files of the profiles of a solution, sorted by name
+    public static async getDefinedNames(slnPath: string): Promise<string[]> {
+        const names: Set<string> = new Set();
+        for (const profile of ["", ...await EnvProfiles.list(slnPath)]) {
+            const envFile: string = EnvProfiles.getEnvFile(slnPath, profile);
+            if (await fse.pathExists(envFile)) {
+                Object.keys(dotenv.parse(await fse.readFile(envFile))).forEach((name) => names.add(name));
+            }
+        }
+        return Array.from(names).sort();
+    }
+
+    // Return the text to append to the content of a .env file to add a variable without value,
+    // or an empty string if the variable is already in the file
+    public static getAppendText(content: string, name: string): string {
+        if (EnvVariables.findLine(content, name) >= 0) {
+            return "";
+        }
+        const eol: string = content.indexOf("\r\n") >= 0 ? "\r\n" : "\n";
+        return `${content && !content.endsWith("\n") ? eol : ""}${name}=${eol}`;
+    }
+
+    // The index of the line of a .env file which defines a variable, or -1 if the variable is not in the file
+    public static findLine(content: string, name: string): number {
+        const pattern: RegExp = new RegExp(`^\\s*${name}\\s*=`);
+        return content.split(/\r?\n/).findIndex((line) => pattern.test(line));
+    }
+}
@@ -0,0 +1,38 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { ICredentialProvider } from "./credentialProvider";
+import { IEnvironment } from "./manifestGenerator";
+
+// Secrets only come from the environment of the process, e.g. the secret variables of a CI pipeline
+export class EnvironmentCredentialProvider implements ICredentialProvider {
+    public readonly name: string = "environment";
+    public readonly canStore: boolean = false;
+    private readonly env: IEnvironment;
+
+    constructor(env: IEnvironment) {
+        this.env = env;
+    }
+
+    public async get(key: string): Promise<string | undefined> {
+        return this.env[key] || undefined;
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        throw new Error(`Secrets can't be stored in the environment, please set the environment variable ${key} instead`);
+    }
+
+    public async delete(key: string): Promise<void> {
+        throw new Error(`Secrets can't be removed from the environment, please unset the environment variable ${key} instead`);
+    }
+
+    // The environment is already used to expand the templates, so there is nothing to add
+    public async getAll(): Promise<{ [key: string]: string }> {
+        return {};
+    }
+
+    public async getKeys(): Promise<string[]> {
+        return [];
+    }
+}
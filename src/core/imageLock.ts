@@ -0,0 +1,139 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { IDeploymentInfo } from "./manifestGenerator";
+import { IRegistryCredential, RegistryClient } from "./registryClient";
+
+interface IImageLockFile {
+    version: number;
+    images: { [image: string]: string };
+}
+
+// The content digests of the module images of a deployment template, kept in a lock file next to the template.
+// Deployment manifests reference the images by digest, so that devices pull exactly the locked images.
+export class ImageLock {
+    // e.g. deployment.template.json -> deployment.template.lock.json
+    public static getLockFile(templateFile: string): string {
+        const name: string = path.basename(templateFile).replace(/\.json$/, "");
+        return path.join(path.dirname(templateFile), `${name}.lock.json`);
+    }
+
+    public static async load(lockFile: string): Promise<ImageLock> {
+        const images: Map<string, string> = new Map();
+        if (await fse.pathExists(lockFile)) {
+            const file: IImageLockFile = await fse.readJson(lockFile);
+            if (file.version !== 1) {
+                throw new Error(`Unsupported version ${file.version} of the lock file ${lockFile}`);
+            }
+            for (const image of Object.keys(file.images || {})) {
+                images.set(image, file.images[image]);
+            }
+        }
+        return new ImageLock(lockFile, images);
+    }
+
+    // The images of the modules and system modules of a deployment manifest, except the ones already referenced by digest
+    public static getImages(manifestObj: any): string[] {
+        const images: Set<string> = new Set();
+        ImageLock.forEachModuleSettings(manifestObj, (settings) => {
+            if (typeof settings.image === "string" && !settings.image.includes("@")) {
+                images.add(settings.image);
+            }
+        });
+        return [...images];
+    }
+
+    // The credentials of runtime.settings.registryCredentials of a deployment manifest by registry address
+    public static getRegistryCredentials(manifestObj: any): Map<string, IRegistryCredential> {
+        const credentials: Map<string, IRegistryCredential> = new Map();
+        const edgeAgent = manifestObj.modulesContent.$edgeAgent["properties.desired"];
+        const registries = edgeAgent.runtime && edgeAgent.runtime.settings ? edgeAgent.runtime.settings.registryCredentials : undefined;
+        for (const name of Object.keys(registries || {})) {
+            const registry = registries[name];
+            if (registry.address && registry.username) {
+                credentials.set(registry.address, { username: registry.username, password: registry.password });
+            }
+        }
+        return credentials;
+    }
+
+    // Resolve the digest of an image from its registry
+    public static createResolver(credentials: Map<string, IRegistryCredential>): (image: string) => Promise<string> {
+        const clients: Map<string, RegistryClient> = new Map();
+        return async (image: string) => {
+            const { address, repository, tag } = RegistryClient.parseImage(image);
+            if (!clients.has(address)) {
+                clients.set(address, new RegistryClient(address, credentials.get(address)));
+            }
+            try {
+                return await clients.get(address).getManifestDigest(repository, tag);
+            } catch (error) {
+                throw new Error(`Failed to resolve the digest of ${image}: ${error.message}`);
+            }
+        };
+    }
+
+    private static forEachModuleSettings(manifestObj: any, callback: (settings: any) => void): void {
+        const edgeAgent = manifestObj.modulesContent.$edgeAgent["properties.desired"];
+        for (const modules of [edgeAgent.systemModules, edgeAgent.modules]) {
+            for (const name of Object.keys(modules || {})) {
+                if (modules[name].settings) {
+                    callback(modules[name].settings);
+                }
+            }
+        }
+    }
+
+    public readonly lockFile: string;
+    private readonly images: Map<string, string>;
+
+    private constructor(lockFile: string, images: Map<string, string>) {
+        this.lockFile = lockFile;
+        this.images = images;
+    }
+
+    public get(image: string): string | undefined {
+        return this.images.get(image);
+    }
+
+    public set(image: string, digest: string): void {
+        this.images.set(image, digest);
+    }
+
+    // Reference the images of the deployment manifests by digest and rewrite the manifest files.
+    // The locked digests are used unless refresh is set, e.g. after the images are pushed.
+    public async pin(deployment: IDeploymentInfo, resolveDigest: (image: string) => Promise<string>, refresh: boolean): Promise<string[]> {
+        const manifests: Array<{ manifestObj: any, manifestFile: string }> = [deployment, ...(deployment.overlays || [])];
+        const resolved: Set<string> = new Set();
+        for (const manifest of manifests) {
+            for (const image of ImageLock.getImages(manifest.manifestObj)) {
+                if ((refresh && !resolved.has(image)) || !this.images.has(image)) {
+                    this.images.set(image, await resolveDigest(image));
+                    resolved.add(image);
+                }
+            }
+        }
+
+        for (const manifest of manifests) {
+            ImageLock.forEachModuleSettings(manifest.manifestObj, (settings) => {
+                if (this.images.has(settings.image)) {
+                    settings.image = `${settings.image}@${this.images.get(settings.image)}`;
+                }
+            });
+            await fse.writeFile(manifest.manifestFile, JSON.stringify(manifest.manifestObj, null, 2), { encoding: "utf8" });
+        }
+        return [...resolved];
+    }
+
+    public async save(): Promise<void> {
+        const images: { [image: string]: string } = {};
+        for (const image of [...this.images.keys()].sort()) {
+            images[image] = this.images.get(image);
+        }
+        const file: IImageLockFile = { version: 1, images };
+        await fse.writeFile(this.lockFile, JSON.stringify(file, null, 2), { encoding: "utf8" });
+    }
+}
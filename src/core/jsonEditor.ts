@@ -0,0 +1,115 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as parser from "jsonc-parser/lib/umd/main";
+
+// Write the changes made to the value parsed from a JSON file back to the text of the file with targeted edits,
+// so that the comments and the formatting of the parts which didn't change are kept.
+export class JsonEditor {
+    // Return the text updated to the given value. Properties renamed in place, e.g. by ModuleRenamer, keep their position,
+    // and the items removed from arrays are removed one by one, while other changes replace the changed values.
+    public static update(text: string, value: any): string {
+        return new JsonEditor(text).updateValue([], parser.parse(text), value).text;
+    }
+
+    private static isObject(value: any): boolean {
+        return value !== null && typeof value === "object" && !Array.isArray(value);
+    }
+
+    private static equals(value1: any, value2: any): boolean {
+        return JSON.stringify(value1) === JSON.stringify(value2);
+    }
+
+    private text: string;
+    private readonly options: parser.ModificationOptions;
+
+    private constructor(text: string) {
+        this.text = text;
+        const indent: RegExpExecArray = /\n([ \t]+)\S/.exec(text);
+        this.options = {
+            formattingOptions: {
+                insertSpaces: !indent || indent[1].charAt(0) !== "\t",
+                tabSize: indent && indent[1].charAt(0) !== "\t" ? indent[1].length : 2,
+                eol: text.indexOf("\r\n") >= 0 ? "\r\n" : "\n",
+            },
+        };
+    }
+
+    private updateValue(path: parser.Segment[], oldValue: any, newValue: any): JsonEditor {
+        if (JsonEditor.equals(oldValue, newValue)) {
+            return this;
+        } else if (JsonEditor.isObject(oldValue) && JsonEditor.isObject(newValue)) {
+            return this.updateObject(path, oldValue, newValue);
+        } else if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+            return this.updateArray(path, oldValue, newValue);
+        }
+        return this.modify(path, newValue);
+    }
+
+    private updateObject(path: parser.Segment[], oldValue: any, newValue: any): JsonEditor {
+        const oldKeys: string[] = Object.keys(oldValue);
+        const newKeys: string[] = Object.keys(newValue);
+        const removedKeys: string[] = oldKeys.filter((key) => !newValue.hasOwnProperty(key));
+        const addedKeys: string[] = newKeys.filter((key) => !oldValue.hasOwnProperty(key));
+        // the keys are renamed when replacing each removed key with an added one gives the new keys in the same order
+        const renamed: boolean = removedKeys.length > 0 && removedKeys.length === addedKeys.length
+            && JsonEditor.equals(oldKeys.map((key) => removedKeys.indexOf(key) >= 0 ? addedKeys[removedKeys.indexOf(key)] : key), newKeys);
+
+        for (const key of oldKeys) {
+            const index: number = removedKeys.indexOf(key);
+            if (index < 0) {
+                this.updateValue([...path, key], oldValue[key], newValue[key]);
+            } else if (renamed) {
+                this.updateValue([...path, key], oldValue[key], newValue[addedKeys[index]]);
+                this.renameKey([...path, key], addedKeys[index]);
+            } else {
+                this.modify([...path, key], undefined);
+            }
+        }
+        if (!renamed) {
+            for (const key of addedKeys) {
+                this.modify([...path, key], newValue[key]);
+            }
+        }
+        return this;
+    }
+
+    private updateArray(path: parser.Segment[], oldValue: any[], newValue: any[]): JsonEditor {
+        if (oldValue.length === newValue.length) {
+            oldValue.forEach((item, index) => this.updateValue([...path, index], item, newValue[index]));
+            return this;
+        }
+
+        // remove the items which are not in the new array when the other items are kept in the same order
+        const keptIndexes: number[] = [];
+        for (const item of newValue) {
+            const start: number = keptIndexes.length > 0 ? keptIndexes[keptIndexes.length - 1] + 1 : 0;
+            const index: number = oldValue.findIndex((oldItem, oldIndex) => oldIndex >= start && JsonEditor.equals(oldItem, item));
+            if (index < 0) {
+                return this.modify(path, newValue);
+            }
+            keptIndexes.push(index);
+        }
+        for (let index: number = oldValue.length - 1; index >= 0; index--) {
+            if (keptIndexes.indexOf(index) < 0) {
+                this.modify([...path, index], undefined);
+            }
+        }
+        return this;
+    }
+
+    private renameKey(path: parser.Segment[], newKey: string): JsonEditor {
+        const node: parser.Node = parser.findNodeAtLocation(parser.parseTree(this.text), path);
+        const keyNode: parser.Node = node && node.parent && node.parent.type === "property" ? node.parent.children[0] : undefined;
+        if (keyNode) {
+            this.text = parser.applyEdits(this.text, [{ offset: keyNode.offset, length: keyNode.length, content: JSON.stringify(newKey) }]);
+        }
+        return this;
+    }
+
+    private modify(path: parser.Segment[], value: any): JsonEditor {
+        this.text = parser.applyEdits(this.text, parser.modify(this.text, path, value, this.options));
+        return this;
+    }
+}
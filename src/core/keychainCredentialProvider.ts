@@ -0,0 +1,58 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { ICredentialProvider } from "./credentialProvider";
+
+// Secrets are stored in the OS keychain through keytar. keytar is a native module, so it is loaded by the caller,
+// e.g. from the node modules of VS Code.
+export class KeychainCredentialProvider implements ICredentialProvider {
+    public readonly name: string = "OS keychain";
+    public readonly canStore: boolean = true;
+    private readonly service: string;
+    private readonly loadKeytar: () => any;
+    private keytar: any;
+
+    constructor(service: string, loadKeytar: () => any) {
+        this.service = service;
+        this.loadKeytar = loadKeytar;
+    }
+
+    public async get(key: string): Promise<string | undefined> {
+        const password: string = await this.getKeytar().getPassword(this.service, key);
+        return password === null ? undefined : password;
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        await this.getKeytar().setPassword(this.service, key, value);
+    }
+
+    public async delete(key: string): Promise<void> {
+        await this.getKeytar().deletePassword(this.service, key);
+    }
+
+    public async getAll(): Promise<{ [key: string]: string }> {
+        const secrets: { [key: string]: string } = {};
+        const credentials: Array<{ account: string, password: string }> = await this.getKeytar().findCredentials(this.service);
+        for (const credential of credentials) {
+            secrets[credential.account] = credential.password;
+        }
+        return secrets;
+    }
+
+    public async getKeys(): Promise<string[]> {
+        const credentials: Array<{ account: string, password: string }> = await this.getKeytar().findCredentials(this.service);
+        return credentials.map((credential) => credential.account);
+    }
+
+    private getKeytar(): any {
+        if (!this.keytar) {
+            try {
+                this.keytar = this.loadKeytar();
+            } catch (error) {
+                throw new Error(`The OS keychain is not available: ${error.message}`);
+            }
+        }
+        return this.keytar;
+    }
+}
@@ -0,0 +1,200 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+
+export enum ManifestChangeKind {
+    Added,
+    Removed,
+    Changed,
+}
+
+export interface IManifestChange {
+    section: string;
+    path: string;
+    kind: ManifestChangeKind;
+    oldValue?: any;
+    newValue?: any;
+}
+
+// Semantic diff of deployment manifests: modules, their createOptions re-joined from the chunks of
+// ManifestGenerator.serializeCreateOptions, routes, module twins and the other settings.
+export class ManifestDiff {
+    public static readonly modulesSection: string = "Modules";
+    public static readonly routesSection: string = "Routes";
+    public static readonly twinsSection: string = "Module twins";
+    public static readonly otherSection: string = "Other settings";
+
+    public static compare(oldManifest: any, newManifest: any): IManifestChange[] {
+        const oldSplit = ManifestDiff.split(oldManifest);
+        const newSplit = ManifestDiff.split(newManifest);
+        const changes: IManifestChange[] = [];
+
+        for (const name of ManifestDiff.unionKeys(oldSplit.modules, newSplit.modules)) {
+            const oldModule = oldSplit.modules[name];
+            const newModule = newSplit.modules[name];
+            if (oldModule === undefined || newModule === undefined) {
+                changes.push({
+                    section: ManifestDiff.modulesSection,
+                    path: name,
+                    kind: oldModule === undefined ? ManifestChangeKind.Added : ManifestChangeKind.Removed,
+                    oldValue: ManifestDiff.getImage(oldModule),
+                    newValue: ManifestDiff.getImage(newModule),
+                });
+            } else {
+                ManifestDiff.diff(ManifestDiff.modulesSection, name, oldModule, newModule, changes);
+            }
+        }
+
+        for (const name of ManifestDiff.unionKeys(oldSplit.routes, newSplit.routes)) {
+            const oldRoute = oldSplit.routes[name];
+            const newRoute = newSplit.routes[name];
+            if (oldRoute === undefined) {
+                changes.push({ section: ManifestDiff.routesSection, path: name, kind: ManifestChangeKind.Added, newValue: newRoute });
+            } else if (newRoute === undefined) {
+                changes.push({ section: ManifestDiff.routesSection, path: name, kind: ManifestChangeKind.Removed, oldValue: oldRoute });
+            } else if (JSON.stringify(oldRoute) !== JSON.stringify(newRoute)) {
+                changes.push({ section: ManifestDiff.routesSection, path: name, kind: ManifestChangeKind.Changed, oldValue: oldRoute, newValue: newRoute });
+            }
+        }
+
+        for (const name of ManifestDiff.unionKeys(oldSplit.twins, newSplit.twins)) {
+            ManifestDiff.diff(ManifestDiff.twinsSection, name, oldSplit.twins[name], newSplit.twins[name], changes);
+        }
+        ManifestDiff.diff(ManifestDiff.otherSection, "", oldSplit.others, newSplit.others, changes);
+        return changes;
+    }
+
+    // Join createOptions, createOptions01, createOptions02... of the module settings and parse them
+    public static joinCreateOptions(settings: any): any {
+        if (!settings || settings.createOptions === undefined) {
+            return settings;
+        }
+        const joined: any = {};
+        let createOptions: string = typeof settings.createOptions === "string" ? settings.createOptions : JSON.stringify(settings.createOptions);
+        for (const key of Object.keys(settings)) {
+            if (/^createOptions\d{2}$/.test(key)) {
+                continue;
+            }
+            joined[key] = settings[key];
+        }
+        for (let index = 1; settings[`createOptions${(`0${index}`).slice(-2)}`] !== undefined; index++) {
+            createOptions += settings[`createOptions${(`0${index}`).slice(-2)}`];
+        }
+        try {
+            joined.createOptions = JSON.parse(createOptions);
+        } catch (error) {
+            joined.createOptions = createOptions;
+        }
+        return joined;
+    }
+
+    public static toMarkdown(changes: IManifestChange[], oldLabel: string, newLabel: string): string {
+        const lines: string[] = ["# Deployment manifest diff", "", `- Old: ${oldLabel}`, `- New: ${newLabel}`, ""];
+        if (changes.length === 0) {
+            lines.push("No differences.", "");
+        }
+        for (const section of [ManifestDiff.modulesSection, ManifestDiff.routesSection, ManifestDiff.twinsSection, ManifestDiff.otherSection]) {
+            const sectionChanges: IManifestChange[] = changes.filter((change) => change.section === section);
+            if (sectionChanges.length > 0) {
+                lines.push(`## ${section}`, "", ...sectionChanges.map((change) => `- ${ManifestDiff.describe(change)}`), "");
+            }
+        }
+        return lines.join("\n");
+    }
+
+    private static describe(change: IManifestChange): string {
+        const format = (value: any) => `\`${JSON.stringify(value)}\``;
+        switch (change.kind) {
+            case ManifestChangeKind.Added:
+                return `**added** \`${change.path}\`${change.newValue !== undefined ? `: ${format(change.newValue)}` : ""}`;
+            case ManifestChangeKind.Removed:
+                return `**removed** \`${change.path}\`${change.oldValue !== undefined ? `: ${format(change.oldValue)}` : ""}`;
+            default:
+                return `**changed** \`${change.path}\`: ${format(change.oldValue)} → ${format(change.newValue)}`;
+        }
+    }
+
+    // Separate the modules, routes and module twins from the other settings of the manifest
+    private static split(manifest: any): { modules: any, routes: any, twins: any, others: any } {
+        const others: any = JSON.parse(JSON.stringify(manifest || {}));
+        const modulesContent: any = others.modulesContent || others.moduleContent || {};
+        const modules: any = {};
+        const edgeAgent: any = modulesContent.$edgeAgent ? modulesContent.$edgeAgent["properties.desired"] : undefined;
+        for (const property of ["systemModules", "modules"]) {
+            if (edgeAgent && edgeAgent[property]) {
+                for (const name of Object.keys(edgeAgent[property])) {
+                    const module: any = edgeAgent[property][name];
+                    module.settings = ManifestDiff.joinCreateOptions(module.settings);
+                    modules[name] = module;
+                }
+                delete edgeAgent[property];
+            }
+        }
+
+        const edgeHub: any = modulesContent.$edgeHub ? modulesContent.$edgeHub["properties.desired"] : undefined;
+        const routes: any = edgeHub && edgeHub.routes ? edgeHub.routes : {};
+        if (edgeHub) {
+            delete edgeHub.routes;
+        }
+
+        const twins: any = {};
+        for (const name of Object.keys(modulesContent)) {
+            if (name !== "$edgeAgent" && name !== "$edgeHub") {
+                twins[name] = modulesContent[name];
+                delete modulesContent[name];
+            }
+        }
+        return { modules, routes, twins, others };
+    }
+
+    private static diff(section: string, path: string, oldValue: any, newValue: any, changes: IManifestChange[]): void {
+        if (JSON.stringify(oldValue) === JSON.stringify(newValue)) {
+            return;
+        }
+        if (oldValue === undefined) {
+            changes.push({ section, path, kind: ManifestChangeKind.Added, newValue });
+        } else if (newValue === undefined) {
+            changes.push({ section, path, kind: ManifestChangeKind.Removed, oldValue });
+        } else if (ManifestDiff.isObject(oldValue) && ManifestDiff.isObject(newValue)) {
+            for (const key of ManifestDiff.unionKeys(oldValue, newValue)) {
+                ManifestDiff.diff(section, path ? `${path}.${key}` : key, oldValue[key], newValue[key], changes);
+            }
+        } else if (ManifestDiff.isPrimitiveArray(oldValue) && ManifestDiff.isPrimitiveArray(newValue)) {
+            // e.g. Env and Binds of createOptions, where the order rarely matters
+            for (const value of oldValue.filter((item) => newValue.indexOf(item) < 0)) {
+                changes.push({ section, path: `${path}[]`, kind: ManifestChangeKind.Removed, oldValue: value });
+            }
+            for (const value of newValue.filter((item) => oldValue.indexOf(item) < 0)) {
+                changes.push({ section, path: `${path}[]`, kind: ManifestChangeKind.Added, newValue: value });
+            }
+            if (!changes.some((change) => change.path === `${path}[]`)) {
+                changes.push({ section, path, kind: ManifestChangeKind.Changed, oldValue, newValue });
+            }
+        } else {
+            changes.push({ section, path, kind: ManifestChangeKind.Changed, oldValue, newValue });
+        }
+    }
+
+    private static getImage(module: any): string {
+        return module && module.settings ? module.settings.image : undefined;
+    }
+
+    private static unionKeys(oldObj: any, newObj: any): string[] {
+        const keys: string[] = Object.keys(oldObj || {});
+        for (const key of Object.keys(newObj || {})) {
+            if (keys.indexOf(key) < 0) {
+                keys.push(key);
+            }
+        }
+        return keys;
+    }
+
+    private static isObject(value: any): boolean {
+        return value !== null && typeof value === "object" && !Array.isArray(value);
+    }
+
+    private static isPrimitiveArray(value: any): boolean {
+        return Array.isArray(value) && value.every((item) => item === null || typeof item !== "object");
+    }
+}
@@ -0,0 +1,350 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as dotenv from "dotenv";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { BuildSettings } from "../common/buildSettings";
+import { Constants } from "../common/constants";
+import { IOverlayConflict, OverlayMerger } from "./overlayMerger";
+
+export interface IEnvironment {
+    [key: string]: string;
+}
+
+export interface IDeploymentInfo {
+    manifestObj: any;
+    manifestFile: string;
+    overlays?: IOverlayDeploymentInfo[];
+}
+
+export interface IOverlayDeploymentInfo {
+    overlayFile: string;
+    manifestObj: any;
+    manifestFile: string;
+    conflicts: IOverlayConflict[];
+}
+
+// Generate deployment manifests from deployment templates. This class must not depend on vscode
+// since it is shared by the extension and the command line tool.
+export class ManifestGenerator {
+    // The keys of a deployment template which look like variables but are kept as they are
+    public static templateExceptKeys: string[] = ["$edgeHub", "$edgeAgent", "$upstream", Constants.SchemaTemplate, Constants.Overlays];
+
+    public static async loadEnvFile(envFilePath: string, baseEnv: IEnvironment = {}): Promise<IEnvironment> {
+        const env: IEnvironment = Object.assign({}, baseEnv);
+        if (await fse.pathExists(envFilePath)) {
+            const envConfig = dotenv.parse(await fse.readFile(envFilePath));
+            for (const k of Object.keys(envConfig)) {
+                env[k] = envConfig[k];
+            }
+        }
+        return env;
+    }
+
+    public static expandEnv(input: string, env: IEnvironment, ...exceptKeys: string[]): string {
+        const pattern: RegExp = new RegExp(/\$([a-zA-Z0-9_]+)|\${([a-zA-Z0-9_]+)}/g);
+        const exceptSet: Set<string> = new Set(exceptKeys);
+        return input.replace(pattern, (matched) => {
+            if (exceptKeys && exceptSet.has(matched)) {
+                return matched;
+            }
+            const key: string = matched.replace(/\$|{|}/g, "");
+            return env[key] || matched;
+        });
+    }
+
+    public static async readJsonAndExpandEnv(filePath: string, env: IEnvironment, ...exceptKeys: string[]): Promise<any> {
+        const content: string = await fse.readFile(filePath, "utf8");
+        const expandedContent = ManifestGenerator.expandEnv(content, env, ...exceptKeys);
+        return JSON.parse(expandedContent);
+    }
+
+    public static expandModules(input: string, moduleMap: Map<string, string>): string {
+        return input.replace(Constants.imagePlaceholderPattern, (matched) => {
+            const key: string = matched.replace(/\$|{|}/g, "");
+            if (moduleMap.has(key)) {
+                const value: string = moduleMap.get(key);
+                return value;
+            } else {
+                return matched;
+            }
+        });
+    }
+
+    public static async getSubDirectories(parentPath: string): Promise<string[]> {
+        const filesAndDirs = await fse.readdir(parentPath);
+        const directories = [];
+        await Promise.all(
+            filesAndDirs.map(async (name) => {
+                const subPath = path.join(parentPath, name);
+                const stat: fse.Stats = await fse.stat(subPath);
+                if (stat.isDirectory()) {
+                    directories.push(subPath);
+                }
+            }),
+        );
+        return directories;
+    }
+
+    public static getModuleKey(name: string, platform: string): string {
+        return `MODULES.${name}.${platform}`;
+    }
+
+    public static getModuleKeyNoPlatform(name: string, isDebug: boolean): string {
+        return isDebug ? `MODULES.${name}.debug` : `MODULES.${name}`;
+    }
+
+    public static getImage(repo: string, version: string, platform: string): string {
+        return `${repo}:${version}-${platform}`;
+    }
+
+    public static getBuildSettings(
+        modulePath: string,
+        dockerFilePath: string,
+        buildOptions?: string[],
+        contextPath?: string): BuildSettings {
+        const optionArray = (buildOptions && buildOptions instanceof Array) ? buildOptions : undefined;
+        const context = contextPath ? path.resolve(modulePath, contextPath) : path.dirname(dockerFilePath);
+        return new BuildSettings(dockerFilePath, context, optionArray);
+    }
+
+    public static async setSlnModulesMap(slnPath: string,
+                                         defaultPlatform: string,
+                                         env: IEnvironment,
+                                         moduleToImageMap: Map<string, string>,
+                                         imageToBuildSettings?: Map<string, BuildSettings>): Promise<void> {
+        const modulesPath: string = path.join(slnPath, Constants.moduleFolder);
+        const stat: fse.Stats = await fse.lstat(modulesPath);
+        if (!stat.isDirectory()) {
+            throw new Error("no modules folder");
+        }
+
+        const moduleDirs: string[] = await ManifestGenerator.getSubDirectories(modulesPath);
+        await Promise.all(
+            moduleDirs.map(async (module) => {
+                await ManifestGenerator.setModuleMap(module, defaultPlatform, env, moduleToImageMap, imageToBuildSettings);
+            }),
+        );
+    }
+
+    public static async setModuleMap(modulePath: string,
+                                     defaultPlatform: string,
+                                     env: IEnvironment,
+                                     moduleToImageMap: Map<string, string>,
+                                     imageToBuildSettings?: Map<string, BuildSettings>): Promise<void> {
+        const moduleFile = path.join(modulePath, Constants.moduleManifest);
+        const name: string = path.basename(modulePath);
+        if (await fse.pathExists(moduleFile)) {
+            const module = await ManifestGenerator.readJsonAndExpandEnv(moduleFile, env, Constants.moduleSchemaVersion);
+            const platformKeys: string[] = Object.keys(module.image.tag.platforms);
+            const repo: string = module.image.repository;
+            const version: string = module.image.tag.version;
+            platformKeys.map((platform) => {
+                const moduleKey: string = ManifestGenerator.getModuleKey(name, platform);
+                const image: string = ManifestGenerator.getImage(repo, version, platform);
+                moduleToImageMap.set(moduleKey, image);
+                if (imageToBuildSettings !== undefined) {
+                    const dockerFilePath = path.resolve(modulePath, module.image.tag.platforms[platform]);
+                    imageToBuildSettings.set(
+                        image,
+                        ManifestGenerator.getBuildSettings(modulePath,
+                            dockerFilePath, module.image.buildOptions, module.image.contextPath));
+                }
+
+                if (platform === defaultPlatform) {
+                    moduleToImageMap.set(ManifestGenerator.getModuleKeyNoPlatform(name, false), image);
+                } else if (platform === `${defaultPlatform}.debug`) {
+                    moduleToImageMap.set(ManifestGenerator.getModuleKeyNoPlatform(name, true), image);
+                }
+            });
+        }
+    }
+
+    // Get the platforms which the modules of the solution could be built for, except the debug ones
+    public static async getSolutionPlatforms(slnPath: string, env: IEnvironment): Promise<string[]> {
+        const platforms: Set<string> = new Set();
+        const moduleDirs: string[] = await ManifestGenerator.getSubDirectories(path.join(slnPath, Constants.moduleFolder));
+        for (const moduleDir of moduleDirs) {
+            const moduleFile = path.join(moduleDir, Constants.moduleManifest);
+            if (await fse.pathExists(moduleFile)) {
+                const module = await ManifestGenerator.readJsonAndExpandEnv(moduleFile, env, Constants.moduleSchemaVersion);
+                Object.keys(module.image.tag.platforms).filter((platform) => !platform.endsWith(".debug")).forEach((platform) => platforms.add(platform));
+            }
+        }
+        return [...platforms];
+    }
+
+    // Expand the template with module images and environment variables, then write the deployment manifest to the config folder.
+    // If the template declares overlays, a deployment manifest is also written for each overlay merged into the template.
+    // The environment profile the variables are loaded from is recorded in the file names of the manifests.
+    public static async generateDeployment(templateFile: string,
+                                           configPath: string,
+                                           defaultPlatform: string,
+                                           env: IEnvironment,
+                                           moduleToImageMap: Map<string, string>,
+                                           profile?: string): Promise<IDeploymentInfo> {
+        const template: any = ManifestGenerator.updateSchema(await ManifestGenerator.readTemplate(templateFile, env, moduleToImageMap));
+        const templateSchemaVersion = template[Constants.SchemaTemplate];
+        delete template[Constants.SchemaTemplate];
+        const overlayFiles: string[] = template[Constants.Overlays] || [];
+        delete template[Constants.Overlays];
+        if (!Array.isArray(overlayFiles)) {
+            throw new Error(`${Constants.Overlays} of ${path.basename(templateFile)} must be an array of overlay file paths`);
+        }
+
+        // the template is still needed by the overlays after the createOptions are serialized
+        const dpManifest = ManifestGenerator.convertCreateOptions(JSON.parse(JSON.stringify(template)));
+        const deployFile = await ManifestGenerator.writeDeployment(configPath,
+            ManifestGenerator.getDeployFileName(path.basename(templateFile), templateSchemaVersion, defaultPlatform, profile), dpManifest);
+
+        const overlays: IOverlayDeploymentInfo[] = [];
+        for (const overlayFile of overlayFiles) {
+            const overlayPath: string = path.resolve(path.dirname(templateFile), overlayFile);
+            const overlay: any = ManifestGenerator.updateSchema(await ManifestGenerator.readTemplate(overlayPath, env, moduleToImageMap));
+            const merged = OverlayMerger.merge(template, overlay);
+            const overlayManifest = ManifestGenerator.convertCreateOptions(merged.result);
+            const overlayDeployFile = await ManifestGenerator.writeDeployment(configPath,
+                ManifestGenerator.getDeployFileName(path.basename(overlayPath), templateSchemaVersion, defaultPlatform, profile), overlayManifest);
+            overlays.push({
+                overlayFile: overlayPath,
+                manifestObj: overlayManifest,
+                manifestFile: overlayDeployFile,
+                conflicts: merged.conflicts,
+            });
+        }
+
+        return {
+            manifestObj: dpManifest,
+            manifestFile: deployFile,
+            overlays,
+        };
+    }
+
+    // e.g. deployment.amd64.json, or deployment.prod.amd64.json for the prod environment profile
+    public static getDeployFileName(templateFileName: string, templateSchemaVersion: string, defaultPlatform: string, profile?: string): string {
+        const platform = templateSchemaVersion > "0.0.1" ? `.${defaultPlatform}` : "";
+        let name: string = templateFileName;
+        const tempLength = templateFileName.length;
+        if (templateFileName.endsWith(Constants.tson)) {
+            name = templateFileName.substr(0, tempLength - Constants.tson.length);
+        } else if (templateFileName.endsWith(Constants.overlaySuffix)) {
+            name = templateFileName.substr(0, tempLength - Constants.overlaySuffix.length);
+        } else if (templateFileName.endsWith(".json")) {
+            name = templateFileName.substr(0, tempLength - ".json".length);
+        }
+        return `${name}${profile ? `.${profile}` : ""}${platform}.json`;
+    }
+
+    // Get the images to build for the deployment manifest and the manifests of its overlays
+    public static getBuildMap(deployment: IDeploymentInfo, imageToBuildSettings: Map<string, BuildSettings>): Map<string, BuildSettings> {
+        const buildMap: Map<string, BuildSettings> = ManifestGenerator.getBuildMapFromDeployment(deployment.manifestObj, imageToBuildSettings);
+        for (const overlay of deployment.overlays || []) {
+            ManifestGenerator.getBuildMapFromDeployment(overlay.manifestObj, imageToBuildSettings).forEach((buildSettings, image) => {
+                buildMap.set(image, buildSettings);
+            });
+        }
+        return buildMap;
+    }
+
+    public static getBuildMapFromDeployment(manifestObj: any,
+                                            imageToBuildSettings: Map<string, BuildSettings>): Map<string, BuildSettings> {
+        try {
+            const buildMap: Map<string, any> = new Map<string, any>();
+            const modules = manifestObj.modulesContent.$edgeAgent["properties.desired"].modules;
+            for (const m in modules) {
+                if (modules.hasOwnProperty(m)) {
+                    let image: string;
+                    try {
+                        image = modules[m].settings.image;
+                    } catch (e) { }
+                    if (image && imageToBuildSettings.get(image) !== undefined) {
+                        buildMap.set(image, imageToBuildSettings.get(image));
+                    }
+                }
+            }
+            return buildMap;
+        } catch (err) {
+            throw new Error("Cannot parse deployment manifest");
+        }
+    }
+
+    public static convertCreateOptions(deployment: any): any {
+        if (deployment) {
+            const moduleProperties = deployment.modulesContent.$edgeAgent["properties.desired"];
+            const systemModules = moduleProperties.systemModules;
+            if (systemModules) {
+                moduleProperties.systemModules = ManifestGenerator.serializeCreateOptionsForEachModule(systemModules);
+            }
+            const modules = moduleProperties.modules;
+            if (modules) {
+                moduleProperties.modules = ManifestGenerator.serializeCreateOptionsForEachModule(modules);
+            }
+        }
+
+        return deployment;
+    }
+
+    // Temp utility to sovle the compatibale issue because of the schema change in IoT Hub Service.
+    // moduleContent -> modulesContent
+    public static updateSchema(deployment: any): any {
+        if (deployment && deployment.moduleContent) {
+            deployment.modulesContent = deployment.moduleContent;
+            delete deployment.moduleContent;
+        }
+        return deployment;
+    }
+
+    public static serializeCreateOptions(settings: any, createOptions: any): any {
+        let optionStr: string;
+        if (typeof createOptions === "string") {
+            optionStr = createOptions;
+        } else {
+            optionStr = JSON.stringify(createOptions);
+        }
+        const re = new RegExp(`(.|[\r\n]){1,${Constants.TwinValueMaxSize}}`, "g");
+        const options = optionStr.match(re);
+        if (options.length > Constants.TwinValueMaxChunks) {
+            throw new Error(`Size of createOptions of ${settings.image} is too big. The maximum size of createOptions is 4K`);
+        }
+        options.map((value, index) => {
+            if (index === 0) {
+                settings.createOptions = value;
+            } else {
+                const formattedNumber = (`0${index}`).slice(-2);
+                settings[`createOptions${formattedNumber}`] = value;
+            }
+        });
+
+        return settings;
+    }
+
+    private static async readTemplate(templateFile: string, env: IEnvironment, moduleToImageMap: Map<string, string>): Promise<any> {
+        const data: string = await fse.readFile(templateFile, "utf8");
+        const moduleExpanded: string = ManifestGenerator.expandModules(data, moduleToImageMap);
+        const generatedDeployFile: string = ManifestGenerator.expandEnv(moduleExpanded, env, ...ManifestGenerator.templateExceptKeys);
+        return JSON.parse(generatedDeployFile);
+    }
+
+    private static async writeDeployment(configPath: string, deploymentFileName: string, dpManifest: any): Promise<string> {
+        // generate config file
+        await fse.ensureDir(configPath);
+        const deployFile = path.join(configPath, deploymentFileName);
+        await fse.remove(deployFile);
+        await fse.writeFile(deployFile, JSON.stringify(dpManifest, null, 2), { encoding: "utf8" });
+        return deployFile;
+    }
+
+    private static serializeCreateOptionsForEachModule(modules: any): any {
+        for (const key in modules) {
+            if (modules.hasOwnProperty(key)) {
+                const moduleVar = modules[key];
+                if (moduleVar.settings && moduleVar.settings.createOptions) {
+                    moduleVar.settings = ManifestGenerator.serializeCreateOptions(moduleVar.settings, moduleVar.settings.createOptions);
+                }
+            }
+        }
+        return modules;
+    }
+}
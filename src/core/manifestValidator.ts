@@ -0,0 +1,303 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as parser from "jsonc-parser/lib/umd/main";
+import { Constants } from "../common/constants";
+
+export enum ManifestProblemSeverity {
+    Error,
+    Warning,
+}
+
+export interface IManifestProblem {
+    message: string;
+    offset: number;
+    length: number;
+    severity: ManifestProblemSeverity;
+}
+
+// Validate the deployment template or the generated deployment manifest against the schema accepted by IoT Hub.
+// The problems are located by the offsets in the JSON text, so that they can be shown as diagnostics.
+export class ManifestValidator {
+    public static supportedSchemaVersions = ["1.0", "1.1"];
+    public static runtimeTypes = ["docker"];
+
+    public static validate(text: string, isTemplate: boolean): IManifestProblem[] {
+        const validator = new ManifestValidator(isTemplate);
+        validator.validateRoot(parser.parseTree(text));
+        return validator.problems;
+    }
+
+    private readonly problems: IManifestProblem[] = [];
+    private readonly isTemplate: boolean;
+
+    private constructor(isTemplate: boolean) {
+        this.isTemplate = isTemplate;
+    }
+
+    private validateRoot(rootNode: parser.Node): void {
+        if (!rootNode || rootNode.type !== "object") {
+            this.addProblem(rootNode, "Deployment manifest must be a JSON object");
+            return;
+        }
+
+        const modulesContent: parser.Node = this.getProperty(rootNode, "modulesContent") || this.getProperty(rootNode, "moduleContent");
+        if (!modulesContent) {
+            this.addMissingProblem(rootNode, "modulesContent");
+            return;
+        }
+        if (!this.expectType(modulesContent, "object")) {
+            return;
+        }
+
+        const agentDesired: parser.Node = this.getDesiredProperties(modulesContent, "$edgeAgent");
+        if (agentDesired) {
+            this.validateEdgeAgent(agentDesired);
+        }
+        const hubDesired: parser.Node = this.getDesiredProperties(modulesContent, "$edgeHub");
+        if (hubDesired) {
+            this.validateEdgeHub(hubDesired);
+        }
+    }
+
+    private getDesiredProperties(modulesContent: parser.Node, moduleId: string): parser.Node {
+        const moduleNode: parser.Node = this.requireProperty(modulesContent, moduleId, "object");
+        if (!moduleNode) {
+            return undefined;
+        }
+        return this.requireProperty(moduleNode, "properties.desired", "object");
+    }
+
+    private validateEdgeAgent(desired: parser.Node): void {
+        this.validateSchemaVersion(desired);
+
+        const runtime: parser.Node = this.requireProperty(desired, "runtime", "object");
+        if (runtime) {
+            this.validateEnum(this.requireProperty(runtime, "type", "string"), ManifestValidator.runtimeTypes);
+            const settings: parser.Node = this.requireProperty(runtime, "settings", "object");
+            if (settings) {
+                this.validateOptionalProperty(settings, "minDockerVersion", "string");
+                this.validateOptionalProperty(settings, "loggingOptions", "string");
+                const credentials: parser.Node = this.validateOptionalProperty(settings, "registryCredentials", "object");
+                if (credentials) {
+                    for (const credential of this.getPropertyValues(credentials)) {
+                        if (this.expectType(credential, "object")) {
+                            this.requireProperty(credential, "username", "string");
+                            this.requireProperty(credential, "password", "string");
+                            this.requireProperty(credential, "address", "string");
+                        }
+                    }
+                }
+            }
+        }
+
+        const systemModules: parser.Node = this.requireProperty(desired, "systemModules", "object");
+        if (systemModules) {
+            const edgeAgent: parser.Node = this.requireProperty(systemModules, "edgeAgent", "object");
+            if (edgeAgent) {
+                this.validateModule(edgeAgent, false);
+            }
+            const edgeHub: parser.Node = this.requireProperty(systemModules, "edgeHub", "object");
+            if (edgeHub) {
+                this.validateModule(edgeHub, true);
+            }
+        }
+
+        const modules: parser.Node = this.requireProperty(desired, "modules", "object");
+        if (modules) {
+            for (const moduleNode of this.getPropertyValues(modules)) {
+                if (this.expectType(moduleNode, "object")) {
+                    this.validateOptionalProperty(moduleNode, "version", "string");
+                    this.validateModule(moduleNode, true);
+                }
+            }
+        }
+    }
+
+    // edgeAgent is the only module which has no status or restart policy
+    private validateModule(moduleNode: parser.Node, hasLifecycle: boolean): void {
+        this.validateEnum(this.requireProperty(moduleNode, "type", "string"), ManifestValidator.runtimeTypes);
+        if (hasLifecycle) {
+            this.validateEnum(this.requireProperty(moduleNode, "status", "string"), Constants.moduleStatuses);
+            this.validateEnum(this.requireProperty(moduleNode, "restartPolicy", "string"), Constants.moduleRestartPolicies);
+        }
+
+        const settings: parser.Node = this.requireProperty(moduleNode, "settings", "object");
+        if (settings) {
+            this.requireProperty(settings, "image", "string");
+            this.validateCreateOptions(settings);
+        }
+
+        const env: parser.Node = this.validateOptionalProperty(moduleNode, "env", "object");
+        if (env) {
+            for (const variable of this.getPropertyValues(env)) {
+                if (this.expectType(variable, "object")) {
+                    this.requireProperty(variable, "value");
+                }
+            }
+        }
+    }
+
+    private validateCreateOptions(settings: parser.Node): void {
+        const createOptions: parser.Node = this.getProperty(settings, "createOptions");
+        if (!createOptions) {
+            return;
+        }
+
+        if (this.isTemplate) {
+            if (createOptions.type === "object") {
+                if (JSON.stringify(parser.getNodeValue(createOptions)).length > Constants.TwinValueMaxSize * Constants.TwinValueMaxChunks) {
+                    this.addProblem(createOptions, "The maximum size of createOptions is 4K");
+                }
+            } else if (this.expectType(createOptions, "string", "object")) {
+                this.validateSerializedCreateOptions(createOptions.value, createOptions);
+            }
+            return;
+        }
+
+        // createOptions of the deployment manifest is split into chunks of createOptions, createOptions01, createOptions02...
+        if (!this.expectType(createOptions, "string")) {
+            return;
+        }
+        const chunks: parser.Node[] = [createOptions];
+        for (const property of settings.children) {
+            const key: string = property.children[0].value;
+            const matches = /^createOptions(\d\d)$/.exec(key);
+            if (matches) {
+                const index: number = parseInt(matches[1], 10);
+                if (index === 0 || index >= Constants.TwinValueMaxChunks) {
+                    this.addProblem(property.children[0], `createOptions can be split into ${Constants.TwinValueMaxChunks} chunks at most`);
+                } else if (this.expectType(property.children[1], "string")) {
+                    chunks[index] = property.children[1];
+                }
+            }
+        }
+
+        let serialized: string = "";
+        for (let i = 0; i < chunks.length; i++) {
+            if (!chunks[i]) {
+                this.addProblem(settings.parent.children[0], `Missing createOptions${(`0${i}`).slice(-2)}`);
+                return;
+            }
+            if (chunks[i].value.length > Constants.TwinValueMaxSize) {
+                this.addProblem(chunks[i], `Each chunk of createOptions must not exceed ${Constants.TwinValueMaxSize} characters`);
+            }
+            serialized += chunks[i].value;
+        }
+        this.validateSerializedCreateOptions(serialized, createOptions);
+    }
+
+    private validateSerializedCreateOptions(serialized: string, node: parser.Node): void {
+        let createOptions: any;
+        try {
+            createOptions = JSON.parse(serialized);
+        } catch (error) {
+            this.addProblem(node, "createOptions must be a serialized JSON object");
+            return;
+        }
+        if (!createOptions || typeof createOptions !== "object" || Array.isArray(createOptions)) {
+            this.addProblem(node, "createOptions must be a serialized JSON object");
+        }
+    }
+
+    private validateEdgeHub(desired: parser.Node): void {
+        this.validateSchemaVersion(desired);
+
+        const routes: parser.Node = this.requireProperty(desired, "routes", "object");
+        if (routes) {
+            for (const route of this.getPropertyValues(routes)) {
+                // Since schema 1.1, a route can be an object with the route string in the "route" property
+                if (route.type === "object") {
+                    this.requireProperty(route, "route", "string");
+                    this.validateOptionalProperty(route, "priority", "number");
+                    this.validateOptionalProperty(route, "timeToLiveSecs", "number");
+                } else {
+                    this.expectType(route, "string", "object");
+                }
+            }
+        }
+
+        const storeAndForward: parser.Node = this.requireProperty(desired, "storeAndForwardConfiguration", "object");
+        if (storeAndForward) {
+            const timeToLive: parser.Node = this.requireProperty(storeAndForward, "timeToLiveSecs", "number");
+            if (timeToLive && (!Number.isInteger(timeToLive.value) || timeToLive.value < 0)) {
+                this.addProblem(timeToLive, "timeToLiveSecs must be a non-negative integer");
+            }
+        }
+    }
+
+    private validateSchemaVersion(desired: parser.Node): void {
+        const schemaVersion: parser.Node = this.requireProperty(desired, "schemaVersion", "string");
+        if (schemaVersion && ManifestValidator.supportedSchemaVersions.indexOf(schemaVersion.value) < 0 && !this.isPlaceholder(schemaVersion)) {
+            this.addProblem(schemaVersion, `Unknown schemaVersion. Supported versions: ${ManifestValidator.supportedSchemaVersions.join(", ")}`,
+                ManifestProblemSeverity.Warning);
+        }
+    }
+
+    private validateEnum(node: parser.Node, values: string[]): void {
+        if (node && values.indexOf(node.value) < 0 && !this.isPlaceholder(node)) {
+            this.addProblem(node, `Value must be one of: ${values.join(", ")}`);
+        }
+    }
+
+    // Values in the deployment template could be environment variables, which are only known at generation time
+    private isPlaceholder(node: parser.Node): boolean {
+        return this.isTemplate && node.type === "string" && node.value.indexOf("$") >= 0;
+    }
+
+    private requireProperty(objectNode: parser.Node, name: string, ...types: string[]): parser.Node {
+        const node: parser.Node = this.getProperty(objectNode, name);
+        if (!node) {
+            this.addMissingProblem(objectNode, name);
+            return undefined;
+        }
+        return types.length === 0 || this.expectType(node, ...types) ? node : undefined;
+    }
+
+    private validateOptionalProperty(objectNode: parser.Node, name: string, type: string): parser.Node {
+        const node: parser.Node = this.getProperty(objectNode, name);
+        return node && this.expectType(node, type) ? node : undefined;
+    }
+
+    private expectType(node: parser.Node, ...types: string[]): boolean {
+        if (types.indexOf(node.type) >= 0) {
+            return true;
+        }
+        const property: string = node.parent && node.parent.type === "property" ? `"${node.parent.children[0].value}" ` : "";
+        this.addProblem(node, `${property}must be ${types.map((type) => type === "object" ? "an object" : `a ${type}`).join(" or ")}`);
+        return false;
+    }
+
+    private getProperty(objectNode: parser.Node, name: string): parser.Node {
+        for (const property of objectNode.children) {
+            if (property.children[0].value === name) {
+                return property.children[1];
+            }
+        }
+        return undefined;
+    }
+
+    private getPropertyValues(objectNode: parser.Node): parser.Node[] {
+        return objectNode.children.filter((property) => property.children.length > 1).map((property) => property.children[1]);
+    }
+
+    // Report a missing property on the key of the object, or on the opening brace for the root object
+    private addMissingProblem(objectNode: parser.Node, name: string): void {
+        const keyNode: parser.Node = objectNode.parent && objectNode.parent.type === "property" ? objectNode.parent.children[0] : undefined;
+        if (keyNode) {
+            this.addProblem(keyNode, `Missing required property "${name}"`);
+        } else {
+            this.problems.push({ message: `Missing required property "${name}"`, offset: objectNode.offset, length: 1, severity: ManifestProblemSeverity.Error });
+        }
+    }
+
+    private addProblem(node: parser.Node, message: string, severity: ManifestProblemSeverity = ManifestProblemSeverity.Error): void {
+        this.problems.push({
+            message,
+            offset: node ? node.offset : 0,
+            length: node ? node.length : 0,
+            severity,
+        });
+    }
+}
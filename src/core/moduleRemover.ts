@@ -0,0 +1,127 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { Constants } from "../common/constants";
+import { RouteParser } from "../common/routeParser";
+
+// Undo the changes made to the files of a solution when a module was added. Each method updates the given object
+// in place and returns a description of every change for the preview shown before anything is written.
+export class ModuleRemover {
+    // Return the modules folder name referenced by the image placeholder of the module, e.g. ${MODULES.filter.amd64}
+    public static getModuleFolder(templateJson: any, moduleName: string): string {
+        const module = ModuleRemover.getModules(templateJson)[moduleName];
+        const image: string = module && module.settings ? module.settings.image : undefined;
+        const matches = typeof image === "string" ? /^\${MODULES\.([^.}]+)(\..*)?}$/.exec(image) : null;
+        return matches ? matches[1] : undefined;
+    }
+
+    public static removeFromTemplate(templateJson: any, moduleName: string): string[] {
+        const changes: string[] = [];
+        const modules = ModuleRemover.getModules(templateJson);
+        if (modules[moduleName] !== undefined) {
+            delete modules[moduleName];
+            changes.push(`Remove module '${moduleName}'`);
+        }
+        const modulesContent = templateJson.modulesContent || {};
+        if (modulesContent[moduleName] !== undefined) {
+            delete modulesContent[moduleName];
+            changes.push(`Remove module twin of '${moduleName}'`);
+        }
+
+        const edgeHub = modulesContent.$edgeHub;
+        const routes = edgeHub && edgeHub["properties.desired"] ? edgeHub["properties.desired"].routes : undefined;
+        for (const name of Object.keys(routes || {})) {
+            const routeText: string = ModuleRemover.getRouteText(routes[name]);
+            if (routeText !== undefined && ModuleRemover.routeReferencesModule(routeText, moduleName)) {
+                changes.push(`Remove route '${name}': ${routeText}`);
+                delete routes[name];
+            }
+        }
+        return changes;
+    }
+
+    // The launch configurations added for a module are named after the module or point into its folder
+    public static removeLaunchConfigurations(launchJson: any, moduleName: string, moduleFolder: string): string[] {
+        if (!launchJson || !Array.isArray(launchJson.configurations)) {
+            return [];
+        }
+
+        const folderPattern: RegExp = moduleFolder ? new RegExp(`[\\\\/]modules[\\\\/]${moduleFolder.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}([\\\\/"]|$)`) : undefined;
+        const changes: string[] = [];
+        launchJson.configurations = launchJson.configurations.filter((config) => {
+            const name: string = typeof config.name === "string" ? config.name : "";
+            const remove: boolean = name.startsWith(`${moduleName} `) || (config.type === Constants.edgeDebugType && config.module === moduleName)
+                || (folderPattern !== undefined && folderPattern.test(JSON.stringify(config)));
+            if (remove) {
+                changes.push(`Remove launch configuration '${name}'`);
+            }
+            return !remove;
+        });
+        return changes;
+    }
+
+    // Return the environment variables referenced by the removed credentials, e.g. $CONTAINER_REGISTRY_USERNAME_myacr
+    public static removeRegistryCredentials(templateJson: any, registryKeys: string[]): { changes: string[], envVariables: string[] } {
+        const changes: string[] = [];
+        const envVariables: string[] = [];
+        const registries = ModuleRemover.getRegistryCredentials(templateJson);
+        for (const key of registryKeys) {
+            if (registries && registries[key] !== undefined) {
+                const content: string = JSON.stringify(registries[key]);
+                envVariables.push(...(content.match(/\$\{?[a-zA-Z0-9_]+\}?/g) || []).map((variable) => variable.replace(/\$|{|}/g, "")));
+                delete registries[key];
+                changes.push(`Remove registry credentials '${key}'`);
+            }
+        }
+        return { changes, envVariables };
+    }
+
+    // Since schema 1.1, a route can be an object with the route string in the "route" property
+    public static getRouteText(route: any): string {
+        if (typeof route === "string") {
+            return route;
+        }
+        return route && typeof route.route === "string" ? route.route : undefined;
+    }
+
+    // The names of the modules of a template, or of an overlay which only patches some of them
+    public static getModuleNames(templateJson: any): string[] {
+        return Object.keys(ModuleRemover.getModules(templateJson));
+    }
+
+    public static getRegistryCredentials(templateJson: any): any {
+        const edgeAgent = templateJson.modulesContent ? templateJson.modulesContent.$edgeAgent : undefined;
+        const runtime = edgeAgent && edgeAgent["properties.desired"] ? edgeAgent["properties.desired"].runtime : undefined;
+        return runtime && runtime.settings ? runtime.settings.registryCredentials : undefined;
+    }
+
+    // Remove the lines of the given variables from the content of a .env file, keeping comments and other lines as they are
+    public static removeEnvVariables(envContent: string, envVariables: string[]): { content: string, changes: string[] } {
+        const variables: Set<string> = new Set(envVariables);
+        const changes: string[] = [];
+        const lines: string[] = envContent.split(/\r?\n/).filter((line) => {
+            const matches = /^\s*([a-zA-Z0-9_.-]+)\s*=/.exec(line);
+            if (matches && variables.has(matches[1])) {
+                changes.push(`Remove '${matches[1]}'`);
+                return false;
+            }
+            return true;
+        });
+        return { content: lines.join("\n"), changes };
+    }
+
+    private static getModules(templateJson: any): any {
+        const edgeAgent = templateJson.modulesContent ? templateJson.modulesContent.$edgeAgent : undefined;
+        return edgeAgent && edgeAgent["properties.desired"] && edgeAgent["properties.desired"].modules ? edgeAgent["properties.desired"].modules : {};
+    }
+
+    private static routeReferencesModule(routeText: string, moduleName: string): boolean {
+        const route = RouteParser.parse(routeText);
+        if ((route.source && route.source.moduleId === moduleName) || (route.sink && route.sink.moduleId === moduleName)) {
+            return true;
+        }
+        // fall back to text matching for routes the parser could not understand
+        return route.errors.length > 0 && (routeText.includes(`/modules/${moduleName}/`) || routeText.includes(`/modules/${moduleName}"`));
+    }
+}
@@ -0,0 +1,151 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { Constants } from "../common/constants";
+import { RouteParser } from "../common/routeParser";
+import { ModuleRemover } from "./moduleRemover";
+
+// Rename a module in the files of a solution: the module and its twin in deployment templates and overlays,
+// the ${MODULES.<folder>} image placeholders, the routes, the launch configurations and module.json.
+// Each method updates the given object in place and returns a description of every change.
+export class ModuleRenamer {
+    public static renameInTemplate(templateJson: any, oldName: string, newName: string, oldFolder: string, newFolder: string): string[] {
+        const changes: string[] = [];
+        const modulesContent = templateJson.modulesContent || {};
+        const edgeAgent = modulesContent.$edgeAgent;
+        const modules = edgeAgent && edgeAgent["properties.desired"] ? edgeAgent["properties.desired"].modules : undefined;
+        if (modules && modules[oldName] !== undefined) {
+            edgeAgent["properties.desired"].modules = ModuleRenamer.renameKey(modules, oldName, newName);
+            changes.push(`Rename module '${oldName}' to '${newName}'`);
+        }
+        for (const name of Object.keys((edgeAgent && edgeAgent["properties.desired"] ? edgeAgent["properties.desired"].modules : undefined) || {})) {
+            const settings = edgeAgent["properties.desired"].modules[name].settings;
+            if (oldFolder && settings && typeof settings.image === "string") {
+                const image: string = settings.image.replace(new RegExp(`^\\\${MODULES\\.${ModuleRenamer.escape(oldFolder)}(?=[.}])`), `\${MODULES.${newFolder}`);
+                if (image !== settings.image) {
+                    changes.push(`Replace image '${settings.image}' of module '${name}' with '${image}'`);
+                    settings.image = image;
+                }
+            }
+        }
+        if (modulesContent[oldName] !== undefined) {
+            templateJson.modulesContent = ModuleRenamer.renameKey(modulesContent, oldName, newName);
+            changes.push(`Rename module twin of '${oldName}' to '${newName}'`);
+        }
+
+        const edgeHub = templateJson.modulesContent ? templateJson.modulesContent.$edgeHub : undefined;
+        const routes = edgeHub && edgeHub["properties.desired"] ? edgeHub["properties.desired"].routes : undefined;
+        let renamedRoutes: any = routes;
+        for (const name of Object.keys(routes || {})) {
+            const routeText: string = ModuleRemover.getRouteText(routes[name]);
+            if (routeText === undefined) {
+                continue;
+            }
+            const route: string = ModuleRenamer.renameInRoute(routeText, oldName, newName);
+            // route names generated when the module was added, e.g. filterToIoTHub and sensorTofilter
+            const routeName: string = name.startsWith(`${oldName}To`) ? `${newName}${name.substr(oldName.length)}` :
+                (name.endsWith(`To${oldName}`) ? `${name.substr(0, name.length - oldName.length)}${newName}` : name);
+            if (route !== routeText || routeName !== name) {
+                changes.push(`Update route '${name}'${routeName !== name ? ` as '${routeName}'` : ""}: ${route}`);
+                if (typeof routes[name] === "string") {
+                    renamedRoutes[name] = route;
+                } else {
+                    routes[name].route = route;
+                }
+                if (routeName !== name && renamedRoutes[routeName] === undefined) {
+                    renamedRoutes = ModuleRenamer.renameKey(renamedRoutes, name, routeName);
+                }
+            }
+        }
+        if (renamedRoutes !== routes) {
+            edgeHub["properties.desired"].routes = renamedRoutes;
+        }
+        return changes;
+    }
+
+    public static renameInRoute(routeText: string, oldName: string, newName: string): string {
+        const route = RouteParser.parse(routeText);
+        if (route.errors.length > 0) {
+            return routeText.replace(new RegExp(`/modules/${ModuleRenamer.escape(oldName)}(?=[/"])`, "g"), `/modules/${newName}`);
+        }
+
+        const offsets: number[] = [];
+        for (const part of [route.source, route.sink]) {
+            if (part && part.moduleId === oldName && part.moduleIdOffset !== undefined) {
+                offsets.push(part.moduleIdOffset);
+            }
+        }
+        let result: string = routeText;
+        for (const offset of offsets.sort((a, b) => b - a)) {
+            result = result.substr(0, offset) + newName + result.substr(offset + oldName.length);
+        }
+        return result;
+    }
+
+    public static renameLaunchConfigurations(launchJson: any, oldName: string, newName: string, oldFolder: string, newFolder: string): string[] {
+        if (!launchJson || !Array.isArray(launchJson.configurations)) {
+            return [];
+        }
+
+        const changes: string[] = [];
+        const folderPattern: RegExp = new RegExp(`([\\\\/]modules[\\\\/])${ModuleRenamer.escape(oldFolder)}(?=[\\\\/]|$)`, "g");
+        launchJson.configurations = launchJson.configurations.map((config) => {
+            const renamed = ModuleRenamer.mapStrings(config, (value) => value.replace(folderPattern, `$1${newFolder}`));
+            if (typeof renamed.name === "string" && renamed.name.startsWith(`${oldName} `)) {
+                renamed.name = `${newName}${renamed.name.substr(oldName.length)}`;
+            }
+            if (renamed.type === Constants.edgeDebugType && renamed.module === oldName) {
+                renamed.module = newName;
+            }
+            if (JSON.stringify(renamed) !== JSON.stringify(config)) {
+                changes.push(`Update launch configuration '${config.name}'`);
+            }
+            return renamed;
+        });
+        return changes;
+    }
+
+    // The repository generated for a module ends with the lower case module name, e.g. localhost:5000/filter
+    public static renameInModuleJson(moduleJson: any, oldName: string, newName: string): string[] {
+        const image = moduleJson ? moduleJson.image : undefined;
+        if (!image || typeof image.repository !== "string") {
+            return [];
+        }
+        const repository: string = image.repository.replace(new RegExp(`(^|/)${ModuleRenamer.escape(oldName.toLowerCase())}$`), `$1${newName.toLowerCase()}`);
+        if (repository === image.repository) {
+            return [];
+        }
+        const change: string = `Replace repository '${image.repository}' with '${repository}'`;
+        image.repository = repository;
+        return [change];
+    }
+
+    // Keep the order of the properties so that the renamed files only differ in the renamed names
+    private static renameKey(obj: any, oldKey: string, newKey: string): any {
+        const result: any = {};
+        for (const key of Object.keys(obj)) {
+            result[key === oldKey ? newKey : key] = obj[key];
+        }
+        return result;
+    }
+
+    private static mapStrings(value: any, map: (str: string) => string): any {
+        if (typeof value === "string") {
+            return map(value);
+        } else if (Array.isArray(value)) {
+            return value.map((item) => ModuleRenamer.mapStrings(item, map));
+        } else if (value && typeof value === "object") {
+            const result: any = {};
+            for (const key of Object.keys(value)) {
+                result[key] = ModuleRenamer.mapStrings(value[key], map);
+            }
+            return result;
+        }
+        return value;
+    }
+
+    private static escape(str: string): string {
+        return str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+}
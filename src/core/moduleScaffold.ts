@@ -0,0 +1,53 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { Constants } from "../common/constants";
+import { TemplatePack } from "./templatePack";
+
+export interface IModuleScaffoldManifest {
+    version: string;
+    // the remote template the scaffold is taken from, which is only used when remote templates are enabled
+    source?: string;
+}
+
+// A module scaffold shipped with the extension in assets/modules, e.g. the C and Python modules. The files of the
+// scaffold are copied to the new module folder with %MODULE% and %REPOSITORY% replaced, so a module is created
+// without downloading its template.
+export class ModuleScaffold {
+    public static async load(scaffoldPath: string): Promise<ModuleScaffold> {
+        const manifestFile: string = path.join(scaffoldPath, Constants.moduleScaffoldManifest);
+        if (!await fse.pathExists(manifestFile)) {
+            throw new Error(`${scaffoldPath} is not a module scaffold: ${Constants.moduleScaffoldManifest} is missing`);
+        }
+        const manifest: IModuleScaffoldManifest = await fse.readJson(manifestFile);
+        if (!manifest.version) {
+            throw new Error(`${manifestFile} must specify the version of the module scaffold`);
+        }
+        if (!await fse.pathExists(path.join(scaffoldPath, Constants.moduleManifest))) {
+            throw new Error(`Module scaffold ${scaffoldPath} must contain ${Constants.moduleManifest}`);
+        }
+        return new ModuleScaffold(scaffoldPath, manifest);
+    }
+
+    public readonly scaffoldPath: string;
+    public readonly manifest: IModuleScaffoldManifest;
+
+    private constructor(scaffoldPath: string, manifest: IModuleScaffoldManifest) {
+        this.scaffoldPath = scaffoldPath;
+        this.manifest = manifest;
+    }
+
+    public get version(): string {
+        return this.manifest.version;
+    }
+
+    public async scaffold(modulePath: string, values: Map<string, string>): Promise<void> {
+        if (await fse.pathExists(modulePath)) {
+            throw new Error(`${modulePath} already exists`);
+        }
+        await TemplatePack.copyFiles(this.scaffoldPath, modulePath, values, [Constants.moduleScaffoldManifest]);
+    }
+}
@@ -0,0 +1,118 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+
+export interface IOverlayConflict {
+    path: string;
+    message: string;
+}
+
+// Merge a deployment overlay into the base deployment. Objects are merged recursively, a null value removes
+// the property from the base, and the Env array of createOptions is merged by variable name. Other values
+// of the overlay replace the ones of the base.
+export class OverlayMerger {
+    public static merge(base: any, overlay: any): { result: any, conflicts: IOverlayConflict[] } {
+        const conflicts: IOverlayConflict[] = [];
+        const result: any = OverlayMerger.mergeValue(OverlayMerger.clone(base), OverlayMerger.clone(overlay), [], conflicts);
+        return { result, conflicts };
+    }
+
+    private static mergeValue(base: any, overlay: any, jsonPath: string[], conflicts: IOverlayConflict[]): any {
+        if (jsonPath[jsonPath.length - 1] === "createOptions") {
+            // createOptions could be either an object or a serialized object in the template
+            base = OverlayMerger.parseCreateOptions(base);
+            overlay = OverlayMerger.parseCreateOptions(overlay);
+        }
+
+        if (OverlayMerger.isObject(base) && OverlayMerger.isObject(overlay)) {
+            for (const key of Object.keys(overlay)) {
+                const childPath: string[] = [...jsonPath, key];
+                if (overlay[key] === null) {
+                    if (base.hasOwnProperty(key)) {
+                        delete base[key];
+                    } else {
+                        conflicts.push({ path: childPath.join("/"), message: "The property to remove is not defined in the base deployment" });
+                    }
+                } else if (base.hasOwnProperty(key)) {
+                    base[key] = OverlayMerger.mergeValue(base[key], overlay[key], childPath, conflicts);
+                } else if (OverlayMerger.isObject(overlay[key])) {
+                    // merge into an empty object so that the null values of the overlay are removed
+                    base[key] = OverlayMerger.mergeValue({}, overlay[key], childPath, conflicts);
+                } else {
+                    base[key] = overlay[key];
+                }
+            }
+            return base;
+        }
+
+        if (Array.isArray(base) && Array.isArray(overlay) && jsonPath.length > 1
+            && jsonPath[jsonPath.length - 2] === "createOptions" && jsonPath[jsonPath.length - 1] === "Env") {
+            return OverlayMerger.mergeEnv(base, overlay, jsonPath, conflicts);
+        }
+
+        const baseType: string = OverlayMerger.getType(base);
+        const overlayType: string = OverlayMerger.getType(overlay);
+        if (baseType !== overlayType) {
+            conflicts.push({ path: jsonPath.join("/"), message: `The ${baseType} in the base deployment is replaced by a ${overlayType}` });
+        }
+        return overlay;
+    }
+
+    // Env entries are in the form of KEY=VALUE. An entry of the overlay replaces the entry of the same key in the base
+    private static mergeEnv(base: any[], overlay: any[], jsonPath: string[], conflicts: IOverlayConflict[]): any[] {
+        const result: any[] = [...base];
+        const overlayKeys: Set<string> = new Set();
+        for (const entry of overlay) {
+            if (typeof entry !== "string") {
+                conflicts.push({ path: jsonPath.join("/"), message: `Env entry ${JSON.stringify(entry)} is not a string` });
+                result.push(entry);
+                continue;
+            }
+            const key: string = OverlayMerger.getEnvKey(entry);
+            if (overlayKeys.has(key)) {
+                conflicts.push({ path: jsonPath.join("/"), message: `Env variable ${key} is set more than once in the overlay` });
+            }
+            overlayKeys.add(key);
+            const index: number = result.findIndex((value) => typeof value === "string" && OverlayMerger.getEnvKey(value) === key);
+            if (index >= 0) {
+                result[index] = entry;
+            } else {
+                result.push(entry);
+            }
+        }
+        return result;
+    }
+
+    private static getEnvKey(entry: string): string {
+        const index: number = entry.indexOf("=");
+        return index >= 0 ? entry.substr(0, index) : entry;
+    }
+
+    private static parseCreateOptions(createOptions: any): any {
+        if (typeof createOptions === "string") {
+            try {
+                const parsed: any = JSON.parse(createOptions);
+                if (OverlayMerger.isObject(parsed)) {
+                    return parsed;
+                }
+            } catch (error) { }
+        }
+        return createOptions;
+    }
+
+    private static isObject(value: any): boolean {
+        return value !== null && typeof value === "object" && !Array.isArray(value);
+    }
+
+    private static getType(value: any): string {
+        if (Array.isArray(value)) {
+            return "array";
+        }
+        return value === null ? "null" : typeof value;
+    }
+
+    private static clone(value: any): any {
+        return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+    }
+}
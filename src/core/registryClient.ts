@@ -0,0 +1,177 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as request from "request-promise";
+
+export interface IRegistryCredential {
+    username: string;
+    password: string;
+}
+
+// Client of the Docker Registry HTTP API V2, e.g. Docker Hub, Harbor or a local registry:2 container.
+// Requests answered with 401 are retried with the basic or bearer token authentication of the challenge.
+export class RegistryClient {
+    public static readonly dockerHub: string = "docker.io";
+
+    // Split an image name like localhost:5000/filter:0.0.1-amd64 into the registry address, repository and tag
+    public static parseImage(image: string): { address: string, repository: string, tag: string } {
+        let name: string = image;
+        let tag: string = "latest";
+        const tagIndex: number = image.lastIndexOf(":");
+        if (tagIndex > image.lastIndexOf("/")) {
+            name = image.substring(0, tagIndex);
+            tag = image.substring(tagIndex + 1);
+        }
+        const index: number = name.indexOf("/");
+        const host: string = index >= 0 ? name.substring(0, index) : undefined;
+        if (host && (host.includes(".") || host.includes(":") || host === "localhost")) {
+            return { address: host, repository: name.substring(index + 1), tag };
+        }
+        return { address: RegistryClient.dockerHub, repository: index >= 0 ? name : `library/${name}`, tag };
+    }
+
+    // Images of Docker Hub are referenced without the registry address, and official images without the library namespace
+    public static getImageName(address: string, repository: string, tag?: string): string {
+        const suffix: string = tag ? `:${tag}` : "";
+        if (address === RegistryClient.dockerHub || address === "index.docker.io") {
+            return `${repository.replace(/^library\//, "")}${suffix}`;
+        }
+        return `${address.replace(/^https?:\/\//, "").replace(/\/+$/, "")}/${repository}${suffix}`;
+    }
+
+    // Parse a WWW-Authenticate header, e.g. Bearer realm="https://auth.docker.io/token",service="registry.docker.io"
+    public static parseChallenge(header: string): { scheme: string, params: { [key: string]: string } } {
+        const matches = /^\s*(\w+)\s*(.*)$/.exec(header || "");
+        if (!matches) {
+            return undefined;
+        }
+        const params: { [key: string]: string } = {};
+        const paramPattern: RegExp = /(\w+)\s*=\s*(?:"([^"]*)"|([^,\s]*))/g;
+        let param: RegExpExecArray = paramPattern.exec(matches[2]);
+        while (param) {
+            params[param[1].toLowerCase()] = param[2] !== undefined ? param[2] : param[3];
+            param = paramPattern.exec(matches[2]);
+        }
+        return { scheme: matches[1].toLowerCase(), params };
+    }
+
+    private static readonly manifestMediaTypes: string[] = [
+        "application/vnd.docker.distribution.manifest.list.v2+json",
+        "application/vnd.docker.distribution.manifest.v2+json",
+        "application/vnd.oci.image.index.v1+json",
+        "application/vnd.oci.image.manifest.v1+json",
+    ];
+
+    private static getErrorDetail(body: string): string {
+        try {
+            const errors = JSON.parse(body).errors;
+            return errors && errors.length > 0 ? `: ${errors.map((error) => error.message).join(", ")}` : "";
+        } catch (error) {
+            return "";
+        }
+    }
+
+    public readonly address: string;
+    private readonly baseUrl: string;
+    private readonly credential: IRegistryCredential;
+    private readonly tokens: Map<string, string> = new Map();
+
+    constructor(address: string, credential?: IRegistryCredential) {
+        this.address = address;
+        this.credential = credential && credential.username ? credential : undefined;
+        if (/^https?:\/\//.test(address)) {
+            this.baseUrl = address.replace(/\/+$/, "");
+        } else if (address === RegistryClient.dockerHub || address === "index.docker.io") {
+            this.baseUrl = "https://registry-1.docker.io";
+        } else {
+            // a local registry:2 container is usually served without TLS
+            const insecure: boolean = /^(localhost|127\.0\.0\.1)(:\d+)?$/.test(address);
+            this.baseUrl = `${insecure ? "http" : "https"}://${address}`;
+        }
+    }
+
+    // Some registries like Docker Hub don't allow listing repositories, the error has the status code 401, 403 or 404
+    public async listRepositories(): Promise<string[]> {
+        return this.getPaginated("/v2/_catalog?n=1000", "registry:catalog:*", "repositories");
+    }
+
+    public async listTags(repository: string): Promise<string[]> {
+        repository = this.getRepositoryPath(repository);
+        return this.getPaginated(`/v2/${repository}/tags/list`, `repository:${repository}:pull`, "tags");
+    }
+
+    // The digest of a manifest or manifest list, e.g. sha256:...
+    public async getManifestDigest(repository: string, reference: string): Promise<string> {
+        repository = this.getRepositoryPath(repository);
+        const response = await this.send("HEAD", `/v2/${repository}/manifests/${reference}`, `repository:${repository}:pull`, {
+            Accept: RegistryClient.manifestMediaTypes.join(", "),
+        });
+        const digest: string = response.headers["docker-content-digest"];
+        if (!digest) {
+            throw new Error(`${this.address} returned no digest for ${repository}:${reference}`);
+        }
+        return digest;
+    }
+
+    private async getPaginated(path: string, scope: string, property: string): Promise<string[]> {
+        const items: string[] = [];
+        let next: string = path;
+        while (next) {
+            const response = await this.send("GET", next, scope);
+            items.push(...(JSON.parse(response.body)[property] || []));
+            // e.g. Link: </v2/_catalog?last=repo&n=1000>; rel="next"
+            const link = /<([^>]+)>\s*;\s*rel="?next"?/.exec(response.headers.link || "");
+            next = link ? link[1].replace(/^https?:\/\/[^/]+/, "") : undefined;
+        }
+        return items;
+    }
+
+    // Official images of Docker Hub are in the library namespace
+    private getRepositoryPath(repository: string): string {
+        return this.baseUrl === "https://registry-1.docker.io" && !repository.includes("/") ? `library/${repository}` : repository;
+    }
+
+    private async send(method: string, path: string, scope: string, headers: { [key: string]: string } = {}): Promise<any> {
+        const url: string = `${this.baseUrl}${path}`;
+        let response = await request(url, { method, headers: this.withAuthorization(headers, scope), resolveWithFullResponse: true, simple: false });
+        if (response.statusCode === 401) {
+            await this.authenticate(response.headers["www-authenticate"], scope);
+            response = await request(url, { method, headers: this.withAuthorization(headers, scope), resolveWithFullResponse: true, simple: false });
+        }
+        if (response.statusCode < 200 || response.statusCode >= 300) {
+            const error: any = new Error(`${response.statusCode} ${response.statusMessage} from ${url}${RegistryClient.getErrorDetail(response.body)}`);
+            error.statusCode = response.statusCode;
+            throw error;
+        }
+        return response;
+    }
+
+    private withAuthorization(headers: { [key: string]: string }, scope: string): { [key: string]: string } {
+        const authorization: string = this.tokens.get(scope) || this.tokens.get("");
+        return authorization ? Object.assign({ Authorization: authorization }, headers) : headers;
+    }
+
+    private async authenticate(header: string, scope: string): Promise<void> {
+        const challenge = RegistryClient.parseChallenge(header);
+        if (challenge && challenge.scheme === "basic" && this.credential) {
+            const basic: string = Buffer.from(`${this.credential.username}:${this.credential.password}`).toString("base64");
+            this.tokens.set("", `Basic ${basic}`);
+        } else if (challenge && challenge.scheme === "bearer" && challenge.params.realm) {
+            const qs: { [key: string]: string } = { scope: challenge.params.scope || scope };
+            if (challenge.params.service) {
+                qs.service = challenge.params.service;
+            }
+            const options: any = { qs, json: true };
+            if (this.credential) {
+                options.auth = { user: this.credential.username, pass: this.credential.password };
+            }
+            const token = await request.get(challenge.params.realm, options);
+            this.tokens.set(scope, `Bearer ${token.token || token.access_token}`);
+        } else {
+            const error: any = new Error(`Authentication of registry ${this.address} failed${this.credential ? "" : ", no credential is provided"}`);
+            error.statusCode = 401;
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,116 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as net from "net";
+import { UserCancelledError } from "../common/UserCancelledError";
+
+export interface ISimulatorContainer {
+    id: string;
+    // the name of the container, which is the module name for the modules of a solution run in the simulator
+    name: string;
+    image: string;
+    // e.g. running, restarting, exited
+    state: string;
+    running: boolean;
+    restartCount: number;
+    // e.g. 0.0.0.0:8883->8883/tcp, or 5671/tcp for a port that isn't published
+    ports: string[];
+    platform: string;
+}
+
+// The containers of a solution run by iotedgehubdev, which all join the same Docker network
+export class SimulatorContainers {
+    public static network = "azure-iot-edge-dev";
+
+    public static constructListCmd(): string {
+        return `docker ps -a -q --filter "network=${SimulatorContainers.network}"`;
+    }
+
+    public static constructInspectCmd(ids: string[]): string {
+        return `docker inspect ${ids.join(" ")}`;
+    }
+
+    public static constructLogsCmd(container: ISimulatorContainer): string {
+        return `docker logs -f --tail 200 ${container.name}`;
+    }
+
+    public static constructRestartCmd(container: ISimulatorContainer): string {
+        return `docker restart ${container.name}`;
+    }
+
+    public static constructStopCmd(container: ISimulatorContainer): string {
+        return `docker stop ${container.name}`;
+    }
+
+    public static constructExecCmd(container: ISimulatorContainer): string {
+        return `docker exec -it ${container.name} ${container.platform === "windows" ? "cmd" : "sh"}`;
+    }
+
+    public static getIds(listOutput: string): string[] {
+        return listOutput.split(/\s+/).filter((id) => id);
+    }
+
+    // Parse the output of docker inspect, sorted by name
+    public static parseInspect(inspectOutput: string): ISimulatorContainer[] {
+        const details: any[] = JSON.parse(inspectOutput);
+        return details.map((detail) => {
+            const state: any = detail.State || {};
+            return {
+                id: detail.Id,
+                name: (detail.Name || "").replace(/^\//, ""),
+                image: (detail.Config || {}).Image,
+                state: state.Status || (state.Running ? "running" : "exited"),
+                running: !!state.Running,
+                restartCount: detail.RestartCount || 0,
+                ports: SimulatorContainers.formatPorts((detail.NetworkSettings || {}).Ports),
+                platform: detail.Platform || "linux",
+            };
+        }).sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    // Poll a condition until it is met, and return false if it isn't met before the timeout
+    public static async waitFor(condition: () => Promise<boolean>, timeout: number, interval: number,
+                                isCancelled: () => boolean = () => false): Promise<boolean> {
+        const deadline: number = Date.now() + timeout;
+        while (!await condition()) {
+            if (isCancelled()) {
+                throw new UserCancelledError();
+            }
+            if (Date.now() >= deadline) {
+                return false;
+            }
+            await new Promise((resolve) => setTimeout(resolve, interval));
+        }
+        return true;
+    }
+
+    public static canConnect(port: number, host: string = "127.0.0.1"): Promise<boolean> {
+        return new Promise((resolve) => {
+            const socket: net.Socket = net.connect(port, host);
+            socket.setTimeout(1000);
+            socket.on("connect", () => {
+                socket.destroy();
+                resolve(true);
+            });
+            socket.on("timeout", () => {
+                socket.destroy();
+                resolve(false);
+            });
+            socket.on("error", () => resolve(false));
+        });
+    }
+
+    public static formatPorts(ports: { [port: string]: Array<{ HostIp: string, HostPort: string }> }): string[] {
+        const formatted: string[] = [];
+        for (const port of Object.keys(ports || {}).sort()) {
+            const bindings = ports[port];
+            if (!bindings || bindings.length === 0) {
+                formatted.push(port);
+            } else {
+                bindings.forEach((binding) => formatted.push(`${binding.HostIp || "0.0.0.0"}:${binding.HostPort}->${port}`));
+            }
+        }
+        return formatted;
+    }
+}
@@ -0,0 +1,89 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as os from "os";
+import * as path from "path";
+import { ICredentialProvider } from "./credentialProvider";
+
+// The secrets of one solution in a credential store shared by all the solutions. The keys are prefixed with the path of the
+// solution, so that two solutions using the same variable, e.g. CONTAINER_REGISTRY_PASSWORD_myacr, keep their own secrets.
+// The secrets stored without a solution by earlier versions are still read, but never changed or deleted, since other
+// solutions may use them.
+export class SolutionCredentialProvider implements ICredentialProvider {
+    public static readonly separator: string = "#";
+
+    public static getScope(slnPath: string): string {
+        const resolved: string = path.resolve(slnPath);
+        return os.platform() === "win32" ? resolved.toLowerCase() : resolved;
+    }
+
+    public static getScopedKey(slnPath: string, key: string): string {
+        return `${SolutionCredentialProvider.getScope(slnPath)}${SolutionCredentialProvider.separator}${key}`;
+    }
+
+    // The secrets of a solution among the secrets of all the solutions, where the secrets of the solution override the unscoped ones
+    public static filter(allSecrets: { [key: string]: string }, slnPath: string): { [key: string]: string } {
+        const storedKeys: { [key: string]: string } = SolutionCredentialProvider.getStoredKeys(Object.keys(allSecrets), slnPath);
+        const secrets: { [key: string]: string } = {};
+        for (const key of Object.keys(storedKeys)) {
+            secrets[key] = allSecrets[storedKeys[key]];
+        }
+        return secrets;
+    }
+
+    // Map the keys of a solution to the keys they are stored with among the keys of all the solutions
+    public static getStoredKeys(allKeys: string[], slnPath: string): { [key: string]: string } {
+        const prefix: string = `${SolutionCredentialProvider.getScope(slnPath)}${SolutionCredentialProvider.separator}`;
+        const storedKeys: { [key: string]: string } = {};
+        for (const key of allKeys.filter((item) => item.indexOf(SolutionCredentialProvider.separator) < 0)) {
+            storedKeys[key] = key;
+        }
+        for (const key of allKeys.filter((item) => item.startsWith(prefix))) {
+            const name: string = key.substr(prefix.length);
+            if (name.indexOf(SolutionCredentialProvider.separator) < 0) {
+                storedKeys[name] = key;
+            }
+        }
+        return storedKeys;
+    }
+
+    public readonly name: string;
+    public readonly canStore: boolean;
+    private readonly provider: ICredentialProvider;
+    private readonly slnPath: string;
+    private readonly onDidChange: () => void;
+
+    // onDidChange is called when a secret of the solution is set or deleted
+    constructor(provider: ICredentialProvider, slnPath: string, onDidChange: () => void = () => undefined) {
+        this.provider = provider;
+        this.slnPath = slnPath;
+        this.onDidChange = onDidChange;
+        this.name = provider.name;
+        this.canStore = provider.canStore;
+    }
+
+    public async get(key: string): Promise<string | undefined> {
+        const value: string = await this.provider.get(SolutionCredentialProvider.getScopedKey(this.slnPath, key));
+        return value !== undefined ? value : this.provider.get(key);
+    }
+
+    public async set(key: string, value: string): Promise<void> {
+        await this.provider.set(SolutionCredentialProvider.getScopedKey(this.slnPath, key), value);
+        this.onDidChange();
+    }
+
+    // Only the secret of this solution is deleted
+    public async delete(key: string): Promise<void> {
+        await this.provider.delete(SolutionCredentialProvider.getScopedKey(this.slnPath, key));
+        this.onDidChange();
+    }
+
+    public async getAll(): Promise<{ [key: string]: string }> {
+        return SolutionCredentialProvider.filter(await this.provider.getAll(), this.slnPath);
+    }
+
+    public async getKeys(): Promise<string[]> {
+        return Object.keys(SolutionCredentialProvider.getStoredKeys(await this.provider.getKeys(), this.slnPath));
+    }
+}
@@ -0,0 +1,140 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { Constants } from "../common/constants";
+
+export interface ITemplatePackParameter {
+    placeholder: string;
+    prompt: string;
+    default?: string;
+}
+
+export interface ITemplatePackManifest {
+    name: string;
+    version: string;
+    label?: string;
+    description?: string;
+    // Folder of the pack copied as the module folder, "template" by default
+    files?: string;
+    parameters?: ITemplatePackParameter[];
+    createOptions?: any;
+    debugCreateOptions?: any;
+    // launch.json of the pack whose configurations are added to the solution
+    launch?: string;
+}
+
+// A module template pack is a folder (or an extracted archive) with a templatePack.json manifest. The files of the
+// pack are copied to the new module folder with placeholders like %MODULE% and %REPOSITORY% replaced, so a module
+// can be scaffolded without any network access or external generator.
+export class TemplatePack {
+    public static async load(packPath: string, source: string): Promise<TemplatePack> {
+        const manifestFile: string = path.join(packPath, Constants.templatePackManifest);
+        if (!await fse.pathExists(manifestFile)) {
+            throw new Error(`${packPath} is not a template pack: ${Constants.templatePackManifest} is missing`);
+        }
+
+        const manifest: ITemplatePackManifest = await fse.readJson(manifestFile);
+        if (!manifest.name || !manifest.version) {
+            throw new Error(`${manifestFile} must specify the name and the version of the template pack`);
+        }
+        const pack = new TemplatePack(packPath, source, manifest);
+        if (!await fse.pathExists(path.join(pack.filesPath, Constants.moduleManifest))) {
+            throw new Error(`${pack.filesPath} of template pack ${manifest.name} must contain ${Constants.moduleManifest}`);
+        }
+        for (const parameter of manifest.parameters || []) {
+            if (!parameter.placeholder || !parameter.prompt) {
+                throw new Error(`Parameters of template pack ${manifest.name} must specify the placeholder and the prompt`);
+            }
+        }
+        return pack;
+    }
+
+    // Return a negative number if version a is lower than version b, 0 if they are equal
+    public static compareVersions(a: string, b: string): number {
+        const partsA: number[] = a.split(/[.-]/).map((part) => parseInt(part, 10) || 0);
+        const partsB: number[] = b.split(/[.-]/).map((part) => parseInt(part, 10) || 0);
+        for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+            const diff: number = (partsA[i] || 0) - (partsB[i] || 0);
+            if (diff !== 0) {
+                return diff;
+            }
+        }
+        return 0;
+    }
+
+    // Copy the files of a folder with placeholders replaced in file names and in the content of text files, except
+    // the files of the excluded names
+    public static async copyFiles(srcDir: string, targetDir: string, values: Map<string, string>, excludedNames: string[] = []): Promise<void> {
+        await fse.ensureDir(targetDir);
+        for (const name of await fse.readdir(srcDir)) {
+            if (excludedNames.indexOf(name) >= 0) {
+                continue;
+            }
+            const srcPath: string = path.join(srcDir, name);
+            const targetPath: string = path.join(targetDir, TemplatePack.replacePlaceholders(name, values));
+            if ((await fse.stat(srcPath)).isDirectory()) {
+                await TemplatePack.copyFiles(srcPath, targetPath, values, excludedNames);
+                continue;
+            }
+
+            const content: Buffer = await fse.readFile(srcPath);
+            // binary files are copied as they are
+            if (content.indexOf(0) >= 0) {
+                await fse.writeFile(targetPath, content);
+            } else {
+                await fse.writeFile(targetPath, TemplatePack.replacePlaceholders(content.toString("utf8"), values), { encoding: "utf8" });
+            }
+        }
+    }
+
+    private static replacePlaceholders(input: string, values: Map<string, string>): string {
+        let result: string = input;
+        values.forEach((value, placeholder) => {
+            result = result.split(placeholder).join(value);
+        });
+        return result;
+    }
+
+    public readonly packPath: string;
+    public readonly source: string;
+    public readonly manifest: ITemplatePackManifest;
+
+    private constructor(packPath: string, source: string, manifest: ITemplatePackManifest) {
+        this.packPath = packPath;
+        this.source = source;
+        this.manifest = manifest;
+    }
+
+    public get label(): string {
+        return this.manifest.label || this.manifest.name;
+    }
+
+    public get filesPath(): string {
+        return path.join(this.packPath, this.manifest.files || Constants.templatePackFilesFolder);
+    }
+
+    // Copy the files of the pack to the module folder. Placeholders are replaced in file names and in the content
+    // of text files.
+    public async scaffold(modulePath: string, values: Map<string, string>): Promise<void> {
+        if (await fse.pathExists(modulePath)) {
+            throw new Error(`${modulePath} already exists`);
+        }
+        await TemplatePack.copyFiles(this.filesPath, modulePath, values);
+    }
+
+    public getCreateOptions(values: Map<string, string>, isDebug: boolean): any {
+        const createOptions: any = isDebug ? this.manifest.debugCreateOptions : this.manifest.createOptions;
+        return createOptions ? JSON.parse(TemplatePack.replacePlaceholders(JSON.stringify(createOptions), values)) : {};
+    }
+
+    public async getLaunchConfig(values: Map<string, string>): Promise<any> {
+        if (!this.manifest.launch) {
+            return undefined;
+        }
+        const content: string = await fse.readFile(path.join(this.packPath, this.manifest.launch), "utf8");
+        return JSON.parse(TemplatePack.replacePlaceholders(content, values));
+    }
+}
@@ -0,0 +1,97 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as crypto from "crypto";
+import * as decompress from "decompress";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { Constants } from "../common/constants";
+import { TemplatePack } from "./templatePack";
+
+export interface ITemplatePackLocation {
+    path: string;
+    // Where the packs come from, e.g. workspace, user or extension
+    source: string;
+}
+
+// Discover the template packs of the given locations. A location contains pack folders and pack archives
+// (.zip, .tar.gz or .tgz), which are extracted to the extract folder. When several packs have the same name,
+// the one with the highest version wins, and locations listed first win on equal versions.
+export class TemplatePackRegistry {
+    public static async discover(locations: ITemplatePackLocation[], extractPath: string): Promise<{ packs: TemplatePack[], errors: string[] }> {
+        const packs: Map<string, TemplatePack> = new Map();
+        const errors: string[] = [];
+        for (const location of locations) {
+            if (!await fse.pathExists(location.path)) {
+                continue;
+            }
+
+            for (const name of await fse.readdir(location.path)) {
+                const entryPath: string = path.join(location.path, name);
+                try {
+                    let packPath: string;
+                    if ((await fse.stat(entryPath)).isDirectory()) {
+                        packPath = entryPath;
+                    } else if (TemplatePackRegistry.isArchive(name)) {
+                        packPath = await TemplatePackRegistry.extract(entryPath, extractPath);
+                    } else {
+                        continue;
+                    }
+
+                    const pack: TemplatePack = await TemplatePack.load(packPath, location.source);
+                    const existing: TemplatePack = packs.get(pack.manifest.name);
+                    if (!existing || TemplatePack.compareVersions(pack.manifest.version, existing.manifest.version) > 0) {
+                        packs.set(pack.manifest.name, pack);
+                    }
+                } catch (error) {
+                    errors.push(`Failed to load template pack ${entryPath}: ${error.message}`);
+                }
+            }
+        }
+        return { packs: [...packs.values()], errors };
+    }
+
+    private static isInside(folder: string, entryPath: string): boolean {
+        const relative: string = path.relative(folder, path.resolve(folder, entryPath));
+        return relative.split(/[\\/]/)[0] !== ".." && !path.isAbsolute(relative);
+    }
+
+    private static isArchive(fileName: string): boolean {
+        return /\.(zip|tar\.gz|tgz)$/i.test(fileName);
+    }
+
+    // An archive is extracted once per content, and the pack may be at the root of the archive or in its only folder
+    private static async extract(archivePath: string, extractPath: string): Promise<string> {
+        const hash: string = crypto.createHash("sha256").update(await fse.readFile(archivePath)).digest("hex").substr(0, 16);
+        const targetPath: string = path.join(extractPath, `${path.basename(archivePath).replace(/\.(zip|tar\.gz|tgz)$/i, "")}-${hash}`);
+        if (!await fse.pathExists(targetPath)) {
+            const tempPath: string = `${targetPath}.tmp`;
+            await fse.remove(tempPath);
+            // the entries whose path leaves the folder of the pack, e.g. ../../.bashrc, are never written
+            const outsideEntries: string[] = [];
+            await decompress(archivePath, tempPath, {
+                filter: (file: { path: string }) => {
+                    const inside: boolean = TemplatePackRegistry.isInside(tempPath, file.path);
+                    if (!inside) {
+                        outsideEntries.push(file.path);
+                    }
+                    return inside;
+                },
+            });
+            if (outsideEntries.length > 0) {
+                await fse.remove(tempPath);
+                throw new Error(`The archive ${archivePath} has entries outside of the pack folder: ${outsideEntries.join(", ")}`);
+            }
+            await fse.move(tempPath, targetPath);
+        }
+
+        if (!await fse.pathExists(path.join(targetPath, Constants.templatePackManifest))) {
+            const entries: string[] = await fse.readdir(targetPath);
+            if (entries.length === 1 && (await fse.stat(path.join(targetPath, entries[0]))).isDirectory()) {
+                return path.join(targetPath, entries[0]);
+            }
+        }
+        return targetPath;
+    }
+}
@@ -0,0 +1,140 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+import * as parser from "jsonc-parser/lib/umd/main";
+import * as path from "path";
+import { Constants } from "../common/constants";
+import { IManifestProblem, ManifestProblemSeverity } from "./manifestValidator";
+
+// The subset of JSON schema supported for the desired properties of module twins
+export interface ITwinSchema {
+    type?: string | string[];
+    description?: string;
+    properties?: { [name: string]: ITwinSchema };
+    required?: string[];
+    additionalProperties?: boolean | ITwinSchema;
+    items?: ITwinSchema;
+    enum?: any[];
+    default?: any;
+    minimum?: number;
+    maximum?: number;
+}
+
+// A module declares the schema of its desired properties in module.json, either inline or as the path of a schema file:
+// "desiredPropertiesSchema": { "type": "object", "properties": { "TemperatureThreshold": { "type": "number" } } }
+export class TwinSchema {
+    public static async load(modulePath: string): Promise<ITwinSchema> {
+        const moduleFile: string = path.join(modulePath, Constants.moduleManifest);
+        if (!await fse.pathExists(moduleFile)) {
+            return undefined;
+        }
+        const schema: ITwinSchema | string = (await fse.readJson(moduleFile))[Constants.desiredPropertiesSchema];
+        if (typeof schema === "string") {
+            return await fse.readJson(path.resolve(modulePath, schema));
+        }
+        return schema;
+    }
+
+    // The schema at a path relative to the desired properties, e.g. ["Thresholds", 0, "Value"]
+    public static getSchema(schema: ITwinSchema, jsonPath: Array<string | number>): ITwinSchema {
+        for (const segment of jsonPath) {
+            if (!schema) {
+                return undefined;
+            }
+            if (typeof segment === "number") {
+                schema = schema.items;
+            } else if (schema.properties && schema.properties[segment]) {
+                schema = schema.properties[segment];
+            } else {
+                schema = typeof schema.additionalProperties === "object" ? schema.additionalProperties : undefined;
+            }
+        }
+        return schema;
+    }
+
+    public static getTypes(schema: ITwinSchema): string[] {
+        if (!schema.type) {
+            return [];
+        }
+        return typeof schema.type === "string" ? [schema.type] : schema.type;
+    }
+
+    // Values of the deployment template could be environment variables, which are only known at generation time
+    public static validate(schema: ITwinSchema, node: parser.Node, isTemplate: boolean): IManifestProblem[] {
+        const problems: IManifestProblem[] = [];
+        TwinSchema.validateNode(schema, node, isTemplate, problems);
+        return problems;
+    }
+
+    private static validateNode(schema: ITwinSchema, node: parser.Node, isTemplate: boolean, problems: IManifestProblem[]): void {
+        if (!schema || !node) {
+            return;
+        }
+        if (isTemplate && node.type === "string" && node.value.indexOf("$") >= 0) {
+            return;
+        }
+
+        const types: string[] = TwinSchema.getTypes(schema);
+        if (types.length > 0 && !types.some((type) => TwinSchema.isOfType(node, type))) {
+            const expected: string = types.map((type) => /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`).join(" or ");
+            TwinSchema.addProblem(problems, node, `${TwinSchema.getName(node)}must be ${expected}`);
+            return;
+        }
+        if (schema.enum && !schema.enum.some((value) => JSON.stringify(value) === JSON.stringify(parser.getNodeValue(node)))) {
+            TwinSchema.addProblem(problems, node, `Value must be one of: ${schema.enum.map((value) => JSON.stringify(value)).join(", ")}`);
+        }
+        if (node.type === "number") {
+            if (schema.minimum !== undefined && node.value < schema.minimum) {
+                TwinSchema.addProblem(problems, node, `Value must be greater than or equal to ${schema.minimum}`);
+            }
+            if (schema.maximum !== undefined && node.value > schema.maximum) {
+                TwinSchema.addProblem(problems, node, `Value must be less than or equal to ${schema.maximum}`);
+            }
+        }
+
+        if (node.type === "array") {
+            for (const item of node.children) {
+                TwinSchema.validateNode(schema.items, item, isTemplate, problems);
+            }
+        } else if (node.type === "object") {
+            const names: string[] = [];
+            for (const property of node.children) {
+                const name: string = property.children[0].value;
+                names.push(name);
+                if (schema.properties && schema.properties[name]) {
+                    TwinSchema.validateNode(schema.properties[name], property.children[1], isTemplate, problems);
+                } else if (typeof schema.additionalProperties === "object") {
+                    TwinSchema.validateNode(schema.additionalProperties, property.children[1], isTemplate, problems);
+                } else if (schema.additionalProperties === false && !name.startsWith("$")) {
+                    TwinSchema.addProblem(problems, property.children[0], `Property "${name}" is not allowed`, ManifestProblemSeverity.Warning);
+                }
+            }
+            for (const name of schema.required || []) {
+                if (names.indexOf(name) < 0) {
+                    TwinSchema.addProblem(problems, node.parent && node.parent.type === "property" ? node.parent.children[0] : node, `Missing required property "${name}"`);
+                }
+            }
+        }
+    }
+
+    private static isOfType(node: parser.Node, type: string): boolean {
+        switch (type) {
+            case "integer":
+                return node.type === "number" && Number.isInteger(node.value);
+            case "null":
+                return node.type === "null";
+            default:
+                return node.type === type;
+        }
+    }
+
+    private static getName(node: parser.Node): string {
+        return node.parent && node.parent.type === "property" ? `"${node.parent.children[0].value}" ` : "";
+    }
+
+    private static addProblem(problems: IManifestProblem[], node: parser.Node, message: string, severity: ManifestProblemSeverity = ManifestProblemSeverity.Error): void {
+        problems.push({ message, offset: node.offset, length: node.length, severity });
+    }
+}
@@ -0,0 +1,79 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+
+// Bump the semantic version of image.tag.version of module.json, following the increments of npm version
+export class VersionBumper {
+    public static readonly kinds: string[] = ["major", "minor", "patch", "prerelease"];
+
+    // e.g. patch: 0.0.1 -> 0.0.2, 0.0.2-1 -> 0.0.2, prerelease: 0.0.1 -> 0.0.2-0, 0.0.2-rc.1 -> 0.0.2-rc.2
+    public static bump(version: string, kind: string): string {
+        const matches = /^(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/.exec(version || "");
+        if (!matches) {
+            throw new Error(`${version} is not a semantic version like 0.0.1`);
+        }
+        let major: number = parseInt(matches[1], 10);
+        let minor: number = parseInt(matches[2], 10);
+        let patch: number = parseInt(matches[3], 10);
+        const prerelease: string = matches[4];
+        switch (kind) {
+            case "major":
+                // a prerelease of a major version is released as it is
+                if (!prerelease || minor !== 0 || patch !== 0) {
+                    major++;
+                }
+                return `${major}.0.0`;
+            case "minor":
+                if (!prerelease || patch !== 0) {
+                    minor++;
+                }
+                return `${major}.${minor}.0`;
+            case "patch":
+                if (!prerelease) {
+                    patch++;
+                }
+                return `${major}.${minor}.${patch}`;
+            case "prerelease":
+                if (!prerelease) {
+                    return `${major}.${minor}.${patch + 1}-0`;
+                }
+                const identifiers: string[] = prerelease.split(".");
+                const last: number = identifiers.length - 1;
+                if (/^\d+$/.test(identifiers[last])) {
+                    identifiers[last] = (parseInt(identifiers[last], 10) + 1).toString();
+                } else {
+                    identifiers.push("0");
+                }
+                return `${major}.${minor}.${patch}-${identifiers.join(".")}`;
+            default:
+                throw new Error(`Unknown version increment ${kind}, it must be one of ${VersionBumper.kinds.join(", ")}`);
+        }
+    }
+
+    // The module folders of the changed files, e.g. modules/filter/app.js -> filter
+    public static getChangedModuleFolders(changedFiles: string[], moduleFolder: string): string[] {
+        const folders: Set<string> = new Set();
+        for (const file of changedFiles) {
+            const segments: string[] = file.trim().split(/[\\/]/);
+            if (segments.length > 2 && segments[0] === moduleFolder) {
+                folders.add(segments[1]);
+            }
+        }
+        return [...folders].sort();
+    }
+
+    // Insert the entry of a version on top of the existing ones, below the title of the changelog
+    public static addChangelogEntry(content: string | undefined, version: string, date: Date, entry: string): string {
+        const day: string = date.toISOString().substr(0, 10);
+        const section: string = `## ${version} - ${day}\n\n- ${entry}\n`;
+        if (!content) {
+            return `# Changelog\n\n${section}`;
+        }
+        const index: number = content.search(/^## /m);
+        if (index >= 0) {
+            return `${content.substr(0, index)}${section}\n${content.substr(index)}`;
+        }
+        return `${content.replace(/\s*$/, "")}\n\n${section}`;
+    }
+}
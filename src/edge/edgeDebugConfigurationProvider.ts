@@ -0,0 +1,103 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+import * as path from "path";
+import * as vscode from "vscode";
+import { Constants } from "../common/constants";
+import { DebugConfigurationBuilder, IDebugModule } from "../core/debugConfigurationBuilder";
+import { ModuleRemover } from "../core/moduleRemover";
+
+// Provide the debug configurations of type "azure-iot-edge", which only name a module of the solution and are resolved
+// when debugging starts from the current module.json, the port bindings of deployment.debug.template.json and the module language
+export class EdgeDebugConfigurationProvider implements vscode.DebugConfigurationProvider {
+    constructor(private context: vscode.ExtensionContext) {
+    }
+
+    public async provideDebugConfigurations(folder: vscode.WorkspaceFolder | undefined): Promise<vscode.DebugConfiguration[]> {
+        if (!folder) {
+            return [];
+        }
+        const configurations: vscode.DebugConfiguration[] = [];
+        for (const module of await this.getModules(folder.uri.fsPath)) {
+            configurations.push(...DebugConfigurationBuilder.getOnDemandConfigurations(await this.getLaunchTemplate(module.language), module));
+        }
+        return configurations;
+    }
+
+    public async resolveDebugConfiguration(folder: vscode.WorkspaceFolder | undefined, config: vscode.DebugConfiguration): Promise<vscode.DebugConfiguration> {
+        if (config.type !== Constants.edgeDebugType) {
+            return config;
+        }
+        folder = folder || (vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0] : undefined);
+        // the solution is the workspace folder unless the folder of the solution is specified
+        const slnPath: string = config.solution || (folder ? folder.uri.fsPath : undefined);
+        if (!slnPath) {
+            throw new Error("Open the folder of an IoT Edge solution to debug its modules");
+        }
+
+        const modules: IDebugModule[] = await this.getModules(slnPath);
+        let module: IDebugModule = modules.find((item) => item.name === config.module);
+        if (!config.module) {
+            const picked = await vscode.window.showQuickPick(modules.map((item) => ({ label: item.name, description: item.language, module: item })),
+                { placeHolder: Constants.selectDebugModule, ignoreFocusOut: true });
+            module = picked ? picked.module : undefined;
+            if (!module) {
+                return undefined;
+            }
+        }
+        if (!module) {
+            throw new Error(`Module '${config.module}' is not found in the modules folder of ${slnPath}, or its language is unknown`);
+        }
+
+        const resolved = DebugConfigurationBuilder.resolve(await this.getLaunchTemplate(module.language), module, config.name, config.request);
+        if (!resolved) {
+            throw new Error(`No ${config.request || "attach"} configuration is available for the ${module.language} module '${module.name}'`);
+        }
+        if (!config.solution) {
+            return resolved;
+        }
+        // the paths of the templates are relative to the workspace folder
+        const escapedPath: string = JSON.stringify(slnPath).slice(1, -1);
+        return JSON.parse(JSON.stringify(resolved).split("${workspaceFolder}").join(escapedPath).split("${workspaceRoot}").join(escapedPath));
+    }
+
+    // The modules with a known language in the modules folder of a solution
+    public async getModules(slnPath: string): Promise<IDebugModule[]> {
+        const modulesPath: string = path.join(slnPath, Constants.moduleFolder);
+        if (!await fse.pathExists(modulesPath)) {
+            return [];
+        }
+        const debugTemplateFile: string = path.join(slnPath, Constants.deploymentDebugTemplate);
+        const templateJson: any = await fse.pathExists(debugTemplateFile) ? await fse.readJson(debugTemplateFile) : undefined;
+        const moduleNames: string[] = templateJson ? Object.keys(templateJson.modulesContent.$edgeAgent["properties.desired"].modules || {}) : [];
+
+        const modules: IDebugModule[] = [];
+        for (const folder of await fse.readdir(modulesPath)) {
+            const modulePath: string = path.join(modulesPath, folder);
+            if (!await fse.pathExists(path.join(modulePath, Constants.moduleManifest))) {
+                continue;
+            }
+            const language: string = await DebugConfigurationBuilder.getLanguage(modulePath);
+            if (!DebugConfigurationBuilder.getLaunchTemplateFile(language)) {
+                continue;
+            }
+            const name: string = moduleNames.find((moduleName) => ModuleRemover.getModuleFolder(templateJson, moduleName) === folder) || folder;
+            const containerPort: number = DebugConfigurationBuilder.debugPorts[language];
+            modules.push({
+                name,
+                folder,
+                language,
+                hostPort: containerPort ? DebugConfigurationBuilder.getHostPort(templateJson, name, containerPort) || containerPort : undefined,
+                groupId: language === Constants.LANGUAGE_JAVA ? await DebugConfigurationBuilder.getGroupId(modulePath) : undefined,
+            });
+        }
+        return modules;
+    }
+
+    private async getLaunchTemplate(language: string): Promise<any> {
+        return fse.readJson(this.context.asAbsolutePath(
+            path.join(Constants.assetsFolder, Constants.solutionFolder, DebugConfigurationBuilder.getLaunchTemplateFile(language))));
+    }
+}
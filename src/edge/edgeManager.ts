@@ -11,6 +11,7 @@ import * as path from "path";
 import * as stripJsonComments from "strip-json-comments";
 import * as vscode from "vscode";
 import { Constants } from "../common/constants";
+import { CredentialStore } from "../common/credentialStore";
 import { Executor } from "../common/executor";
 import { ModuleInfo } from "../common/moduleInfo";
 import { Platform } from "../common/platform";
@@ -18,10 +19,25 @@ import { TelemetryClient } from "../common/telemetryClient";
 import { UserCancelledError } from "../common/UserCancelledError";
 import { Utility } from "../common/utility";
 import { AcrManager } from "../container/acrManager";
+import { RegistryManager } from "../container/registryManager";
 import { StreamAnalyticsManager } from "../container/streamAnalyticsManager";
+import { CredentialMigrator } from "../core/credentialMigrator";
+import { ICredentialProvider } from "../core/credentialProvider";
+import { CredentialProviderFactory } from "../core/credentialProviderFactory";
+import { DebugConfigurationBuilder } from "../core/debugConfigurationBuilder";
+import { EnvProfiles } from "../core/envProfiles";
+import { EnvVariables } from "../core/envVariables";
+import { JsonEditor } from "../core/jsonEditor";
+import { IEnvironment } from "../core/manifestGenerator";
+import { ModuleRemover } from "../core/moduleRemover";
+import { ModuleRenamer } from "../core/moduleRenamer";
+import { ModuleScaffold } from "../core/moduleScaffold";
+import { TemplatePack } from "../core/templatePack";
+import { ITemplatePackLocation, TemplatePackRegistry } from "../core/templatePackRegistry";
 import { IDeviceItem } from "../typings/IDeviceItem";
 
 export class EdgeManager {
+    private templatePacks: TemplatePack[] = [];
 
     constructor(private context: vscode.ExtensionContext) {
     }
@@ -75,6 +91,278 @@ export class EdgeManager {
         await this.addModule(templateFile, outputChannel, false);
     }
 
+    public async removeModuleForSolution(outputChannel: vscode.OutputChannel, fileUri?: vscode.Uri): Promise<void> {
+        const templateFile: string = await this.getModuleSolutionTemplate(fileUri, Constants.removeModuleEvent);
+        if (!templateFile) {
+            return;
+        }
+        let moduleFolder: string = this.getModuleFolderFromUri(fileUri);
+
+        const slnPath: string = path.dirname(templateFile);
+        const envFilePath: string = path.join(slnPath, Constants.envFile);
+        const templates: Array<{ file: string, text: string, json: any, changes: string[] }> = [];
+        for (const file of [Constants.deploymentTemplate, Constants.deploymentDebugTemplate].map((name) => path.join(slnPath, name))) {
+            if (await fse.pathExists(file)) {
+                const text: string = await fse.readFile(file, "utf8");
+                templates.push({ file, text, json: Utility.updateSchema(JSON.parse(stripJsonComments(text))), changes: [] });
+            }
+        }
+        // the overlays could define or patch the module and its routes, which would be added back to the overlay manifests
+        const overlays: Array<{ file: string, text: string, json: any, changes: string[] }> = [];
+        for (const template of templates) {
+            for (const overlayFile of template.json[Constants.Overlays] || []) {
+                const overlayPath: string = path.resolve(slnPath, overlayFile);
+                if (await fse.pathExists(overlayPath) && !overlays.some((overlay) => overlay.file === overlayPath)) {
+                    const overlayText: string = await fse.readFile(overlayPath, "utf8");
+                    overlays.push({ file: overlayPath, text: overlayText, json: Utility.updateSchema(JSON.parse(stripJsonComments(overlayText))), changes: [] });
+                }
+            }
+        }
+
+        const moduleName: string = await this.selectModule([...templates, ...overlays].map((template) => template.json), Constants.selectModuleToRemove, moduleFolder);
+        if (!moduleFolder) {
+            moduleFolder = [...templates, ...overlays].map((template) => ModuleRemover.getModuleFolder(template.json, moduleName)).find((folder) => folder !== undefined);
+        }
+
+        // the registry credentials are only removed when no remaining module pulls from the same registry
+        const env: IEnvironment = await Utility.loadEnv(slnPath);
+        const moduleToImageMap: Map<string, string> = new Map();
+        await Utility.setSlnModulesMap(slnPath, env, moduleToImageMap);
+        const removedAddresses: Set<string> = this.getRegistryAddresses(templates.map((template) => template.json), moduleToImageMap, env, moduleName);
+        for (const template of [...templates, ...overlays]) {
+            template.changes = ModuleRemover.removeFromTemplate(template.json, moduleName);
+        }
+        const usedAddresses: Set<string> = this.getRegistryAddresses(templates.map((template) => template.json), moduleToImageMap, env);
+        const unusedAddresses: string[] = [...removedAddresses].filter((address) => !usedAddresses.has(address));
+
+        const launchFile: string = path.join(slnPath, Constants.vscodeFolder, Constants.launchFile);
+        let launchText: string;
+        let launchJson: any;
+        let launchChanges: string[] = [];
+        if (await fse.pathExists(launchFile)) {
+            launchText = await fse.readFile(launchFile, "utf8");
+            launchJson = JSON.parse(stripJsonComments(launchText));
+            launchChanges = ModuleRemover.removeLaunchConfigurations(launchJson, moduleName, moduleFolder);
+        }
+
+        const modulePath: string = moduleFolder ? path.join(slnPath, Constants.moduleFolder, moduleFolder) : undefined;
+        const folderInUse: boolean = [...templates, ...overlays].some((template) => {
+            return ModuleRemover.getModuleNames(template.json).some((name) => ModuleRemover.getModuleFolder(template.json, name) === moduleFolder);
+        });
+        const deleteFolder: boolean = modulePath !== undefined && !folderInUse && await fse.pathExists(modulePath);
+
+        // registry credentials are removed from copies of the templates, since removing them is optional
+        const registryRemovals: Array<{ file: string, keys: string[], changes: string[] }> = [];
+        const envVariables: string[] = [];
+        const remainingCredentials: string[] = [];
+        for (const template of templates) {
+            const registries = ModuleRemover.getRegistryCredentials(template.json) || {};
+            const keys: string[] = Object.keys(registries).filter((key) => registries[key] && unusedAddresses.indexOf(Utility.expandEnv(registries[key].address || "", env)) >= 0);
+            const templateCopy: any = JSON.parse(JSON.stringify(template.json));
+            const result = ModuleRemover.removeRegistryCredentials(templateCopy, keys);
+            if (result.changes.length > 0) {
+                registryRemovals.push({ file: template.file, keys, changes: result.changes });
+                envVariables.push(...result.envVariables);
+            }
+            remainingCredentials.push(JSON.stringify(ModuleRemover.getRegistryCredentials(templateCopy) || {}));
+        }
+        // the variables could be shared with the credentials of a registry which is still used
+        const unusedVariables: string[] = envVariables.filter((variable) => !remainingCredentials.some((credentials) => credentials.includes(variable)));
+        let envContent: { content: string, changes: string[] };
+        if (unusedVariables.length > 0 && await fse.pathExists(envFilePath)) {
+            envContent = ModuleRemover.removeEnvVariables(await fse.readFile(envFilePath, "utf8"), unusedVariables);
+        }
+
+        await this.showRemoveModulePreview(slnPath, moduleName, [...templates, ...overlays], launchChanges, deleteFolder ? modulePath : undefined, registryRemovals, envContent);
+        const removeOption: string = "Remove";
+        if (await vscode.window.showWarningMessage(`Remove module '${moduleName}' with the changes shown in the preview?`, { modal: true }, removeOption) !== removeOption) {
+            throw new UserCancelledError();
+        }
+        const removeRegistries: boolean = registryRemovals.length > 0 &&
+            await vscode.window.showWarningMessage(`Remove the registry credentials of ${unusedAddresses.join(", ")}, which no other module uses?`,
+                { modal: true }, removeOption) === removeOption;
+        const deleteOption: string = "Delete";
+        const deleteModuleFolder: boolean = deleteFolder &&
+            await vscode.window.showWarningMessage(`Delete the module folder ${modulePath}?`, { modal: true }, deleteOption) === deleteOption;
+
+        for (const template of templates) {
+            const registryRemoval = registryRemovals.find((removal) => removal.file === template.file);
+            if (removeRegistries && registryRemoval) {
+                ModuleRemover.removeRegistryCredentials(template.json, registryRemoval.keys);
+            }
+            // the comments and the formatting of the files are kept
+            await fse.writeFile(template.file, JsonEditor.update(template.text, template.json), { encoding: "utf8" });
+        }
+        for (const overlay of overlays.filter((item) => item.changes.length > 0)) {
+            await fse.writeFile(overlay.file, JsonEditor.update(overlay.text, overlay.json), { encoding: "utf8" });
+        }
+        if (launchChanges.length > 0) {
+            await fse.writeFile(launchFile, JsonEditor.update(launchText, launchJson), { encoding: "utf8" });
+        }
+        if (removeRegistries && envContent && envContent.changes.length > 0) {
+            await fse.writeFile(envFilePath, envContent.content, { encoding: "utf8" });
+        }
+        // only the secrets of this solution are deleted, the secrets shared by the solutions are kept
+        const provider: ICredentialProvider = CredentialStore.getProvider(slnPath);
+        if (removeRegistries && provider && provider.canStore) {
+            for (const variable of unusedVariables) {
+                await provider.delete(variable);
+            }
+        }
+        if (deleteModuleFolder) {
+            await fse.remove(modulePath);
+        }
+        outputChannel.appendLine(`Module '${moduleName}' has been removed from the solution ${slnPath}`);
+        vscode.window.showInformationMessage(`Module '${moduleName}' has been removed.`);
+    }
+
+    public async renameModuleForSolution(outputChannel: vscode.OutputChannel, fileUri?: vscode.Uri): Promise<void> {
+        const templateFile: string = await this.getModuleSolutionTemplate(fileUri, Constants.renameModuleEvent);
+        if (!templateFile) {
+            return;
+        }
+
+        const slnPath: string = path.dirname(templateFile);
+        const templates: Array<{ file: string, text: string, json: any }> = [];
+        for (const file of [Constants.deploymentTemplate, Constants.deploymentDebugTemplate].map((name) => path.join(slnPath, name))) {
+            if (await fse.pathExists(file)) {
+                const text: string = await fse.readFile(file, "utf8");
+                const templateJson = Utility.updateSchema(JSON.parse(stripJsonComments(text)));
+                templates.push({ file, text, json: templateJson });
+                for (const overlayFile of templateJson[Constants.Overlays] || []) {
+                    const overlayPath: string = path.resolve(slnPath, overlayFile);
+                    if (await fse.pathExists(overlayPath) && !templates.some((template) => template.file === overlayPath)) {
+                        const overlayText: string = await fse.readFile(overlayPath, "utf8");
+                        templates.push({ file: overlayPath, text: overlayText, json: Utility.updateSchema(JSON.parse(stripJsonComments(overlayText))) });
+                    }
+                }
+            }
+        }
+
+        let oldFolder: string = this.getModuleFolderFromUri(fileUri);
+        const oldName: string = await this.selectModule(templates.map((template) => template.json), Constants.selectModuleToRename, oldFolder);
+        if (!oldFolder) {
+            oldFolder = templates.map((template) => ModuleRemover.getModuleFolder(template.json, oldName)).find((folder) => folder !== undefined);
+        }
+
+        const modulesPath: string = path.join(slnPath, Constants.moduleFolder);
+        const oldModulePath: string = oldFolder ? path.join(modulesPath, oldFolder) : undefined;
+        const moveFolder: boolean = oldModulePath !== undefined && await fse.pathExists(oldModulePath);
+        const modules: string[] = [];
+        for (const template of templates) {
+            const edgeAgent = template.json.modulesContent ? template.json.modulesContent.$edgeAgent : undefined;
+            if (edgeAgent && edgeAgent["properties.desired"] && edgeAgent["properties.desired"].modules) {
+                modules.push(...Object.keys(edgeAgent["properties.desired"].modules));
+            }
+        }
+        const newName: string = Utility.getValidModuleName(await this.inputModuleName(moveFolder ? modulesPath : undefined, modules, oldName));
+        const newFolder: string = oldFolder ? newName : undefined;
+
+        // all the changes are computed and confirmed before anything is written, and the module folder is moved last
+        const edits: Array<{ file: string, text: string, content: string, changes: string[] }> = [];
+        if (moveFolder) {
+            const moduleFile: string = path.join(oldModulePath, Constants.moduleManifest);
+            if (await fse.pathExists(moduleFile)) {
+                const moduleText: string = await fse.readFile(moduleFile, "utf8");
+                const moduleJson = JSON.parse(stripJsonComments(moduleText));
+                const moduleChanges: string[] = ModuleRenamer.renameInModuleJson(moduleJson, oldName, newName);
+                if (moduleChanges.length > 0) {
+                    edits.push({ file: moduleFile, text: moduleText, content: JsonEditor.update(moduleText, moduleJson), changes: moduleChanges });
+                }
+            }
+        }
+
+        for (const template of templates) {
+            const templateChanges: string[] = ModuleRenamer.renameInTemplate(template.json, oldName, newName, oldFolder, newFolder);
+            if (templateChanges.length > 0) {
+                edits.push({ file: template.file, text: template.text, content: JsonEditor.update(template.text, template.json), changes: templateChanges });
+            }
+        }
+
+        const launchFile: string = path.join(slnPath, Constants.vscodeFolder, Constants.launchFile);
+        if (oldFolder && await fse.pathExists(launchFile)) {
+            const launchText: string = await fse.readFile(launchFile, "utf8");
+            const launchJson = JSON.parse(stripJsonComments(launchText));
+            const launchChanges: string[] = ModuleRenamer.renameLaunchConfigurations(launchJson, oldName, newName, oldFolder, newFolder);
+            if (launchChanges.length > 0) {
+                edits.push({ file: launchFile, text: launchText, content: JsonEditor.update(launchText, launchJson), changes: launchChanges });
+            }
+        }
+
+        const newModulePath: string = moveFolder ? path.join(modulesPath, newFolder) : undefined;
+        await this.showRenameModulePreview(slnPath, oldName, newName, edits, oldModulePath, newModulePath);
+        const renameOption: string = "Rename";
+        if (await vscode.window.showWarningMessage(`Rename module '${oldName}' to '${newName}' with the changes shown in the preview?`,
+            { modal: true }, renameOption) !== renameOption) {
+            throw new UserCancelledError();
+        }
+
+        // restore the files already written when a file can't be written or the folder can't be moved
+        const written: Array<{ file: string, text: string }> = [];
+        try {
+            for (const edit of edits) {
+                await fse.writeFile(edit.file, edit.content, { encoding: "utf8" });
+                written.push(edit);
+            }
+            if (moveFolder) {
+                await fse.move(oldModulePath, newModulePath);
+            }
+        } catch (error) {
+            for (const edit of written.reverse()) {
+                await fse.writeFile(edit.file, edit.text, { encoding: "utf8" });
+            }
+            throw new Error(`Failed to rename module '${oldName}', the files have been restored: ${error.message}`);
+        }
+
+        outputChannel.appendLine(`Module '${oldName}' has been renamed to '${newName}':`);
+        if (moveFolder) {
+            outputChannel.appendLine(`  Move ${path.relative(slnPath, oldModulePath)} to ${path.relative(slnPath, newModulePath)}`);
+        }
+        for (const edit of edits) {
+            edit.changes.forEach((change) => outputChannel.appendLine(`  ${path.relative(slnPath, edit.file)}: ${change}`));
+        }
+        vscode.window.showInformationMessage(`Module '${oldName}' has been renamed to '${newName}'.`);
+    }
+
+    public async migrateCredentials(outputChannel: vscode.OutputChannel, envUri?: vscode.Uri): Promise<void> {
+        const envFile: string = await Utility.getInputFilePath(envUri, Constants.envFilePattern, Constants.envFileDesc, `${Constants.migrateCredentialsEvent}.selectEnv`);
+        if (!envFile) {
+            return;
+        }
+        const provider: ICredentialProvider = CredentialStore.getProvider(path.dirname(envFile));
+        if (!provider || !provider.canStore) {
+            throw new Error(`Please set azure-iot-edge.${Constants.credentialStoreConfig} to ${CredentialProviderFactory.keychain} or ` +
+                `${CredentialProviderFactory.encryptedFile} to store the container registry credentials`);
+        }
+
+        const templateJsons: any[] = [];
+        for (const file of [Constants.deploymentTemplate, Constants.deploymentDebugTemplate].map((name) => path.join(path.dirname(envFile), name))) {
+            if (await fse.pathExists(file)) {
+                templateJsons.push(Utility.updateSchema(await fse.readJson(file)));
+            }
+        }
+        const secretKeys: Set<string> = CredentialMigrator.getSecretKeys(templateJsons);
+        const { content, secrets } = CredentialMigrator.extractSecrets(await fse.readFile(envFile, "utf8"),
+            (key) => secretKeys.has(key) || CredentialMigrator.isRegistryCredential(key), provider.name);
+        const keys: string[] = Object.keys(secrets);
+        if (keys.length === 0) {
+            vscode.window.showInformationMessage(`No container registry credentials can be found in ${envFile}`);
+            return;
+        }
+
+        const moveOption: string = "Move";
+        if (await vscode.window.showWarningMessage(`Move ${keys.join(", ")} from ${envFile} to the ${provider.name} credential store?`,
+            { modal: true }, moveOption) !== moveOption) {
+            throw new UserCancelledError();
+        }
+        for (const key of keys) {
+            await provider.set(key, secrets[key]);
+        }
+        await fse.writeFile(envFile, content, { encoding: "utf8" });
+        outputChannel.appendLine(`${keys.join(", ")} moved from ${envFile} to the ${provider.name} credential store`);
+        vscode.window.showInformationMessage(`Container registry credentials have been moved to the ${provider.name} credential store`);
+    }
+
     public async checkRegistryEnv(folder: vscode.WorkspaceFolder): Promise<void> {
         if (!folder) {
             return;
@@ -90,8 +378,8 @@ export class EdgeManager {
                     const runtimeSettings = templateJson.modulesContent.$edgeAgent["properties.desired"].runtime.settings;
                     const registries = runtimeSettings.registryCredentials;
                     if (registries) {
-                        await Utility.loadEnv(envFile);
-                        const expanded = Utility.expandEnv(JSON.stringify(registries, null, 2));
+                        const env: IEnvironment = await Utility.loadEnv(folderPath);
+                        const expanded = Utility.expandEnv(JSON.stringify(registries, null, 2), env);
                         const pattern: RegExp = new RegExp(/\$([a-zA-Z0-9_]+)|\${([a-zA-Z0-9_]+)}/g);
                         const matchArr = expanded.match(pattern);
                         if (matchArr && matchArr.length > 0) {
@@ -200,9 +488,61 @@ export class EdgeManager {
         }
     }
 
+    // The environment profiles are the .env.<profile> files of the solutions, and the active profile is set for a workspace folder
+    public async selectEnvProfile(outputChannel: vscode.OutputChannel): Promise<void> {
+        if (!Utility.checkWorkspace()) {
+            return;
+        }
+        const folders: vscode.WorkspaceFolder[] = vscode.workspace.workspaceFolders;
+        const folder: vscode.WorkspaceFolder = folders.length > 1 ?
+            await vscode.window.showWorkspaceFolderPick({ placeHolder: "Select the workspace folder of the IoT Edge solution", ignoreFocusOut: true }) : folders[0];
+        if (!folder) {
+            throw new UserCancelledError();
+        }
+
+        const profiles: Set<string> = new Set();
+        const templateFiles: vscode.Uri[] = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, `**/${Constants.deploymentTemplate}`), "**/node_modules/**");
+        for (const templateFile of templateFiles) {
+            (await EnvProfiles.list(path.dirname(templateFile.fsPath))).forEach((profile) => profiles.add(profile));
+        }
+        const current: string = Utility.getEnvProfile(folder.uri.fsPath);
+        if (profiles.size === 0 && !current) {
+            vscode.window.showInformationMessage(`No environment profile is found. Add ${Constants.envFile}.<profile> files, e.g. ${Constants.envFile}.dev, next to ${Constants.deploymentTemplate}`);
+            return;
+        }
+
+        const items: Array<vscode.QuickPickItem & { profile: string }> = [{ label: Constants.envFile, description: "No environment profile", profile: undefined }];
+        [...profiles].sort().forEach((profile) => items.push({ label: profile, description: `${Constants.envFile}.${profile}`, profile }));
+        items.forEach((item) => item.description = item.profile === current ? `${item.description} (active)` : item.description);
+        const selected = await vscode.window.showQuickPick(items, { placeHolder: Constants.selectEnvProfile, ignoreFocusOut: true });
+        if (selected) {
+            await Utility.setEnvProfile(folder, selected.profile);
+            outputChannel.appendLine(`Environment profile of ${folder.name} is ${selected.profile || "none"} now.`);
+        }
+    }
+
+    // Add a variable without value to a .env file of a solution, and put the cursor after the = to type the value.
+    // The document is edited instead of the file, so that unsaved changes of an open .env file are kept.
+    public async addEnvVariable(envFile: string, name: string): Promise<void> {
+        await fse.ensureFile(envFile);
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument(envFile);
+        const appendText: string = EnvVariables.getAppendText(document.getText(), name);
+        if (appendText) {
+            const edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit();
+            edit.insert(document.uri, document.positionAt(document.getText().length), appendText);
+            await vscode.workspace.applyEdit(edit);
+        }
+        const line: number = Math.max(EnvVariables.findLine(document.getText(), name), 0);
+        const position: vscode.Position = document.lineAt(line).range.end;
+        await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
+    }
+
     // TODO: Change createOptions to json Object
-    private async generateDebugCreateOptions(moduleName: string, template: string): Promise<{ debugImageName: string, debugCreateOptions: any }> {
+    // The host ports of the debuggers are allocated without collisions with the ports of the other modules of deployment.debug.template.json
+    private async generateDebugCreateOptions(moduleName: string, template: string, usedPorts: number[]): Promise<{ debugImageName: string, debugCreateOptions: any }> {
         let debugCreateOptions = {};
+        const debugPort: number = DebugConfigurationBuilder.debugPorts[template];
+        const hostPort: string = debugPort ? DebugConfigurationBuilder.allocateHostPort(debugPort, usedPorts).toString() : undefined;
         switch (template) {
             case Constants.LANGUAGE_CSHARP:
                 break;
@@ -211,19 +551,19 @@ export class EdgeManager {
             case Constants.LANGUAGE_NODE:
                 debugCreateOptions = {
                     ExposedPorts: { "9229/tcp": {}},
-                    HostConfig: {PortBindings: {"9229/tcp": [{HostPort: "9229"}]}}};
+                    HostConfig: {PortBindings: {"9229/tcp": [{HostPort: hostPort}]}}};
                 break;
             case Constants.LANGUAGE_C:
                 debugCreateOptions = {HostConfig: {Privileged: true}};
                 break;
             case Constants.LANGUAGE_JAVA:
                 debugCreateOptions = {
-                    HostConfig: {PortBindings: {"5005/tcp": [{HostPort: "5005"}]}}};
+                    HostConfig: {PortBindings: {"5005/tcp": [{HostPort: hostPort}]}}};
                 break;
             case Constants.LANGUAGE_PYTHON:
                 debugCreateOptions = {
                     ExposedPorts: {"5678/tcp": {}},
-                    HostConfig: {PortBindings: {"5678/tcp": [{HostPort: "5678"}]}}};
+                    HostConfig: {PortBindings: {"5678/tcp": [{HostPort: hostPort}]}}};
                 break;
             default:
                 break;
@@ -232,57 +572,18 @@ export class EdgeManager {
         return { debugImageName, debugCreateOptions };
     }
 
-    private async generateDebugSetting(srcSlnPath: string,
-                                       language: string,
-                                       moduleName: string,
-                                       extraProps: Map<string, string>): Promise<any> {
-
-        const mapObj: Map<string, string> = new Map<string, string>();
-        mapObj.set(Constants.moduleNamePlaceholder, moduleName);
-        mapObj.set(Constants.moduleFolderPlaceholder, moduleName);
-        // copy launch.json
-        let launchFile: string;
-        let isFunction: boolean = false;
-        switch (language) {
-            case Constants.LANGUAGE_CSHARP:
-                launchFile = Constants.launchCSharp;
-                mapObj.set(Constants.appFolder, "/app");
-                break;
-            case Constants.CSHARP_FUNCTION:
-                launchFile = Constants.launchCSharp;
-                mapObj.set(Constants.appFolder, "/app");
-                isFunction = true;
-                break;
-            case Constants.LANGUAGE_NODE:
-                launchFile = Constants.launchNode;
-                break;
-            case Constants.LANGUAGE_C:
-                launchFile = Constants.launchC;
-                mapObj.set(Constants.appFolder, "/app");
-                break;
-            case Constants.LANGUAGE_JAVA:
-                launchFile = Constants.launchJava;
-                mapObj.set(Constants.groupIDPlaceholder, extraProps.get(Constants.groupId));
-                break;
-            case Constants.LANGUAGE_PYTHON:
-                launchFile = Constants.launchPython;
-                mapObj.set(Constants.appFolder, "/app");
-                break;
-            default:
-                break;
-        }
-
-        if (launchFile) {
-            const srcLaunchJson = path.join(srcSlnPath, launchFile);
-            const debugData: string = await fse.readFile(srcLaunchJson, "utf8");
-            const debugConfig = JSON.parse(Utility.replaceAll(debugData, mapObj));
-            if (isFunction && debugConfig && debugConfig.configurations) {
-                debugConfig.configurations = debugConfig.configurations.filter((config) => config.request !== "launch");
-            }
-            return debugConfig;
-        } else {
+    // The launch configurations of a new module only name the module, and are resolved by EdgeDebugConfigurationProvider
+    // when debugging starts, so that they follow the changes of the ports, folders and names of the modules
+    private async generateDebugSetting(srcSlnPath: string, language: string, moduleName: string): Promise<any> {
+        const launchFile: string = DebugConfigurationBuilder.getLaunchTemplateFile(language);
+        if (!launchFile) {
             return undefined;
         }
+        const launchTemplate: any = await fse.readJson(path.join(srcSlnPath, launchFile));
+        return {
+            version: launchTemplate.version,
+            configurations: DebugConfigurationBuilder.getOnDemandConfigurations(launchTemplate, { name: moduleName, folder: moduleName, language }),
+        };
     }
 
     private async addModule(templateFile: string,
@@ -295,20 +596,31 @@ export class EdgeManager {
         const targetModulePath = path.join(slnPath, Constants.moduleFolder);
         const envFilePath = path.join(slnPath, Constants.envFile);
 
+        await this.loadTemplatePacks(outputChannel);
         const template = await this.selectModuleTemplate();
+        const templatePack: TemplatePack = this.getTemplatePackByLabel(template);
         const extraProps: Map<string, string> = new Map<string, string>();
-        if (template === Constants.LANGUAGE_JAVA) {
+        if (templatePack) {
+            for (const parameter of templatePack.manifest.parameters || []) {
+                extraProps.set(parameter.placeholder, await Utility.showInputBox(parameter.placeholder, parameter.prompt, null, parameter.default));
+            }
+        } else if (template === Constants.LANGUAGE_JAVA) {
             const grpId = await this.inputJavaModuleGrpId();
             extraProps.set(Constants.groupId, grpId);
         }
 
         const modules = templateJson.modulesContent.$edgeAgent["properties.desired"].modules;
         const moduleName: string = Utility.getValidModuleName(await this.inputModuleName(targetModulePath, Object.keys(modules)));
-        const moduleInfo: ModuleInfo = await this.inputImage(moduleName, template);
+        const moduleInfo: ModuleInfo = await this.inputImage(moduleName, template, extraProps, templateJson, envFilePath);
         await this.addModuleProj(targetModulePath, moduleName, moduleInfo.repositoryName, template, outputChannel, extraProps);
 
-        const debugGenerated: any = await this.generateDebugSetting(sourceSolutionPath, template, moduleName, extraProps);
+        const debugGenerated: any = templatePack ?
+            await templatePack.getLaunchConfig(this.getTemplatePackValues(moduleName, moduleInfo.repositoryName, extraProps)) :
+            await this.generateDebugSetting(sourceSolutionPath, template, moduleName);
         if (debugGenerated) {
+            if (templatePack) {
+                DebugConfigurationBuilder.updateAttachPorts(debugGenerated.configurations, moduleInfo.debugHostPorts);
+            }
             const targetVscodeFolder: string = path.join(slnPath, Constants.vscodeFolder);
             await fse.ensureDir(targetVscodeFolder);
             const targetLaunchJson: string = path.join(targetVscodeFolder, Constants.launchFile);
@@ -398,6 +710,12 @@ export class EdgeManager {
                                 repositoryName: string, template: string,
                                 outputChannel: vscode.OutputChannel,
                                 extraProps?: Map<string, string>): Promise<void> {
+        const templatePack = this.getTemplatePackByLabel(template);
+        if (templatePack) {
+            await templatePack.scaffold(path.join(parent, name), this.getTemplatePackValues(name, repositoryName, extraProps));
+            return;
+        }
+
         // TODO command to create module;
         switch (template) {
             case Constants.LANGUAGE_CSHARP:
@@ -409,30 +727,13 @@ export class EdgeManager {
                 await Executor.executeCMD(outputChannel, "dotnet", { cwd: `${parent}`, shell: true }, `new aziotedgefunction -n "${name}" -r ${repositoryName}`);
                 break;
             case Constants.LANGUAGE_PYTHON:
-                const gitHubSource = "https://github.com/Azure/cookiecutter-azure-iot-edge-module";
-                const branch = "master";
-                await Executor.executeCMD(outputChannel,
-                    "cookiecutter",
-                    { cwd: `${parent}`, shell: true },
-                    `--no-input ${gitHubSource} module_name=${name} image_repository=${repositoryName} --checkout ${branch}`);
+                await this.scaffoldModule(parent, name, repositoryName, template, outputChannel);
                 break;
             case Constants.LANGUAGE_NODE:
                 await Executor.executeCMD(outputChannel, "yo", { cwd: `${parent}`, shell: true }, `azure-iot-edge-module -n "${name}" -r ${repositoryName}`);
                 break;
             case Constants.LANGUAGE_C:
-                await new Promise((resolve, reject) => {
-                    download("github:Azure/azure-iot-edge-c-module#master", path.join(parent, name), (err) => {
-                        if (err) {
-                            reject(err);
-                        } else {
-                            resolve();
-                        }
-                    });
-                });
-                const moduleFile = path.join(parent, name, Constants.moduleManifest);
-                const moduleJson = await fse.readJson(moduleFile);
-                moduleJson.image.repository = repositoryName;
-                await fse.writeFile(moduleFile, JSON.stringify(moduleJson, null, 2), { encoding: "utf8" });
+                await this.scaffoldModule(parent, name, repositoryName, template, outputChannel);
                 break;
             case Constants.LANGUAGE_JAVA:
                 const groupId = extraProps.get(Constants.groupId);
@@ -463,6 +764,54 @@ export class EdgeManager {
         }
     }
 
+    // The C and Python modules are scaffolded from the versioned templates in assets/modules. The remote templates are
+    // only used when the useRemoteModuleTemplates setting is enabled, and the bundled ones are used if they fail.
+    private async scaffoldModule(parent: string, name: string, repositoryName: string, language: string,
+                                 outputChannel: vscode.OutputChannel): Promise<void> {
+        const modulePath: string = path.join(parent, name);
+        if (Utility.getConfigurationProperty(Constants.useRemoteModuleTemplatesConfig)) {
+            try {
+                await this.downloadModuleTemplate(parent, name, repositoryName, language, outputChannel);
+                return;
+            } catch (error) {
+                outputChannel.appendLine(`Failed to get the remote ${language} module template, the bundled template is used instead: ${error.message}`);
+                await fse.remove(modulePath);
+            }
+        }
+
+        const scaffold: ModuleScaffold = await ModuleScaffold.load(
+            this.context.asAbsolutePath(path.join(Constants.assetsFolder, Constants.moduleFolder, language === Constants.LANGUAGE_C ? "c" : "python")));
+        await scaffold.scaffold(modulePath, this.getTemplatePackValues(name, repositoryName));
+        outputChannel.appendLine(`Module ${name} is created from the bundled ${language} module template ${scaffold.version}`);
+    }
+
+    private async downloadModuleTemplate(parent: string, name: string, repositoryName: string, language: string,
+                                         outputChannel: vscode.OutputChannel): Promise<void> {
+        if (language === Constants.LANGUAGE_PYTHON) {
+            const gitHubSource = "https://github.com/Azure/cookiecutter-azure-iot-edge-module";
+            const branch = "master";
+            await Executor.executeCMD(outputChannel,
+                "cookiecutter",
+                { cwd: `${parent}`, shell: true },
+                `--no-input ${gitHubSource} module_name=${name} image_repository=${repositoryName} --checkout ${branch}`);
+            return;
+        }
+
+        await new Promise((resolve, reject) => {
+            download("github:Azure/azure-iot-edge-c-module#master", path.join(parent, name), (err) => {
+                if (err) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
+        const moduleFile = path.join(parent, name, Constants.moduleManifest);
+        const moduleJson = await fse.readJson(moduleFile);
+        moduleJson.image.repository = repositoryName;
+        await fse.writeFile(moduleFile, JSON.stringify(moduleJson, null, 2), { encoding: "utf8" });
+    }
+
     private async validateInputName(name: string, parentPath?: string): Promise<string | undefined> {
         if (!name) {
             return "The name could not be empty";
@@ -522,13 +871,13 @@ export class EdgeManager {
             validateFunc, Constants.solutionNameDft);
     }
 
-    private async inputModuleName(parentPath?: string, modules?: string[]): Promise<string> {
+    private async inputModuleName(parentPath?: string, modules?: string[], defaultValue: string = Constants.moduleNameDft): Promise<string> {
         const validateFunc = async (name: string): Promise<string> => {
             return await this.validateInputName(name, parentPath) || this.validateModuleExistence(name, modules);
         };
         return await Utility.showInputBox(Constants.moduleName,
             Constants.moduleNamePrompt,
-            validateFunc, Constants.moduleNameDft);
+            validateFunc, defaultValue);
     }
 
     private async validateGroupId(input: string): Promise<string | undefined> {
@@ -550,6 +899,16 @@ export class EdgeManager {
                 "Provide value for groupId", this.validateGroupId, dftValue);
     }
 
+    // The registry credentials of the template, using the variables of the .env file and the credential store
+    private async getExpandedRegistryCredentials(templateJson: any, envFilePath: string): Promise<any> {
+        if (!templateJson) {
+            return {};
+        }
+        const env: IEnvironment = envFilePath ? await Utility.loadEnv(path.dirname(envFilePath)) : process.env;
+        const runtimeSettings = templateJson.modulesContent.$edgeAgent["properties.desired"].runtime.settings;
+        return JSON.parse(Utility.expandEnv(JSON.stringify(runtimeSettings.registryCredentials || {}), env));
+    }
+
     private async inputRepository(module: string): Promise<string> {
         const dftValue: string = `localhost:5000/${module.toLowerCase()}`;
         return await Utility.showInputBox(Constants.repositoryPattern,
@@ -557,20 +916,32 @@ export class EdgeManager {
             null, dftValue);
     }
 
-    private async inputImage(module: string, template: string): Promise<ModuleInfo> {
+    private async inputImage(module: string, template: string, extraProps?: Map<string, string>, templateJson?: any, envFilePath?: string): Promise<ModuleInfo> {
         let repositoryName: string = "";
         let imageName: string = "";
         let moduleTwin: object;
         let createOptions: any = {};
         let debugImageName: string = "";
         let debugCreateOptions: any = {};
+        let debugHostPorts: { [port: number]: number } = {};
+        const templatePack = this.getTemplatePackByLabel(template);
         const thirdPartyModuleTemplate = this.get3rdPartyModuleTemplateByName(template);
-        if (template === Constants.ACR_MODULE) {
+        if (templatePack) {
+            repositoryName = await this.inputRepository(module);
+            imageName = `\${${Utility.getModuleKeyNoPlatform(module, false)}}`;
+            debugImageName = `\${${Utility.getModuleKeyNoPlatform(module, true)}}`;
+            const values: Map<string, string> = this.getTemplatePackValues(module, repositoryName, extraProps);
+            createOptions = templatePack.getCreateOptions(values, false);
+            // the debug ports of the pack are bound to host ports no other module uses, like the ones of the built-in templates
+            const debugSettings = DebugConfigurationBuilder.allocateHostPorts(templatePack.getCreateOptions(values, true), await this.getUsedDebugHostPorts(envFilePath));
+            debugCreateOptions = debugSettings.createOptions;
+            debugHostPorts = debugSettings.hostPorts;
+        } else if (template === Constants.ACR_MODULE) {
             const acrManager = new AcrManager();
             imageName = await acrManager.selectAcrImage();
             repositoryName = Utility.getRepositoryNameFromImageName(imageName);
         } else if (template === Constants.EXISTING_MODULE) {
-            imageName = await Utility.showInputBox(Constants.imagePattern, Constants.imagePrompt);
+            imageName = await new RegistryManager().selectImage(await this.getExpandedRegistryCredentials(templateJson, envFilePath));
             repositoryName = Utility.getRepositoryNameFromImageName(imageName);
         } else if (template === Constants.STREAM_ANALYTICS) {
             const saManager = new StreamAnalyticsManager();
@@ -588,11 +959,17 @@ export class EdgeManager {
         } else {
             repositoryName = await this.inputRepository(module);
             imageName = `\${${Utility.getModuleKeyNoPlatform(module, false)}}`;
-            const debugSettings = await this.generateDebugCreateOptions(module, template);
+            const debugSettings = await this.generateDebugCreateOptions(module, template, await this.getUsedDebugHostPorts(envFilePath));
             debugImageName = debugSettings.debugImageName;
             debugCreateOptions = debugSettings.debugCreateOptions;
         }
-        return new ModuleInfo(module, repositoryName, imageName, moduleTwin, createOptions, debugImageName, debugCreateOptions);
+        return new ModuleInfo(module, repositoryName, imageName, moduleTwin, createOptions, debugImageName, debugCreateOptions, debugHostPorts);
+    }
+
+    // The host ports bound by the modules of deployment.debug.template.json of the solution
+    private async getUsedDebugHostPorts(envFilePath: string): Promise<number[]> {
+        const debugTemplateFile: string = envFilePath ? path.join(path.dirname(envFilePath), Constants.deploymentDebugTemplate) : undefined;
+        return debugTemplateFile && await fse.pathExists(debugTemplateFile) ? DebugConfigurationBuilder.getUsedHostPorts(await fse.readJson(debugTemplateFile)) : [];
     }
 
     private async updateRegistrySettings(address: string, registries: any, envFile: string): Promise<{ registries: string, usernameEnv: string, passwordEnv: string }> {
@@ -602,8 +979,8 @@ export class EdgeManager {
         if (lowerCase === "localhost" || lowerCase.startsWith("localhost:")) {
             return { registries, usernameEnv, passwordEnv };
         }
-        await Utility.loadEnv(envFile);
-        const { exists, keySet } = this.checkAddressExist(address, registries);
+        const env: IEnvironment = await Utility.loadEnv(path.dirname(envFile));
+        const { exists, keySet } = this.checkAddressExist(address, registries, env);
 
         if (!exists) {
             const addressKey = Utility.getAddressKey(address, keySet);
@@ -630,11 +1007,27 @@ export class EdgeManager {
         if (address.endsWith(".azurecr.io")) {
             await this.populateACRCredential(address, envFile, usernameEnv, passwordEnv, debugUsernameEnv, debugPasswordEnv);
         } else {
-            await this.populateStaticEnv(envFile, usernameEnv, passwordEnv, debugUsernameEnv, debugPasswordEnv);
+            await this.populateStaticEnv(address, envFile, usernameEnv, passwordEnv, debugUsernameEnv, debugPasswordEnv);
         }
     }
 
-    private async populateStaticEnv(envFile: string, usernameEnv: string, passwordEnv: string, debugUsernameEnv?: string, debugPasswordEnv?: string): Promise<void> {
+    private async populateStaticEnv(address: string, envFile: string, usernameEnv: string, passwordEnv: string, debugUsernameEnv?: string, debugPasswordEnv?: string): Promise<void> {
+        const provider: ICredentialProvider = CredentialStore.getProvider(path.dirname(envFile));
+        if (provider) {
+            let username: string;
+            let password: string;
+            if (provider.canStore) {
+                username = await vscode.window.showInputBox({ prompt: `Username of container registry ${address}`, ignoreFocusOut: true });
+                password = username ? await vscode.window.showInputBox({ prompt: `Password of container registry ${address}`, password: true, ignoreFocusOut: true }) : undefined;
+            }
+            if (!provider.canStore || (username && password)) {
+                const secrets: Map<string, string> = this.getRegistrySecrets(username, password, usernameEnv, passwordEnv, debugUsernameEnv, debugPasswordEnv);
+                if (await this.storeRegistrySecrets(provider, secrets)) {
+                    return;
+                }
+            }
+        }
+
         let envContent = `${usernameEnv}=\n${passwordEnv}=\n`;
         if (debugUsernameEnv && debugUsernameEnv !== usernameEnv) {
             envContent = `${envContent}${debugUsernameEnv}=\n${debugPasswordEnv}=\n`;
@@ -654,6 +1047,12 @@ export class EdgeManager {
             console.error(err);
         }
         if (cred && cred.username !== undefined) {
+            const provider: ICredentialProvider = CredentialStore.getProvider(path.dirname(envFile));
+            const secrets: Map<string, string> = this.getRegistrySecrets(cred.username, cred.password, usernameEnv, passwordEnv, debugUsernameEnv, debugPasswordEnv);
+            if (provider && await this.storeRegistrySecrets(provider, secrets)) {
+                return;
+            }
+
             let envContent = `${usernameEnv}=${cred.username}\n${passwordEnv}=${cred.password}\n`;
             if (debugUsernameEnv && debugUsernameEnv !== usernameEnv) {
                 envContent = `${envContent}${debugUsernameEnv}=${cred.username}\n${debugPasswordEnv}=${cred.password}\n`;
@@ -662,7 +1061,35 @@ export class EdgeManager {
             await fse.appendFile(envFile, envContent, { encoding: "utf8" });
             vscode.window.showInformationMessage(Constants.acrEnvSet);
         } else {
-            await this.populateStaticEnv(envFile, usernameEnv, passwordEnv, debugUsernameEnv, debugPasswordEnv);
+            await this.populateStaticEnv(address, envFile, usernameEnv, passwordEnv, debugUsernameEnv, debugPasswordEnv);
+        }
+    }
+
+    private getRegistrySecrets(username: string, password: string, usernameEnv: string, passwordEnv: string,
+                               debugUsernameEnv?: string, debugPasswordEnv?: string): Map<string, string> {
+        const secrets: Map<string, string> = new Map([[usernameEnv, username], [passwordEnv, password]]);
+        if (debugUsernameEnv && debugUsernameEnv !== usernameEnv) {
+            secrets.set(debugUsernameEnv, username);
+            secrets.set(debugPasswordEnv, password);
+        }
+        return secrets;
+    }
+
+    // Return false if the secrets could not be stored and should be written to the .env file instead
+    private async storeRegistrySecrets(provider: ICredentialProvider, secrets: Map<string, string>): Promise<boolean> {
+        if (!provider.canStore) {
+            vscode.window.showInformationMessage(`Please set the environment variables ${[...secrets.keys()].join(", ")} with the container registry credentials`);
+            return true;
+        }
+        try {
+            for (const [key, value] of secrets) {
+                await provider.set(key, value);
+            }
+            vscode.window.showInformationMessage(`Container registry credentials have been stored in the ${provider.name} credential store`);
+            return true;
+        } catch (error) {
+            vscode.window.showWarningMessage(`Failed to store the container registry credentials in the ${provider.name} credential store: ${error.message}`);
+            return false;
         }
     }
 
@@ -675,14 +1102,14 @@ export class EdgeManager {
         }
     }
 
-    private checkAddressExist(address: string, registriesObj: any): { exists: boolean, keySet: Set<string> } {
+    private checkAddressExist(address: string, registriesObj: any, env: IEnvironment): { exists: boolean, keySet: Set<string> } {
         const keySet = new Set();
         let exists = false;
         if (registriesObj === undefined) {
             return { exists, keySet };
         }
 
-        const expandedContent = Utility.expandEnv(JSON.stringify(registriesObj));
+        const expandedContent = Utility.expandEnv(JSON.stringify(registriesObj), env);
         const registriesExpanded = JSON.parse(expandedContent);
 
         for (const key in registriesExpanded) {
@@ -735,6 +1162,20 @@ export class EdgeManager {
                 description: Constants.EXISTING_MODULE_DESCRIPTION,
             },
         ];
+        // a template pack replaces the built-in template with the same label
+        for (const templatePack of this.templatePacks) {
+            const index: number = templatePicks.findIndex((item) => item.label === templatePack.label);
+            const pick: vscode.QuickPickItem = {
+                label: templatePack.label,
+                description: templatePack.manifest.description,
+                detail: `${templatePack.manifest.name} ${templatePack.manifest.version} (${templatePack.source})`,
+            };
+            if (index >= 0) {
+                templatePicks[index] = pick;
+            } else {
+                templatePicks.push(pick);
+            }
+        }
         const templates = this.get3rdPartyModuleTemplates();
         if (templates) {
             templates.forEach((template) => {
@@ -759,6 +1200,148 @@ export class EdgeManager {
         return templatePick.label;
     }
 
+    // The module of a solution is either picked from the context menu of its module.json or from the deployment template
+    private async getModuleSolutionTemplate(fileUri: vscode.Uri, eventName: string): Promise<string> {
+        if (this.getModuleFolderFromUri(fileUri)) {
+            const templateFile: string = path.join(path.dirname(path.dirname(path.dirname(fileUri.fsPath))), Constants.deploymentTemplate);
+            if (!await fse.pathExists(templateFile)) {
+                vscode.window.showInformationMessage(Constants.noSolutionFileWithModulesFolder);
+                return undefined;
+            }
+            return templateFile;
+        }
+        return await Utility.getInputFilePath(fileUri,
+            Constants.deploymentTemplatePattern,
+            Constants.deploymentTemplateDesc,
+            `${eventName}.selectTemplate`);
+    }
+
+    private getModuleFolderFromUri(fileUri: vscode.Uri): string {
+        return fileUri && path.basename(fileUri.fsPath) === Constants.moduleManifest ? path.basename(path.dirname(fileUri.fsPath)) : undefined;
+    }
+
+    private async selectModule(templateJsons: any[], placeHolder: string, moduleFolder?: string): Promise<string> {
+        const moduleNames: Set<string> = new Set();
+        for (const templateJson of templateJsons) {
+            const edgeAgent = templateJson.modulesContent ? templateJson.modulesContent.$edgeAgent : undefined;
+            const modules = edgeAgent && edgeAgent["properties.desired"] ? edgeAgent["properties.desired"].modules : undefined;
+            for (const name of Object.keys(modules || {})) {
+                if (!moduleFolder || ModuleRemover.getModuleFolder(templateJson, name) === moduleFolder) {
+                    moduleNames.add(name);
+                }
+            }
+        }
+        if (moduleNames.size === 0) {
+            throw new Error(moduleFolder ? `No module of the deployment template is built from the folder '${moduleFolder}'` : "No module can be found in the deployment template");
+        }
+        if (moduleFolder && moduleNames.size === 1) {
+            return [...moduleNames][0];
+        }
+
+        const moduleName: string = await vscode.window.showQuickPick([...moduleNames], { placeHolder, ignoreFocusOut: true });
+        if (!moduleName) {
+            throw new UserCancelledError();
+        }
+        return moduleName;
+    }
+
+    // Return the registry addresses of the images of the given module, or of all modules if no module is given
+    private getRegistryAddresses(templateJsons: any[], moduleToImageMap: Map<string, string>, env: IEnvironment, moduleName?: string): Set<string> {
+        const addresses: Set<string> = new Set();
+        for (const templateJson of templateJsons) {
+            const modules = templateJson.modulesContent.$edgeAgent["properties.desired"].modules || {};
+            for (const name of Object.keys(modules)) {
+                if (moduleName !== undefined && name !== moduleName) {
+                    continue;
+                }
+                const image: string = modules[name].settings ? modules[name].settings.image : undefined;
+                if (typeof image === "string") {
+                    const expanded: string = Utility.expandEnv(Utility.expandModules(image, moduleToImageMap), env);
+                    if (!expanded.includes("$")) {
+                        addresses.add(Utility.getRegistryAddress(Utility.getRepositoryNameFromImageName(expanded)));
+                    }
+                }
+            }
+        }
+        return addresses;
+    }
+
+    private async showRemoveModulePreview(slnPath: string, moduleName: string,
+                                          templates: Array<{ file: string, changes: string[] }>, launchChanges: string[], modulePath: string,
+                                          registryRemovals: Array<{ file: string, changes: string[] }>, envContent: { changes: string[] }): Promise<void> {
+        const lines: string[] = [`# Remove module '${moduleName}'`, ""];
+        const addSection = (header: string, changes: string[]) => {
+            if (changes.length > 0) {
+                lines.push(header, "", ...changes.map((change) => `- ${change}`), "");
+            }
+        };
+        for (const template of templates) {
+            addSection(`## ${path.relative(slnPath, template.file)}`, template.changes);
+        }
+        addSection(`## ${path.join(Constants.vscodeFolder, Constants.launchFile)}`, launchChanges);
+
+        if (registryRemovals.length > 0 || modulePath) {
+            lines.push("## Optional changes, confirmed separately", "");
+            for (const removal of registryRemovals) {
+                addSection(`### ${path.relative(slnPath, removal.file)}`, removal.changes);
+            }
+            if (envContent) {
+                addSection(`### ${Constants.envFile}`, envContent.changes);
+            }
+            if (modulePath) {
+                addSection(`### ${path.relative(slnPath, modulePath)}`, ["Delete the module folder"]);
+            }
+        }
+
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ language: "markdown", content: lines.join("\n") });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    private async showRenameModulePreview(slnPath: string, oldName: string, newName: string,
+                                          edits: Array<{ file: string, changes: string[] }>, oldModulePath: string, newModulePath: string): Promise<void> {
+        const lines: string[] = [`# Rename module '${oldName}' to '${newName}'`, ""];
+        for (const edit of edits) {
+            lines.push(`## ${path.relative(slnPath, edit.file)}`, "", ...edit.changes.map((change) => `- ${change}`), "");
+        }
+        if (newModulePath) {
+            lines.push(`## ${path.relative(slnPath, oldModulePath)}`, "", `- Move the module folder to ${path.relative(slnPath, newModulePath)}`, "");
+        }
+
+        const document: vscode.TextDocument = await vscode.workspace.openTextDocument({ language: "markdown", content: lines.join("\n") });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    private async loadTemplatePacks(outputChannel: vscode.OutputChannel): Promise<void> {
+        const locations: ITemplatePackLocation[] = [];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+            locations.push({ path: path.join(folder.uri.fsPath, Constants.vscodeFolder, Constants.templatePacksFolder), source: "workspace" });
+        }
+        const packPaths: string[] = Utility.getConfiguration().get<string[]>(Constants.templatePackPathsConfig) || [];
+        for (const packPath of packPaths) {
+            locations.push({ path: packPath.replace(/^~(?=$|[\\/])/, os.homedir()), source: "user" });
+        }
+        locations.push({ path: path.join(os.homedir(), Constants.userConfigFolder, Constants.templatePacksFolder), source: "user" });
+        locations.push({ path: this.context.asAbsolutePath(path.join(Constants.assetsFolder, Constants.templatePacksFolder)), source: "extension" });
+
+        const { packs, errors } = await TemplatePackRegistry.discover(locations, path.join(os.tmpdir(), "vscodeedge", Constants.templatePacksFolder));
+        for (const error of errors) {
+            outputChannel.appendLine(error);
+        }
+        this.templatePacks = packs;
+    }
+
+    private getTemplatePackByLabel(label: string): TemplatePack {
+        return this.templatePacks.find((templatePack) => templatePack.label === label);
+    }
+
+    private getTemplatePackValues(moduleName: string, repositoryName: string, extraProps?: Map<string, string>): Map<string, string> {
+        const values: Map<string, string> = new Map(extraProps || []);
+        values.set(Constants.moduleNamePlaceholder, moduleName);
+        values.set(Constants.moduleFolderPlaceholder, moduleName);
+        values.set(Constants.repositoryPlaceholder, repositoryName);
+        return values;
+    }
+
     private get3rdPartyModuleTemplates() {
         const templatesConfig = Utility.getConfiguration().get<any>(Constants.thirdPartyModuleTemplatesConfig);
         return templatesConfig ? templatesConfig.templates as any[] : undefined;
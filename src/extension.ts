@@ -2,8 +2,10 @@
 // Licensed under the MIT license.
 
 "use strict";
+import * as path from "path";
 import * as vscode from "vscode";
 import { Constants } from "./common/constants";
+import { CredentialStore } from "./common/credentialStore";
 import { ErrorData } from "./common/ErrorData";
 import { Executor } from "./common/executor";
 import { NSAT } from "./common/nsat";
@@ -12,11 +14,17 @@ import { TelemetryClient } from "./common/telemetryClient";
 import { UserCancelledError } from "./common/UserCancelledError";
 import { Utility } from "./common/utility";
 import { ContainerManager } from "./container/containerManager";
+import { ISimulatorContainerNode, SimulatorContainerProvider } from "./container/simulatorContainerProvider";
+import { EdgeDebugConfigurationProvider } from "./edge/edgeDebugConfigurationProvider";
 import { EdgeManager } from "./edge/edgeManager";
+import { ConfigCodeActionProvider } from "./intelliSense/configCodeActionProvider";
 import { ConfigCompletionItemProvider } from "./intelliSense/configCompletionItemProvider";
 import { ConfigDefinitionProvider } from "./intelliSense/configDefinitionProvider";
 import { ConfigDiagnosticProvider } from "./intelliSense/configDiagnosticProvider";
 import { ConfigHoverProvider } from "./intelliSense/configHoverProvider";
+import { IntelliSenseUtility } from "./intelliSense/intelliSenseUtility";
+import { MessageFlowView } from "./messageFlow/messageFlowView";
+import { SimulatorView } from "./simulator/simulatorView";
 import { IDeviceItem } from "./typings/IDeviceItem";
 
 export function activate(context: vscode.ExtensionContext) {
@@ -24,8 +32,12 @@ export function activate(context: vscode.ExtensionContext) {
 
     const edgeManager = new EdgeManager(context);
     const containerManager = new ContainerManager();
+    const messageFlowView = new MessageFlowView();
+    const simulatorView = new SimulatorView();
+    const simulatorContainerProvider = new SimulatorContainerProvider();
 
     Utility.registerDebugTelemetryListener();
+    context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider(Constants.edgeDebugType, new EdgeDebugConfigurationProvider(context)));
 
     const statusBar: vscode.StatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, -10000);
     statusBar.command = "azure-iot-edge.setDefaultPlatform";
@@ -33,19 +45,45 @@ export function activate(context: vscode.ExtensionContext) {
     statusBar.tooltip = Constants.platformStatusBarTooltip;
     statusBar.show();
 
+    // the environment profile of the workspace folder of the active editor, or of the first workspace folder
+    const envProfileStatusBar: vscode.StatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, -10001);
+    envProfileStatusBar.command = "azure-iot-edge.selectEnvProfile";
+    envProfileStatusBar.tooltip = Constants.envProfileStatusBarTooltip;
+    const updateEnvProfileStatusBar = () => {
+        const editor: vscode.TextEditor = vscode.window.activeTextEditor;
+        const folder: vscode.WorkspaceFolder = (editor ? vscode.workspace.getWorkspaceFolder(editor.document.uri) : undefined)
+            || (vscode.workspace.workspaceFolders ? vscode.workspace.workspaceFolders[0] : undefined);
+        if (folder) {
+            envProfileStatusBar.text = formatEnvProfileStatusBarText(Utility.getEnvProfile(folder.uri.fsPath));
+            envProfileStatusBar.show();
+        } else {
+            envProfileStatusBar.hide();
+        }
+    };
+    updateEnvProfileStatusBar();
+
     context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e: vscode.ConfigurationChangeEvent) => {
         if (e.affectsConfiguration("azure-iot-edge.defaultPlatform")) {
             statusBar.text = formatStatusBarText(Platform.getDefaultPlatformStr());
         }
+        if (e.affectsConfiguration("azure-iot-edge.envProfile")) {
+            updateEnvProfileStatusBar();
+        }
     }));
+    context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(updateEnvProfileStatusBar));
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(updateEnvProfileStatusBar));
 
     context.subscriptions.push(statusBar);
-    context.subscriptions.push(vscode.languages.registerCompletionItemProvider([{ language: "json" }, { language: "jsonc" }], new ConfigCompletionItemProvider(), "\"", ".", ":"));
+    context.subscriptions.push(envProfileStatusBar);
+    context.subscriptions.push(vscode.languages.registerCompletionItemProvider([{ language: "json" }, { language: "jsonc" }], new ConfigCompletionItemProvider(), "\"", ".", ":", "/", "$"));
     context.subscriptions.push(vscode.languages.registerHoverProvider([{ language: "json" }, { language: "jsonc" }], new ConfigHoverProvider()));
     // Calling registerDefinitionProvider will add "Go to definition" and "Peek definition" context menus to documents matched with the filter.
     // Use the strict { pattern: "**/deployment.template.json" } instead of { language: "json" }, { language: "jsonc" } to avoid polluting the context menu of non-config JSON files.
     context.subscriptions.push(vscode.languages.registerDefinitionProvider(
         [{ pattern: Constants.deploymentTemplatePattern }, { pattern: Constants.debugDeploymentTemplatePattern }], new ConfigDefinitionProvider()));
+    context.subscriptions.push(vscode.languages.registerCodeActionsProvider(
+        [{ pattern: Constants.deploymentTemplatePattern }, { pattern: Constants.debugDeploymentTemplatePattern }, { pattern: Constants.moduleConfigFileNamePattern }],
+        new ConfigCodeActionProvider()));
 
     const diagCollection: vscode.DiagnosticCollection = vscode.languages.createDiagnosticCollection(Constants.edgeDisplayName);
     const configDiagnosticProvider: ConfigDiagnosticProvider = new ConfigDiagnosticProvider();
@@ -55,6 +93,36 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions.push(diagCollection);
     context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor((event) => configDiagnosticProvider.updateDiagnostics(event.document, diagCollection)));
     context.subscriptions.push(vscode.workspace.onDidSaveTextDocument((document) => configDiagnosticProvider.updateDiagnostics(document, diagCollection)));
+    // the createOptions size budget and the variables of the deployment templates and module.json are checked as they are edited
+    context.subscriptions.push(vscode.workspace.onDidChangeTextDocument((event) => {
+        const fileName: string = path.basename(event.document.uri.fsPath);
+        if (fileName === Constants.deploymentTemplate || fileName === Constants.deploymentDebugTemplate || fileName === Constants.moduleManifest) {
+            configDiagnosticProvider.scheduleDiagnostics(event.document, diagCollection);
+        }
+    }));
+    // the variables and the modules of the solutions, which the diagnostics, completion and hover cache, are read again when they change
+    const solutionFilesWatcher: vscode.FileSystemWatcher = vscode.workspace.createFileSystemWatcher(Constants.solutionFilesPattern);
+    solutionFilesWatcher.onDidCreate(() => IntelliSenseUtility.clearSolutionCache());
+    solutionFilesWatcher.onDidChange(() => IntelliSenseUtility.clearSolutionCache());
+    solutionFilesWatcher.onDidDelete(() => IntelliSenseUtility.clearSolutionCache());
+    context.subscriptions.push(solutionFilesWatcher);
+    context.subscriptions.push(CredentialStore.onDidChange(() => IntelliSenseUtility.clearSolutionCache()));
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration((e: vscode.ConfigurationChangeEvent) => {
+        if (e.affectsConfiguration("azure-iot-edge")) {
+            IntelliSenseUtility.clearSolutionCache();
+        }
+    }));
+    // the variables of the open deployment templates and module.json are checked again when a .env file is saved
+    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument((document) => {
+        if (path.basename(document.uri.fsPath).startsWith(Constants.envFile)) {
+            IntelliSenseUtility.clearSolutionCache();
+            vscode.workspace.textDocuments.filter((item) => IntelliSenseUtility.getEnvExceptKeys(item))
+                .forEach((item) => configDiagnosticProvider.updateDiagnostics(item, diagCollection));
+        }
+    }));
+    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument((document) => messageFlowView.refresh(document)));
+    context.subscriptions.push(simulatorContainerProvider);
+    context.subscriptions.push(vscode.window.registerTreeDataProvider(Constants.simulatorContainersViewId, simulatorContainerProvider));
 
     const outputChannel: vscode.OutputChannel = vscode.window.createOutputChannel(Constants.edgeDisplayName);
     context.subscriptions.push(outputChannel);
@@ -80,19 +148,25 @@ export function activate(context: vscode.ExtensionContext) {
     initCommandAsync(context, outputChannel,
         "azure-iot-edge.buildSolution",
         (templateUri?: vscode.Uri): Promise<void> => {
-            return containerManager.buildSolution(templateUri, false, false);
+            return containerManager.buildSolution(outputChannel, templateUri, false, false);
         });
 
     initCommandAsync(context, outputChannel,
         "azure-iot-edge.buildAndPushSolution",
         (templateUri?: vscode.Uri): Promise<void> => {
-            return containerManager.buildSolution(templateUri, true, false);
+            return containerManager.buildSolution(outputChannel, templateUri, true, false);
         });
 
     initCommandAsync(context, outputChannel,
         "azure-iot-edge.buildAndRunSolution",
         (templateUri?: vscode.Uri): Promise<void> => {
-            return containerManager.buildSolution(templateUri, false, true);
+            return containerManager.buildSolution(outputChannel, templateUri, false, true);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.buildSolutionForPlatforms",
+        (templateUri?: vscode.Uri): Promise<void> => {
+            return containerManager.buildSolutionForPlatforms(outputChannel, templateUri);
         });
 
     initCommandAsync(context, outputChannel,
@@ -101,12 +175,60 @@ export function activate(context: vscode.ExtensionContext) {
             return containerManager.runSolution(deployFileUri);
         });
 
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.compareDeployment",
+        (deployFileUri?: vscode.Uri): Promise<void> => {
+            return containerManager.compareDeployment(deployFileUri);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.openMessagePanel",
+        (deployFileUri?: vscode.Uri): Promise<void> => {
+            return simulatorView.openMessagePanel(deployFileUri);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.debugModuleInSimulator",
+        (fileUri?: vscode.Uri): Promise<void> => {
+            return containerManager.debugModuleInSimulator(outputChannel, fileUri);
+        });
+
     initCommandAsync(context, outputChannel,
         "azure-iot-edge.stopSolution",
         (): Promise<void> => {
             return containerManager.stopSolution();
         });
 
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.refreshSimulatorContainers",
+        async (): Promise<void> => {
+            simulatorContainerProvider.refresh();
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.showContainerLogs",
+        (node?: ISimulatorContainerNode): Promise<void> => {
+            return simulatorContainerProvider.showLogs(node);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.restartContainer",
+        (node?: ISimulatorContainerNode): Promise<void> => {
+            return simulatorContainerProvider.restartContainer(node);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.stopContainer",
+        (node?: ISimulatorContainerNode): Promise<void> => {
+            return simulatorContainerProvider.stopContainer(node);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.execInContainer",
+        (node?: ISimulatorContainerNode): Promise<void> => {
+            return simulatorContainerProvider.execInContainer(node);
+        });
+
     initCommandAsync(context, outputChannel,
         "azure-iot-edge.generateDeployment",
         (templateUri?: vscode.Uri): Promise<void> => {
@@ -119,6 +241,36 @@ export function activate(context: vscode.ExtensionContext) {
             return edgeManager.addModuleForSolution(outputChannel, templateUri);
         });
 
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.removeModule",
+        (fileUri?: vscode.Uri): Promise<void> => {
+            return edgeManager.removeModuleForSolution(outputChannel, fileUri);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.renameModule",
+        (fileUri?: vscode.Uri): Promise<void> => {
+            return edgeManager.renameModuleForSolution(outputChannel, fileUri);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.bumpModuleVersion",
+        (fileUri?: vscode.Uri): Promise<void> => {
+            return containerManager.bumpModuleVersion(outputChannel, fileUri);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.migrateCredentials",
+        (envUri?: vscode.Uri): Promise<void> => {
+            return edgeManager.migrateCredentials(outputChannel, envUri);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.showMessageFlow",
+        (templateUri?: vscode.Uri): Promise<void> => {
+            return messageFlowView.showMessageFlow(templateUri);
+        });
+
     initCommandAsync(context, outputChannel,
         "azure-iot-edge.convertModule",
         (fileUri?: vscode.Uri): Promise<void> => {
@@ -150,6 +302,21 @@ export function activate(context: vscode.ExtensionContext) {
             return configDiagnosticProvider.updateDiagnostics(vscode.window.activeTextEditor.document, diagCollection);
         });
 
+    initCommandAsync(context, outputChannel,
+        Constants.addEnvVariableCommand,
+        (envFile: string, name: string): Promise<void> => {
+            return edgeManager.addEnvVariable(envFile, name);
+        });
+
+    initCommandAsync(context, outputChannel,
+        "azure-iot-edge.selectEnvProfile",
+        async (): Promise<void> => {
+            await edgeManager.selectEnvProfile(outputChannel);
+            if (vscode.window.activeTextEditor) {
+                return configDiagnosticProvider.updateDiagnostics(vscode.window.activeTextEditor.document, diagCollection);
+            }
+        });
+
     context.subscriptions.push(vscode.window.onDidCloseTerminal((closedTerminal: vscode.Terminal) => {
         Executor.onDidCloseTerminal(closedTerminal);
     }));
@@ -164,6 +331,10 @@ function formatStatusBarText(platform?: string): string {
     return platform ? `$(circuit-board) ${platform}` : `$(circuit-board) amd64`;
 }
 
+function formatEnvProfileStatusBarText(profile?: string): string {
+    return profile ? `$(file-text) ${Constants.envFile}.${profile}` : `$(file-text) ${Constants.envFile}`;
+}
+
 function initCommand(context: vscode.ExtensionContext,
                      outputChannel: vscode.OutputChannel,
                      commandId: string, callback: (...args: any[]) => any): void {
@@ -0,0 +1,32 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as path from "path";
+import * as vscode from "vscode";
+import { Constants } from "../common/constants";
+import { Utility } from "../common/utility";
+import { EnvProfiles } from "../core/envProfiles";
+import { IntelliSenseUtility } from "./intelliSenseUtility";
+
+// Quick fixes of the diagnostics of the deployment templates and module.json, i.e. add a variable without value to
+// .env, or to the .env file of the active environment profile
+export class ConfigCodeActionProvider implements vscode.CodeActionProvider {
+    public provideCodeActions(document: vscode.TextDocument, range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const slnPath: string = IntelliSenseUtility.getSolutionPath(document);
+        const profile: string = Utility.getEnvProfile(slnPath);
+        const envFiles: string[] = [EnvProfiles.getEnvFile(slnPath), ...(profile ? [EnvProfiles.getEnvFile(slnPath, profile)] : [])];
+
+        const actions: vscode.CodeAction[] = [];
+        for (const diag of context.diagnostics.filter((item) => item.code === Constants.unresolvedEnvVariableCode)) {
+            const name: string = document.getText(diag.range).replace(/\$|{|}/g, "");
+            for (const envFile of envFiles) {
+                const action: vscode.CodeAction = new vscode.CodeAction(`Add ${name} to ${path.basename(envFile)}`, vscode.CodeActionKind.QuickFix);
+                action.diagnostics = [diag];
+                action.command = { title: action.title, command: Constants.addEnvVariableCommand, arguments: [envFile, name] };
+                actions.push(action);
+            }
+        }
+        return actions;
+    }
+}
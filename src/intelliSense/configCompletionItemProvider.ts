@@ -3,10 +3,13 @@
 
 "use strict";
 import * as parser from "jsonc-parser/lib/umd/main";
-import * as path from "path";
 import * as vscode from "vscode";
 import { Constants } from "../common/constants";
-import { Utility } from "../common/utility";
+import { IRoute, IRouteCompletionContext, RouteCompletionKind, RouteParser } from "../common/routeParser";
+import { CreateOptionsSchema } from "../core/createOptionsSchema";
+import { EnvVariables, IEnvCompletionContext } from "../core/envVariables";
+import { IEnvironment } from "../core/manifestGenerator";
+import { ITwinSchema, TwinSchema } from "../core/twinSchema";
 import { IntelliSenseUtility } from "./intelliSenseUtility";
 
 export class ConfigCompletionItemProvider implements vscode.CompletionItemProvider {
@@ -34,6 +37,11 @@ export class ConfigCompletionItemProvider implements vscode.CompletionItemProvid
             return [moduleCompletionItem];
         }
 
+        const envCompletionItems: vscode.CompletionItem[] = await this.getEnvCompletionItems(document, position, location);
+        if (envCompletionItems) {
+            return envCompletionItems;
+        }
+
         // Disable following two group of completion items temporarily because they will be duplicate with built-in JSON completion items
         // Tracking issue: https://github.com/Microsoft/vscode/issues/45864
 
@@ -50,16 +58,37 @@ export class ConfigCompletionItemProvider implements vscode.CompletionItemProvid
         // }
 
         if (IntelliSenseUtility.locationMatch(location, Constants.imgDeploymentManifestJsonPath)) {
-            const moduleToImageMap: Map<string, string> = new Map();
-            await Utility.setSlnModulesMap(path.dirname(document.uri.fsPath), moduleToImageMap);
+            const { moduleToImageMap } = await IntelliSenseUtility.getSolutionModules(document);
             return this.getCompletionItems(Array.from(moduleToImageMap.keys()), document, position, location);
         }
 
-        if (IntelliSenseUtility.locationMatch(location, Constants.routeDeploymentManifestJsonPath)) {
+        const createOptionsPath: parser.Segment[] = IntelliSenseUtility.getCreateOptionsPath(location);
+        if (createOptionsPath && createOptionsPath.length > 0) {
+            return this.getSchemaCompletionItems(document, position, location, createOptionsPath, (jsonPath) => CreateOptionsSchema.getSchema(jsonPath));
+        }
+
+        const desiredProperties = IntelliSenseUtility.getDesiredPropertiesPath(location);
+        if (desiredProperties) {
+            const schema: ITwinSchema = await IntelliSenseUtility.getDesiredPropertiesSchema(document, parser.parseTree(document.getText()), desiredProperties.moduleName);
+            if (schema) {
+                return this.getSchemaCompletionItems(document, position, location, desiredProperties.path, (jsonPath) => TwinSchema.getSchema(schema, jsonPath));
+            }
+        }
+
+        if (RouteParser.isRouteJsonPath(location.path)) {
             const json = parser.parse(document.getText());
             const modules: any = ((json.modulesContent.$edgeAgent || {})["properties.desired"] || {}).modules || {};
             const moduleIds: string[] = Object.keys(modules);
 
+            const node: parser.Node = location.previousNode;
+            if (!location.isAtPropertyKey && node && node.type === "string") {
+                const routes: any = ((json.modulesContent.$edgeHub || {})["properties.desired"] || {}).routes || {};
+                return this.getRouteCompletionItems(document, position, node, moduleIds, routes);
+            }
+            if (!IntelliSenseUtility.locationMatch(location, Constants.routeDeploymentManifestJsonPath)) {
+                return undefined;
+            }
+
             const routeCompletionItem: vscode.CompletionItem = new vscode.CompletionItem(Constants.routeSnippetLabel);
             routeCompletionItem.filterText = `\"${Constants.routeSnippetLabel}\"`;
             routeCompletionItem.kind = vscode.CompletionItemKind.Snippet;
@@ -70,6 +99,39 @@ export class ConfigCompletionItemProvider implements vscode.CompletionItemProvid
         }
     }
 
+    // Complete the names of the variables of the .env files of the solution and the variables used in the document
+    // after $ or ${ in the strings of a deployment template or module.json, except in routes where $upstream is completed
+    private async getEnvCompletionItems(document: vscode.TextDocument, position: vscode.Position, location: parser.Location): Promise<vscode.CompletionItem[]> {
+        const exceptKeys: string[] = IntelliSenseUtility.getEnvExceptKeys(document);
+        const node: parser.Node = location.previousNode;
+        if (!exceptKeys || location.isAtPropertyKey || !node || node.type !== "string"
+            || RouteParser.isRouteJsonPath(location.path)) {
+            return undefined;
+        }
+        const lineText: string = document.lineAt(position.line).text;
+        const context: IEnvCompletionContext = EnvVariables.getCompletionContext(lineText.substring(0, position.character));
+        if (!context) {
+            return undefined;
+        }
+
+        const start: vscode.Position = new vscode.Position(position.line, context.start);
+        const names: Set<string> = new Set(await EnvVariables.getDefinedNames(IntelliSenseUtility.getSolutionPath(document)));
+        EnvVariables.findReferences(document.getText(), ...exceptKeys)
+            .filter((reference) => reference.offset !== document.offsetAt(start))
+            .forEach((reference) => names.add(reference.name));
+        const env: IEnvironment = await IntelliSenseUtility.getSolutionEnv(document);
+        // the closing brace after the cursor is replaced as well
+        const range: vscode.Range = new vscode.Range(start, context.braced && lineText.charAt(position.character) === "}" ? position.translate(0, 1) : position);
+        return Array.from(names).sort().map((name) => {
+            const completionItem: vscode.CompletionItem = new vscode.CompletionItem(name, vscode.CompletionItemKind.Variable);
+            completionItem.range = range;
+            completionItem.insertText = `\${${name}}`;
+            completionItem.filterText = context.braced ? `\${${name}` : `$${name}`;
+            completionItem.detail = env[name] ? EnvVariables.formatValue(name, env[name]) : "No value";
+            return completionItem;
+        });
+    }
+
     private getCompletionItems(values: string[], document: vscode.TextDocument, position: vscode.Position, location: parser.Location): vscode.CompletionItem[] {
         const offset: number = document.offsetAt(position);
         const node: parser.Node = location.previousNode;
@@ -92,6 +154,91 @@ export class ConfigCompletionItemProvider implements vscode.CompletionItemProvid
         return completionItems;
     }
 
+    // Complete the property names and values of a JSON value with its schema, e.g. the schema of the Docker container create request
+    // for createOptions, or the desired properties schema of a module twin
+    private getSchemaCompletionItems(document: vscode.TextDocument, position: vscode.Position, location: parser.Location,
+                                     jsonPath: parser.Segment[], getSchema: (jsonPath: parser.Segment[]) => ITwinSchema): vscode.CompletionItem[] {
+        const offset: number = document.offsetAt(position);
+        const node: parser.Node = location.previousNode;
+        const overwriteRange: vscode.Range = this.getOverwriteRange(document, position, offset, node);
+
+        if (location.isAtPropertyKey) {
+            const schema: ITwinSchema = getSchema(jsonPath.slice(0, -1));
+            if (!schema || !schema.properties) {
+                return [];
+            }
+            const objectNode: parser.Node = parser.findNodeAtLocation(parser.parseTree(document.getText()), location.path.slice(0, -1));
+            const existingNames: string[] = objectNode && objectNode.type === "object" ? objectNode.children.map((property) => property.children[0].value) : [];
+            // only the name is replaced when the property already has a value
+            const keyOnly: boolean = node && node.type === "property" || this.isFollowedByColon(document, node);
+            const separator: string = keyOnly ? "" : this.evaluateSeparatorAfter(document, position, offset, node);
+            return Object.keys(schema.properties)
+                .filter((name) => existingNames.indexOf(name) < 0 || name === jsonPath[jsonPath.length - 1])
+                .map((name) => {
+                    const property: ITwinSchema = schema.properties[name];
+                    const completionItem: vscode.CompletionItem = new vscode.CompletionItem(name, vscode.CompletionItemKind.Property);
+                    completionItem.range = overwriteRange;
+                    completionItem.filterText = `"${name}"`;
+                    completionItem.insertText = new vscode.SnippetString(keyOnly ? `"${name}"` : `"${name}": ${this.getValueSnippet(property)}${separator}`);
+                    completionItem.detail = TwinSchema.getTypes(property).join(" | ");
+                    completionItem.documentation = property.description;
+                    return completionItem;
+                });
+        }
+
+        const valueSchema: ITwinSchema = getSchema(jsonPath);
+        if (!valueSchema) {
+            return [];
+        }
+        let values: string[] = [];
+        if (valueSchema.enum) {
+            values = valueSchema.enum.map((value) => JSON.stringify(value));
+        } else if (TwinSchema.getTypes(valueSchema).indexOf("boolean") >= 0) {
+            values = ["true", "false"];
+        } else if (valueSchema.default !== undefined) {
+            values = [JSON.stringify(valueSchema.default)];
+        }
+        const valueSeparator: string = this.evaluateSeparatorAfter(document, position, offset, node);
+        return values.map((value) => {
+            const completionItem: vscode.CompletionItem = new vscode.CompletionItem(value, vscode.CompletionItemKind.Value);
+            completionItem.range = overwriteRange;
+            completionItem.insertText = value + valueSeparator;
+            completionItem.documentation = valueSchema.description;
+            return completionItem;
+        });
+    }
+
+    private getValueSnippet(schema: ITwinSchema): string {
+        if (schema.enum && schema.enum.length > 0) {
+            // commas, pipes and backslashes are escaped in the choices of a snippet
+            return `\${1|${schema.enum.map((value) => JSON.stringify(value).replace(/[,|\\]/g, "\\$&")).join(",")}|}`;
+        }
+        switch (TwinSchema.getTypes(schema)[0]) {
+            case "object":
+                return "{$1}";
+            case "array":
+                return "[$1]";
+            case "boolean":
+                return "${1|true,false|}";
+            case "integer":
+            case "number":
+                return `\${1:${typeof schema.default === "number" ? schema.default : 0}}`;
+            case "string":
+                return "\"$1\"";
+            default:
+                return "$1";
+        }
+    }
+
+    private isFollowedByColon(document: vscode.TextDocument, node: parser.Node): boolean {
+        if (!node || node.type !== "string") {
+            return false;
+        }
+        const scanner: parser.JSONScanner = parser.createScanner(document.getText(), true);
+        scanner.setPosition(node.offset + node.length);
+        return scanner.scan() === parser.SyntaxKind.ColonToken;
+    }
+
     // this method calculates the range to overwrite with the completion text
     private getOverwriteRange(document: vscode.TextDocument, position: vscode.Position, offset: number, node: parser.Node): vscode.Range {
         let overwriteRange: vscode.Range;
@@ -139,6 +286,92 @@ export class ConfigCompletionItemProvider implements vscode.CompletionItemProvid
         }
     }
 
+    private getRouteCompletionItems(document: vscode.TextDocument, position: vscode.Position, node: parser.Node,
+                                    moduleIds: string[], routes: any): vscode.CompletionItem[] {
+        const offsets: number[] = IntelliSenseUtility.getStringValueOffsets(document, node);
+        const cursor: number = document.offsetAt(position);
+        let index: number = offsets.findIndex((offset) => offset >= cursor);
+        if (index < 0) {
+            index = offsets.length - 1;
+        }
+
+        const context: IRouteCompletionContext = RouteParser.getCompletionContext(node.value, index);
+        const range: vscode.Range = new vscode.Range(document.positionAt(offsets[context.start]), position);
+
+        // collect the outputs and inputs of each module which are already used by other routes
+        const outputs: Map<string, Set<string>> = new Map();
+        const inputs: Map<string, Set<string>> = new Map();
+        for (const key of Object.keys(routes)) {
+            const routeString: string = typeof routes[key] === "string" ? routes[key] : (routes[key] || {}).route;
+            if (typeof routeString !== "string") {
+                continue;
+            }
+            const route: IRoute = RouteParser.parse(routeString);
+            if (route.source && route.source.output) {
+                this.addToSetMap(outputs, route.source.moduleId, route.source.output);
+            }
+            if (route.sink && route.sink.input) {
+                this.addToSetMap(inputs, route.sink.moduleId, route.sink.input);
+            }
+        }
+
+        const values: Array<{ value: string, kind: vscode.CompletionItemKind }> = [];
+        const endpointPaths: string[] = [];
+        for (const moduleId of moduleIds) {
+            const moduleInputs: string[] = inputs.has(moduleId) ? Array.from(inputs.get(moduleId)) : ["input1"];
+            endpointPaths.push(...moduleInputs.map((input) => `/modules/${moduleId}/inputs/${input}`));
+        }
+
+        switch (context.kind) {
+            case RouteCompletionKind.Keyword:
+                values.push(...context.keywords.map((value) => ({ value, kind: vscode.CompletionItemKind.Keyword })));
+                break;
+            case RouteCompletionKind.Source:
+                for (const value of ["/*", "/messages/*", "/messages/modules/*", "/twinChangeNotifications"]) {
+                    values.push({ value, kind: vscode.CompletionItemKind.Value });
+                }
+                for (const moduleId of moduleIds) {
+                    values.push({ value: `/messages/modules/${moduleId}/*`, kind: vscode.CompletionItemKind.Module });
+                    values.push({ value: `/messages/modules/${moduleId}/outputs/*`, kind: vscode.CompletionItemKind.Module });
+                    if (outputs.has(moduleId)) {
+                        for (const output of Array.from(outputs.get(moduleId))) {
+                            values.push({ value: `/messages/modules/${moduleId}/outputs/${output}`, kind: vscode.CompletionItemKind.Module });
+                        }
+                    }
+                }
+                break;
+            case RouteCompletionKind.Condition:
+                values.push(...RouteParser.systemProperties.map((value) => ({ value, kind: vscode.CompletionItemKind.Property })));
+                values.push(...RouteParser.functions.map((value) => ({ value, kind: vscode.CompletionItemKind.Function })));
+                values.push(...RouteParser.conditionKeywords.concat(context.keywords).map((value) => ({ value, kind: vscode.CompletionItemKind.Keyword })));
+                break;
+            case RouteCompletionKind.Sink:
+                values.push({ value: RouteParser.upstream, kind: vscode.CompletionItemKind.Value });
+                values.push(...endpointPaths.map((value) => ({ value: `${RouteParser.brokeredEndpoint}("${value}")`, kind: vscode.CompletionItemKind.Module })));
+                break;
+            case RouteCompletionKind.EndpointPath:
+                values.push(...endpointPaths.map((value) => ({ value, kind: vscode.CompletionItemKind.Module })));
+                break;
+        }
+
+        return values.map(({ value, kind }, order) => {
+            const escaped: string = JSON.stringify(value).slice(1, -1);
+            const completionItem: vscode.CompletionItem = new vscode.CompletionItem(value, kind);
+            completionItem.range = range;
+            completionItem.insertText = escaped;
+            completionItem.filterText = escaped;
+            completionItem.sortText = (`000${order}`).slice(-4);
+            return completionItem;
+        });
+    }
+
+    private addToSetMap(map: Map<string, Set<string>>, key: string, value: string): void {
+        if (!map.has(key)) {
+            map.set(key, new Set());
+        }
+        map.get(key).add(value);
+    }
+
     private getRouteSnippetString(moduleIds: string[]): string {
         const snippet: string[] = ["\"${1:route}\":", "\"FROM"];
 
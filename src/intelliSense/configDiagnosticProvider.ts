@@ -7,10 +7,34 @@ import * as parser from "jsonc-parser/lib/umd/main";
 import * as path from "path";
 import * as vscode from "vscode";
 import { Constants } from "../common/constants";
+import { IRoute, RouteParser } from "../common/routeParser";
 import { Utility } from "../common/utility";
+import { CreateOptionsSchema } from "../core/createOptionsSchema";
+import { EnvProfiles } from "../core/envProfiles";
+import { EnvVariables } from "../core/envVariables";
+import { IEnvironment } from "../core/manifestGenerator";
+import { IManifestProblem, ManifestProblemSeverity, ManifestValidator } from "../core/manifestValidator";
+import { ITwinSchema, TwinSchema } from "../core/twinSchema";
 import { IntelliSenseUtility } from "./intelliSenseUtility";
 
 export class ConfigDiagnosticProvider {
+    // the delay after the last change of a document before it is checked again
+    private static readonly changeDelay: number = 300;
+
+    // the pending checks of the documents being edited, and the number of the latest check of each document
+    private readonly timers: Map<string, NodeJS.Timer> = new Map();
+    private readonly runs: Map<string, number> = new Map();
+
+    // Check a document once it hasn't changed for a while, so that it isn't checked on every keystroke
+    public scheduleDiagnostics(document: vscode.TextDocument, diagCollection: vscode.DiagnosticCollection) {
+        const key: string = document.uri.toString();
+        clearTimeout(this.timers.get(key));
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            this.updateDiagnostics(document, diagCollection);
+        }, ConfigDiagnosticProvider.changeDelay));
+    }
+
     public async updateDiagnostics(document: vscode.TextDocument, diagCollection: vscode.DiagnosticCollection) {
         if (!document && path.basename(document.uri.fsPath) !== Constants.deploymentTemplate
             && path.basename(document.uri.fsPath) !== Constants.deploymentDebugTemplate
@@ -18,26 +42,63 @@ export class ConfigDiagnosticProvider {
             return;
         }
 
-        diagCollection.delete(document.uri);
+        // the diagnostics of a check are dropped when a later check of the document has started meanwhile
+        const key: string = document.uri.toString();
+        const run: number = (this.runs.get(key) || 0) + 1;
+        this.runs.set(key, run);
         let diags: vscode.Diagnostic[] = [];
         if (path.basename(document.uri.fsPath) === Constants.deploymentTemplate || path.basename(document.uri.fsPath) === Constants.deploymentDebugTemplate) {
             diags = await this.provideDeploymentTemplateDiagnostics(document);
         } else if (path.basename(document.uri.fsPath) === Constants.moduleManifest) {
             diags = await this.provideModuleManifestDiagnostics(document);
+        } else if (this.isDeploymentManifest(document.uri.fsPath)) {
+            diags = this.provideSchemaDiagnostics(document, false);
         }
 
-        diagCollection.set(document.uri, diags);
+        if (this.runs.get(key) === run) {
+            diagCollection.set(document.uri, diags);
+        }
     }
 
     private async provideDeploymentTemplateDiagnostics(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+        const rootNode: parser.Node = parser.parseTree(document.getText());
+        const env: IEnvironment = await IntelliSenseUtility.getSolutionEnv(document);
         const diags: vscode.Diagnostic[] = [];
+        diags.push(...this.provideSchemaDiagnostics(document, true));
+        diags.push(...await this.provideImagePlaceholderDiagnostics(document, rootNode));
+        diags.push(...this.provideRouteDiagnostics(document, rootNode));
+        diags.push(...this.provideCreateOptionsSizeDiagnostics(document, rootNode, env));
+        diags.push(...await this.provideDesiredPropertiesDiagnostics(document, rootNode));
+        diags.push(...this.provideEnvVariableDiagnostics(document, env));
+        return diags;
+    }
 
-        const moduleToImageMap: Map<string, string> = new Map();
+    // The deployment manifests generated from the templates are in the config folder of the solution
+    private isDeploymentManifest(filePath: string): boolean {
+        return Constants.deploymentManifestFileNamePattern.test(path.basename(filePath))
+            && path.basename(path.dirname(filePath)) === Constants.outputConfig;
+    }
+
+    private provideSchemaDiagnostics(document: vscode.TextDocument, isTemplate: boolean): vscode.Diagnostic[] {
+        return this.toDiagnostics(document, ManifestValidator.validate(document.getText(), isTemplate));
+    }
+
+    private toDiagnostics(document: vscode.TextDocument, problems: IManifestProblem[]): vscode.Diagnostic[] {
+        return problems.map((problem) => {
+            const range: vscode.Range = new vscode.Range(document.positionAt(problem.offset), document.positionAt(problem.offset + problem.length));
+            const severity: vscode.DiagnosticSeverity = problem.severity === ManifestProblemSeverity.Warning ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error;
+            const diag: vscode.Diagnostic = new vscode.Diagnostic(range, problem.message, severity);
+            diag.source = Constants.edgeDisplayName;
+            return diag;
+        });
+    }
+
+    private async provideImagePlaceholderDiagnostics(document: vscode.TextDocument, rootNode: parser.Node): Promise<vscode.Diagnostic[]> {
+        const diags: vscode.Diagnostic[] = [];
 
         try {
-            await Utility.setSlnModulesMap(path.dirname(document.uri.fsPath), moduleToImageMap);
+            const { moduleToImageMap } = await IntelliSenseUtility.getSolutionModules(document);
 
-            const rootNode: parser.Node = parser.parseTree(document.getText());
             const moduleJsonPath: string[] = Constants.moduleDeploymentManifestJsonPath.slice(0, - 1); // remove the trailing "*" element
             const modulesNode: parser.Node = parser.findNodeAtLocation(rootNode, moduleJsonPath);
 
@@ -67,6 +128,123 @@ export class ConfigDiagnosticProvider {
         return diags;
     }
 
+    private provideRouteDiagnostics(document: vscode.TextDocument, rootNode: parser.Node): vscode.Diagnostic[] {
+        const diags: vscode.Diagnostic[] = [];
+        const routeJsonPath: string[] = Constants.routeDeploymentManifestJsonPath.slice(0, -1); // remove the trailing "*" element
+        const routesNode: parser.Node = rootNode ? parser.findNodeAtLocation(rootNode, routeJsonPath) : undefined;
+        if (!routesNode || routesNode.type !== "object") {
+            return diags;
+        }
+
+        const moduleIds: Set<string> = IntelliSenseUtility.getModuleIds(rootNode);
+        for (const routeProperty of routesNode.children) {
+            let routeNode: parser.Node = routeProperty.children[1];
+            if (routeNode && routeNode.type === "object") {
+                // Since schema 1.1, a route can be an object with the route string in the "route" property
+                routeNode = parser.findNodeAtLocation(routeNode, ["route"]);
+            }
+            if (!routeNode || routeNode.type !== "string") {
+                continue;
+            }
+
+            const offsets: number[] = IntelliSenseUtility.getStringValueOffsets(document, routeNode);
+            const route: IRoute = RouteParser.parse(routeNode.value);
+            for (const error of route.errors) {
+                const diag: vscode.Diagnostic = new vscode.Diagnostic(IntelliSenseUtility.getStringValueRange(document, offsets, error.offset, error.length),
+                    error.message, vscode.DiagnosticSeverity.Error);
+                diag.source = Constants.edgeDisplayName;
+                diags.push(diag);
+            }
+
+            for (const endpoint of [route.source, route.sink]) {
+                if (endpoint && endpoint.moduleId && !moduleIds.has(endpoint.moduleId)) {
+                    const diag: vscode.Diagnostic = new vscode.Diagnostic(
+                        IntelliSenseUtility.getStringValueRange(document, offsets, endpoint.moduleIdOffset, endpoint.moduleId.length),
+                        `Module '${endpoint.moduleId}' is not defined in the deployment manifest`, vscode.DiagnosticSeverity.Warning);
+                    diag.source = Constants.edgeDisplayName;
+                    diags.push(diag);
+                }
+            }
+        }
+
+        return diags;
+    }
+
+    // Validate the desired properties of the module twins against the schemas declared in the module.json of the modules
+    private async provideDesiredPropertiesDiagnostics(document: vscode.TextDocument, rootNode: parser.Node): Promise<vscode.Diagnostic[]> {
+        const diags: vscode.Diagnostic[] = [];
+        const modulesContentNode: parser.Node = rootNode ? parser.findNodeAtLocation(rootNode, [Constants.desiredPropertiesDeploymentManifestJsonPath[0]]) : undefined;
+        if (!modulesContentNode || modulesContentNode.type !== "object") {
+            return diags;
+        }
+
+        for (const moduleNode of modulesContentNode.children) {
+            const moduleName: string = moduleNode.children[0].value;
+            const desiredNode: parser.Node = moduleNode.children[1] && moduleName !== "$edgeAgent" && moduleName !== "$edgeHub"
+                ? parser.findNodeAtLocation(moduleNode.children[1], [Constants.desiredPropertiesDeploymentManifestJsonPath[2]]) : undefined;
+            if (!desiredNode) {
+                continue;
+            }
+
+            const schema: ITwinSchema = await IntelliSenseUtility.getDesiredPropertiesSchema(document, rootNode, moduleName);
+            if (schema) {
+                diags.push(...this.toDiagnostics(document, TwinSchema.validate(schema, desiredNode, true)));
+            }
+        }
+
+        return diags;
+    }
+
+    // A variable without value is kept as it is in the generated deployment manifest
+    private provideEnvVariableDiagnostics(document: vscode.TextDocument, env: IEnvironment): vscode.Diagnostic[] {
+        const slnPath: string = IntelliSenseUtility.getSolutionPath(document);
+        const profile: string = Utility.getEnvProfile(slnPath);
+        const envFiles: string = [EnvProfiles.getEnvFile(slnPath), ...(profile ? [EnvProfiles.getEnvFile(slnPath, profile)] : [])]
+            .map((envFile) => path.basename(envFile)).join(", ");
+        return EnvVariables.getUnresolved(document.getText(), env, ...IntelliSenseUtility.getEnvExceptKeys(document)).map((reference) => {
+            const diag: vscode.Diagnostic = new vscode.Diagnostic(
+                new vscode.Range(document.positionAt(reference.offset), document.positionAt(reference.offset + reference.length)),
+                `Variable '${reference.name}' has no value in ${envFiles} or the environment`, vscode.DiagnosticSeverity.Warning);
+            diag.source = Constants.edgeDisplayName;
+            diag.code = Constants.unresolvedEnvVariableCode;
+            return diag;
+        });
+    }
+
+    // createOptions is serialized into at most TwinValueMaxChunks properties of TwinValueMaxSize characters when the manifest is generated
+    private provideCreateOptionsSizeDiagnostics(document: vscode.TextDocument, rootNode: parser.Node, env: IEnvironment): vscode.Diagnostic[] {
+        const diags: vscode.Diagnostic[] = [];
+        const agentJsonPath: string[] = Constants.moduleDeploymentManifestJsonPath.slice(0, Constants.moduleNameDeploymentManifestJsonPathIndex - 1);
+        for (const property of ["systemModules", "modules"]) {
+            const modulesNode: parser.Node = rootNode ? parser.findNodeAtLocation(rootNode, [...agentJsonPath, property]) : undefined;
+            if (!modulesNode || modulesNode.type !== "object") {
+                continue;
+            }
+
+            for (const moduleNode of modulesNode.children) {
+                const createOptionsNode: parser.Node = moduleNode.children[1] ? parser.findNodeAtLocation(moduleNode.children[1], ["settings", "createOptions"]) : undefined;
+                if (!createOptionsNode) {
+                    continue;
+                }
+
+                const size: number = CreateOptionsSchema.getSerializedSize(parser.getNodeValue(createOptionsNode), (text) => Utility.expandEnv(text, env));
+                let severity: vscode.DiagnosticSeverity = vscode.DiagnosticSeverity.Hint;
+                if (size > CreateOptionsSchema.maxSize) {
+                    severity = vscode.DiagnosticSeverity.Error;
+                } else if (size > CreateOptionsSchema.maxSize * 0.75) {
+                    severity = vscode.DiagnosticSeverity.Warning;
+                }
+                // the diagnostic is on the createOptions property name, the first child of its property node
+                const diag: vscode.Diagnostic = new vscode.Diagnostic(IntelliSenseUtility.getNodeRange(document, createOptionsNode.parent.children[0]),
+                    `createOptions of '${moduleNode.children[0].value}' is ${CreateOptionsSchema.describeSize(size)}`, severity);
+                diag.source = Constants.edgeDisplayName;
+                diags.push(diag);
+            }
+        }
+
+        return diags;
+    }
+
     private async provideModuleManifestDiagnostics(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
         const diags: vscode.Diagnostic[] = [];
 
@@ -74,7 +252,7 @@ export class ConfigDiagnosticProvider {
         const platformJsonPath: string[] = Constants.platformModuleManifestJsonPath.slice(0, -1); // remove the trailing "*" element
         const platformsNode: parser.Node = parser.findNodeAtLocation(rootNode, platformJsonPath);
 
-        for (const platformNode of platformsNode.children) {
+        for (const platformNode of platformsNode ? platformsNode.children : []) {
             const dockerfilePath: string = platformNode.children[1].value; // the node value is stored in its second child node
             const dockerfileFullPath: string = path.join(path.dirname(document.uri.fsPath), dockerfilePath);
             const exists: boolean = await fse.pathExists(dockerfileFullPath);
@@ -86,6 +264,7 @@ export class ConfigDiagnosticProvider {
             }
         }
 
+        diags.push(...this.provideEnvVariableDiagnostics(document, await IntelliSenseUtility.getSolutionEnv(document)));
         return diags;
     }
 }
@@ -3,17 +3,90 @@
 
 "use strict";
 import * as fse from "fs-extra";
+import * as parser from "jsonc-parser/lib/umd/main";
 import * as vscode from "vscode";
+import { Utility } from "../common/utility";
+import { CreateOptionsSchema } from "../core/createOptionsSchema";
+import { EnvVariables, IEnvReference } from "../core/envVariables";
+import { IEnvironment } from "../core/manifestGenerator";
+import { ITwinSchema, TwinSchema } from "../core/twinSchema";
 import { IntelliSenseUtility } from "./intelliSenseUtility";
 
 export class ConfigHoverProvider implements vscode.HoverProvider {
     public async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover> {
-        const {dockerfile, range} = await IntelliSenseUtility.getImageDockerfileAtLocation(document, position);
-        if (dockerfile) {
-            const dockerfileContent: string = await fse.readFile(dockerfile, "utf-8");
-            return new vscode.Hover({ language: "dockerfile", value: dockerfileContent }, range);
+        const envHover: vscode.Hover = await this.provideEnvVariableHover(document, position);
+        if (envHover) {
+            return envHover;
         }
 
-        return undefined;
+        const dockerfileInfo = await IntelliSenseUtility.getImageDockerfileAtLocation(document, position);
+        if (dockerfileInfo && dockerfileInfo.dockerfile) {
+            const dockerfileContent: string = await fse.readFile(dockerfileInfo.dockerfile, "utf-8");
+            return new vscode.Hover({ language: "dockerfile", value: dockerfileContent }, dockerfileInfo.range);
+        }
+
+        const location: parser.Location = parser.getLocation(document.getText(), document.offsetAt(position));
+        const desiredProperties = IntelliSenseUtility.getDesiredPropertiesPath(location);
+        if (desiredProperties) {
+            const schema: ITwinSchema = await IntelliSenseUtility.getDesiredPropertiesSchema(document, parser.parseTree(document.getText()), desiredProperties.moduleName);
+            return schema ? this.getSchemaHover(document, position, desiredProperties.path, TwinSchema.getSchema(schema, desiredProperties.path)) : undefined;
+        }
+
+        return await this.provideCreateOptionsHover(document, position, location);
+    }
+
+    // Show the value of a variable of the solution, or mask it if it is a secret
+    private async provideEnvVariableHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover> {
+        const exceptKeys: string[] = IntelliSenseUtility.getEnvExceptKeys(document);
+        const reference: IEnvReference = exceptKeys ? EnvVariables.getReferenceAt(document.getText(), document.offsetAt(position), ...exceptKeys) : undefined;
+        if (!reference) {
+            return undefined;
+        }
+
+        const value: string = (await IntelliSenseUtility.getSolutionEnv(document))[reference.name];
+        const contents: string = value ? `**${reference.name}**: \`${EnvVariables.formatValue(reference.name, value)}\``
+            : `**${reference.name}** has no value in the .env file or the environment`;
+        const range: vscode.Range = new vscode.Range(document.positionAt(reference.offset), document.positionAt(reference.offset + reference.length));
+        return new vscode.Hover(new vscode.MarkdownString(contents), range);
+    }
+
+    private async provideCreateOptionsHover(document: vscode.TextDocument, position: vscode.Position, location: parser.Location): Promise<vscode.Hover> {
+        const createOptionsPath: parser.Segment[] = IntelliSenseUtility.getCreateOptionsPath(location);
+        if (!createOptionsPath) {
+            return undefined;
+        }
+
+        const range: vscode.Range = document.getWordRangeAtPosition(position);
+        if (createOptionsPath.length === 0) {
+            // the createOptions property itself, show its size budget in the module twin
+            const createOptionsNode: parser.Node = parser.findNodeAtLocation(parser.parseTree(document.getText()), location.path);
+            if (!createOptionsNode) {
+                return undefined;
+            }
+            const env: IEnvironment = await IntelliSenseUtility.getSolutionEnv(document);
+            const size: number = CreateOptionsSchema.getSerializedSize(parser.getNodeValue(createOptionsNode), (text) => Utility.expandEnv(text, env));
+            return new vscode.Hover(new vscode.MarkdownString(`**createOptions**: ${CreateOptionsSchema.describeSize(size)}`), range);
+        }
+
+        return this.getSchemaHover(document, position, createOptionsPath, CreateOptionsSchema.getSchema(createOptionsPath));
+    }
+
+    private getSchemaHover(document: vscode.TextDocument, position: vscode.Position, jsonPath: parser.Segment[], schema: ITwinSchema): vscode.Hover {
+        if (!schema || jsonPath.length === 0) {
+            return undefined;
+        }
+        const name: string = jsonPath.filter((segment) => typeof segment === "string").join(".");
+        const types: string[] = TwinSchema.getTypes(schema);
+        let contents: string = `**${name}**${types.length > 0 ? `: \`${types.join(" | ")}\`` : ""}`;
+        if (schema.description) {
+            contents += `\n\n${schema.description}`;
+        }
+        if (schema.enum) {
+            contents += `\n\nValues: ${schema.enum.map((value) => `\`${JSON.stringify(value)}\``).join(", ")}`;
+        }
+        if (schema.default !== undefined) {
+            contents += `\n\nDefault: \`${JSON.stringify(schema.default)}\``;
+        }
+        return new vscode.Hover(new vscode.MarkdownString(contents), document.getWordRangeAtPosition(position));
     }
 }
@@ -7,7 +7,16 @@ import * as path from "path";
 import * as vscode from "vscode";
 import { BuildSettings } from "../common/buildSettings";
 import { Constants } from "../common/constants";
+import { CredentialStore } from "../common/credentialStore";
 import { Utility } from "../common/utility";
+import { EnvVariables } from "../core/envVariables";
+import { IEnvironment, ManifestGenerator } from "../core/manifestGenerator";
+import { ITwinSchema, TwinSchema } from "../core/twinSchema";
+
+export interface ISolutionModules {
+    moduleToImageMap: Map<string, string>;
+    imageToBuildSettingsMap: Map<string, BuildSettings>;
+}
 
 // This class contains utility functions specific to IntelliSense features,
 // or more specifically, functions related to parser, which are unlikely to be used by non-IntelliSense classes.
@@ -16,15 +25,56 @@ export class IntelliSenseUtility {
         return location.matches(jsonPath) && location.path.length === jsonPath.length;
     }
 
+    // The solution of a deployment template is its folder, and the solution of a module.json is two levels up
+    public static getSolutionPath(document: vscode.TextDocument): string {
+        const folder: string = path.dirname(document.uri.fsPath);
+        return path.basename(document.uri.fsPath) === Constants.moduleManifest ? path.resolve(folder, "..", "..") : folder;
+    }
+
+    // The keys which are not variables in a document whose variables are expanded when the deployment manifest is generated,
+    // or undefined for the other documents
+    public static getEnvExceptKeys(document: vscode.TextDocument): string[] {
+        const fileName: string = path.basename(document.uri.fsPath);
+        if (fileName === Constants.deploymentTemplate || fileName === Constants.deploymentDebugTemplate) {
+            return ManifestGenerator.templateExceptKeys;
+        } else if (fileName === Constants.moduleManifest) {
+            return [Constants.moduleSchemaVersion];
+        }
+        return undefined;
+    }
+
+    // The variables of the solution of a document. The secrets of the credential store are not read, since reading them could prompt
+    // for a passphrase, but the variables which the store sets are given a masked value, so that they are resolved.
+    // The variables are cached until clearSolutionCache is called.
+    public static getSolutionEnv(document: vscode.TextDocument): Promise<IEnvironment> {
+        const slnPath: string = IntelliSenseUtility.getSolutionPath(document);
+        if (!IntelliSenseUtility.envCache.has(slnPath)) {
+            IntelliSenseUtility.envCache.set(slnPath, IntelliSenseUtility.loadSolutionEnv(slnPath));
+        }
+        return IntelliSenseUtility.envCache.get(slnPath);
+    }
+
+    // The images and build settings of the modules of the solution of a deployment template, cached like the variables of the solution
+    public static getSolutionModules(document: vscode.TextDocument): Promise<ISolutionModules> {
+        const slnPath: string = IntelliSenseUtility.getSolutionPath(document);
+        if (!IntelliSenseUtility.modulesCache.has(slnPath)) {
+            IntelliSenseUtility.modulesCache.set(slnPath, IntelliSenseUtility.loadSolutionModules(document, slnPath));
+        }
+        return IntelliSenseUtility.modulesCache.get(slnPath);
+    }
+
+    // Called when the .env files, the modules, the settings or the credential store change
+    public static clearSolutionCache(): void {
+        IntelliSenseUtility.envCache.clear();
+        IntelliSenseUtility.modulesCache.clear();
+    }
+
     public static async getImageDockerfileAtLocation(document: vscode.TextDocument, position: vscode.Position): Promise<{dockerfile: string, range: vscode.Range}> {
         const location: parser.Location = parser.getLocation(document.getText(), document.offsetAt(position));
 
         if (IntelliSenseUtility.locationMatch(location, Constants.imgDeploymentManifestJsonPath)) {
-            const moduleToImageMap: Map<string, string> = new Map();
-            const imageToBuildSettingsMap: Map<string, BuildSettings> = new Map();
-
             try {
-                await Utility.setSlnModulesMap(path.dirname(document.uri.fsPath), moduleToImageMap, imageToBuildSettingsMap);
+                const { moduleToImageMap, imageToBuildSettingsMap } = await IntelliSenseUtility.getSolutionModules(document);
 
                 const node: parser.Node = location.previousNode;
                 const imagePlaceholder: string = Utility.unwrapImagePlaceholder(node.value);
@@ -42,7 +92,122 @@ export class IntelliSenseUtility {
         return undefined;
     }
 
+    // Get the ids of the modules and system modules defined in the deployment manifest
+    public static getModuleIds(rootNode: parser.Node): Set<string> {
+        const moduleIds: Set<string> = new Set();
+        const agentJsonPath: string[] = Constants.moduleDeploymentManifestJsonPath.slice(0, Constants.moduleNameDeploymentManifestJsonPathIndex - 1);
+        for (const section of ["modules", "systemModules"]) {
+            const sectionNode: parser.Node = rootNode ? parser.findNodeAtLocation(rootNode, [...agentJsonPath, section]) : undefined;
+            if (sectionNode && sectionNode.type === "object") {
+                for (const moduleNode of sectionNode.children) {
+                    moduleIds.add(moduleNode.children[0].value);
+                }
+            }
+        }
+        return moduleIds;
+    }
+
+    // Get the path relative to settings.createOptions of a module or system module, or undefined if the location is not in createOptions
+    public static getCreateOptionsPath(location: parser.Location): parser.Segment[] {
+        const agentJsonPath: string[] = Constants.moduleDeploymentManifestJsonPath.slice(0, Constants.moduleNameDeploymentManifestJsonPathIndex - 1);
+        const modulePath: parser.Segment[] = location.path.slice(0, agentJsonPath.length + 2);
+        if (location.path.length > agentJsonPath.length + 3
+            && agentJsonPath.every((segment, index) => modulePath[index] === segment)
+            && (modulePath[agentJsonPath.length] === "modules" || modulePath[agentJsonPath.length] === "systemModules")
+            && location.path[agentJsonPath.length + 2] === "settings" && location.path[agentJsonPath.length + 3] === "createOptions") {
+            return location.path.slice(agentJsonPath.length + 4);
+        }
+        return undefined;
+    }
+
+    // Get the module name and the path relative to the desired properties of a module twin in modulesContent,
+    // or undefined if the location is not in the desired properties of a module other than $edgeAgent and $edgeHub
+    public static getDesiredPropertiesPath(location: parser.Location): { moduleName: string, path: parser.Segment[] } {
+        const desiredJsonPath: string[] = Constants.desiredPropertiesDeploymentManifestJsonPath;
+        const moduleName: parser.Segment = location.path[1];
+        if (location.path.length > desiredJsonPath.length && location.path[0] === desiredJsonPath[0] && location.path[2] === desiredJsonPath[2]
+            && typeof moduleName === "string" && moduleName !== "$edgeAgent" && moduleName !== "$edgeHub") {
+            return { moduleName, path: location.path.slice(desiredJsonPath.length) };
+        }
+        return undefined;
+    }
+
+    // Load the desired properties schema of the module.json of a module of the solution, which is either in the module folder
+    // of the same name, or the module folder of the image placeholder of the module, e.g. ${MODULES.filter.amd64}
+    public static async getDesiredPropertiesSchema(document: vscode.TextDocument, rootNode: parser.Node, moduleName: string): Promise<ITwinSchema> {
+        const modulesPath: string = path.join(path.dirname(document.uri.fsPath), Constants.moduleFolder);
+        const folders: string[] = [moduleName];
+        const imgJsonPath: string[] = Constants.imgDeploymentManifestJsonPath.slice(0);
+        imgJsonPath[Constants.moduleNameDeploymentManifestJsonPathIndex] = moduleName;
+        const imageNode: parser.Node = rootNode ? parser.findNodeAtLocation(rootNode, imgJsonPath) : undefined;
+        const imagePlaceholder: string = imageNode && imageNode.type === "string" ? Utility.unwrapImagePlaceholder(imageNode.value) : undefined;
+        if (imagePlaceholder) {
+            folders.push(imagePlaceholder.split(".")[1]);
+        }
+
+        for (const folder of folders) {
+            try {
+                const schema: ITwinSchema = await TwinSchema.load(path.join(modulesPath, folder));
+                if (schema) {
+                    return schema;
+                }
+            } catch {
+                return undefined;
+            }
+        }
+        return undefined;
+    }
+
     public static getNodeRange(document: vscode.TextDocument, node: parser.Node): vscode.Range {
         return new vscode.Range(document.positionAt(node.offset), document.positionAt(node.offset + node.length));
     }
+
+    // Map each character of the decoded value of a string node to its offset in the document, since escaped characters
+    // like \" take more than one character in the document. The last element is the offset of the closing quote.
+    public static getStringValueOffsets(document: vscode.TextDocument, node: parser.Node): number[] {
+        const text: string = document.getText();
+        const end: number = text.charAt(node.offset + node.length - 1) === "\"" && node.length > 1 ? node.offset + node.length - 1 : node.offset + node.length;
+        const offsets: number[] = [];
+        let i: number = node.offset + 1;
+        while (i < end) {
+            offsets.push(i);
+            if (text.charAt(i) === "\\") {
+                i += text.charAt(i + 1) === "u" ? 6 : 2;
+            } else {
+                i++;
+            }
+        }
+        offsets.push(end);
+        return offsets;
+    }
+
+    public static getStringValueRange(document: vscode.TextDocument, offsets: number[], start: number, length: number): vscode.Range {
+        const startOffset: number = offsets[Math.min(start, offsets.length - 1)];
+        const endOffset: number = offsets[Math.min(start + length, offsets.length - 1)];
+        return new vscode.Range(document.positionAt(startOffset), document.positionAt(endOffset));
+    }
+
+    private static envCache: Map<string, Promise<IEnvironment>> = new Map();
+    private static modulesCache: Map<string, Promise<ISolutionModules>> = new Map();
+
+    private static async loadSolutionEnv(slnPath: string): Promise<IEnvironment> {
+        let env: IEnvironment;
+        try {
+            env = await Utility.loadEnv(slnPath, false);
+        } catch (error) {
+            env = Object.assign({}, process.env);
+        }
+        for (const key of await CredentialStore.getKeys(slnPath)) {
+            if (!env[key]) {
+                env[key] = EnvVariables.maskedValue;
+            }
+        }
+        return env;
+    }
+
+    private static async loadSolutionModules(document: vscode.TextDocument, slnPath: string): Promise<ISolutionModules> {
+        const modules: ISolutionModules = { moduleToImageMap: new Map(), imageToBuildSettingsMap: new Map() };
+        await Utility.setSlnModulesMap(slnPath, await IntelliSenseUtility.getSolutionEnv(document), modules.moduleToImageMap, modules.imageToBuildSettingsMap);
+        return modules;
+    }
 }
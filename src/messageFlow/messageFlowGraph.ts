@@ -0,0 +1,236 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { IRoute, RouteParser } from "../common/routeParser";
+
+export enum MessageFlowNodeType {
+    Module,
+    SystemModule,
+    Upstream,
+    AllModules,
+    TwinChangeNotifications,
+}
+
+export interface IMessageFlowNode {
+    id: string;
+    type: MessageFlowNodeType;
+    // the node is referenced by a route but not defined in the deployment manifest
+    missing: boolean;
+    hasIncoming: boolean;
+    hasOutgoing: boolean;
+}
+
+export interface IMessageFlowEdge {
+    routeName: string;
+    from: string;
+    to: string;
+    output: string;
+    input?: string;
+    condition?: string;
+    dangling: boolean;
+}
+
+export interface IMessageFlowIssue {
+    message: string;
+    routeName?: string;
+    moduleId?: string;
+}
+
+// Message flow of a deployment manifest. Modules are nodes and routes are edges.
+export class MessageFlowGraph {
+    public static readonly upstreamId: string = "$upstream";
+    public static readonly allModulesId: string = "*";
+    public static readonly twinChangeNotificationsId: string = "$twinChangeNotifications";
+
+    public static fromDeployment(deployment: any): MessageFlowGraph {
+        const graph = new MessageFlowGraph();
+        const modulesContent: any = (deployment || {}).modulesContent || (deployment || {}).moduleContent || {};
+        const agentDesired: any = (modulesContent.$edgeAgent || {})["properties.desired"] || {};
+        const hubDesired: any = (modulesContent.$edgeHub || {})["properties.desired"] || {};
+
+        for (const moduleId of Object.keys(agentDesired.systemModules || {})) {
+            graph.addNode(moduleId, MessageFlowNodeType.SystemModule, false);
+        }
+        for (const moduleId of Object.keys(agentDesired.modules || {})) {
+            graph.addNode(moduleId, MessageFlowNodeType.Module, false);
+        }
+
+        const routes: any = hubDesired.routes || {};
+        for (const routeName of Object.keys(routes)) {
+            const value: any = routes[routeName];
+            const routeString: string = typeof value === "string" ? value : (value || {}).route;
+            if (typeof routeString !== "string") {
+                graph.issues.push({ routeName, message: `Route '${routeName}' is not a string` });
+                continue;
+            }
+            graph.addRoute(routeName, RouteParser.parse(routeString));
+        }
+
+        graph.findIssues();
+        return graph;
+    }
+
+    public readonly nodes: Map<string, IMessageFlowNode> = new Map();
+    public readonly edges: IMessageFlowEdge[] = [];
+    public readonly issues: IMessageFlowIssue[] = [];
+
+    public toMermaid(): string {
+        const ids: Map<string, string> = this.getSafeIds();
+        const lines: string[] = ["graph LR"];
+        this.nodes.forEach((node) => {
+            const label: string = this.escapeLabel(this.getNodeLabel(node));
+            const id: string = ids.get(node.id);
+            switch (node.type) {
+                case MessageFlowNodeType.Upstream:
+                    lines.push(`    ${id}(("${label}"))`);
+                    break;
+                case MessageFlowNodeType.AllModules:
+                case MessageFlowNodeType.TwinChangeNotifications:
+                    lines.push(`    ${id}{{"${label}"}}`);
+                    break;
+                default:
+                    lines.push(`    ${id}["${label}"]`);
+                    break;
+            }
+        });
+        for (const edge of this.edges) {
+            const arrow: string = edge.dangling ? "-.->" : "-->";
+            lines.push(`    ${ids.get(edge.from)} ${arrow}|"${this.escapeLabel(this.getEdgeLabel(edge))}"| ${ids.get(edge.to)}`);
+        }
+        lines.push("    classDef missing stroke:#e51400,stroke-dasharray:5 5");
+        lines.push("    classDef warning stroke:#f0a30a");
+        this.nodes.forEach((node) => {
+            if (node.missing) {
+                lines.push(`    class ${ids.get(node.id)} missing`);
+            } else if (this.hasIssue(node)) {
+                lines.push(`    class ${ids.get(node.id)} warning`);
+            }
+        });
+        return lines.join("\n") + "\n";
+    }
+
+    public toDot(): string {
+        const lines: string[] = ["digraph deployment {", "    rankdir=LR;", "    node [fontname=\"Helvetica\"];"];
+        this.nodes.forEach((node) => {
+            const attributes: string[] = [`label="${this.escapeLabel(this.getNodeLabel(node))}"`];
+            attributes.push(node.type === MessageFlowNodeType.Upstream ? "shape=ellipse" : "shape=box");
+            if (node.missing) {
+                attributes.push("color=red", "style=dashed");
+            } else if (this.hasIssue(node)) {
+                attributes.push("color=orange");
+            }
+            lines.push(`    "${this.escapeLabel(node.id)}" [${attributes.join(", ")}];`);
+        });
+        for (const edge of this.edges) {
+            const attributes: string[] = [`label="${this.escapeLabel(this.getEdgeLabel(edge))}"`];
+            if (edge.dangling) {
+                attributes.push("color=red", "style=dashed");
+            }
+            lines.push(`    "${this.escapeLabel(edge.from)}" -> "${this.escapeLabel(edge.to)}" [${attributes.join(", ")}];`);
+        }
+        lines.push("}");
+        return lines.join("\n") + "\n";
+    }
+
+    public hasIssue(node: IMessageFlowNode): boolean {
+        return this.issues.some((issue) => issue.moduleId === node.id);
+    }
+
+    public getNodeLabel(node: IMessageFlowNode): string {
+        switch (node.type) {
+            case MessageFlowNodeType.Upstream:
+                return "$upstream (IoT Hub)";
+            case MessageFlowNodeType.AllModules:
+                return "All modules";
+            case MessageFlowNodeType.TwinChangeNotifications:
+                return "Twin change notifications";
+            default:
+                return node.id;
+        }
+    }
+
+    public getEdgeLabel(edge: IMessageFlowEdge): string {
+        let label: string = `${edge.routeName}: ${edge.output}`;
+        if (edge.input) {
+            label += ` → ${edge.input}`;
+        }
+        if (edge.condition) {
+            label += ` [WHERE ${edge.condition}]`;
+        }
+        return label;
+    }
+
+    private addNode(id: string, type: MessageFlowNodeType, missing: boolean): IMessageFlowNode {
+        if (!this.nodes.has(id)) {
+            this.nodes.set(id, { id, type, missing, hasIncoming: false, hasOutgoing: false });
+        }
+        return this.nodes.get(id);
+    }
+
+    private addRoute(routeName: string, route: IRoute): void {
+        if (route.errors.length > 0 || !route.source || !route.sink) {
+            const reason: string = route.errors.length > 0 ? route.errors[0].message : "Incomplete route";
+            this.issues.push({ routeName, message: `Route '${routeName}' is invalid: ${reason}` });
+            return;
+        }
+
+        let from: IMessageFlowNode;
+        if (route.source.moduleId) {
+            from = this.nodes.get(route.source.moduleId) || this.addNode(route.source.moduleId, MessageFlowNodeType.Module, true);
+        } else if (route.source.path === "/twinChangeNotifications") {
+            from = this.addNode(MessageFlowGraph.twinChangeNotificationsId, MessageFlowNodeType.TwinChangeNotifications, false);
+        } else {
+            from = this.addNode(MessageFlowGraph.allModulesId, MessageFlowNodeType.AllModules, false);
+        }
+
+        let to: IMessageFlowNode;
+        if (route.sink.type === "upstream") {
+            to = this.addNode(MessageFlowGraph.upstreamId, MessageFlowNodeType.Upstream, false);
+        } else {
+            to = this.nodes.get(route.sink.moduleId) || this.addNode(route.sink.moduleId, MessageFlowNodeType.Module, true);
+        }
+
+        from.hasOutgoing = true;
+        to.hasIncoming = true;
+        this.edges.push({
+            routeName,
+            from: from.id,
+            to: to.id,
+            output: route.source.output || "*",
+            input: route.sink.input,
+            condition: route.condition ? route.condition.text : undefined,
+            dangling: from.missing || to.missing,
+        });
+    }
+
+    private findIssues(): void {
+        // routes from "/*", "/messages/*" or "/messages/modules/*" take the outputs of every module
+        const allOutputsRouted: boolean = this.nodes.has(MessageFlowGraph.allModulesId);
+        this.nodes.forEach((node) => {
+            if (node.missing) {
+                const routeNames: string[] = this.edges.filter((edge) => edge.from === node.id || edge.to === node.id).map((edge) => edge.routeName);
+                this.issues.push({ moduleId: node.id, message: `Module '${node.id}' is referenced by ${routeNames.join(", ")} but not defined in the deployment manifest` });
+            } else if (node.type === MessageFlowNodeType.Module) {
+                if (!node.hasOutgoing && !allOutputsRouted) {
+                    this.issues.push({ moduleId: node.id, message: `Outputs of module '${node.id}' are not routed anywhere` });
+                }
+                if (!node.hasIncoming) {
+                    this.issues.push({ moduleId: node.id, message: `No route delivers messages to the inputs of module '${node.id}'` });
+                }
+            }
+        });
+    }
+
+    // Node ids like "$upstream" are not valid Mermaid identifiers
+    private getSafeIds(): Map<string, string> {
+        const ids: Map<string, string> = new Map();
+        let index = 0;
+        this.nodes.forEach((node) => ids.set(node.id, `n${index++}`));
+        return ids;
+    }
+
+    private escapeLabel(label: string): string {
+        return label.replace(/\\/g, "\\\\").replace(/"/g, "'");
+    }
+}
@@ -0,0 +1,248 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+import * as parser from "jsonc-parser/lib/umd/main";
+import * as path from "path";
+import * as vscode from "vscode";
+import { Constants } from "../common/constants";
+import { TelemetryClient } from "../common/telemetryClient";
+import { Utility } from "../common/utility";
+import { IMessageFlowEdge, IMessageFlowNode, MessageFlowGraph, MessageFlowNodeType } from "./messageFlowGraph";
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 40;
+const COLUMN_GAP = 140;
+const ROW_GAP = 40;
+const MARGIN = 40;
+
+export class MessageFlowView {
+    private panels: Map<string, vscode.WebviewPanel> = new Map();
+
+    public async showMessageFlow(templateUri?: vscode.Uri): Promise<void> {
+        const pattern = `{${Constants.tsonPattern}}`;
+        const templateFile: string = await Utility.getInputFilePath(templateUri,
+            pattern,
+            Constants.deploymentTemplateDesc,
+            `${Constants.showMessageFlowEvent}.selectTemplate`);
+        if (!templateFile) {
+            return;
+        }
+
+        let panel: vscode.WebviewPanel = this.panels.get(templateFile);
+        if (panel) {
+            panel.reveal();
+        } else {
+            panel = vscode.window.createWebviewPanel(Constants.messageFlowViewType,
+                `Message Flow: ${path.basename(templateFile)}`,
+                vscode.ViewColumn.Two,
+                { enableScripts: true, retainContextWhenHidden: true });
+            this.panels.set(templateFile, panel);
+            panel.onDidDispose(() => this.panels.delete(templateFile));
+            panel.webview.onDidReceiveMessage(async (message) => {
+                try {
+                    await this.exportGraph(templateFile, message.format);
+                } catch (error) {
+                    vscode.window.showErrorMessage(error.message);
+                }
+            });
+        }
+
+        await this.update(templateFile);
+    }
+
+    public async refresh(document: vscode.TextDocument): Promise<void> {
+        if (this.panels.has(document.uri.fsPath)) {
+            await this.update(document.uri.fsPath);
+        }
+    }
+
+    private async update(templateFile: string): Promise<void> {
+        const panel: vscode.WebviewPanel = this.panels.get(templateFile);
+        const graph: MessageFlowGraph = await this.loadGraph(templateFile);
+        panel.webview.html = this.getHtml(graph, path.basename(templateFile));
+    }
+
+    private async loadGraph(templateFile: string): Promise<MessageFlowGraph> {
+        const content: string = await fse.readFile(templateFile, "utf8");
+        return MessageFlowGraph.fromDeployment(Utility.updateSchema(parser.parse(content)));
+    }
+
+    private async exportGraph(templateFile: string, format: string): Promise<void> {
+        const graph: MessageFlowGraph = await this.loadGraph(templateFile);
+        const isDot: boolean = format === "dot";
+        const name: string = path.basename(templateFile, Constants.tson);
+        const fileUri: vscode.Uri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(path.dirname(templateFile), `${name}${isDot ? ".dot" : ".mmd"}`)),
+            filters: isDot ? { DOT: ["dot", "gv"] } : { Mermaid: ["mmd", "mermaid"] },
+        });
+        if (!fileUri) {
+            return;
+        }
+
+        TelemetryClient.sendEvent(`${Constants.showMessageFlowEvent}.export`, { format: isDot ? "dot" : "mermaid" });
+        await fse.writeFile(fileUri.fsPath, isDot ? graph.toDot() : graph.toMermaid(), { encoding: "utf8" });
+        await vscode.window.showTextDocument(fileUri);
+    }
+
+    // Place the nodes in columns. Each node is put in the column after the furthest node routing to it,
+    // and $upstream always takes the last column.
+    private layout(graph: MessageFlowGraph): Map<string, { x: number, y: number }> {
+        const ranks: Map<string, number> = new Map();
+        graph.nodes.forEach((node) => ranks.set(node.id, 0));
+        const edges: IMessageFlowEdge[] = graph.edges.filter((edge) => edge.to !== MessageFlowGraph.upstreamId && edge.from !== edge.to);
+        // the number of iterations is bounded so that cycles will not loop forever
+        for (let i = 0; i < graph.nodes.size; i++) {
+            let changed: boolean = false;
+            for (const edge of edges) {
+                if (ranks.get(edge.to) < ranks.get(edge.from) + 1 && ranks.get(edge.from) + 1 < graph.nodes.size) {
+                    ranks.set(edge.to, ranks.get(edge.from) + 1);
+                    changed = true;
+                }
+            }
+            if (!changed) {
+                break;
+            }
+        }
+
+        let maxRank: number = 0;
+        ranks.forEach((rank, id) => {
+            if (id !== MessageFlowGraph.upstreamId) {
+                maxRank = Math.max(maxRank, rank);
+            }
+        });
+        if (ranks.has(MessageFlowGraph.upstreamId)) {
+            ranks.set(MessageFlowGraph.upstreamId, maxRank + 1);
+        }
+
+        const positions: Map<string, { x: number, y: number }> = new Map();
+        const rows: number[] = [];
+        graph.nodes.forEach((node) => {
+            const rank: number = ranks.get(node.id);
+            const row: number = rows[rank] || 0;
+            rows[rank] = row + 1;
+            positions.set(node.id, {
+                x: MARGIN + rank * (NODE_WIDTH + COLUMN_GAP),
+                y: MARGIN + row * (NODE_HEIGHT + ROW_GAP),
+            });
+        });
+        return positions;
+    }
+
+    private getSvg(graph: MessageFlowGraph): string {
+        const positions: Map<string, { x: number, y: number }> = this.layout(graph);
+        let width: number = 0;
+        let height: number = 0;
+        positions.forEach((position) => {
+            width = Math.max(width, position.x + NODE_WIDTH + MARGIN);
+            height = Math.max(height, position.y + NODE_HEIGHT + MARGIN);
+        });
+
+        const elements: string[] = [];
+        graph.edges.forEach((edge, index) => {
+            const from = positions.get(edge.from);
+            const to = positions.get(edge.to);
+            let pathData: string;
+            let labelX: number;
+            let labelY: number;
+            if (to.x > from.x) {
+                const x1: number = from.x + NODE_WIDTH;
+                const y1: number = from.y + NODE_HEIGHT / 2;
+                const x2: number = to.x;
+                const y2: number = to.y + NODE_HEIGHT / 2;
+                const dx: number = (x2 - x1) / 2;
+                pathData = `M${x1},${y1} C${x1 + dx},${y1} ${x2 - dx},${y2} ${x2},${y2}`;
+                labelX = (x1 + x2) / 2;
+                labelY = (y1 + y2) / 2 - 6;
+            } else {
+                // route back to the same or a previous column, draw it as a loop below the nodes
+                const x1: number = from.x + NODE_WIDTH / 2;
+                const y1: number = from.y + NODE_HEIGHT;
+                const x2: number = to.x + NODE_WIDTH / 2;
+                const y2: number = to.y + NODE_HEIGHT;
+                const depth: number = ROW_GAP + (index % 3) * 10;
+                pathData = `M${x1},${y1} C${x1},${y1 + depth} ${x2},${y2 + depth} ${x2},${y2}`;
+                labelX = (x1 + x2) / 2;
+                labelY = Math.max(y1, y2) + depth - 4;
+                height = Math.max(height, labelY + MARGIN);
+            }
+            const edgeClass: string = edge.dangling ? "edge dangling" : "edge";
+            elements.push(`<path class="${edgeClass}" d="${pathData}" marker-end="url(#arrow)"><title>${this.escapeHtml(graph.getEdgeLabel(edge))}</title></path>`);
+            elements.push(`<text class="edge-label" x="${labelX}" y="${labelY}" text-anchor="middle">${this.escapeHtml(this.truncate(graph.getEdgeLabel(edge), 40))}</text>`);
+        });
+
+        graph.nodes.forEach((node: IMessageFlowNode) => {
+            const position = positions.get(node.id);
+            const classes: string[] = ["node"];
+            if (node.missing) {
+                classes.push("missing");
+            } else if (graph.hasIssue(node)) {
+                classes.push("warning");
+            }
+            if (node.type !== MessageFlowNodeType.Module) {
+                classes.push("special");
+            }
+            const radius: number = node.type === MessageFlowNodeType.Upstream ? NODE_HEIGHT / 2 : 4;
+            elements.push(`<g class="${classes.join(" ")}">`
+                + `<rect x="${position.x}" y="${position.y}" width="${NODE_WIDTH}" height="${NODE_HEIGHT}" rx="${radius}" ry="${radius}"></rect>`
+                + `<text x="${position.x + NODE_WIDTH / 2}" y="${position.y + NODE_HEIGHT / 2 + 4}" text-anchor="middle">${this.escapeHtml(this.truncate(graph.getNodeLabel(node), 24))}</text>`
+                + `<title>${this.escapeHtml(graph.getNodeLabel(node))}</title></g>`);
+        });
+
+        return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">`
+            + `<defs><marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">`
+            + `<path d="M0,0 L10,5 L0,10 z"></path></marker></defs>`
+            + elements.join("")
+            + "</svg>";
+    }
+
+    private getHtml(graph: MessageFlowGraph, templateName: string): string {
+        const issues: string = graph.issues.length === 0
+            ? "<p>No issues found.</p>"
+            : `<ul>${graph.issues.map((issue) => `<li>${this.escapeHtml(issue.message)}</li>`).join("")}</ul>`;
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <style>
+        body { color: var(--vscode-editor-foreground); font-family: var(--vscode-font-family); }
+        .toolbar button { margin-right: 8px; }
+        .node rect { fill: var(--vscode-editor-background); stroke: var(--vscode-editor-foreground); stroke-width: 1.5; }
+        .node.special rect { stroke-dasharray: 2 2; }
+        .node.warning rect { stroke: #f0a30a; stroke-width: 2.5; }
+        .node.missing rect { stroke: #e51400; stroke-width: 2.5; stroke-dasharray: 6 4; }
+        .node text { fill: var(--vscode-editor-foreground); font-size: 13px; }
+        .edge { fill: none; stroke: var(--vscode-editor-foreground); stroke-opacity: 0.7; stroke-width: 1.5; }
+        .edge.dangling { stroke: #e51400; stroke-dasharray: 6 4; }
+        .edge-label { fill: var(--vscode-editor-foreground); font-size: 11px; opacity: 0.8; }
+        marker path { fill: var(--vscode-editor-foreground); }
+    </style>
+</head>
+<body>
+    <h2>Message flow of ${this.escapeHtml(templateName)}</h2>
+    <div class="toolbar">
+        <button onclick="exportGraph('mermaid')">Export as Mermaid</button>
+        <button onclick="exportGraph('dot')">Export as DOT</button>
+    </div>
+    <div>${this.getSvg(graph)}</div>
+    <h3>Issues (${graph.issues.length})</h3>
+    ${issues}
+    <script>
+        const vscode = acquireVsCodeApi();
+        function exportGraph(format) {
+            vscode.postMessage({ format: format });
+        }
+    </script>
+</body>
+</html>`;
+    }
+
+    private truncate(text: string, length: number): string {
+        return text.length > length ? `${text.substr(0, length - 1)}…` : text;
+    }
+
+    private escapeHtml(text: string): string {
+        return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+    }
+}
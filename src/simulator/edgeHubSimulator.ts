@@ -0,0 +1,386 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import { EventEmitter } from "events";
+import * as net from "net";
+import * as tls from "tls";
+import { IRoute, RouteParser } from "../common/routeParser";
+import { IMqttPacket, IMqttSubscription, MqttCodec, MqttPacketType } from "./mqttCodec";
+
+export interface IModuleMessage {
+    moduleId: string;
+    // the input name of the messages sent to a module, or the output name of the messages sent by a module
+    name: string;
+    body: Buffer;
+    properties: { [key: string]: string };
+    systemProperties: { [key: string]: string };
+}
+
+export interface IEdgeHubSimulatorOptions {
+    deviceId?: string;
+    hostName?: string;
+    // serve MQTT over TLS, as the device SDKs connect to a gateway with TLS
+    tls?: { key: string | Buffer, cert: string | Buffer };
+}
+
+interface IModuleTwin {
+    desired: any;
+    reported: any;
+}
+
+interface IClient {
+    socket: net.Socket;
+    clientId: string;
+    subscriptions: IMqttSubscription[];
+    nextPacketId: number;
+}
+
+// A stand-in of Edge Hub for the integration tests of a single module, speaking enough of the MQTT protocol of the
+// module clients of the device SDKs: input messages, output messages and the twin. Direct methods are not supported.
+// It is a plain MQTT broker for the other topics, so that tests can use any MQTT client.
+// The outputs are delivered along the routes of the deployment manifest, whose WHERE conditions are not evaluated.
+// A malformed packet or twin patch of a client is reported with the "clientError" event and never with the "error" event,
+// which would end the process when nothing listens to it.
+export class EdgeHubSimulator extends EventEmitter {
+    // MQTT topic filters with the + and # wildcards
+    public static matchTopic(filter: string, topic: string): boolean {
+        const filterLevels: string[] = filter.split("/");
+        const topicLevels: string[] = topic.split("/");
+        for (let i = 0; i < filterLevels.length; i++) {
+            if (filterLevels[i] === "#") {
+                return true;
+            }
+            if (i >= topicLevels.length || (filterLevels[i] !== "+" && filterLevels[i] !== topicLevels[i])) {
+                return false;
+            }
+        }
+        return filterLevels.length === topicLevels.length;
+    }
+
+    // Whether the output of a module matches the source of a route, e.g. /messages/modules/filter/outputs/*
+    public static matchSource(sourcePath: string, moduleId: string, output: string): boolean {
+        if (["/*", "/messages/*", "/messages/modules/*"].indexOf(sourcePath) >= 0) {
+            return true;
+        }
+        const matches = /^\/messages\/modules\/([^\/]+)\/(\*|outputs\/(\*|[^\/]+))$/.exec(sourcePath);
+        return !!matches && matches[1] === moduleId && (!matches[3] || matches[3] === "*" || matches[3] === output);
+    }
+
+    public static parsePropertyBag(propertyBag: string): { [key: string]: string } {
+        const properties: { [key: string]: string } = {};
+        for (const pair of propertyBag.split("&")) {
+            if (pair) {
+                const index: number = pair.indexOf("=");
+                const key: string = decodeURIComponent(index >= 0 ? pair.substring(0, index) : pair);
+                properties[key] = index >= 0 ? decodeURIComponent(pair.substring(index + 1)) : "";
+            }
+        }
+        return properties;
+    }
+
+    // e.g. devices/device/modules/filter/messages/events/%24.on=output1&key=value
+    private static readonly eventsTopicPattern: RegExp = /^devices\/([^/]+)\/modules\/([^/]+)\/messages\/events\/?(.*)$/;
+    private static readonly inputsTopicPattern: RegExp = /^devices\/([^/]+)\/modules\/([^/]+)\/inputs\/#$/;
+    // e.g. $iothub/twin/PATCH/properties/reported/?$rid=1
+    private static readonly twinTopicPattern: RegExp = /^\$iothub\/twin\/(GET|PATCH\/properties\/reported)\/\?(.*)$/;
+
+    private static encodePropertyBag(properties: { [key: string]: string }): string {
+        return Object.keys(properties).map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(properties[key])}`).join("&");
+    }
+
+    // Apply a twin patch, where null removes a property
+    private static mergePatch(target: any, patch: any): void {
+        for (const key of Object.keys(patch)) {
+            const value = patch[key];
+            if (value === null) {
+                delete target[key];
+            } else if (typeof value === "object" && !Array.isArray(value) && typeof target[key] === "object" && target[key] !== null) {
+                EdgeHubSimulator.mergePatch(target[key], value);
+            } else {
+                target[key] = value;
+            }
+        }
+    }
+
+    public readonly deviceId: string;
+    public readonly hostName: string;
+    // the output messages of the modules, in the order they are sent
+    public readonly outputs: IModuleMessage[] = [];
+    // the output messages routed to $upstream
+    public readonly upstream: IModuleMessage[] = [];
+    private readonly server: net.Server;
+    private readonly clients: Set<IClient> = new Set();
+    private readonly twins: Map<string, IModuleTwin> = new Map();
+    private readonly pendingInputs: Map<string, Array<{ topic: string, payload: Buffer }>> = new Map();
+    private readonly unconsumedOutputs: IModuleMessage[] = [];
+    private routes: IRoute[] = [];
+    private port: number;
+
+    constructor(options: IEdgeHubSimulatorOptions = {}) {
+        super();
+        this.deviceId = options.deviceId || "simulated-device";
+        this.hostName = options.hostName || "localhost";
+        const onConnection = (socket: net.Socket) => this.onConnection(socket);
+        this.server = options.tls ? tls.createServer(options.tls, onConnection) : net.createServer(onConnection);
+    }
+
+    // Start listening, on a free port if the port is 0, and return the port
+    public start(port: number = 0): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(port, () => {
+                this.server.removeListener("error", reject);
+                this.port = this.server.address().port;
+                resolve(this.port);
+            });
+        });
+    }
+
+    public stop(): Promise<void> {
+        for (const client of this.clients) {
+            client.socket.destroy();
+        }
+        this.clients.clear();
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+
+    // The connection string of a module client connecting through the simulator as its gateway.
+    // The shared access key is not verified.
+    public getConnectionString(moduleId: string): string {
+        const key: string = Buffer.from(`${this.deviceId}/${moduleId}`).toString("base64");
+        return `HostName=${this.hostName};GatewayHostName=${this.hostName};DeviceId=${this.deviceId};ModuleId=${moduleId};SharedAccessKey=${key}`;
+    }
+
+    // Set the routes of the $edgeHub desired properties, where a route is a string or an object with the route string since schema 1.1
+    public setRoutes(routes: { [name: string]: string | { route: string } }): void {
+        this.routes = Object.keys(routes || {}).map((name) => {
+            const value = routes[name];
+            return RouteParser.parse(typeof value === "string" ? value : (value && typeof value.route === "string" ? value.route : ""));
+        }).filter((route) => route.errors.length === 0 && route.source && route.sink);
+    }
+
+    // Send a message to an input of a module. Messages sent before the module subscribes to its inputs are queued.
+    public sendInput(moduleId: string, inputName: string, body: string | Buffer | object, properties: { [key: string]: string } = {}): void {
+        const payload: Buffer = Buffer.isBuffer(body) ? body : Buffer.from(typeof body === "string" ? body : JSON.stringify(body), "utf8");
+        const propertyBag: string = EdgeHubSimulator.encodePropertyBag(properties);
+        const topic: string = `devices/${this.deviceId}/modules/${moduleId}/inputs/${inputName}/${propertyBag}`;
+        this.emit("input", { moduleId, name: inputName, body: payload, properties, systemProperties: {} } as IModuleMessage);
+        if (this.isSubscribed(topic)) {
+            this.publish(topic, payload);
+        } else {
+            if (!this.pendingInputs.has(moduleId)) {
+                this.pendingInputs.set(moduleId, []);
+            }
+            this.pendingInputs.get(moduleId).push({ topic, payload });
+        }
+    }
+
+    // Wait for the next output message of a module which is not consumed by an earlier call, optionally of an output name
+    public waitForOutput(moduleId: string, outputName?: string, timeout: number = 10000): Promise<IModuleMessage> {
+        const matches = (message: IModuleMessage) => message.moduleId === moduleId && (outputName === undefined || message.name === outputName);
+        const index: number = this.unconsumedOutputs.findIndex(matches);
+        if (index >= 0) {
+            return Promise.resolve(this.unconsumedOutputs.splice(index, 1)[0]);
+        }
+
+        return new Promise((resolve, reject) => {
+            const onOutput = (message: IModuleMessage) => {
+                if (matches(message)) {
+                    clearTimeout(timer);
+                    this.removeListener("output", onOutput);
+                    this.unconsumedOutputs.splice(this.unconsumedOutputs.indexOf(message), 1);
+                    resolve(message);
+                }
+            };
+            const timer = setTimeout(() => {
+                this.removeListener("output", onOutput);
+                reject(new Error(`No output${outputName ? ` ${outputName}` : ""} of module ${moduleId} in ${timeout} ms`));
+            }, timeout);
+            this.on("output", onOutput);
+        });
+    }
+
+    public getTwin(moduleId: string): IModuleTwin {
+        if (!this.twins.has(moduleId)) {
+            this.twins.set(moduleId, { desired: { $version: 1 }, reported: { $version: 1 } });
+        }
+        return this.twins.get(moduleId);
+    }
+
+    // Update the desired properties of a module twin, and notify the module if it subscribes to the updates
+    public setDesiredProperties(moduleId: string, patch: any): void {
+        const twin: IModuleTwin = this.getTwin(moduleId);
+        EdgeHubSimulator.mergePatch(twin.desired, patch);
+        twin.desired.$version++;
+        const payload: Buffer = Buffer.from(JSON.stringify(Object.assign({}, patch, { $version: twin.desired.$version })), "utf8");
+        this.publish(`$iothub/twin/PATCH/properties/desired/?$version=${twin.desired.$version}`, payload, moduleId);
+    }
+
+    private onConnection(socket: net.Socket): void {
+        const codec: MqttCodec = new MqttCodec();
+        const client: IClient = { socket, clientId: undefined, subscriptions: [], nextPacketId: 1 };
+        this.clients.add(client);
+        socket.on("data", (chunk: Buffer) => {
+            try {
+                for (const packet of codec.decode(chunk)) {
+                    this.onPacket(client, packet);
+                }
+            } catch (error) {
+                // only the connection of the client is closed
+                this.emit("clientError", client.clientId, error);
+                socket.destroy();
+            }
+        });
+        socket.on("close", () => {
+            this.clients.delete(client);
+            this.emit("disconnect", client.clientId);
+        });
+        socket.on("error", () => socket.destroy());
+    }
+
+    private onPacket(client: IClient, packet: IMqttPacket): void {
+        switch (packet.type) {
+            case MqttPacketType.Connect:
+                client.clientId = packet.clientId;
+                this.send(client, { type: MqttPacketType.Connack, returnCode: packet.protocolLevel === 3 || packet.protocolLevel === 4 ? 0 : 1 });
+                this.emit("connect", packet.clientId);
+                break;
+            case MqttPacketType.Subscribe:
+                // QoS 2 is downgraded to QoS 1
+                const granted: number[] = packet.subscriptions.map((subscription) => Math.min(subscription.qos, 1));
+                client.subscriptions.push(...packet.subscriptions.map((subscription, index) => ({ topic: subscription.topic, qos: granted[index] })));
+                this.send(client, { type: MqttPacketType.Suback, packetId: packet.packetId, granted });
+                for (const subscription of packet.subscriptions) {
+                    this.onSubscribe(subscription.topic);
+                }
+                break;
+            case MqttPacketType.Unsubscribe:
+                client.subscriptions = client.subscriptions.filter((subscription) => packet.topics.indexOf(subscription.topic) < 0);
+                this.send(client, { type: MqttPacketType.Unsuback, packetId: packet.packetId });
+                break;
+            case MqttPacketType.Publish:
+                if (packet.qos === 1) {
+                    this.send(client, { type: MqttPacketType.Puback, packetId: packet.packetId });
+                } else if (packet.qos === 2) {
+                    this.send(client, { type: MqttPacketType.Pubrec, packetId: packet.packetId });
+                }
+                this.onPublish(client, packet.topic, packet.payload);
+                break;
+            case MqttPacketType.Pubrel:
+                this.send(client, { type: MqttPacketType.Pubcomp, packetId: packet.packetId });
+                break;
+            case MqttPacketType.Pingreq:
+                this.send(client, { type: MqttPacketType.Pingresp });
+                break;
+            case MqttPacketType.Disconnect:
+                client.socket.end();
+                break;
+            default:
+                break;
+        }
+    }
+
+    private onSubscribe(topic: string): void {
+        const matches = EdgeHubSimulator.inputsTopicPattern.exec(topic);
+        if (matches && this.pendingInputs.has(matches[2])) {
+            for (const input of this.pendingInputs.get(matches[2])) {
+                this.publish(input.topic, input.payload);
+            }
+            this.pendingInputs.delete(matches[2]);
+        }
+    }
+
+    private onPublish(client: IClient, topic: string, payload: Buffer): void {
+        const events = EdgeHubSimulator.eventsTopicPattern.exec(topic);
+        if (events) {
+            const properties: { [key: string]: string } = {};
+            const systemProperties: { [key: string]: string } = {};
+            const propertyBag: { [key: string]: string } = EdgeHubSimulator.parsePropertyBag(events[3]);
+            for (const key of Object.keys(propertyBag)) {
+                if (key.startsWith("$.")) {
+                    systemProperties[key] = propertyBag[key];
+                } else {
+                    properties[key] = propertyBag[key];
+                }
+            }
+            const message: IModuleMessage = { moduleId: events[2], name: systemProperties["$.on"], body: payload, properties, systemProperties };
+            this.outputs.push(message);
+            this.unconsumedOutputs.push(message);
+            this.emit("output", message);
+            this.route(message);
+            return;
+        }
+
+        const twin = EdgeHubSimulator.twinTopicPattern.exec(topic);
+        if (twin) {
+            const moduleId: string = client.clientId ? client.clientId.split("/").pop() : undefined;
+            const requestId: string = EdgeHubSimulator.parsePropertyBag(twin[2]).$rid;
+            const moduleTwin: IModuleTwin = this.getTwin(moduleId);
+            if (twin[1] === "GET") {
+                this.send(client, {
+                    type: MqttPacketType.Publish,
+                    topic: `$iothub/twin/res/200/?$rid=${requestId}`,
+                    payload: Buffer.from(JSON.stringify(moduleTwin), "utf8"),
+                });
+            } else {
+                let patch: any;
+                try {
+                    patch = JSON.parse(payload.toString("utf8"));
+                } catch (error) {
+                    patch = undefined;
+                }
+                if (!patch || typeof patch !== "object" || Array.isArray(patch)) {
+                    this.send(client, { type: MqttPacketType.Publish, topic: `$iothub/twin/res/400/?$rid=${requestId}` });
+                    this.emit("clientError", client.clientId, new Error(`The reported properties patch of module ${moduleId} is not a JSON object`));
+                    return;
+                }
+                EdgeHubSimulator.mergePatch(moduleTwin.reported, patch);
+                moduleTwin.reported.$version++;
+                this.send(client, { type: MqttPacketType.Publish, topic: `$iothub/twin/res/204/?$rid=${requestId}&$version=${moduleTwin.reported.$version}` });
+                this.emit("reported", moduleId, patch);
+            }
+            return;
+        }
+
+        this.publish(topic, payload);
+    }
+
+    private route(message: IModuleMessage): void {
+        for (const route of this.routes) {
+            if (!EdgeHubSimulator.matchSource(route.source.path, message.moduleId, message.name)) {
+                continue;
+            }
+            if (route.sink.type === "upstream") {
+                this.upstream.push(message);
+                this.emit("upstream", message);
+            } else if (route.sink.moduleId && route.sink.input) {
+                this.sendInput(route.sink.moduleId, route.sink.input, message.body, message.properties);
+            }
+        }
+    }
+
+    private isSubscribed(topic: string): boolean {
+        return [...this.clients].some((client) => client.subscriptions.some((subscription) => EdgeHubSimulator.matchTopic(subscription.topic, topic)));
+    }
+
+    // Deliver a message to the subscribed clients, or only to the clients of a module
+    private publish(topic: string, payload: Buffer, moduleId?: string): void {
+        for (const client of this.clients) {
+            if (moduleId !== undefined && (!client.clientId || client.clientId.split("/").pop() !== moduleId)) {
+                continue;
+            }
+            const subscription: IMqttSubscription = client.subscriptions.find((item) => EdgeHubSimulator.matchTopic(item.topic, topic));
+            if (subscription) {
+                this.send(client, { type: MqttPacketType.Publish, topic, payload, qos: subscription.qos, packetId: client.nextPacketId });
+                client.nextPacketId = client.nextPacketId % 65535 + 1;
+            }
+        }
+    }
+
+    private send(client: IClient, packet: IMqttPacket): void {
+        if (!client.socket.destroyed) {
+            client.socket.write(MqttCodec.encode(packet));
+        }
+    }
+}
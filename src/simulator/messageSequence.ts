@@ -0,0 +1,77 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+
+// A message of a sequence file, which is a JSON array of the messages to send to the inputs of the modules
+export interface ISequenceMessage {
+    // e.g. /modules/filter/inputs/input1
+    target: string;
+    // a JSON value, or the base64 of the bytes of a binary message
+    body: any;
+    binary?: boolean;
+    properties?: { [key: string]: string };
+    // the time to wait before sending the message, in milliseconds
+    delay?: number;
+}
+
+export class MessageSequence {
+    public static parseTarget(target: string): { moduleId: string, inputName: string } {
+        const matches = /^\/?modules\/([^\/]+)\/inputs\/([^\/]+)$/.exec((target || "").trim());
+        if (!matches) {
+            throw new Error(`Invalid target '${target}'. Expected /modules/<moduleId>/inputs/<input>`);
+        }
+        return { moduleId: matches[1], inputName: matches[2] };
+    }
+
+    public static getTarget(moduleId: string, inputName: string): string {
+        return `/modules/${moduleId}/inputs/${inputName}`;
+    }
+
+    // Strings are sent as they are and other JSON values are serialized
+    public static getPayload(message: ISequenceMessage): Buffer {
+        if (message.binary) {
+            return Buffer.from(message.body, "base64");
+        }
+        return Buffer.from(typeof message.body === "string" ? message.body : JSON.stringify(message.body), "utf8");
+    }
+
+    // The message of a sequence for a payload, with the JSON value of the payload unless it isn't JSON or text
+    public static fromPayload(target: string, payload: Buffer, properties: { [key: string]: string }, delay?: number): ISequenceMessage {
+        const message: ISequenceMessage = { target, body: undefined };
+        const text: string = payload.toString("utf8");
+        if (!Buffer.from(text, "utf8").equals(payload)) {
+            message.body = payload.toString("base64");
+            message.binary = true;
+        } else {
+            try {
+                // a JSON string is kept as it is, since string bodies are sent without serialization
+                const value: any = JSON.parse(text);
+                message.body = typeof value === "string" ? text : value;
+            } catch (error) {
+                message.body = text;
+            }
+        }
+        if (properties && Object.keys(properties).length > 0) {
+            message.properties = properties;
+        }
+        if (delay) {
+            message.delay = delay;
+        }
+        return message;
+    }
+
+    public static async load(sequenceFile: string): Promise<ISequenceMessage[]> {
+        const messages: ISequenceMessage[] = await fse.readJson(sequenceFile);
+        if (!Array.isArray(messages)) {
+            throw new Error(`${sequenceFile} must be a JSON array of messages`);
+        }
+        messages.forEach((message) => MessageSequence.parseTarget(message.target));
+        return messages;
+    }
+
+    public static async save(sequenceFile: string, messages: ISequenceMessage[]): Promise<void> {
+        await fse.writeFile(sequenceFile, JSON.stringify(messages, null, 2), { encoding: "utf8" });
+    }
+}
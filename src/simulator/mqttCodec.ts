@@ -0,0 +1,252 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+
+export enum MqttPacketType {
+    Connect = 1,
+    Connack,
+    Publish,
+    Puback,
+    Pubrec,
+    Pubrel,
+    Pubcomp,
+    Subscribe,
+    Suback,
+    Unsubscribe,
+    Unsuback,
+    Pingreq,
+    Pingresp,
+    Disconnect,
+}
+
+export interface IMqttSubscription {
+    topic: string;
+    qos: number;
+}
+
+export interface IMqttPacket {
+    type: MqttPacketType;
+    packetId?: number;
+    // CONNECT
+    protocolLevel?: number;
+    clientId?: string;
+    username?: string;
+    password?: string;
+    keepAlive?: number;
+    cleanSession?: boolean;
+    // CONNACK
+    sessionPresent?: boolean;
+    returnCode?: number;
+    // PUBLISH
+    topic?: string;
+    payload?: Buffer;
+    qos?: number;
+    retain?: boolean;
+    dup?: boolean;
+    // SUBSCRIBE and UNSUBSCRIBE
+    subscriptions?: IMqttSubscription[];
+    topics?: string[];
+    // SUBACK
+    granted?: number[];
+}
+
+// Encode and decode the packets of MQTT 3.1.1, except the will message of CONNECT which is skipped.
+// The decoder is fed with the chunks of a stream and returns the packets completed by each chunk.
+export class MqttCodec {
+    public static encode(packet: IMqttPacket): Buffer {
+        let flags: number = 0;
+        const body: Buffer[] = [];
+        switch (packet.type) {
+            case MqttPacketType.Connect:
+                const connectFlags: number = (packet.username !== undefined ? 0x80 : 0) + (packet.password !== undefined ? 0x40 : 0)
+                    + (packet.cleanSession !== false ? 0x02 : 0);
+                body.push(MqttCodec.encodeString("MQTT"), Buffer.from([packet.protocolLevel || 4, connectFlags]),
+                    MqttCodec.encodeUInt16(packet.keepAlive || 0), MqttCodec.encodeString(packet.clientId || ""));
+                if (packet.username !== undefined) {
+                    body.push(MqttCodec.encodeString(packet.username));
+                }
+                if (packet.password !== undefined) {
+                    body.push(MqttCodec.encodeString(packet.password));
+                }
+                break;
+            case MqttPacketType.Connack:
+                body.push(Buffer.from([packet.sessionPresent ? 1 : 0, packet.returnCode || 0]));
+                break;
+            case MqttPacketType.Publish:
+                flags = (packet.dup ? 0x08 : 0) + (packet.qos || 0) * 0x02 + (packet.retain ? 0x01 : 0);
+                body.push(MqttCodec.encodeString(packet.topic));
+                if (packet.qos > 0) {
+                    body.push(MqttCodec.encodeUInt16(packet.packetId));
+                }
+                body.push(packet.payload || Buffer.alloc(0));
+                break;
+            case MqttPacketType.Subscribe:
+                flags = 0x02;
+                body.push(MqttCodec.encodeUInt16(packet.packetId));
+                for (const subscription of packet.subscriptions) {
+                    body.push(MqttCodec.encodeString(subscription.topic), Buffer.from([subscription.qos]));
+                }
+                break;
+            case MqttPacketType.Suback:
+                body.push(MqttCodec.encodeUInt16(packet.packetId), Buffer.from(packet.granted));
+                break;
+            case MqttPacketType.Unsubscribe:
+                flags = 0x02;
+                body.push(MqttCodec.encodeUInt16(packet.packetId), ...packet.topics.map((topic) => MqttCodec.encodeString(topic)));
+                break;
+            case MqttPacketType.Pubrel:
+                flags = 0x02;
+                body.push(MqttCodec.encodeUInt16(packet.packetId));
+                break;
+            case MqttPacketType.Puback:
+            case MqttPacketType.Pubrec:
+            case MqttPacketType.Pubcomp:
+            case MqttPacketType.Unsuback:
+                body.push(MqttCodec.encodeUInt16(packet.packetId));
+                break;
+            default:
+                break;
+        }
+        const content: Buffer = Buffer.concat(body);
+        return Buffer.concat([Buffer.from([packet.type * 0x10 + flags]), MqttCodec.encodeRemainingLength(content.length), content]);
+    }
+
+    private static hasFlag(value: number, flag: number): boolean {
+        return Math.floor(value / flag) % 2 === 1;
+    }
+
+    private static encodeUInt16(value: number): Buffer {
+        const buffer: Buffer = Buffer.alloc(2);
+        buffer.writeUInt16BE(value, 0);
+        return buffer;
+    }
+
+    private static encodeString(value: string): Buffer {
+        const content: Buffer = Buffer.from(value, "utf8");
+        return Buffer.concat([MqttCodec.encodeUInt16(content.length), content]);
+    }
+
+    // The remaining length is encoded in 7 bits per byte, with the continuation in the highest bit
+    private static encodeRemainingLength(length: number): Buffer {
+        const bytes: number[] = [];
+        do {
+            let byte: number = length % 128;
+            length = Math.floor(length / 128);
+            if (length > 0) {
+                byte += 0x80;
+            }
+            bytes.push(byte);
+        } while (length > 0);
+        return Buffer.from(bytes);
+    }
+
+    private buffer: Buffer = Buffer.alloc(0);
+
+    public decode(chunk: Buffer): IMqttPacket[] {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+        const packets: IMqttPacket[] = [];
+        while (this.buffer.length >= 2) {
+            let length: number = 0;
+            let multiplier: number = 1;
+            let offset: number = 1;
+            let byte: number;
+            do {
+                if (offset >= this.buffer.length) {
+                    return packets;
+                }
+                if (offset > 4) {
+                    throw new Error("Malformed remaining length of MQTT packet");
+                }
+                byte = this.buffer[offset++];
+                length += (byte % 0x80) * multiplier;
+                multiplier *= 128;
+            } while (byte >= 0x80);
+
+            if (this.buffer.length < offset + length) {
+                return packets;
+            }
+            packets.push(this.decodePacket(this.buffer[0], this.buffer.slice(offset, offset + length)));
+            this.buffer = this.buffer.slice(offset + length);
+        }
+        return packets;
+    }
+
+    private decodePacket(header: number, body: Buffer): IMqttPacket {
+        const packet: IMqttPacket = { type: Math.floor(header / 0x10) };
+        let offset: number = 0;
+        const readUInt16 = (): number => {
+            offset += 2;
+            return body.readUInt16BE(offset - 2);
+        };
+        const readBytes = (): Buffer => {
+            const length: number = readUInt16();
+            offset += length;
+            return body.slice(offset - length, offset);
+        };
+        const readString = (): string => readBytes().toString("utf8");
+
+        switch (packet.type) {
+            case MqttPacketType.Connect:
+                readString();
+                packet.protocolLevel = body[offset++];
+                const connectFlags: number = body[offset++];
+                packet.cleanSession = MqttCodec.hasFlag(connectFlags, 0x02);
+                packet.keepAlive = readUInt16();
+                packet.clientId = readString();
+                if (MqttCodec.hasFlag(connectFlags, 0x04)) {
+                    readString();
+                    readBytes();
+                }
+                if (MqttCodec.hasFlag(connectFlags, 0x80)) {
+                    packet.username = readString();
+                }
+                if (MqttCodec.hasFlag(connectFlags, 0x40)) {
+                    packet.password = readString();
+                }
+                break;
+            case MqttPacketType.Connack:
+                packet.sessionPresent = MqttCodec.hasFlag(body[0], 0x01);
+                packet.returnCode = body[1];
+                break;
+            case MqttPacketType.Publish:
+                packet.dup = MqttCodec.hasFlag(header, 0x08);
+                packet.qos = Math.floor(header / 0x02) % 4;
+                packet.retain = MqttCodec.hasFlag(header, 0x01);
+                packet.topic = readString();
+                if (packet.qos > 0) {
+                    packet.packetId = readUInt16();
+                }
+                packet.payload = body.slice(offset);
+                break;
+            case MqttPacketType.Subscribe:
+                packet.packetId = readUInt16();
+                packet.subscriptions = [];
+                while (offset < body.length) {
+                    packet.subscriptions.push({ topic: readString(), qos: body[offset++] });
+                }
+                break;
+            case MqttPacketType.Suback:
+                packet.packetId = readUInt16();
+                packet.granted = [...body.slice(offset)];
+                break;
+            case MqttPacketType.Unsubscribe:
+                packet.packetId = readUInt16();
+                packet.topics = [];
+                while (offset < body.length) {
+                    packet.topics.push(readString());
+                }
+                break;
+            case MqttPacketType.Puback:
+            case MqttPacketType.Pubrec:
+            case MqttPacketType.Pubrel:
+            case MqttPacketType.Pubcomp:
+            case MqttPacketType.Unsuback:
+                packet.packetId = readUInt16();
+                break;
+            default:
+                break;
+        }
+        return packet;
+    }
+}
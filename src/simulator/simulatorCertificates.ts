@@ -0,0 +1,109 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+import * as forge from "node-forge";
+import * as path from "path";
+
+export interface ISimulatorCertificates {
+    // the CA certificate which the module clients trust, i.e. EdgeModuleCACertificateFile
+    caCertFile: string;
+    certFile: string;
+    keyFile: string;
+}
+
+// The certificates of the TLS listener of the Edge Hub simulator. The device SDKs connect to a gateway over TLS and verify
+// the server certificate of the gateway host with the CA certificate of EdgeModuleCACertificateFile.
+export class SimulatorCertificates {
+    public static readonly caCertFileName: string = "simulator-ca.cert.pem";
+    public static readonly certFileName: string = "simulator-server.cert.pem";
+    public static readonly keyFileName: string = "simulator-server.key.pem";
+
+    // Create a CA certificate and a server certificate of a host signed by the CA, in PEM
+    public static create(hostName: string, validDays: number = 365): { caCert: string, cert: string, key: string } {
+        const notBefore: Date = new Date(Date.now() - 24 * 3600 * 1000);
+        const notAfter: Date = new Date(Date.now() + validDays * 24 * 3600 * 1000);
+
+        const caKeys = forge.pki.rsa.generateKeyPair({ bits: 2048 });
+        const caCert = forge.pki.createCertificate();
+        const caSubject = [{ name: "commonName", value: "Azure IoT Edge simulator CA" }];
+        caCert.publicKey = caKeys.publicKey;
+        caCert.serialNumber = SimulatorCertificates.getSerialNumber();
+        caCert.validity.notBefore = notBefore;
+        caCert.validity.notAfter = notAfter;
+        caCert.setSubject(caSubject);
+        caCert.setIssuer(caSubject);
+        caCert.setExtensions([
+            { name: "basicConstraints", cA: true, critical: true },
+            { name: "keyUsage", keyCertSign: true, cRLSign: true, critical: true },
+        ]);
+        caCert.sign(caKeys.privateKey, forge.md.sha256.create());
+
+        const keys = forge.pki.rsa.generateKeyPair({ bits: 2048 });
+        const cert = forge.pki.createCertificate();
+        cert.publicKey = keys.publicKey;
+        cert.serialNumber = SimulatorCertificates.getSerialNumber();
+        cert.validity.notBefore = notBefore;
+        cert.validity.notAfter = notAfter;
+        cert.setSubject([{ name: "commonName", value: hostName }]);
+        cert.setIssuer(caSubject);
+        const altNames: any[] = [{ type: 2, value: hostName }];
+        if (hostName === "localhost") {
+            altNames.push({ type: 7, ip: "127.0.0.1" });
+        }
+        cert.setExtensions([
+            { name: "basicConstraints", cA: false },
+            { name: "keyUsage", digitalSignature: true, keyEncipherment: true, critical: true },
+            { name: "extKeyUsage", serverAuth: true },
+            { name: "subjectAltName", altNames },
+        ]);
+        cert.sign(caKeys.privateKey, forge.md.sha256.create());
+
+        return {
+            caCert: forge.pki.certificateToPem(caCert),
+            cert: forge.pki.certificateToPem(cert),
+            key: forge.pki.privateKeyToPem(keys.privateKey),
+        };
+    }
+
+    // Reuse the certificates in a folder, so that the module clients keep trusting the same CA, unless they are missing,
+    // are of another host or expire within a day
+    public static async ensure(folder: string, hostName: string): Promise<ISimulatorCertificates> {
+        const files: ISimulatorCertificates = {
+            caCertFile: path.join(folder, SimulatorCertificates.caCertFileName),
+            certFile: path.join(folder, SimulatorCertificates.certFileName),
+            keyFile: path.join(folder, SimulatorCertificates.keyFileName),
+        };
+        if (await SimulatorCertificates.isValid(files, hostName)) {
+            return files;
+        }
+
+        const created = SimulatorCertificates.create(hostName);
+        await fse.ensureDir(folder);
+        await fse.writeFile(files.caCertFile, created.caCert);
+        await fse.writeFile(files.certFile, created.cert);
+        await fse.writeFile(files.keyFile, created.key, { mode: 0o600 });
+        return files;
+    }
+
+    private static async isValid(files: ISimulatorCertificates, hostName: string): Promise<boolean> {
+        for (const file of [files.caCertFile, files.certFile, files.keyFile]) {
+            if (!await fse.pathExists(file)) {
+                return false;
+            }
+        }
+        try {
+            const cert = forge.pki.certificateFromPem(await fse.readFile(files.certFile, "utf8"));
+            const commonName = cert.subject.getField("CN");
+            return !!commonName && commonName.value === hostName && cert.validity.notAfter.getTime() > Date.now() + 24 * 3600 * 1000;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    private static getSerialNumber(): string {
+        // a positive serial number of 16 bytes
+        return `01${forge.util.bytesToHex(forge.random.getBytesSync(15))}`;
+    }
+}
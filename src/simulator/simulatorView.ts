@@ -0,0 +1,293 @@
+// Copyright (c) Microsoft Corporation. All rights reserved.
+// Licensed under the MIT license.
+
+"use strict";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as vscode from "vscode";
+import { Constants } from "../common/constants";
+import { TelemetryClient } from "../common/telemetryClient";
+import { Utility } from "../common/utility";
+import { EdgeHubSimulator, IModuleMessage } from "./edgeHubSimulator";
+import { ISequenceMessage, MessageSequence } from "./messageSequence";
+import { ISimulatorCertificates, SimulatorCertificates } from "./simulatorCertificates";
+
+interface ILogEntry {
+    time: string;
+    direction: "input" | "output" | "upstream" | "error";
+    // e.g. /modules/filter/inputs/input1 or /messages/modules/filter/outputs/output1
+    source: string;
+    body: string;
+    binary: boolean;
+    properties: { [key: string]: string };
+}
+
+// A panel to send messages to the inputs of the modules connected to the built-in Edge Hub simulator,
+// and to watch the messages they send along the routes of the deployment manifest. The simulator listens on the
+// MQTT over TLS port of Edge Hub, so that the module clients of the device SDKs connect to it with their connection
+// strings, and it is separate from the Edge Hub of a solution run by iotedgehubdev.
+export class SimulatorView {
+    private simulator: EdgeHubSimulator;
+    private certificates: ISimulatorCertificates;
+    private panel: vscode.WebviewPanel;
+    private sentMessages: ISequenceMessage[] = [];
+    private lastSentTime: number;
+
+    public async openMessagePanel(deployFileUri?: vscode.Uri): Promise<void> {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        const deployFile: string = await Utility.getInputFilePath(deployFileUri,
+            Constants.deploymentManifestPattern,
+            Constants.deploymentFileDesc,
+            `${Constants.openMessagePanelEvent}.selectDeploymentFile`,
+            `{${Constants.tsonPattern}}`);
+        if (!deployFile) {
+            return;
+        }
+
+        const deployment: any = Utility.updateSchema(await fse.readJson(deployFile));
+        const modulesContent: any = deployment.modulesContent || {};
+        const moduleIds: string[] = Object.keys(((modulesContent.$edgeAgent || {})["properties.desired"] || {}).modules || {});
+        const hostName: string = "localhost";
+        const certificates: ISimulatorCertificates = await SimulatorCertificates.ensure(
+            path.join(os.homedir(), Constants.userConfigFolder, Constants.simulatorCertificatesFolder), hostName);
+        const simulator: EdgeHubSimulator = new EdgeHubSimulator({
+            hostName,
+            tls: { key: await fse.readFile(certificates.keyFile), cert: await fse.readFile(certificates.certFile) },
+        });
+        simulator.setRoutes(((modulesContent.$edgeHub || {})["properties.desired"] || {}).routes);
+        for (const moduleId of moduleIds) {
+            if (modulesContent[moduleId] && modulesContent[moduleId]["properties.desired"]) {
+                simulator.setDesiredProperties(moduleId, modulesContent[moduleId]["properties.desired"]);
+            }
+        }
+        try {
+            await simulator.start(Constants.simulatorPort);
+        } catch (error) {
+            if (error.code === "EADDRINUSE") {
+                throw new Error(`Port ${Constants.simulatorPort} is in use, e.g. by the Edge Hub of a solution run in the simulator. Stop the solution to use the message panel.`);
+            }
+            throw error;
+        }
+        this.simulator = simulator;
+        this.certificates = certificates;
+        this.sentMessages = [];
+        this.lastSentTime = undefined;
+
+        this.panel = vscode.window.createWebviewPanel(Constants.messagePanelViewType,
+            `Messages: ${path.basename(deployFile)}`,
+            vscode.ViewColumn.Two,
+            { enableScripts: true, retainContextWhenHidden: true });
+        this.panel.webview.html = this.getHtml(moduleIds);
+        this.panel.onDidDispose(() => this.stop());
+        this.panel.webview.onDidReceiveMessage(async (message) => {
+            try {
+                await this.onMessage(message);
+            } catch (error) {
+                vscode.window.showErrorMessage(error.message);
+            }
+        });
+
+        simulator.on("input", (message: IModuleMessage) => this.log("input", MessageSequence.getTarget(message.moduleId, message.name), message));
+        simulator.on("output", (message: IModuleMessage) => this.log("output", `/messages/modules/${message.moduleId}/outputs/${message.name}`, message));
+        simulator.on("upstream", (message: IModuleMessage) => this.log("upstream", `/messages/modules/${message.moduleId}/outputs/${message.name}`, message));
+        // a malformed packet only closes the connection of its client, and is shown in the panel
+        simulator.on("clientError", (clientId: string, error: Error) => this.logError(clientId || "(unknown client)", error));
+        simulator.on("error", (error: Error) => this.logError("simulator", error));
+    }
+
+    private async onMessage(message: any): Promise<void> {
+        switch (message.command) {
+            case "send":
+                const properties: { [key: string]: string } = message.properties && message.properties.trim() ? JSON.parse(message.properties) : {};
+                this.send({ target: message.target, body: message.body, binary: message.binary, properties });
+                break;
+            case "save":
+                await this.saveSequence();
+                break;
+            case "replay":
+                await this.replaySequence();
+                break;
+            case "stop":
+                this.panel.dispose();
+                break;
+            default:
+                break;
+        }
+    }
+
+    // Send a message and record it with the time elapsed since the previous one, so that the sequence can be replayed
+    private send(message: ISequenceMessage): void {
+        const { moduleId, inputName } = MessageSequence.parseTarget(message.target);
+        const payload: Buffer = MessageSequence.getPayload(message);
+        const now: number = Date.now();
+        this.sentMessages.push(MessageSequence.fromPayload(message.target, payload, message.properties, this.lastSentTime ? now - this.lastSentTime : 0));
+        this.lastSentTime = now;
+        this.simulator.sendInput(moduleId, inputName, payload, message.properties || {});
+    }
+
+    private async saveSequence(): Promise<void> {
+        if (this.sentMessages.length === 0) {
+            vscode.window.showInformationMessage("No message has been sent yet.");
+            return;
+        }
+        const fileUri: vscode.Uri = await vscode.window.showSaveDialog({ filters: { "Message Sequence": ["json"] } });
+        if (fileUri) {
+            await MessageSequence.save(fileUri.fsPath, this.sentMessages);
+            TelemetryClient.sendEvent(`${Constants.openMessagePanelEvent}.save`);
+        }
+    }
+
+    private async replaySequence(): Promise<void> {
+        const fileUris: vscode.Uri[] = await vscode.window.showOpenDialog({ canSelectMany: false, filters: { "Message Sequence": ["json"] } });
+        if (!fileUris || fileUris.length === 0) {
+            return;
+        }
+        const messages: ISequenceMessage[] = await MessageSequence.load(fileUris[0].fsPath);
+        TelemetryClient.sendEvent(`${Constants.openMessagePanelEvent}.replay`, { count: messages.length.toString() });
+        for (const message of messages) {
+            if (message.delay) {
+                await new Promise((resolve) => setTimeout(resolve, message.delay));
+            }
+            if (!this.simulator) {
+                return;
+            }
+            this.send(message);
+        }
+    }
+
+    private log(direction: "input" | "output" | "upstream", source: string, message: IModuleMessage): void {
+        if (!this.panel) {
+            return;
+        }
+        const sequenceMessage: ISequenceMessage = MessageSequence.fromPayload(source, message.body, undefined);
+        const entry: ILogEntry = {
+            time: new Date().toISOString(),
+            direction,
+            source,
+            body: typeof sequenceMessage.body === "string" ? sequenceMessage.body : JSON.stringify(sequenceMessage.body),
+            binary: !!sequenceMessage.binary,
+            properties: Object.assign({}, message.systemProperties, message.properties),
+        };
+        this.panel.webview.postMessage({ command: "log", entry });
+    }
+
+    private logError(source: string, error: Error): void {
+        if (!this.panel) {
+            return;
+        }
+        const entry: ILogEntry = { time: new Date().toISOString(), direction: "error", source, body: error.message, binary: false, properties: {} };
+        this.panel.webview.postMessage({ command: "log", entry });
+    }
+
+    private stop(): void {
+        this.panel = undefined;
+        if (this.simulator) {
+            this.simulator.stop();
+            this.simulator = undefined;
+        }
+    }
+
+    private getHtml(moduleIds: string[]): string {
+        const connectionStrings: string = moduleIds.length === 0
+            ? "<p>No module is defined in the deployment manifest.</p>"
+            : `<ul>${moduleIds.map((moduleId) => `<li><b>${this.escapeHtml(moduleId)}</b>: `
+                + `<code>EdgeHubConnectionString=${this.escapeHtml(this.simulator.getConnectionString(moduleId))}</code></li>`).join("")}</ul>`;
+        const defaultTarget: string = moduleIds.length > 0 ? MessageSequence.getTarget(moduleIds[0], "input1") : "/modules/<moduleId>/inputs/<input>";
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <style>
+        body { color: var(--vscode-editor-foreground); font-family: var(--vscode-font-family); }
+        input[type=text], textarea { width: 100%; box-sizing: border-box; color: var(--vscode-input-foreground); background: var(--vscode-input-background); }
+        textarea { height: 80px; font-family: var(--vscode-editor-font-family); }
+        label { display: block; margin-top: 8px; }
+        .toolbar { margin: 8px 0; }
+        .toolbar button { margin-right: 8px; }
+        table { width: 100%; border-collapse: collapse; font-family: var(--vscode-editor-font-family); font-size: 12px; }
+        td, th { text-align: left; vertical-align: top; padding: 2px 6px; border-bottom: 1px solid rgba(128, 128, 128, 0.3); }
+        td.body { white-space: pre-wrap; word-break: break-all; }
+        tr.input td.direction { color: #3794ff; }
+        tr.upstream td.direction { color: #89d185; }
+        tr.error td.direction { color: #f48771; }
+    </style>
+</head>
+<body>
+    <h2>Edge Hub simulator on port ${Constants.simulatorPort}</h2>
+    <p>Run the modules on this machine with the environment variables of their connection strings and
+    <code>EdgeModuleCACertificateFile=${this.escapeHtml(this.certificates.caCertFile)}</code>:</p>
+    ${connectionStrings}
+    <h3>Send a message</h3>
+    <label>Target<input type="text" id="target" value="${this.escapeHtml(defaultTarget)}"></label>
+    <label>Body<textarea id="body">{}</textarea></label>
+    <label><input type="checkbox" id="binary"> The body is the base64 of a binary message</label>
+    <label>Properties (JSON object)<input type="text" id="properties" placeholder='{"key": "value"}'></label>
+    <div class="toolbar">
+        <button onclick="send()">Send</button>
+        <button onclick="post('save')">Save Sent Messages</button>
+        <button onclick="post('replay')">Replay Messages from File</button>
+        <button onclick="post('stop')">Stop Simulator</button>
+    </div>
+    <h3>Messages</h3>
+    <label>Subscriptions, e.g. /messages/modules/filter/outputs/*, $upstream (all messages if empty)<input type="text" id="subscriptions" oninput="render()"></label>
+    <label>Filter<input type="text" id="filter" oninput="render()"></label>
+    <div class="toolbar"><button onclick="entries = []; render()">Clear</button></div>
+    <table>
+        <thead><tr><th>Time</th><th></th><th>Source</th><th>Body</th><th>Properties</th></tr></thead>
+        <tbody id="log"></tbody>
+    </table>
+    <script>
+        const vscode = acquireVsCodeApi();
+        let entries = [];
+        function post(command) {
+            vscode.postMessage({ command: command });
+        }
+        function send() {
+            vscode.postMessage({
+                command: "send",
+                target: document.getElementById("target").value,
+                body: document.getElementById("body").value,
+                binary: document.getElementById("binary").checked,
+                properties: document.getElementById("properties").value,
+            });
+        }
+        function isSubscribed(entry, subscriptions) {
+            return subscriptions.length === 0 || subscriptions.some((subscription) => subscription === "$upstream"
+                ? entry.direction === "upstream"
+                : entry.source === subscription || (subscription.endsWith("*") && entry.source.startsWith(subscription.slice(0, -1))));
+        }
+        function escapeHtml(text) {
+            return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+        }
+        function render() {
+            const subscriptions = document.getElementById("subscriptions").value.split(",").map((item) => item.trim()).filter((item) => item);
+            const filter = document.getElementById("filter").value.toLowerCase();
+            document.getElementById("log").innerHTML = entries
+                .filter((entry) => isSubscribed(entry, subscriptions))
+                .filter((entry) => !filter || JSON.stringify(entry).toLowerCase().indexOf(filter) >= 0)
+                .map((entry) => '<tr class="' + entry.direction + '"><td>' + entry.time.substr(11, 12) + '</td><td class="direction">' + entry.direction
+                    + '</td><td>' + escapeHtml(entry.source) + '</td><td class="body">' + (entry.binary ? "(base64) " : "") + escapeHtml(entry.body)
+                    + '</td><td>' + escapeHtml(JSON.stringify(entry.properties)) + '</td></tr>')
+                .reverse()
+                .join("");
+        }
+        window.addEventListener("message", (event) => {
+            if (event.data.command === "log") {
+                entries.push(event.data.entry);
+                render();
+            }
+        });
+    </script>
+</body>
+</html>`;
+    }
+
+    private escapeHtml(text: string): string {
+        return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+    }
+}
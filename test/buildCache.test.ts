@@ -0,0 +1,43 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { BuildSettings } from "../src/common/buildSettings";
+import { BuildCache } from "../src/container/buildCache";
+
+suite("build cache tests", () => {
+  test("computeHash", async () => {
+    const contextPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "module-"));
+    try {
+      await fse.writeFile(path.join(contextPath, "Dockerfile"), "FROM alpine");
+      await fse.writeFile(path.join(contextPath, "main.js"), "console.log(1);");
+      await fse.writeFile(path.join(contextPath, ".dockerignore"), "bin/\n*.log\n!keep.log\n");
+      const buildSettings = new BuildSettings(path.join(contextPath, "Dockerfile"), contextPath);
+      const hash: string = await BuildCache.computeHash("module:0.0.1-amd64", buildSettings);
+
+      await fse.outputFile(path.join(contextPath, "bin", "module.dll"), "binary");
+      await fse.writeFile(path.join(contextPath, "build.log"), "log");
+      assert.equal(await BuildCache.computeHash("module:0.0.1-amd64", buildSettings), hash);
+
+      await fse.writeFile(path.join(contextPath, "keep.log"), "log");
+      const keepHash: string = await BuildCache.computeHash("module:0.0.1-amd64", buildSettings);
+      assert.notEqual(keepHash, hash);
+
+      await fse.writeFile(path.join(contextPath, "main.js"), "console.log(2);");
+      assert.notEqual(await BuildCache.computeHash("module:0.0.1-amd64", buildSettings), keepHash);
+      assert.notEqual(await BuildCache.computeHash("module:0.0.2-amd64", buildSettings), keepHash);
+
+      const cacheFile: string = path.join(contextPath, "config", ".buildcache");
+      let cache: BuildCache = await BuildCache.load(cacheFile);
+      assert.equal(cache.isBuilt("module:0.0.1-amd64", hash), false);
+      cache.setBuilt("module:0.0.1-amd64", hash);
+      await cache.save();
+      cache = await BuildCache.load(cacheFile);
+      assert.equal(cache.isBuilt("module:0.0.1-amd64", hash), true);
+      assert.equal(cache.isPushed("module:0.0.1-amd64", hash), false);
+      assert.equal(cache.isBuilt("module:0.0.1-amd64", keepHash), false);
+    } finally {
+      await fse.remove(contextPath);
+    }
+  }).timeout(60 * 1000);
+});
@@ -0,0 +1,25 @@
+import * as assert from "assert";
+import { CreateOptionsSchema } from "../src/core/createOptionsSchema";
+
+suite("createOptions schema tests", () => {
+  test("getSchema", () => {
+    assert.equal(CreateOptionsSchema.getSchema([]).type, "object");
+    assert.equal(CreateOptionsSchema.getSchema(["HostConfig", "Binds"]).type, "array");
+    assert.equal(CreateOptionsSchema.getSchema(["HostConfig", "Binds", 0]).type, "string");
+    assert.equal(CreateOptionsSchema.getSchema(["HostConfig", "PortBindings", "80/tcp"]).type, "array");
+    assert.equal(CreateOptionsSchema.getSchema(["HostConfig", "PortBindings", "80/tcp", 0, "HostPort"]).type, "string");
+    assert.deepEqual(CreateOptionsSchema.getSchema(["HostConfig", "Mounts", 0, "Type"]).enum, ["bind", "volume", "tmpfs", "npipe"]);
+    assert.equal(CreateOptionsSchema.getSchema(["Unknown"]), undefined);
+    assert.equal(CreateOptionsSchema.getSchema(["Hostname", "Unknown"]), undefined);
+  });
+
+  test("getSerializedSize", () => {
+    const createOptions = { HostConfig: { PortBindings: { "80/tcp": [{ HostPort: "8080" }] } } };
+    assert.equal(CreateOptionsSchema.getSerializedSize(createOptions), JSON.stringify(createOptions).length);
+    assert.equal(CreateOptionsSchema.getSerializedSize("{\"Env\":[\"A=${A}\"]}", (text) => text.replace("${A}", "value")), "{\"Env\":[\"A=value\"]}".length);
+    assert.equal(CreateOptionsSchema.getChunkCount(0), 1);
+    assert.equal(CreateOptionsSchema.getChunkCount(512), 1);
+    assert.equal(CreateOptionsSchema.getChunkCount(513), 2);
+    assert.equal(CreateOptionsSchema.describeSize(600), "600 of 4096 characters once serialized (2 of 8 chunks)");
+  });
+});
@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { CredentialMigrator } from "../src/core/credentialMigrator";
+import { ICredentialProvider } from "../src/core/credentialProvider";
+import { CredentialProviderFactory } from "../src/core/credentialProviderFactory";
+import { SolutionCredentialProvider } from "../src/core/solutionCredentialProvider";
+
+suite("credential provider tests", () => {
+  test("encryptedFile", async () => {
+    const credentialPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "credentials-"));
+    try {
+      const options = {
+        env: {},
+        loadKeytar: () => undefined,
+        credentialFile: path.join(credentialPath, "credentials.json"),
+        getPassphrase: async () => "passphrase",
+      };
+      let provider: ICredentialProvider = CredentialProviderFactory.create(CredentialProviderFactory.encryptedFile, options);
+      await provider.set("CONTAINER_REGISTRY_USERNAME_myacr", "user");
+      await provider.set("CONTAINER_REGISTRY_PASSWORD_myacr", "pwd");
+      await provider.delete("CONTAINER_REGISTRY_USERNAME_myacr");
+      assert.equal((await fse.readFile(options.credentialFile, "utf8")).includes("pwd"), false);
+
+      provider = CredentialProviderFactory.create(CredentialProviderFactory.encryptedFile, options);
+      assert.deepEqual(await provider.getAll(), { CONTAINER_REGISTRY_PASSWORD_myacr: "pwd" });
+
+      options.getPassphrase = async () => "wrong";
+      provider = CredentialProviderFactory.create(CredentialProviderFactory.encryptedFile, options);
+      let error: Error;
+      try {
+        await provider.get("CONTAINER_REGISTRY_PASSWORD_myacr");
+      } catch (err) {
+        error = err;
+      }
+      assert.equal(error.message.includes("passphrase may be wrong"), true);
+
+      options.getPassphrase = async () => { throw new Error("the keys are listed without the passphrase"); };
+      provider = CredentialProviderFactory.create(CredentialProviderFactory.encryptedFile, options);
+      assert.deepEqual(await provider.getKeys(), ["CONTAINER_REGISTRY_PASSWORD_myacr"]);
+    } finally {
+      await fse.remove(credentialPath);
+    }
+  }).timeout(60 * 1000);
+
+  test("solution scope", async () => {
+    const credentialPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "credentials-"));
+    try {
+      const options = { env: {}, loadKeytar: () => undefined, credentialFile: path.join(credentialPath, "credentials.json"), getPassphrase: async () => "passphrase" };
+      const shared: ICredentialProvider = CredentialProviderFactory.create(CredentialProviderFactory.encryptedFile, options);
+      await shared.set("HUB_USER", "legacy");
+      let changes: number = 0;
+      const sln1: ICredentialProvider = new SolutionCredentialProvider(shared, path.join(credentialPath, "sln1"), () => changes++);
+      const sln2: ICredentialProvider = CredentialProviderFactory.createForSolution(CredentialProviderFactory.encryptedFile, options, path.join(credentialPath, "sln2"));
+      await sln1.set("CONTAINER_REGISTRY_PASSWORD_myacr", "pwd1");
+      await sln2.set("CONTAINER_REGISTRY_PASSWORD_myacr", "pwd2");
+      assert.deepEqual(await sln1.getAll(), { HUB_USER: "legacy", CONTAINER_REGISTRY_PASSWORD_myacr: "pwd1" });
+      assert.equal(await sln2.get("CONTAINER_REGISTRY_PASSWORD_myacr"), "pwd2");
+
+      await sln1.delete("CONTAINER_REGISTRY_PASSWORD_myacr");
+      await sln1.delete("HUB_USER");
+      assert.deepEqual(await sln1.getAll(), { HUB_USER: "legacy" });
+      assert.equal(changes, 3);
+      assert.deepEqual(await sln2.getAll(), { HUB_USER: "legacy", CONTAINER_REGISTRY_PASSWORD_myacr: "pwd2" });
+      assert.deepEqual((await sln2.getKeys()).sort(), ["CONTAINER_REGISTRY_PASSWORD_myacr", "HUB_USER"]);
+      assert.deepEqual(await sln1.getKeys(), ["HUB_USER"]);
+      assert.ok(!CredentialProviderFactory.createForSolution(CredentialProviderFactory.environment, options, credentialPath).canStore);
+    } finally {
+      await fse.remove(credentialPath);
+    }
+  }).timeout(60 * 1000);
+
+  test("environment", async () => {
+    const provider: ICredentialProvider = CredentialProviderFactory.create(CredentialProviderFactory.environment,
+      { env: { SECRET: "value" }, loadKeytar: () => undefined, credentialFile: undefined, getPassphrase: undefined });
+    assert.equal(provider.canStore, false);
+    assert.equal(await provider.get("SECRET"), "value");
+    assert.equal(CredentialProviderFactory.create(CredentialProviderFactory.envFile, undefined), undefined);
+  });
+
+  test("extractSecrets", () => {
+    const templateJson = {
+      modulesContent: {
+        $edgeAgent: {
+          "properties.desired": {
+            runtime: { settings: { registryCredentials: { hub: { username: "$HUB_USER", password: "${HUB_PASSWORD}", address: "docker.io" } } } },
+          },
+        },
+      },
+    };
+    const secretKeys: Set<string> = CredentialMigrator.getSecretKeys([templateJson]);
+    assert.deepEqual([...secretKeys], ["HUB_USER", "HUB_PASSWORD"]);
+
+    const envContent: string = "HUB_USER=user\nHUB_PASSWORD=\nCONTAINER_REGISTRY_PASSWORD_myacr=\"p=wd\"\nIMAGE=tempSensor\n";
+    const { content, secrets } = CredentialMigrator.extractSecrets(envContent,
+      (key) => secretKeys.has(key) || CredentialMigrator.isRegistryCredential(key), "OS keychain");
+    assert.deepEqual(secrets, { HUB_USER: "user", CONTAINER_REGISTRY_PASSWORD_myacr: "p=wd" });
+    assert.equal(content, "# HUB_USER is stored in the OS keychain credential store\nHUB_PASSWORD=\n" +
+      "# CONTAINER_REGISTRY_PASSWORD_myacr is stored in the OS keychain credential store\nIMAGE=tempSensor\n");
+  });
+});
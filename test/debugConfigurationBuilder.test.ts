@@ -0,0 +1,95 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { Constants } from "../src/common/constants";
+import { DebugConfigurationBuilder, IDebugModule } from "../src/core/debugConfigurationBuilder";
+import { TemplatePack } from "../src/core/templatePack";
+
+suite("debug configuration builder tests", () => {
+  const templateJson = {
+    modulesContent: {
+      $edgeAgent: {
+        "properties.desired": {
+          modules: {
+            filter: {
+              settings: {
+                image: "${MODULES.FilterModule.debug}",
+                createOptions: { HostConfig: { PortBindings: { "9229/tcp": [{ HostPort: "9229" }] } } },
+              },
+            },
+            sensor: {
+              settings: {
+                image: "${MODULES.sensor.debug}",
+                createOptions: "{\"HostConfig\":{\"PortBindings\":{\"9229/tcp\":[{\"HostPort\":\"9230\"}],\"5678/tcp\":[{\"HostPort\":\"5678\"}]}}}",
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  test("ports", () => {
+    assert.equal(DebugConfigurationBuilder.getHostPort(templateJson, "filter", 9229), 9229);
+    assert.equal(DebugConfigurationBuilder.getHostPort(templateJson, "sensor", 9229), 9230);
+    assert.equal(DebugConfigurationBuilder.getHostPort(templateJson, "filter", 5678), undefined);
+    assert.equal(DebugConfigurationBuilder.getHostPort(templateJson, "unknown", 9229), undefined);
+    const usedPorts: number[] = DebugConfigurationBuilder.getUsedHostPorts(templateJson);
+    assert.deepEqual(usedPorts, [9229, 9230, 5678]);
+    assert.equal(DebugConfigurationBuilder.allocateHostPort(9229, usedPorts), 9231);
+    assert.equal(DebugConfigurationBuilder.allocateHostPort(5005, usedPorts), 5005);
+  });
+
+  test("template pack ports", async () => {
+    const pack: TemplatePack = await TemplatePack.load(path.resolve(__dirname, "../../assets/templatePacks/nodejs"), "extension");
+    const values: Map<string, string> = new Map([[Constants.moduleNamePlaceholder, "third"], [Constants.moduleFolderPlaceholder, "third"]]);
+    const usedPorts: number[] = DebugConfigurationBuilder.getUsedHostPorts(templateJson);
+    const { createOptions, hostPorts } = DebugConfigurationBuilder.allocateHostPorts(pack.getCreateOptions(values, true), usedPorts);
+    assert.deepEqual(createOptions.HostConfig.PortBindings, { "9229/tcp": [{ HostPort: "9231" }] });
+    assert.deepEqual(hostPorts, { 9229: 9231 });
+    assert.deepEqual(usedPorts, [9229, 9230, 5678, 9231]);
+    assert.equal(DebugConfigurationBuilder.allocateHostPorts(pack.getCreateOptions(values, true), usedPorts).hostPorts[9229], 9232);
+
+    const launchConfig = await pack.getLaunchConfig(values);
+    DebugConfigurationBuilder.updateAttachPorts(launchConfig.configurations, hostPorts);
+    assert.deepEqual(launchConfig.configurations.map((config) => config.port), [9231, undefined]);
+  });
+
+  test("configurations", async () => {
+    const launchTemplate = await fse.readJson(path.join(__dirname, "../../assets/solution", Constants.launchNode));
+    const module: IDebugModule = { name: "filter", folder: "FilterModule", language: Constants.LANGUAGE_NODE, hostPort: 9231 };
+    const configurations: any[] = DebugConfigurationBuilder.getConfigurations(launchTemplate, module);
+    assert.equal(configurations[0].name, "filter Remote Debug (Node.js)");
+    assert.equal(configurations[0].port, 9231);
+    assert.equal(configurations[0].localRoot, "${workspaceRoot}/modules/FilterModule");
+    assert.equal(configurations[2].program, "${workspaceRoot}/modules/FilterModule/app.js");
+
+    assert.deepEqual(DebugConfigurationBuilder.getOnDemandConfigurations(launchTemplate, module)[0],
+      { name: "filter Remote Debug (Node.js)", type: Constants.edgeDebugType, request: "attach", module: "filter" });
+    assert.equal(DebugConfigurationBuilder.resolve(launchTemplate, module, "filter Local Debug (Node.js)", "launch").request, "launch");
+    const renamed = DebugConfigurationBuilder.resolve(launchTemplate, module, "Debug filter", "attach");
+    assert.equal(renamed.name, "Debug filter");
+    assert.equal(renamed.type, "node");
+
+    const functionTemplate = await fse.readJson(path.join(__dirname, "../../assets/solution", Constants.launchCSharp));
+    const functionModule: IDebugModule = { name: "func", folder: "func", language: Constants.CSHARP_FUNCTION };
+    assert.deepEqual(DebugConfigurationBuilder.getConfigurations(functionTemplate, functionModule).map((config) => config.request), ["attach"]);
+    assert.equal(DebugConfigurationBuilder.resolve(functionTemplate, functionModule, undefined, "launch"), undefined);
+  });
+
+  test("getLanguage and getGroupId", async () => {
+    const modulePath: string = await fse.mkdtemp(path.join(os.tmpdir(), "debug-"));
+    try {
+      await fse.writeFile(path.join(modulePath, "pom.xml"), "<project><groupId> com.edgemodule </groupId></project>");
+      assert.equal(await DebugConfigurationBuilder.getLanguage(modulePath), Constants.LANGUAGE_JAVA);
+      assert.equal(await DebugConfigurationBuilder.getGroupId(modulePath), "com.edgemodule");
+
+      await fse.writeJson(path.join(modulePath, Constants.moduleManifest), { language: "csharp" });
+      await fse.writeJson(path.join(modulePath, "host.json"), {});
+      assert.equal(await DebugConfigurationBuilder.getLanguage(modulePath), Constants.CSHARP_FUNCTION);
+    } finally {
+      await fse.remove(modulePath);
+    }
+  });
+});
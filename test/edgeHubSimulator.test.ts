@@ -0,0 +1,165 @@
+import * as assert from "assert";
+import * as net from "net";
+import { EdgeHubSimulator } from "../src/simulator/edgeHubSimulator";
+import { IMqttPacket, MqttCodec, MqttPacketType } from "../src/simulator/mqttCodec";
+
+// A minimal MQTT client of a module, which collects the packets it receives
+class TestModuleClient {
+  public readonly packets: IMqttPacket[] = [];
+  private readonly socket: net.Socket;
+  private readonly codec: MqttCodec = new MqttCodec();
+  private waiters: Array<() => void> = [];
+
+  constructor(port: number) {
+    this.socket = net.connect(port, "127.0.0.1");
+    this.socket.on("data", (chunk: Buffer) => {
+      this.packets.push(...this.codec.decode(chunk));
+      this.waiters.forEach((waiter) => waiter());
+    });
+  }
+
+  public send(packet: IMqttPacket): void {
+    this.socket.write(MqttCodec.encode(packet));
+  }
+
+  public waitFor(predicate: (packet: IMqttPacket) => boolean): Promise<IMqttPacket> {
+    return new Promise((resolve) => {
+      const check = () => {
+        const packet: IMqttPacket = this.packets.find(predicate);
+        if (packet) {
+          this.waiters = this.waiters.filter((waiter) => waiter !== check);
+          resolve(packet);
+        }
+      };
+      this.waiters.push(check);
+      check();
+    });
+  }
+
+  public close(): void {
+    this.socket.destroy();
+  }
+}
+
+suite("edge hub simulator tests", () => {
+  let simulator: EdgeHubSimulator;
+  let client: TestModuleClient;
+  let port: number;
+
+  setup(async () => {
+    simulator = new EdgeHubSimulator({ deviceId: "device" });
+    port = await simulator.start();
+    client = new TestModuleClient(port);
+    client.send({ type: MqttPacketType.Connect, clientId: "device/filter", username: "localhost/device/filter/?api-version=2018-06-30", password: "sas" });
+    await client.waitFor((packet) => packet.type === MqttPacketType.Connack);
+  });
+
+  teardown(async () => {
+    client.close();
+    await simulator.stop();
+  });
+
+  test("codec", () => {
+    const codec: MqttCodec = new MqttCodec();
+    const payload: Buffer = Buffer.alloc(200, "a");
+    const encoded: Buffer = MqttCodec.encode({ type: MqttPacketType.Publish, topic: "a/b", qos: 1, packetId: 7, payload });
+    assert.deepEqual(codec.decode(encoded.slice(0, 2)), []);
+    const packets: IMqttPacket[] = codec.decode(Buffer.concat([encoded.slice(2), MqttCodec.encode({ type: MqttPacketType.Pingreq })]));
+    assert.equal(packets.length, 2);
+    assert.equal(packets[0].topic, "a/b");
+    assert.equal(packets[0].qos, 1);
+    assert.equal(packets[0].packetId, 7);
+    assert.deepEqual(packets[0].payload, payload);
+    assert.equal(packets[1].type, MqttPacketType.Pingreq);
+  });
+
+  test("matchTopic and parsePropertyBag", () => {
+    assert.ok(EdgeHubSimulator.matchTopic("devices/d/modules/m/inputs/#", "devices/d/modules/m/inputs/input1/"));
+    assert.ok(EdgeHubSimulator.matchTopic("a/+/c", "a/b/c"));
+    assert.ok(!EdgeHubSimulator.matchTopic("a/+/c", "a/b/d"));
+    assert.ok(!EdgeHubSimulator.matchTopic("a/b", "a/b/c"));
+    assert.deepEqual(EdgeHubSimulator.parsePropertyBag("%24.on=output1&key=a%20b&flag"), { "$.on": "output1", "key": "a b", "flag": "" });
+  });
+
+  test("deliver inputs and capture outputs", async () => {
+    simulator.sendInput("filter", "input1", { temperature: 30 }, { source: "test" });
+    client.send({ type: MqttPacketType.Subscribe, packetId: 1, subscriptions: [{ topic: "devices/device/modules/filter/inputs/#", qos: 1 }] });
+    const input: IMqttPacket = await client.waitFor((packet) => packet.type === MqttPacketType.Publish);
+    assert.equal(input.topic, "devices/device/modules/filter/inputs/input1/source=test");
+    assert.deepEqual(JSON.parse(input.payload.toString()), { temperature: 30 });
+
+    client.send({ type: MqttPacketType.Publish, topic: "devices/device/modules/filter/messages/events/%24.on=output1&alert=true", qos: 1, packetId: 2,
+      payload: Buffer.from("{\"temperature\":30}") });
+    const output = await simulator.waitForOutput("filter", "output1", 2000);
+    assert.equal(output.body.toString(), "{\"temperature\":30}");
+    assert.deepEqual(output.properties, { alert: "true" });
+    assert.deepEqual(output.systemProperties, { "$.on": "output1" });
+    await client.waitFor((packet) => packet.type === MqttPacketType.Puback && packet.packetId === 2);
+    assert.equal(simulator.outputs.length, 1);
+
+    let timedOut: boolean = false;
+    await simulator.waitForOutput("filter", "output2", 10).catch((error) => timedOut = /No output output2/.test(error.message));
+    assert.ok(timedOut);
+  });
+
+  test("routes", async () => {
+    simulator.setRoutes({
+      loop: "FROM /messages/modules/filter/outputs/output1 INTO BrokeredEndpoint(\"/modules/filter/inputs/loop\")",
+      upstream: { route: "FROM /messages/* INTO $upstream" },
+      invalid: "FROM /unknown INTO $upstream",
+    });
+    assert.ok(EdgeHubSimulator.matchSource("/messages/modules/filter/*", "filter", "output1"));
+    assert.ok(!EdgeHubSimulator.matchSource("/messages/modules/filter/outputs/output2", "filter", "output1"));
+    assert.ok(!EdgeHubSimulator.matchSource("/messages/modules/sensor/outputs/*", "filter", "output1"));
+
+    client.send({ type: MqttPacketType.Subscribe, packetId: 1, subscriptions: [{ topic: "devices/device/modules/filter/inputs/#", qos: 0 }] });
+    await client.waitFor((packet) => packet.type === MqttPacketType.Suback);
+    client.send({ type: MqttPacketType.Publish, topic: "devices/device/modules/filter/messages/events/%24.on=output1&k=v", payload: Buffer.from("hello") });
+    const input: IMqttPacket = await client.waitFor((packet) => packet.type === MqttPacketType.Publish);
+    assert.equal(input.topic, "devices/device/modules/filter/inputs/loop/k=v");
+    assert.equal(input.payload.toString(), "hello");
+    assert.equal(simulator.upstream.length, 1);
+    assert.equal(simulator.upstream[0].name, "output1");
+  });
+
+  test("module twin", async () => {
+    simulator.setDesiredProperties("filter", { threshold: 25 });
+    client.send({ type: MqttPacketType.Subscribe, packetId: 1, subscriptions: [{ topic: "$iothub/twin/res/#", qos: 0 }, { topic: "$iothub/twin/PATCH/properties/desired/#", qos: 0 }] });
+    await client.waitFor((packet) => packet.type === MqttPacketType.Suback);
+
+    client.send({ type: MqttPacketType.Publish, topic: "$iothub/twin/GET/?$rid=1" });
+    const twin: IMqttPacket = await client.waitFor((packet) => packet.topic === "$iothub/twin/res/200/?$rid=1");
+    assert.deepEqual(JSON.parse(twin.payload.toString()), { desired: { threshold: 25, $version: 2 }, reported: { $version: 1 } });
+
+    client.send({ type: MqttPacketType.Publish, topic: "$iothub/twin/PATCH/properties/reported/?$rid=2", payload: Buffer.from("{\"status\":\"ok\"}") });
+    await client.waitFor((packet) => packet.topic === "$iothub/twin/res/204/?$rid=2&$version=2");
+    assert.deepEqual(simulator.getTwin("filter").reported, { status: "ok", $version: 2 });
+
+    simulator.setDesiredProperties("filter", { threshold: null, mode: "fast" });
+    const patch: IMqttPacket = await client.waitFor((packet) => packet.topic === "$iothub/twin/PATCH/properties/desired/?$version=3");
+    assert.deepEqual(JSON.parse(patch.payload.toString()), { threshold: null, mode: "fast", $version: 3 });
+    assert.deepEqual(simulator.getTwin("filter").desired, { mode: "fast", $version: 3 });
+  });
+
+  test("malformed twin patches and packets", async () => {
+    const errors: string[] = [];
+    simulator.on("clientError", (clientId: string) => errors.push(clientId));
+    client.send({ type: MqttPacketType.Subscribe, packetId: 1, subscriptions: [{ topic: "$iothub/twin/res/#", qos: 0 }] });
+    await client.waitFor((packet) => packet.type === MqttPacketType.Suback);
+
+    client.send({ type: MqttPacketType.Publish, topic: "$iothub/twin/PATCH/properties/reported/?$rid=1", payload: Buffer.from("{not json") });
+    await client.waitFor((packet) => packet.topic === "$iothub/twin/res/400/?$rid=1");
+    assert.deepEqual(simulator.getTwin("filter").reported, { $version: 1 });
+    assert.deepEqual(errors, ["device/filter"]);
+
+    // a malformed packet closes only the connection of its client
+    const other: net.Socket = net.connect(port, "127.0.0.1");
+    await new Promise((resolve) => other.on("connect", resolve));
+    other.write(Buffer.from([0x30, 0xff, 0xff, 0xff, 0xff, 0xff]));
+    await new Promise((resolve) => other.on("close", resolve));
+    assert.equal(errors.length, 2);
+
+    client.send({ type: MqttPacketType.Publish, topic: "$iothub/twin/GET/?$rid=2" });
+    await client.waitFor((packet) => packet.topic === "$iothub/twin/res/200/?$rid=2");
+  });
+});
@@ -0,0 +1,35 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { EnvProfiles } from "../src/core/envProfiles";
+import { IEnvironment } from "../src/core/manifestGenerator";
+
+suite("env profiles tests", () => {
+  test("list and load", async () => {
+    const slnPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "sln-"));
+    try {
+      await fse.writeFile(path.join(slnPath, ".env"), "REGISTRY=localhost:5000\nLOG_LEVEL=debug\n");
+      await fse.writeFile(path.join(slnPath, ".env.prod"), "REGISTRY=contoso.azurecr.io\n");
+      await fse.writeFile(path.join(slnPath, ".env.dev"), "");
+      await fse.writeFile(path.join(slnPath, ".env.bak.old"), "");
+      assert.deepEqual(await EnvProfiles.list(slnPath), ["dev", "prod"]);
+      assert.deepEqual(await EnvProfiles.list(path.join(slnPath, "missing")), []);
+
+      const baseEnv: IEnvironment = { REGISTRY: "base", HOME: "/home/user" };
+      const env: IEnvironment = await EnvProfiles.load(slnPath, "prod", baseEnv);
+      assert.deepEqual(env, { REGISTRY: "contoso.azurecr.io", LOG_LEVEL: "debug", HOME: "/home/user" });
+      assert.equal(baseEnv.REGISTRY, "base");
+      assert.equal((await EnvProfiles.load(slnPath, undefined, baseEnv)).REGISTRY, "localhost:5000");
+
+      let error: Error;
+      await EnvProfiles.load(slnPath, "test").catch((e) => error = e);
+      assert.ok(error.message.indexOf(".env.test") >= 0);
+      error = undefined;
+      await EnvProfiles.loadProfile(slnPath, "../prod", {}).catch((e) => error = e);
+      assert.ok(error);
+    } finally {
+      await fse.remove(slnPath);
+    }
+  });
+});
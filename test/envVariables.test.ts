@@ -0,0 +1,66 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { Constants } from "../src/common/constants";
+import { EnvVariables, IEnvReference } from "../src/core/envVariables";
+import { ManifestGenerator } from "../src/core/manifestGenerator";
+
+suite("env variables tests", () => {
+  test("findReferences and getUnresolved", () => {
+    const text: string = JSON.stringify({
+      "$schema-template": "1.0.0",
+      "modulesContent": {
+        $edgeAgent: { address: "$CONTAINER_REGISTRY_ADDRESS", password: "${CONTAINER_REGISTRY_PASSWORD}", image: "${MODULES.filter}" },
+        $edgeHub: { routes: { upstream: "FROM /* INTO $upstream" } },
+      },
+    });
+    const references: IEnvReference[] = EnvVariables.findReferences(text, ...ManifestGenerator.templateExceptKeys);
+    assert.deepEqual(references.map((reference) => reference.name), ["CONTAINER_REGISTRY_ADDRESS", "CONTAINER_REGISTRY_PASSWORD"]);
+    assert.equal(text.substr(references[1].offset, references[1].length), "${CONTAINER_REGISTRY_PASSWORD}");
+    assert.equal(EnvVariables.findReferences(text).length, 6);
+
+    const unresolved: IEnvReference[] = EnvVariables.getUnresolved(text, { CONTAINER_REGISTRY_ADDRESS: "localhost:5000", CONTAINER_REGISTRY_PASSWORD: "" },
+      ...ManifestGenerator.templateExceptKeys);
+    assert.deepEqual(unresolved.map((reference) => reference.name), ["CONTAINER_REGISTRY_PASSWORD"]);
+    assert.deepEqual(EnvVariables.findReferences("{\"$schema-version\": \"0.0.1\"}", Constants.moduleSchemaVersion), []);
+
+    assert.equal(EnvVariables.getReferenceAt(text, references[0].offset + 3).name, "CONTAINER_REGISTRY_ADDRESS");
+    assert.equal(EnvVariables.getReferenceAt(text, 0), undefined);
+  });
+
+  test("getCompletionContext", () => {
+    assert.deepEqual(EnvVariables.getCompletionContext("\"address\": \"$CONT"), { prefix: "CONT", start: 12, braced: false });
+    assert.deepEqual(EnvVariables.getCompletionContext("\"address\": \"${"), { prefix: "", start: 12, braced: true });
+    assert.equal(EnvVariables.getCompletionContext("\"address\": \"localhost"), undefined);
+  });
+
+  test("secrets", () => {
+    assert.ok(EnvVariables.isSecret("CONTAINER_REGISTRY_PASSWORD"));
+    assert.ok(EnvVariables.isSecret("IOTHUB_CONNECTION_STRING"));
+    assert.ok(!EnvVariables.isSecret("CONTAINER_REGISTRY_ADDRESS"));
+    assert.equal(EnvVariables.formatValue("STORAGE_KEY", "abc"), EnvVariables.maskedValue);
+    assert.equal(EnvVariables.formatValue("CONTAINER_REGISTRY_ADDRESS", "localhost:5000"), "localhost:5000");
+  });
+
+  test("getAppendText and findLine", () => {
+    assert.equal(EnvVariables.getAppendText("", "A"), "A=\n");
+    assert.equal(EnvVariables.getAppendText("B=1", "A"), "\nA=\n");
+    assert.equal(EnvVariables.getAppendText("B=1\r\n", "A"), "A=\r\n");
+    assert.equal(EnvVariables.getAppendText("A=\nB=1\n", "A"), "");
+    assert.equal(EnvVariables.findLine("# comment\nB=1\n A = 2\n", "A"), 2);
+    assert.equal(EnvVariables.findLine("AB=1\n", "A"), -1);
+  });
+
+  test("getDefinedNames", async () => {
+    const slnPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "sln-"));
+    try {
+      await fse.writeFile(path.join(slnPath, ".env"), "REGISTRY=localhost:5000\nLOG_LEVEL=debug\n");
+      await fse.writeFile(path.join(slnPath, ".env.prod"), "REGISTRY=contoso.azurecr.io\nREGISTRY_PASSWORD=\n");
+      assert.deepEqual(await EnvVariables.getDefinedNames(slnPath), ["LOG_LEVEL", "REGISTRY", "REGISTRY_PASSWORD"]);
+      assert.deepEqual(await EnvVariables.getDefinedNames(path.join(slnPath, "missing")), []);
+    } finally {
+      await fse.remove(slnPath);
+    }
+  });
+});
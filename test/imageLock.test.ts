@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ImageLock } from "../src/core/imageLock";
+import { IDeploymentInfo } from "../src/core/manifestGenerator";
+
+suite("image lock tests", () => {
+  function getManifest(filterImage: string): any {
+    return {
+      modulesContent: {
+        $edgeAgent: {
+          "properties.desired": {
+            runtime: { settings: { registryCredentials: { hub: { username: "user", password: "pwd", address: "myregistry.io" } } } },
+            systemModules: { edgeAgent: { settings: { image: "mcr.microsoft.com/azureiotedge-agent:1.0" } } },
+            modules: {
+              filter: { settings: { image: filterImage } },
+              pinned: { settings: { image: "myregistry.io/pinned:1.0@sha256:0" } },
+            },
+          },
+        },
+      },
+    };
+  }
+
+  test("pin", async () => {
+    const slnPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "imagelock-"));
+    try {
+      const lockFile: string = ImageLock.getLockFile(path.join(slnPath, "deployment.template.json"));
+      assert.equal(lockFile, path.join(slnPath, "deployment.template.lock.json"));
+      const deployment: IDeploymentInfo = {
+        manifestObj: getManifest("myregistry.io/filter:0.0.1-amd64"),
+        manifestFile: path.join(slnPath, "deployment.amd64.json"),
+        overlays: [],
+      };
+      assert.deepEqual(ImageLock.getImages(deployment.manifestObj), ["mcr.microsoft.com/azureiotedge-agent:1.0", "myregistry.io/filter:0.0.1-amd64"]);
+      assert.deepEqual(ImageLock.getRegistryCredentials(deployment.manifestObj).get("myregistry.io"), { username: "user", password: "pwd" });
+
+      let count: number = 0;
+      const resolveDigest = async (image: string) => `sha256:${++count}`;
+      let lock: ImageLock = await ImageLock.load(lockFile);
+      await lock.pin(deployment, resolveDigest, false);
+      await lock.save();
+      const modules = (await fse.readJson(deployment.manifestFile)).modulesContent.$edgeAgent["properties.desired"].modules;
+      assert.equal(modules.filter.settings.image, "myregistry.io/filter:0.0.1-amd64@sha256:2");
+      assert.equal(modules.pinned.settings.image, "myregistry.io/pinned:1.0@sha256:0");
+      assert.deepEqual(await fse.readJson(lockFile), {
+        version: 1,
+        images: { "mcr.microsoft.com/azureiotedge-agent:1.0": "sha256:1", "myregistry.io/filter:0.0.1-amd64": "sha256:2" },
+      });
+
+      // the locked digests are used unless they are refreshed
+      lock = await ImageLock.load(lockFile);
+      deployment.manifestObj = getManifest("myregistry.io/filter:0.0.1-amd64");
+      assert.deepEqual(await lock.pin(deployment, resolveDigest, false), []);
+      assert.equal(lock.get("myregistry.io/filter:0.0.1-amd64"), "sha256:2");
+      deployment.manifestObj = getManifest("myregistry.io/filter:0.0.1-amd64");
+      assert.deepEqual(await lock.pin(deployment, resolveDigest, true), ["mcr.microsoft.com/azureiotedge-agent:1.0", "myregistry.io/filter:0.0.1-amd64"]);
+      assert.equal(lock.get("myregistry.io/filter:0.0.1-amd64"), "sha256:4");
+    } finally {
+      await fse.remove(slnPath);
+    }
+  });
+});
@@ -0,0 +1,35 @@
+import * as assert from "assert";
+import { JsonEditor } from "../src/core/jsonEditor";
+
+suite("json editor tests", () => {
+  test("update keeps comments and formatting", () => {
+    const text: string = [
+      "{",
+      "    // the modules",
+      "    \"modules\": {",
+      "        \"sample\": { \"image\": \"${MODULES.sample}\" }, // renamed",
+      "        \"sensor\": { \"image\": \"sensor:1.0\" }",
+      "    },",
+      "    \"routes\": {",
+      "        /* removed */",
+      "        \"sampleToUpstream\": \"FROM /messages/modules/sample/* INTO $upstream\",",
+      "        \"upstream\": \"FROM /messages/* INTO $upstream\"",
+      "    },",
+      "    \"configurations\": [ { \"name\": \"a\" }, { \"name\": \"b\" }, { \"name\": \"c\" } ]",
+      "}",
+    ].join("\r\n");
+    const json = { modules: { filter: { image: "${MODULES.filter}" }, sensor: { image: "sensor:1.0" } },
+      routes: { upstream: "FROM /messages/* INTO $upstream" },
+      configurations: [{ name: "a" }, { name: "c" }], version: 1 };
+
+    const updated: string = JsonEditor.update(text, json);
+    assert.ok(updated.indexOf("// the modules") >= 0);
+    assert.ok(updated.indexOf("\"filter\": { \"image\": \"${MODULES.filter}\" }, // renamed\r\n") >= 0);
+    assert.ok(updated.indexOf("sampleToUpstream") < 0);
+    assert.ok(updated.indexOf("\"upstream\": \"FROM /messages/* INTO $upstream\"") >= 0);
+    assert.ok(updated.indexOf("\"version\": 1") >= 0);
+    assert.ok(!/[^\r]\n/.test(updated));
+    assert.deepEqual(JSON.parse(updated.replace(/\/\/.*|\/\*.*\*\//g, "")), json);
+    assert.equal(JsonEditor.update(text, JSON.parse(text.replace(/\/\/.*|\/\*.*\*\//g, ""))), text);
+  });
+});
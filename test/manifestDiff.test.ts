@@ -0,0 +1,62 @@
+import * as assert from "assert";
+import { IManifestChange, ManifestChangeKind, ManifestDiff } from "../src/core/manifestDiff";
+import { ManifestGenerator } from "../src/core/manifestGenerator";
+
+suite("manifest diff tests", () => {
+  function getManifest(modules: any, routes: any, twins: any = {}): any {
+    return ManifestGenerator.convertCreateOptions({
+      modulesContent: Object.assign({
+        $edgeAgent: {
+          "properties.desired": {
+            schemaVersion: "1.0",
+            runtime: { type: "docker", settings: { minDockerVersion: "v1.25" } },
+            systemModules: { edgeHub: { type: "docker", settings: { image: "mcr.microsoft.com/azureiotedge-hub:1.0" } } },
+            modules,
+          },
+        },
+        $edgeHub: { "properties.desired": { schemaVersion: "1.0", routes } },
+      }, twins),
+    });
+  }
+
+  test("joinCreateOptions", () => {
+    const env: string[] = [];
+    for (let i = 0; i < 100; i++) {
+      env.push(`VARIABLE_${i}=value`);
+    }
+    const settings = ManifestGenerator.serializeCreateOptions({ image: "filter" }, { Env: env });
+    assert.equal(settings.createOptions01 !== undefined, true);
+    assert.deepEqual(ManifestDiff.joinCreateOptions(settings), { image: "filter", createOptions: { Env: env } });
+  });
+
+  test("compare", () => {
+    const oldManifest = getManifest({
+      filter: { settings: { image: "localhost:5000/filter:0.0.1-amd64", createOptions: { Env: ["A=1", "B=2"], HostConfig: { Privileged: true } } } },
+      sensor: { settings: { image: "sensor:1.0" } },
+    }, { sensorToFilter: "FROM /messages/modules/sensor/* INTO BrokeredEndpoint(\"/modules/filter/inputs/input1\")", upstream: "FROM /* INTO $upstream" },
+      { filter: { "properties.desired": { threshold: 25 } } });
+    const newManifest = getManifest({
+      filter: { settings: { image: "localhost:5000/filter:0.0.2-amd64", createOptions: { Env: ["A=1", "C=3"], HostConfig: { Privileged: false } } } },
+      logger: { settings: { image: "logger:1.0" } },
+    }, { upstream: "FROM /messages/* INTO $upstream" }, { filter: { "properties.desired": { threshold: 30 } } });
+    newManifest.modulesContent.$edgeAgent["properties.desired"].runtime.settings.minDockerVersion = "v1.26";
+
+    const changes: IManifestChange[] = ManifestDiff.compare(oldManifest, newManifest);
+    const find = (section: string, path: string, kind: ManifestChangeKind) => changes.find((change) => change.section === section && change.path === path && change.kind === kind);
+    assert.equal(find(ManifestDiff.modulesSection, "filter.settings.image", ManifestChangeKind.Changed).newValue, "localhost:5000/filter:0.0.2-amd64");
+    assert.equal(find(ManifestDiff.modulesSection, "filter.settings.createOptions.Env[]", ManifestChangeKind.Removed).oldValue, "B=2");
+    assert.equal(find(ManifestDiff.modulesSection, "filter.settings.createOptions.Env[]", ManifestChangeKind.Added).newValue, "C=3");
+    assert.equal(find(ManifestDiff.modulesSection, "filter.settings.createOptions.HostConfig.Privileged", ManifestChangeKind.Changed).newValue, false);
+    assert.equal(find(ManifestDiff.modulesSection, "sensor", ManifestChangeKind.Removed).oldValue, "sensor:1.0");
+    assert.equal(find(ManifestDiff.modulesSection, "logger", ManifestChangeKind.Added).newValue, "logger:1.0");
+    assert.notEqual(find(ManifestDiff.routesSection, "sensorToFilter", ManifestChangeKind.Removed), undefined);
+    assert.equal(find(ManifestDiff.routesSection, "upstream", ManifestChangeKind.Changed).newValue, "FROM /messages/* INTO $upstream");
+    assert.equal(find(ManifestDiff.twinsSection, "filter.properties.desired.threshold", ManifestChangeKind.Changed).newValue, 30);
+    assert.equal(find(ManifestDiff.otherSection, "modulesContent.$edgeAgent.properties.desired.runtime.settings.minDockerVersion", ManifestChangeKind.Changed).newValue, "v1.26");
+    assert.equal(changes.length, 10);
+
+    assert.deepEqual(ManifestDiff.compare(oldManifest, JSON.parse(JSON.stringify(oldManifest))), []);
+    const markdown: string = ManifestDiff.toMarkdown(changes, "old.json", "new.json");
+    assert.equal(markdown.includes("- **changed** `filter.settings.image`: `\"localhost:5000/filter:0.0.1-amd64\"` → `\"localhost:5000/filter:0.0.2-amd64\"`"), true);
+  });
+});
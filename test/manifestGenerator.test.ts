@@ -0,0 +1,92 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { BuildSettings } from "../src/common/buildSettings";
+import { DockerCommand } from "../src/core/dockerCommand";
+import { IDeploymentInfo, ManifestGenerator } from "../src/core/manifestGenerator";
+
+suite("manifest generator tests", () => {
+  test("expandEnv", () => {
+    const generated: string = ManifestGenerator.expandEnv("$IMAGE ${TAG} $edgeHub $UNDEFINED", { IMAGE: "image", TAG: "tag", edgeHub: "hub" }, "$edgeHub");
+    assert.equal(generated, "image tag $edgeHub $UNDEFINED");
+  });
+
+  test("setModuleMap", async () => {
+    const moduleDir = path.resolve(__dirname, "../../testResources/module1");
+    const moduleToImageMap: Map<string, string> = new Map();
+    const imageToBuildSettings: Map<string, BuildSettings> = new Map();
+    await ManifestGenerator.setModuleMap(moduleDir, "amd64", {}, moduleToImageMap, imageToBuildSettings);
+    assert.equal(moduleToImageMap.get("MODULES.module1"), "localhost:5000/samplemodule:0.0.1-amd64");
+    assert.equal(moduleToImageMap.get("MODULES.module1.debug"), "localhost:5000/samplemodule:0.0.1-amd64.debug");
+    const buildCmd: string = DockerCommand.constructBuildCmd("localhost:5000/samplemodule:0.0.1-amd64", imageToBuildSettings.get("localhost:5000/samplemodule:0.0.1-amd64"));
+    assert.equal(buildCmd.startsWith("docker build --add-host=github.com:192.30.255.112 --add-host=ports.ubuntu.com:91.189.88.150 --file-test --rm -f"), true);
+  }).timeout(60 * 1000);
+
+  test("generateDeployment", async () => {
+    const configPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "config-"));
+    try {
+      const templateFile = path.resolve(__dirname, "../../testResources/deployment.template.json");
+      const moduleToImageMap: Map<string, string> = new Map([["MODULES.SampleModule.amd64", "test.az.io/filter:0.0.1-amd64"]]);
+      const deployment: IDeploymentInfo = await ManifestGenerator.generateDeployment(templateFile, configPath, "arm32v7", { IMAGE: "microsoft/tempSensor:1.0.0" }, moduleToImageMap);
+      assert.equal(path.basename(deployment.manifestFile), "deployment.json");
+      const modules = deployment.manifestObj.modulesContent.$edgeAgent["properties.desired"].modules;
+      assert.equal(modules.tempSensor.settings.image, "microsoft/tempSensor:1.0.0");
+      assert.equal(modules.samplemodule.settings.image, "test.az.io/filter:0.0.1-amd64");
+      assert.equal(await fse.readFile(deployment.manifestFile, "utf8"), JSON.stringify(deployment.manifestObj, null, 2));
+      assert.equal(ManifestGenerator.getDeployFileName("deployment.debug.template.json", "1.0.0", "arm32v7"), "deployment.debug.arm32v7.json");
+      assert.equal(ManifestGenerator.getDeployFileName("deployment.template.json", "1.0.0", "arm32v7", "prod"), "deployment.prod.arm32v7.json");
+    } finally {
+      await fse.remove(configPath);
+    }
+  }).timeout(60 * 1000);
+
+  test("generateDeployment with overlays", async () => {
+    const slnPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "sln-"));
+    try {
+      const template = await fse.readJson(path.resolve(__dirname, "../../testResources/deployment.template.json"));
+      template["$schema-template"] = "1.0.0";
+      template.$overlays = ["deployment.site-a.overlay.json"];
+      await fse.writeJson(path.join(slnPath, "deployment.template.json"), template);
+      await fse.writeJson(path.join(slnPath, "deployment.site-a.overlay.json"), {
+        modulesContent: {
+          $edgeAgent: { "properties.desired": { modules: { tempSensor: { settings: { image: "$SITE_IMAGE", createOptions: { Env: ["abcdefghij0=site"] } } } } } },
+          $edgeHub: { "properties.desired": { routes: { filterToIoTHub: null } } },
+        },
+      });
+
+      const deployment: IDeploymentInfo = await ManifestGenerator.generateDeployment(path.join(slnPath, "deployment.template.json"),
+        path.join(slnPath, "config"), "amd64", { SITE_IMAGE: "site/tempSensor:1.0" }, new Map());
+      assert.equal(path.basename(deployment.manifestFile), "deployment.amd64.json");
+      assert.equal(deployment.manifestObj.$overlays, undefined);
+      assert.equal(deployment.overlays.length, 1);
+      assert.equal(path.basename(deployment.overlays[0].manifestFile), "deployment.site-a.amd64.json");
+      assert.deepEqual(deployment.overlays[0].conflicts, []);
+
+      const overlayManifest = await fse.readJson(deployment.overlays[0].manifestFile);
+      const settings = overlayManifest.modulesContent.$edgeAgent["properties.desired"].modules.tempSensor.settings;
+      assert.equal(settings.image, "site/tempSensor:1.0");
+      const createOptions = JSON.parse(settings.createOptions + settings.createOptions01 + settings.createOptions02);
+      assert.equal(createOptions.Env[0], "abcdefghij0=site");
+      assert.equal(createOptions.Env.length, template.modulesContent.$edgeAgent["properties.desired"].modules.tempSensor.settings.createOptions.Env.length);
+      assert.deepEqual(Object.keys(overlayManifest.modulesContent.$edgeHub["properties.desired"].routes), ["sensorToFilter"]);
+    } finally {
+      await fse.remove(slnPath);
+    }
+  }).timeout(60 * 1000);
+
+  test("getManifestLists", () => {
+    const imageToPlatform: Map<string, string> = new Map([
+      ["localhost:5000/filter:0.0.1-amd64", "amd64"],
+      ["localhost:5000/filter:0.0.1-arm32v7", "arm32v7"],
+      ["localhost:5000/filter:0.0.1-amd64.debug", "amd64"],
+      ["microsoft/azureiotedge-simulated-temperature-sensor:1.0", "amd64"],
+    ]);
+    const manifestLists = DockerCommand.getManifestLists(imageToPlatform);
+    assert.deepEqual([...manifestLists.keys()], ["localhost:5000/filter:0.0.1", "localhost:5000/filter:0.0.1-debug"]);
+    assert.deepEqual(manifestLists.get("localhost:5000/filter:0.0.1").map((entry) => entry.platform), ["amd64", "arm32v7"]);
+    assert.equal(DockerCommand.constructManifestAnnotateCmd("filter:0.0.1", "filter:0.0.1-arm32v7", "arm32v7"),
+      "docker manifest annotate filter:0.0.1 filter:0.0.1-arm32v7 --os linux --arch arm --variant v7");
+    assert.equal(DockerCommand.constructManifestAnnotateCmd("filter:0.0.1", "filter:0.0.1-mips", "mips"), undefined);
+  });
+});
@@ -0,0 +1,76 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { ManifestGenerator } from "../src/core/manifestGenerator";
+import { IManifestProblem, ManifestProblemSeverity, ManifestValidator } from "../src/core/manifestValidator";
+
+suite("manifest validator tests", () => {
+  test("validate valid manifests", async () => {
+    const input: string = await fse.readFile(path.resolve(__dirname, "../../testResources/deployment.template.json"), "utf8");
+    assert.deepEqual(ManifestValidator.validate(input, true), []);
+
+    const deployment = ManifestGenerator.convertCreateOptions(JSON.parse(input));
+    assert.deepEqual(ManifestValidator.validate(JSON.stringify(deployment, null, 2), false), []);
+  });
+
+  test("validate invalid manifests", async () => {
+    const input: string = await fse.readFile(path.resolve(__dirname, "../../testResources/deployment.template.json"), "utf8");
+    const deployment = JSON.parse(input);
+    const desired = deployment.modulesContent.$edgeAgent["properties.desired"];
+    desired.schemaVersion = "2.0";
+    desired.modules.tempSensor.status = "started";
+    delete desired.modules.tempSensor.restartPolicy;
+    desired.modules.samplemodule.settings.createOptions = "{\"Env\":";
+    deployment.modulesContent.$edgeHub["properties.desired"].storeAndForwardConfiguration.timeToLiveSecs = -1;
+    delete deployment.modulesContent.$edgeHub["properties.desired"].routes;
+    const text: string = JSON.stringify(deployment, null, 2);
+
+    const problems: IManifestProblem[] = ManifestValidator.validate(text, true);
+    assert.deepEqual(problems.map((problem) => problem.message), [
+      "Unknown schemaVersion. Supported versions: 1.0, 1.1",
+      "Value must be one of: running, stopped",
+      "Missing required property \"restartPolicy\"",
+      "createOptions must be a serialized JSON object",
+      "Missing required property \"routes\"",
+      "timeToLiveSecs must be a non-negative integer",
+    ]);
+    assert.equal(problems[0].severity, ManifestProblemSeverity.Warning);
+    assert.equal(text.substr(problems[1].offset, problems[1].length), "\"started\"");
+    assert.equal(text.substr(problems[2].offset, problems[2].length), "\"tempSensor\"");
+    assert.equal(text.substr(problems[5].offset, problems[5].length), "-1");
+
+    assert.equal(ManifestValidator.validate("{}", false)[0].message, "Missing required property \"modulesContent\"");
+  });
+
+  test("validate createOptions chunks", () => {
+    const settings = ManifestGenerator.serializeCreateOptions({ image: "test" }, { Env: Array(100).fill("KEY=VALUE") });
+    delete settings.createOptions01;
+    const manifest = {
+      modulesContent: {
+        $edgeAgent: {
+          "properties.desired": {
+            schemaVersion: "1.0",
+            runtime: { type: "docker", settings: {} },
+            systemModules: {
+              edgeAgent: { type: "docker", settings: { image: "agent" } },
+              edgeHub: { type: "docker", status: "running", restartPolicy: "always", settings: { image: "hub" } },
+            },
+            modules: {
+              module1: { type: "docker", status: "running", restartPolicy: "always", settings },
+            },
+          },
+        },
+        $edgeHub: {
+          "properties.desired": {
+            schemaVersion: "1.0",
+            routes: {},
+            storeAndForwardConfiguration: { timeToLiveSecs: 7200 },
+          },
+        },
+      },
+    };
+    const problems: IManifestProblem[] = ManifestValidator.validate(JSON.stringify(manifest), false);
+    assert.equal(problems.length, 1);
+    assert.equal(problems[0].message, "Missing createOptions01");
+  });
+});
@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import { MessageFlowGraph, MessageFlowNodeType } from "../src/messageFlow/messageFlowGraph";
+
+suite("message flow graph tests", () => {
+  test("issues", () => {
+    const graph: MessageFlowGraph = MessageFlowGraph.fromDeployment({ modulesContent: {
+      $edgeAgent: { "properties.desired": { systemModules: { edgeAgent: {}, edgeHub: {} }, modules: { sensor: {}, filter: {}, orphan: {} } } },
+      $edgeHub: { "properties.desired": { routes: {
+        sensorToFilter: "FROM /messages/modules/sensor/outputs/temperatureOutput INTO BrokeredEndpoint(\"/modules/filter/inputs/input1\")",
+        filterToUpstream: { route: "FROM /messages/modules/filter/outputs/* WHERE temperature > 25 INTO $upstream" },
+        filterToAlerts: "FROM /messages/modules/filter/outputs/alert INTO BrokeredEndpoint(\"/modules/alerts/inputs/input1\")",
+        invalid: "FROM /messages/* INTO",
+        notString: 42,
+      } } },
+    } });
+
+    assert.equal(graph.nodes.get("edgeHub").type, MessageFlowNodeType.SystemModule);
+    assert.equal(graph.nodes.get("alerts").missing, true);
+    assert.deepEqual(graph.issues, [
+      { routeName: "invalid", message: "Route 'invalid' is invalid: Missing route sink after INTO" },
+      { routeName: "notString", message: "Route 'notString' is not a string" },
+      { moduleId: "sensor", message: "No route delivers messages to the inputs of module 'sensor'" },
+      { moduleId: "orphan", message: "Outputs of module 'orphan' are not routed anywhere" },
+      { moduleId: "orphan", message: "No route delivers messages to the inputs of module 'orphan'" },
+      { moduleId: "alerts", message: "Module 'alerts' is referenced by filterToAlerts but not defined in the deployment manifest" },
+    ]);
+    assert.equal(graph.toMermaid(), [
+      "graph LR",
+      "    n0[\"edgeAgent\"]",
+      "    n1[\"edgeHub\"]",
+      "    n2[\"sensor\"]",
+      "    n3[\"filter\"]",
+      "    n4[\"orphan\"]",
+      "    n5((\"$upstream (IoT Hub)\"))",
+      "    n6[\"alerts\"]",
+      "    n2 -->|\"sensorToFilter: temperatureOutput → input1\"| n3",
+      "    n3 -->|\"filterToUpstream: * [WHERE temperature > 25]\"| n5",
+      "    n3 -.->|\"filterToAlerts: alert → input1\"| n6",
+      "    classDef missing stroke:#e51400,stroke-dasharray:5 5",
+      "    classDef warning stroke:#f0a30a",
+      "    class n2 warning",
+      "    class n4 warning",
+      "    class n6 missing",
+      "",
+    ].join("\n"));
+    assert.equal(graph.toDot(), [
+      "digraph deployment {",
+      "    rankdir=LR;",
+      "    node [fontname=\"Helvetica\"];",
+      "    \"edgeAgent\" [label=\"edgeAgent\", shape=box];",
+      "    \"edgeHub\" [label=\"edgeHub\", shape=box];",
+      "    \"sensor\" [label=\"sensor\", shape=box, color=orange];",
+      "    \"filter\" [label=\"filter\", shape=box];",
+      "    \"orphan\" [label=\"orphan\", shape=box, color=orange];",
+      "    \"$upstream\" [label=\"$upstream (IoT Hub)\", shape=ellipse];",
+      "    \"alerts\" [label=\"alerts\", shape=box, color=red, style=dashed];",
+      "    \"sensor\" -> \"filter\" [label=\"sensorToFilter: temperatureOutput → input1\"];",
+      "    \"filter\" -> \"$upstream\" [label=\"filterToUpstream: * [WHERE temperature > 25]\"];",
+      "    \"filter\" -> \"alerts\" [label=\"filterToAlerts: alert → input1\", color=red, style=dashed];",
+      "}",
+      "",
+    ].join("\n"));
+  });
+
+  test("all modules, twin change notifications and missing source module", () => {
+    const graph: MessageFlowGraph = MessageFlowGraph.fromDeployment({ moduleContent: {
+      $edgeAgent: { "properties.desired": { modules: { filter: {} } } },
+      $edgeHub: { "properties.desired": { routes: {
+        upstream: "FROM /messages/* INTO $upstream",
+        twin: "FROM /twinChangeNotifications INTO BrokeredEndpoint(\"/modules/filter/inputs/twin\")",
+        fromMissing: "FROM /messages/modules/sensor/outputs/* WHERE name = \"a\" INTO BrokeredEndpoint(\"/modules/filter/inputs/input1\")",
+      } } },
+    } });
+
+    assert.deepEqual(graph.issues, [
+      { moduleId: "sensor", message: "Module 'sensor' is referenced by fromMissing but not defined in the deployment manifest" },
+    ]);
+    assert.equal(graph.toMermaid(), [
+      "graph LR",
+      "    n0[\"filter\"]",
+      "    n1{{\"All modules\"}}",
+      "    n2((\"$upstream (IoT Hub)\"))",
+      "    n3{{\"Twin change notifications\"}}",
+      "    n4[\"sensor\"]",
+      "    n1 -->|\"upstream: *\"| n2",
+      "    n3 -->|\"twin: * → twin\"| n0",
+      "    n4 -.->|\"fromMissing: * → input1 [WHERE name = 'a']\"| n0",
+      "    classDef missing stroke:#e51400,stroke-dasharray:5 5",
+      "    classDef warning stroke:#f0a30a",
+      "    class n4 missing",
+      "",
+    ].join("\n"));
+    assert.equal(graph.toDot(), [
+      "digraph deployment {",
+      "    rankdir=LR;",
+      "    node [fontname=\"Helvetica\"];",
+      "    \"filter\" [label=\"filter\", shape=box];",
+      "    \"*\" [label=\"All modules\", shape=box];",
+      "    \"$upstream\" [label=\"$upstream (IoT Hub)\", shape=ellipse];",
+      "    \"$twinChangeNotifications\" [label=\"Twin change notifications\", shape=box];",
+      "    \"sensor\" [label=\"sensor\", shape=box, color=red, style=dashed];",
+      "    \"*\" -> \"$upstream\" [label=\"upstream: *\"];",
+      "    \"$twinChangeNotifications\" -> \"filter\" [label=\"twin: * → twin\"];",
+      "    \"sensor\" -> \"filter\" [label=\"fromMissing: * → input1 [WHERE name = 'a']\", color=red, style=dashed];",
+      "}",
+      "",
+    ].join("\n"));
+  });
+});
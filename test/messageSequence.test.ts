@@ -0,0 +1,45 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { ISequenceMessage, MessageSequence } from "../src/simulator/messageSequence";
+
+suite("message sequence tests", () => {
+  test("parseTarget", () => {
+    assert.deepEqual(MessageSequence.parseTarget("/modules/filter/inputs/input1"), { moduleId: "filter", inputName: "input1" });
+    assert.deepEqual(MessageSequence.parseTarget("modules/filter/inputs/input1"), { moduleId: "filter", inputName: "input1" });
+    assert.throws(() => MessageSequence.parseTarget("/messages/modules/filter/outputs/output1"), /Invalid target/);
+    assert.equal(MessageSequence.getTarget("filter", "input1"), "/modules/filter/inputs/input1");
+  });
+
+  test("payloads", () => {
+    const json: ISequenceMessage = MessageSequence.fromPayload("/modules/m/inputs/i", Buffer.from("{\"a\":1}"), { k: "v" }, 100);
+    assert.deepEqual(json, { target: "/modules/m/inputs/i", body: { a: 1 }, properties: { k: "v" }, delay: 100 });
+    assert.equal(MessageSequence.getPayload(json).toString(), "{\"a\":1}");
+
+    for (const text of ["hello", "\"quoted\"", "42"]) {
+      const message: ISequenceMessage = MessageSequence.fromPayload("/modules/m/inputs/i", Buffer.from(text), {});
+      assert.equal(MessageSequence.getPayload(message).toString(), text);
+    }
+
+    const bytes: Buffer = Buffer.from([0xff, 0x00, 0xfe]);
+    const binary: ISequenceMessage = MessageSequence.fromPayload("/modules/m/inputs/i", bytes, undefined);
+    assert.deepEqual(binary, { target: "/modules/m/inputs/i", body: bytes.toString("base64"), binary: true });
+    assert.deepEqual(MessageSequence.getPayload(binary), bytes);
+  });
+
+  test("save and load", async () => {
+    const sequenceFile: string = path.join(os.tmpdir(), `sequence-${Date.now()}.json`);
+    const messages: ISequenceMessage[] = [{ target: "/modules/m/inputs/i", body: { a: 1 } }, { target: "/modules/m/inputs/i", body: "text", delay: 10 }];
+    try {
+      await MessageSequence.save(sequenceFile, messages);
+      assert.deepEqual(await MessageSequence.load(sequenceFile), messages);
+      await fse.writeJson(sequenceFile, [{ target: "/modules/m" }]);
+      let error: Error;
+      await MessageSequence.load(sequenceFile).catch((e) => error = e);
+      assert.ok(error && /Invalid target/.test(error.message));
+    } finally {
+      await fse.remove(sequenceFile);
+    }
+  });
+});
@@ -0,0 +1,91 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { ModuleRemover } from "../src/core/moduleRemover";
+
+suite("module remover tests", () => {
+  test("removeFromTemplate", async () => {
+    const templateJson = await fse.readJson(path.resolve(__dirname, "../../testResources/deployment.template.json"));
+    templateJson.modulesContent.samplemodule = { "properties.desired": {} };
+    const routes = templateJson.modulesContent.$edgeHub["properties.desired"].routes;
+    routes.tempSensorToSample = "FROM /messages/modules/tempSensor/* INTO BrokeredEndpoint(\"/modules/samplemodule/inputs/input1\")";
+
+    assert.equal(ModuleRemover.getModuleFolder(templateJson, "samplemodule"), "SampleModule");
+    assert.equal(ModuleRemover.getModuleFolder(templateJson, "tempSensor"), undefined);
+    const changes: string[] = ModuleRemover.removeFromTemplate(templateJson, "samplemodule");
+    assert.equal(changes.length, 4);
+    assert.deepEqual(Object.keys(templateJson.modulesContent.$edgeAgent["properties.desired"].modules), ["tempSensor"]);
+    assert.equal(templateJson.modulesContent.samplemodule, undefined);
+    assert.deepEqual(Object.keys(routes), ["sensorToFilter"]);
+  });
+
+  test("removeFromTemplate with route objects", async () => {
+    const templateJson = await fse.readJson(path.resolve(__dirname, "../../testResources/deployment.template.json"));
+    const routes = templateJson.modulesContent.$edgeHub["properties.desired"].routes;
+    routes.sampleToIoTHub = { route: "FROM /messages/modules/samplemodule/outputs/* INTO $upstream", priority: 0, timeToLiveSecs: 86400 };
+    routes.upstream = { route: "FROM /messages/* INTO $upstream" };
+
+    const changes: string[] = ModuleRemover.removeFromTemplate(templateJson, "samplemodule");
+    assert.ok(changes.indexOf("Remove route 'sampleToIoTHub': FROM /messages/modules/samplemodule/outputs/* INTO $upstream") >= 0);
+    assert.deepEqual(Object.keys(routes), ["sensorToFilter", "upstream"]);
+    assert.equal(ModuleRemover.getRouteText({ priority: 0 }), undefined);
+  });
+
+  test("removeFromTemplate of an overlay", () => {
+    const overlayJson = {
+      modulesContent: {
+        $edgeHub: { "properties.desired": { routes: { sampleToUpstream: "FROM /messages/modules/samplemodule/* INTO $upstream" } } },
+        samplemodule: { "properties.desired": { TemperatureThreshold: 30 } },
+      },
+    };
+    assert.deepEqual(ModuleRemover.removeFromTemplate(overlayJson, "samplemodule"), [
+      "Remove module twin of 'samplemodule'",
+      "Remove route 'sampleToUpstream': FROM /messages/modules/samplemodule/* INTO $upstream",
+    ]);
+    assert.deepEqual(overlayJson.modulesContent, { $edgeHub: { "properties.desired": { routes: {} } } });
+    assert.deepEqual(ModuleRemover.getModuleNames(overlayJson), []);
+    assert.equal(ModuleRemover.getRegistryCredentials({}), undefined);
+    assert.deepEqual(ModuleRemover.removeFromTemplate({ $schema: "overlay" }, "samplemodule"), []);
+  });
+
+  test("removeLaunchConfigurations", () => {
+    const launchJson = {
+      configurations: [
+        { name: "SampleModule Remote Debug (Node.js)", localRoot: "${workspaceRoot}/modules/SampleModule" },
+        { name: "Local Debug", program: "${workspaceRoot}/modules/SampleModule/app.js" },
+        { name: "SampleModule2 Local Debug", program: "${workspaceRoot}/modules/SampleModule2/app.js" },
+        { name: "Attach", type: "azure-iot-edge", request: "attach", module: "SampleModule" },
+      ],
+    };
+    const changes: string[] = ModuleRemover.removeLaunchConfigurations(launchJson, "SampleModule", "SampleModule");
+    assert.equal(changes.length, 3);
+    assert.deepEqual(launchJson.configurations.map((config) => config.name), ["SampleModule2 Local Debug"]);
+  });
+
+  test("removeRegistryCredentials", () => {
+    const templateJson = {
+      modulesContent: {
+        $edgeAgent: {
+          "properties.desired": {
+            runtime: {
+              settings: {
+                registryCredentials: {
+                  myacr: { username: "$CONTAINER_REGISTRY_USERNAME_myacr", password: "${CONTAINER_REGISTRY_PASSWORD_myacr}", address: "myacr.azurecr.io" },
+                  other: { username: "$OTHER_USERNAME", password: "$OTHER_PASSWORD", address: "other.io" },
+                },
+              },
+            },
+          },
+        },
+      },
+    };
+    const { changes, envVariables } = ModuleRemover.removeRegistryCredentials(templateJson, ["myacr"]);
+    assert.equal(changes.length, 1);
+    assert.deepEqual(envVariables, ["CONTAINER_REGISTRY_USERNAME_myacr", "CONTAINER_REGISTRY_PASSWORD_myacr"]);
+    assert.deepEqual(Object.keys(ModuleRemover.getRegistryCredentials(templateJson)), ["other"]);
+
+    const env = ModuleRemover.removeEnvVariables("# registry\nCONTAINER_REGISTRY_USERNAME_myacr=user\nOTHER_USERNAME=other\nCONTAINER_REGISTRY_PASSWORD_myacr=pwd\n", envVariables);
+    assert.equal(env.content, "# registry\nOTHER_USERNAME=other\n");
+    assert.equal(env.changes.length, 2);
+  });
+});
@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as path from "path";
+import { ModuleRenamer } from "../src/core/moduleRenamer";
+
+suite("module renamer tests", () => {
+  test("renameInTemplate", async () => {
+    const templateJson = await fse.readJson(path.resolve(__dirname, "../../testResources/deployment.template.json"));
+    templateJson.modulesContent.samplemodule = { "properties.desired": {} };
+    const routes = templateJson.modulesContent.$edgeHub["properties.desired"].routes;
+    routes.sensorTosamplemodule = "FROM /messages/modules/tempSensor/* INTO BrokeredEndpoint(\"/modules/samplemodule/inputs/input1\")";
+    routes.samplemoduleToUpstream = "FROM /messages/modules/samplemodule/outputs/* INTO $upstream";
+
+    const changes: string[] = ModuleRenamer.renameInTemplate(templateJson, "samplemodule", "filter", "SampleModule", "filter");
+    assert.equal(changes.length, 6);
+    const modules = templateJson.modulesContent.$edgeAgent["properties.desired"].modules;
+    assert.deepEqual(Object.keys(modules), ["tempSensor", "filter"]);
+    assert.equal(modules.filter.settings.image, "${MODULES.filter.amd64}");
+    assert.deepEqual(Object.keys(templateJson.modulesContent), ["$edgeAgent", "$edgeHub", "filter"]);
+
+    const renamedRoutes = templateJson.modulesContent.$edgeHub["properties.desired"].routes;
+    assert.deepEqual(Object.keys(renamedRoutes), ["sensorToFilter", "filterToIoTHub", "sensorTofilter", "filterToUpstream"]);
+    assert.equal(renamedRoutes.filterToIoTHub, "FROM /messages/modules/filter/outputs/output1 INTO $upstream");
+    assert.equal(renamedRoutes.sensorTofilter, "FROM /messages/modules/tempSensor/* INTO BrokeredEndpoint(\"/modules/filter/inputs/input1\")");
+  });
+
+  test("renameInTemplate with route objects", async () => {
+    const templateJson = await fse.readJson(path.resolve(__dirname, "../../testResources/deployment.template.json"));
+    const routes = templateJson.modulesContent.$edgeHub["properties.desired"].routes;
+    routes.samplemoduleToUpstream = { route: "FROM /messages/modules/samplemodule/outputs/* INTO $upstream", priority: 1, timeToLiveSecs: 3600 };
+
+    const changes: string[] = ModuleRenamer.renameInTemplate(templateJson, "samplemodule", "filter", "SampleModule", "filter");
+    assert.ok(changes.indexOf("Update route 'samplemoduleToUpstream' as 'filterToUpstream': FROM /messages/modules/filter/outputs/* INTO $upstream") >= 0);
+    const renamedRoutes = templateJson.modulesContent.$edgeHub["properties.desired"].routes;
+    assert.deepEqual(renamedRoutes.filterToUpstream, { route: "FROM /messages/modules/filter/outputs/* INTO $upstream", priority: 1, timeToLiveSecs: 3600 });
+    assert.equal(renamedRoutes.samplemoduleToUpstream, undefined);
+  });
+
+  test("renameInRoute", () => {
+    assert.equal(ModuleRenamer.renameInRoute("FROM /messages/modules/a/* INTO BrokeredEndpoint(\"/modules/a/inputs/a\")", "a", "b"),
+      "FROM /messages/modules/b/* INTO BrokeredEndpoint(\"/modules/b/inputs/a\")");
+    assert.equal(ModuleRenamer.renameInRoute("FROM /messages/modules/ab/* INTO $upstream", "a", "b"), "FROM /messages/modules/ab/* INTO $upstream");
+  });
+
+  test("renameLaunchConfigurations and module.json", () => {
+    const launchJson = {
+      configurations: [
+        { name: "SampleModule Remote Debug (Node.js)", localRoot: "${workspaceRoot}/modules/SampleModule" },
+        { name: "SampleModule2 Local Debug", program: "${workspaceRoot}/modules/SampleModule2/app.js" },
+        { name: "SampleModule Local Debug (Node.js)", type: "azure-iot-edge", request: "launch", module: "SampleModule" },
+      ],
+    };
+    const changes: string[] = ModuleRenamer.renameLaunchConfigurations(launchJson, "SampleModule", "Filter", "SampleModule", "Filter");
+    assert.equal(changes.length, 2);
+    assert.deepEqual(launchJson.configurations[0], { name: "Filter Remote Debug (Node.js)", localRoot: "${workspaceRoot}/modules/Filter" });
+    assert.equal(launchJson.configurations[1].program, "${workspaceRoot}/modules/SampleModule2/app.js");
+    assert.deepEqual(launchJson.configurations[2], { name: "Filter Local Debug (Node.js)", type: "azure-iot-edge", request: "launch", module: "Filter" });
+
+    const moduleJson = { image: { repository: "localhost:5000/samplemodule" } };
+    assert.equal(ModuleRenamer.renameInModuleJson(moduleJson, "SampleModule", "Filter").length, 1);
+    assert.equal(moduleJson.image.repository, "localhost:5000/filter");
+  });
+});
@@ -0,0 +1,50 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import { Constants } from "../src/common/constants";
+import { DebugConfigurationBuilder } from "../src/core/debugConfigurationBuilder";
+import { ModuleScaffold } from "../src/core/moduleScaffold";
+
+suite("module scaffold tests", () => {
+  test("scaffold", async () => {
+    const slnPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "sln-"));
+    try {
+      const values: Map<string, string> = new Map([["%MODULE%", "filter"], ["%MODULE_FOLDER%", "filter"], ["%REPOSITORY%", "localhost:5000/filter"]]);
+      for (const [folder, language] of [["c", Constants.LANGUAGE_C], ["python", Constants.LANGUAGE_PYTHON]]) {
+        const scaffold: ModuleScaffold = await ModuleScaffold.load(path.resolve(__dirname, "../../assets/modules", folder));
+        assert.ok(scaffold.version);
+        const modulePath: string = path.join(slnPath, folder);
+        await scaffold.scaffold(modulePath, values);
+
+        const moduleJson = await fse.readJson(path.join(modulePath, Constants.moduleManifest));
+        assert.equal(moduleJson.image.repository, "localhost:5000/filter");
+        assert.ok(moduleJson.image.tag.platforms["amd64.debug"]);
+        assert.equal(await fse.pathExists(path.join(modulePath, Constants.moduleScaffoldManifest)), false);
+        assert.equal(await DebugConfigurationBuilder.getLanguage(modulePath), language);
+
+        let error: Error;
+        await scaffold.scaffold(modulePath, values).catch((e) => error = e);
+        assert.ok(error);
+      }
+    } finally {
+      await fse.remove(slnPath);
+    }
+  });
+
+  test("load", async () => {
+    const scaffoldPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "scaffold-"));
+    try {
+      let error: Error;
+      await ModuleScaffold.load(scaffoldPath).catch((e) => error = e);
+      assert.ok(error.message.indexOf(Constants.moduleScaffoldManifest) >= 0);
+
+      await fse.writeJson(path.join(scaffoldPath, Constants.moduleScaffoldManifest), { version: "1.0.0" });
+      error = undefined;
+      await ModuleScaffold.load(scaffoldPath).catch((e) => error = e);
+      assert.ok(error.message.indexOf(Constants.moduleManifest) >= 0);
+    } finally {
+      await fse.remove(scaffoldPath);
+    }
+  });
+});
@@ -0,0 +1,64 @@
+import * as assert from "assert";
+import { IOverlayConflict, OverlayMerger } from "../src/core/overlayMerger";
+
+suite("overlay merger tests", () => {
+  test("merge", () => {
+    const base = {
+      modules: {
+        tempSensor: {
+          status: "running",
+          settings: {
+            image: "tempSensor:1.0",
+            createOptions: { Env: ["A=1", "B=2"], HostConfig: { Privileged: true } },
+          },
+        },
+        filter: { status: "running" },
+      },
+      routes: { r1: "FROM /* INTO $upstream", r2: "FROM /messages/* INTO $upstream" },
+      tags: ["a", "b"],
+    };
+    const overlay = {
+      modules: {
+        tempSensor: {
+          settings: {
+            image: "tempSensor:2.0",
+            createOptions: "{\"Env\":[\"B=3\",\"C=4\"]}",
+          },
+        },
+        filter: null,
+        site: { status: "stopped" },
+      },
+      routes: { r2: null, r3: "FROM /messages/modules/site/outputs/* INTO $upstream" },
+      tags: ["c"],
+    };
+
+    const merged = OverlayMerger.merge(base, overlay);
+    assert.deepEqual(merged.conflicts, []);
+    assert.deepEqual(merged.result, {
+      modules: {
+        tempSensor: {
+          status: "running",
+          settings: {
+            image: "tempSensor:2.0",
+            createOptions: { Env: ["A=1", "B=3", "C=4"], HostConfig: { Privileged: true } },
+          },
+        },
+        site: { status: "stopped" },
+      },
+      routes: { r1: "FROM /* INTO $upstream", r3: "FROM /messages/modules/site/outputs/* INTO $upstream" },
+      tags: ["c"],
+    });
+    assert.equal(base.modules.tempSensor.settings.image, "tempSensor:1.0");
+  });
+
+  test("merge conflicts", () => {
+    const base = { modules: { tempSensor: { settings: { image: "tempSensor:1.0", createOptions: { Env: ["A=1"] } } } } };
+    const overlay = { modules: { tempSensor: { settings: "settings", missing: null } }, routes: { r1: null } };
+    const conflicts: IOverlayConflict[] = OverlayMerger.merge(base, overlay).conflicts;
+    assert.deepEqual(conflicts.map((conflict) => conflict.path), ["modules/tempSensor/settings", "modules/tempSensor/missing", "routes/r1"]);
+    assert.equal(conflicts[0].message, "The object in the base deployment is replaced by a string");
+
+    const envConflicts = OverlayMerger.merge(base, { modules: { tempSensor: { settings: { createOptions: { Env: ["A=2", "A=3"] } } } } }).conflicts;
+    assert.equal(envConflicts[0].message, "Env variable A is set more than once in the overlay");
+  });
+});
@@ -0,0 +1,28 @@
+import * as assert from "assert";
+import { PrefixedOutputChannel } from "../src/container/prefixedOutputChannel";
+
+suite("prefixed output channel tests", () => {
+  test("append and flush", () => {
+    const lines: string[] = [];
+    const outputChannel: any = { name: "Azure IoT Edge", appendLine: (line: string) => lines.push(line) };
+    const filter: PrefixedOutputChannel = new PrefixedOutputChannel(outputChannel, "localhost:5000/filter:0.0.1-amd64");
+    const sensor: PrefixedOutputChannel = new PrefixedOutputChannel(outputChannel, "localhost:5000/sensor:0.0.1-amd64");
+
+    filter.appendLine("Executing docker build");
+    filter.append("Step 1/6 : FROM ");
+    sensor.append("Step 1/4 : FROM node\r\nStep 2/4");
+    filter.append("alpine\nStep 2/6");
+    sensor.flush();
+    filter.flush();
+    filter.flush();
+
+    assert.deepEqual(lines, [
+      "[localhost:5000/filter:0.0.1-amd64] Executing docker build",
+      "[localhost:5000/sensor:0.0.1-amd64] Step 1/4 : FROM node",
+      "[localhost:5000/filter:0.0.1-amd64] Step 1/6 : FROM alpine",
+      "[localhost:5000/sensor:0.0.1-amd64] Step 2/4",
+      "[localhost:5000/filter:0.0.1-amd64] Step 2/6",
+    ]);
+    assert.equal(filter.name, "Azure IoT Edge");
+  });
+});
@@ -0,0 +1,100 @@
+import * as assert from "assert";
+import * as http from "http";
+import { RegistryClient } from "../src/core/registryClient";
+
+suite("registry client tests", () => {
+  let server: http.Server;
+  let address: string;
+  const authorizations: string[] = [];
+
+  suiteSetup(async () => {
+    server = http.createServer((req, res) => {
+      const url: string = req.url;
+      authorizations.push(req.headers.authorization as string);
+      if (url.startsWith("/token")) {
+        const basic: string = Buffer.from("user:pwd").toString("base64");
+        if (req.headers.authorization !== `Basic ${basic}`) {
+          res.writeHead(401);
+          return res.end();
+        }
+        res.writeHead(200, { "Content-Type": "application/json" });
+        return res.end(JSON.stringify({ token: decodeURIComponent(/scope=([^&]*)/.exec(url)[1]) }));
+      }
+      const scope: string = url.startsWith("/v2/_catalog") ? "registry:catalog:*" : "repository:team/app:pull";
+      if (req.headers.authorization !== `Bearer ${scope}`) {
+        res.writeHead(401, { "WWW-Authenticate": `Bearer realm="http://${address}/token",service="test",scope="${scope}"` });
+        return res.end(JSON.stringify({ errors: [{ code: "UNAUTHORIZED", message: "authentication required" }] }));
+      }
+      if (url === "/v2/_catalog?n=1000") {
+        res.writeHead(200, { Link: "</v2/_catalog?last=base&n=1000>; rel=\"next\"" });
+        return res.end(JSON.stringify({ repositories: ["base"] }));
+      } else if (url === "/v2/_catalog?last=base&n=1000") {
+        return res.end(JSON.stringify({ repositories: ["team/app"] }));
+      } else if (url === "/v2/team/app/manifests/1.0" && req.method === "HEAD") {
+        res.writeHead(200, { "Docker-Content-Digest": "sha256:1234" });
+        return res.end();
+      } else if (url === "/v2/team/app/tags/list") {
+        return res.end(JSON.stringify({ name: "team/app", tags: ["1.0", "latest"] }));
+      }
+      res.writeHead(404);
+      res.end(JSON.stringify({ errors: [{ code: "NAME_UNKNOWN", message: "repository name not known to registry" }] }));
+    });
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+    address = `127.0.0.1:${server.address().port}`;
+  });
+
+  suiteTeardown(() => {
+    server.close();
+  });
+
+  test("listRepositories and listTags", async () => {
+    const client: RegistryClient = new RegistryClient(address, { username: "user", password: "pwd" });
+    assert.deepEqual(await client.listRepositories(), ["base", "team/app"]);
+    assert.deepEqual(await client.listTags("team/app"), ["1.0", "latest"]);
+    assert.equal(await client.getManifestDigest("team/app", "1.0"), "sha256:1234");
+    // the token of a scope is reused
+    authorizations.length = 0;
+    await client.listTags("team/app");
+    assert.deepEqual(authorizations, ["Bearer repository:team/app:pull"]);
+  });
+
+  test("errors", async () => {
+    let error: any;
+    try {
+      await new RegistryClient(address).listRepositories();
+    } catch (err) {
+      error = err;
+    }
+    assert.equal(error.statusCode, 401);
+
+    error = undefined;
+    try {
+      await new RegistryClient(address, { username: "user", password: "pwd" }).listTags("unknown");
+    } catch (err) {
+      error = err;
+    }
+    assert.equal(error.statusCode, 404);
+    assert.equal(error.message.endsWith("repository name not known to registry"), true);
+  });
+
+  test("parseChallenge", () => {
+    assert.deepEqual(RegistryClient.parseChallenge("Bearer realm=\"https://auth.docker.io/token\",service=\"registry.docker.io\",scope=\"repository:a/b:pull,push\""), {
+      scheme: "bearer",
+      params: { realm: "https://auth.docker.io/token", service: "registry.docker.io", scope: "repository:a/b:pull,push" },
+    });
+    assert.deepEqual(RegistryClient.parseChallenge("Basic realm=Registry"), { scheme: "basic", params: { realm: "Registry" } });
+  });
+
+  test("parseImage", () => {
+    assert.deepEqual(RegistryClient.parseImage("localhost:5000/filter:0.0.1-amd64"), { address: "localhost:5000", repository: "filter", tag: "0.0.1-amd64" });
+    assert.deepEqual(RegistryClient.parseImage("mcr.microsoft.com/azureiotedge-agent:1.0"), { address: "mcr.microsoft.com", repository: "azureiotedge-agent", tag: "1.0" });
+    assert.deepEqual(RegistryClient.parseImage("nginx"), { address: "docker.io", repository: "library/nginx", tag: "latest" });
+    assert.deepEqual(RegistryClient.parseImage("team/app:1.0"), { address: "docker.io", repository: "team/app", tag: "1.0" });
+  });
+
+  test("getImageName", () => {
+    assert.equal(RegistryClient.getImageName("docker.io", "library/nginx", "latest"), "nginx:latest");
+    assert.equal(RegistryClient.getImageName("docker.io", "team/app", "1.0"), "team/app:1.0");
+    assert.equal(RegistryClient.getImageName("localhost:5000", "app"), "localhost:5000/app");
+  });
+});
@@ -0,0 +1,103 @@
+import * as assert from "assert";
+import * as parser from "jsonc-parser/lib/umd/main";
+import { IRoute, IRouteCompletionContext, RouteCompletionKind, RouteParser } from "../src/common/routeParser";
+
+suite("route parser tests", () => {
+  test("parse valid routes", () => {
+    let route: IRoute = RouteParser.parse("FROM /messages/modules/SampleModule/outputs/* INTO $upstream");
+    assert.equal(route.errors.length, 0);
+    assert.equal(route.source.moduleId, "SampleModule");
+    assert.equal(route.source.moduleIdOffset, 23);
+    assert.equal(route.source.output, undefined);
+    assert.equal(route.sink.type, "upstream");
+
+    route = RouteParser.parse("FROM /messages/modules/tempSensor/outputs/temperatureOutput INTO BrokeredEndpoint(\"/modules/filter/inputs/input1\")");
+    assert.equal(route.errors.length, 0);
+    assert.equal(route.source.output, "temperatureOutput");
+    assert.equal(route.sink.type, "brokeredEndpoint");
+    assert.equal(route.sink.moduleId, "filter");
+    assert.equal(route.sink.input, "input1");
+    assert.equal(route.sink.moduleIdOffset, 92);
+
+    route = RouteParser.parse("from /* where $connectionModuleId = 'a' AND (temperature > 20.5 OR NOT is_defined($body.x)) into $upstream");
+    assert.equal(route.errors.length, 0);
+    assert.equal(route.condition.text, "$connectionModuleId = 'a' AND (temperature > 20.5 OR NOT is_defined($body.x))");
+  });
+
+  test("parse invalid routes", () => {
+    let route: IRoute = RouteParser.parse("FORM /messages/* INTO $upstream");
+    assert.equal(route.errors[0].message, "Route must start with FROM");
+    assert.equal(route.errors[0].offset, 0);
+    assert.equal(route.errors[0].length, 4);
+
+    route = RouteParser.parse("FROM /messages/modules/a/output/* INTO $upstream");
+    assert.equal(route.errors.length, 1);
+    assert.equal(route.errors[0].offset, 5);
+
+    route = RouteParser.parse("FROM /messages/* INTO $upstrem");
+    assert.equal(route.errors.length, 1);
+    assert.equal(route.errors[0].offset, 22);
+
+    route = RouteParser.parse("FROM /messages/* INTO BrokeredEndpoint(\"/modules/a/input/b\")");
+    assert.equal(route.errors.length, 1);
+    assert.equal(route.errors[0].offset, 40);
+
+    route = RouteParser.parse("FROM /messages/*");
+    assert.equal(route.errors[0].message, "Missing INTO clause");
+
+    route = RouteParser.parse("FROM /messages/* WHERE a = AND b = 1 INTO $upstream");
+    assert.equal(route.errors.length, 1);
+    assert.equal(route.errors[0].offset, 27);
+
+    route = RouteParser.parse("FROM /messages/* WHERE (a = 1 INTO $upstream");
+    assert.equal(route.errors[0].message, "Expected ')'");
+
+    route = RouteParser.parse("FROM /messages/* WHERE foo(a) INTO $upstream");
+    assert.equal(route.errors[0].message, "Unknown function 'foo'");
+
+    route = RouteParser.parse("FROM /messages/* WHERE a = 'b INTO $upstream");
+    assert.equal(route.errors[0].message, "Unterminated string literal");
+  });
+
+  test("getCompletionContext", () => {
+    let context: IRouteCompletionContext = RouteParser.getCompletionContext("FR", 2);
+    assert.equal(context.kind, RouteCompletionKind.Keyword);
+    assert.deepEqual(context.keywords, ["FROM"]);
+    assert.equal(context.start, 0);
+
+    context = RouteParser.getCompletionContext("FROM /messages/mod", 18);
+    assert.equal(context.kind, RouteCompletionKind.Source);
+    assert.equal(context.start, 5);
+    assert.equal(context.prefix, "/messages/mod");
+
+    context = RouteParser.getCompletionContext("FROM /messages/* ", 17);
+    assert.equal(context.kind, RouteCompletionKind.Keyword);
+    assert.deepEqual(context.keywords, ["WHERE", "INTO"]);
+
+    context = RouteParser.getCompletionContext("FROM /messages/* WHERE $con", 27);
+    assert.equal(context.kind, RouteCompletionKind.Condition);
+    assert.equal(context.prefix, "$con");
+
+    context = RouteParser.getCompletionContext("FROM /messages/* INTO ", 22);
+    assert.equal(context.kind, RouteCompletionKind.Sink);
+
+    context = RouteParser.getCompletionContext("FROM /messages/* INTO BrokeredEndpoint(\"/modules/fi", 51);
+    assert.equal(context.kind, RouteCompletionKind.EndpointPath);
+    assert.equal(context.start, 40);
+    assert.equal(context.prefix, "/modules/fi");
+  });
+
+  test("route json path", () => {
+    const text: string = JSON.stringify({ modulesContent: { $edgeHub: { "properties.desired": { routes: {
+      sensorToFilter: "FROM /messages/modules/sensor/* INTO $upstream",
+      filterToUpstream: { route: "FROM /messages/modules/filter/* INTO $upstream", priority: 0 },
+    } } } } });
+    const getPath = (search: string): parser.Segment[] => parser.getLocation(text, text.indexOf(search) + search.length).path;
+
+    assert.equal(RouteParser.isRouteJsonPath(getPath("FROM /messages/modules/sensor")), true);
+    assert.equal(RouteParser.isRouteJsonPath(getPath("FROM /messages/modules/filter")), true);
+    assert.equal(RouteParser.isRouteJsonPath(getPath("\"priority\":")), false);
+    assert.equal(RouteParser.isRouteJsonPath(["modulesContent", "$edgeHub", "properties.desired", "routes"]), false);
+    assert.equal(RouteParser.isRouteJsonPath(["modulesContent", "$edgeAgent", "properties.desired", "routes", "sensorToFilter"]), false);
+  });
+});
@@ -0,0 +1,41 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as tls from "tls";
+import { EdgeHubSimulator } from "../src/simulator/edgeHubSimulator";
+import { MqttCodec, MqttPacketType } from "../src/simulator/mqttCodec";
+import { ISimulatorCertificates, SimulatorCertificates } from "../src/simulator/simulatorCertificates";
+
+suite("simulator certificates tests", () => {
+  test("ensure and connect over TLS", async () => {
+    const folder: string = await fse.mkdtemp(path.join(os.tmpdir(), "certs-"));
+    const certificates: ISimulatorCertificates = await SimulatorCertificates.ensure(folder, "localhost");
+    const caCert: string = await fse.readFile(certificates.caCertFile, "utf8");
+    await SimulatorCertificates.ensure(folder, "localhost");
+    assert.equal(await fse.readFile(certificates.caCertFile, "utf8"), caCert);
+
+    const simulator: EdgeHubSimulator = new EdgeHubSimulator({
+      tls: { key: await fse.readFile(certificates.keyFile), cert: await fse.readFile(certificates.certFile) },
+    });
+    const port: number = await simulator.start();
+    try {
+      const socket: tls.TLSSocket = tls.connect({ port, host: "127.0.0.1", servername: "localhost", ca: caCert });
+      await new Promise((resolve, reject) => {
+        socket.once("secureConnect", resolve);
+        socket.once("error", reject);
+      });
+      assert.ok(socket.authorized);
+      socket.write(MqttCodec.encode({ type: MqttPacketType.Connect, clientId: "simulated-device/filter", protocolLevel: 4 }));
+      const chunk: Buffer = await new Promise<Buffer>((resolve) => socket.once("data", resolve));
+      assert.equal(new MqttCodec().decode(chunk)[0].type, MqttPacketType.Connack);
+      socket.destroy();
+
+      await SimulatorCertificates.ensure(folder, "gateway");
+      assert.notEqual(await fse.readFile(certificates.caCertFile, "utf8"), caCert);
+    } finally {
+      await simulator.stop();
+      await fse.remove(folder);
+    }
+  }).timeout(60 * 1000);
+});
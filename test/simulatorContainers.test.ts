@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import * as net from "net";
+import { UserCancelledError } from "../src/common/UserCancelledError";
+import { ISimulatorContainer, SimulatorContainers } from "../src/core/simulatorContainers";
+
+suite("simulator containers tests", () => {
+  const inspectOutput: string = JSON.stringify([
+    {
+      Id: "b2",
+      Name: "/filter",
+      Platform: "linux",
+      RestartCount: 3,
+      Config: { Image: "localhost:5000/filter:0.0.1-amd64" },
+      State: { Status: "exited", Running: false },
+      NetworkSettings: { Ports: {} },
+    },
+    {
+      Id: "a1",
+      Name: "/edgeHubDev",
+      Platform: "linux",
+      RestartCount: 0,
+      Config: { Image: "mcr.microsoft.com/azureiotedge-hub:1.0" },
+      State: { Status: "running", Running: true },
+      NetworkSettings: { Ports: { "8883/tcp": [{ HostIp: "0.0.0.0", HostPort: "8883" }], "5671/tcp": null } },
+    },
+  ]);
+
+  test("parseInspect", () => {
+    const containers: ISimulatorContainer[] = SimulatorContainers.parseInspect(inspectOutput);
+    assert.deepEqual(containers.map((container) => container.name), ["edgeHubDev", "filter"]);
+    assert.deepEqual(containers[0], {
+      id: "a1",
+      name: "edgeHubDev",
+      image: "mcr.microsoft.com/azureiotedge-hub:1.0",
+      state: "running",
+      running: true,
+      restartCount: 0,
+      ports: ["5671/tcp", "0.0.0.0:8883->8883/tcp"],
+      platform: "linux",
+    });
+    assert.equal(containers[1].state, "exited");
+    assert.equal(containers[1].restartCount, 3);
+    assert.deepEqual(containers[1].ports, []);
+  });
+
+  test("commands", () => {
+    const containers: ISimulatorContainer[] = SimulatorContainers.parseInspect(inspectOutput);
+    assert.deepEqual(SimulatorContainers.getIds("a1\nb2\n"), ["a1", "b2"]);
+    assert.equal(SimulatorContainers.constructListCmd(), "docker ps -a -q --filter \"network=azure-iot-edge-dev\"");
+    assert.equal(SimulatorContainers.constructInspectCmd(["a1", "b2"]), "docker inspect a1 b2");
+    assert.equal(SimulatorContainers.constructLogsCmd(containers[1]), "docker logs -f --tail 200 filter");
+    assert.equal(SimulatorContainers.constructExecCmd(containers[0]), "docker exec -it edgeHubDev sh");
+    assert.equal(SimulatorContainers.constructExecCmd(Object.assign({}, containers[0], { platform: "windows" })), "docker exec -it edgeHubDev cmd");
+  });
+
+  test("waitFor and canConnect", async () => {
+    let count: number = 0;
+    assert.ok(await SimulatorContainers.waitFor(async () => ++count === 3, 1000, 1));
+    assert.ok(!await SimulatorContainers.waitFor(async () => false, 10, 1));
+    let cancelled: boolean = false;
+    await SimulatorContainers.waitFor(async () => false, 1000, 1, () => true).catch((error) => cancelled = error instanceof UserCancelledError);
+    assert.ok(cancelled);
+
+    const server: net.Server = net.createServer((socket) => socket.destroy());
+    await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const port: number = server.address().port;
+    try {
+      assert.ok(await SimulatorContainers.canConnect(port));
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+    assert.ok(!await SimulatorContainers.canConnect(port));
+  });
+});
@@ -0,0 +1,84 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as os from "os";
+import * as path from "path";
+import * as tar from "tar-stream";
+import * as zlib from "zlib";
+import { TemplatePack } from "../src/core/templatePack";
+import { TemplatePackRegistry } from "../src/core/templatePackRegistry";
+
+suite("template pack tests", () => {
+  test("discover", async () => {
+    const userPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "packs-"));
+    try {
+      const extensionPath: string = path.resolve(__dirname, "../../assets/templatePacks");
+      await fse.copy(path.join(extensionPath, "nodejs"), path.join(userPath, "nodejs"));
+      const manifestFile: string = path.join(userPath, "nodejs", "templatePack.json");
+      const manifest = await fse.readJson(manifestFile);
+      manifest.version = "1.0.1";
+      await fse.writeJson(manifestFile, manifest);
+      await fse.outputJson(path.join(userPath, "broken", "templatePack.json"), { name: "broken", version: "1.0.0" });
+
+      const { packs, errors } = await TemplatePackRegistry.discover([
+        { path: path.join(userPath, "missing"), source: "workspace" },
+        { path: extensionPath, source: "extension" },
+        { path: userPath, source: "user" },
+      ], path.join(userPath, "extracted"));
+      assert.equal(packs.length, 1);
+      assert.equal(packs[0].source, "user");
+      assert.equal(packs[0].manifest.version, "1.0.1");
+      assert.equal(errors.length, 1);
+      assert.equal(errors[0].includes("module.json"), true);
+      assert.equal(TemplatePack.compareVersions("1.10.0", "1.9.2") > 0, true);
+    } finally {
+      await fse.remove(userPath);
+    }
+  }).timeout(60 * 1000);
+
+  test("discover rejects archive entries outside of the pack folder", async () => {
+    const userPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "packs-"));
+    try {
+      const pack = tar.pack();
+      pack.entry({ name: "templatePack.json" }, JSON.stringify({ name: "evil", version: "1.0.0" }));
+      pack.entry({ name: "../../evil.txt" }, "evil");
+      pack.finalize();
+      await new Promise((resolve, reject) => pack.pipe(zlib.createGzip()).pipe(fse.createWriteStream(path.join(userPath, "evil.tgz")))
+        .on("finish", resolve).on("error", reject));
+
+      const { packs, errors } = await TemplatePackRegistry.discover([{ path: userPath, source: "user" }], path.join(userPath, "extracted", "packs"));
+      assert.equal(packs.length, 0);
+      assert.equal(errors.length, 1);
+      assert.equal(errors[0].includes("../../evil.txt"), true);
+      assert.equal(await fse.pathExists(path.join(userPath, "evil.txt")), false);
+      assert.deepEqual(await fse.readdir(path.join(userPath, "extracted", "packs")), []);
+    } finally {
+      await fse.remove(userPath);
+    }
+  }).timeout(60 * 1000);
+
+  test("scaffold", async () => {
+    const slnPath: string = await fse.mkdtemp(path.join(os.tmpdir(), "sln-"));
+    try {
+      const pack: TemplatePack = await TemplatePack.load(path.resolve(__dirname, "../../assets/templatePacks/nodejs"), "extension");
+      const values: Map<string, string> = new Map([["%MODULE%", "filter"], ["%MODULE_FOLDER%", "filter"], ["%REPOSITORY%", "localhost:5000/filter"]]);
+      const modulePath: string = path.join(slnPath, "modules", "filter");
+      await pack.scaffold(modulePath, values);
+      const moduleJson = await fse.readJson(path.join(modulePath, "module.json"));
+      assert.equal(moduleJson.image.repository, "localhost:5000/filter");
+      assert.equal(await fse.pathExists(path.join(modulePath, "Dockerfile.amd64.debug")), true);
+
+      const launch = await pack.getLaunchConfig(values);
+      assert.equal(launch.configurations[0].name, "filter Remote Debug (Node.js)");
+      assert.deepEqual(pack.getCreateOptions(values, true).ExposedPorts, { "9229/tcp": {} });
+      let error: Error;
+      try {
+        await pack.scaffold(modulePath, values);
+      } catch (err) {
+        error = err;
+      }
+      assert.equal(error.message, `${modulePath} already exists`);
+    } finally {
+      await fse.remove(slnPath);
+    }
+  }).timeout(60 * 1000);
+});
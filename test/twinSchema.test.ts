@@ -0,0 +1,67 @@
+import * as assert from "assert";
+import * as fse from "fs-extra";
+import * as parser from "jsonc-parser/lib/umd/main";
+import * as os from "os";
+import * as path from "path";
+import { ManifestProblemSeverity } from "../src/core/manifestValidator";
+import { ITwinSchema, TwinSchema } from "../src/core/twinSchema";
+
+suite("twin schema tests", () => {
+  const schema: ITwinSchema = {
+    type: "object",
+    required: ["TemperatureThreshold"],
+    additionalProperties: false,
+    properties: {
+      TemperatureThreshold: { type: "number", minimum: 0, maximum: 100, description: "Threshold of the temperature alert" },
+      Unit: { type: "string", enum: ["C", "F"] },
+      Sensors: { type: "array", items: { type: "object", properties: { Id: { type: "integer" } } } },
+      Labels: { type: "object", additionalProperties: { type: "string" } },
+    },
+  };
+
+  const validate = (desired: string) => TwinSchema.validate(schema, parser.parseTree(`{"properties.desired": ${desired}}`).children[0].children[1], true);
+
+  test("getSchema", () => {
+    assert.equal(TwinSchema.getSchema(schema, []), schema);
+    assert.equal(TwinSchema.getSchema(schema, ["TemperatureThreshold"]).type, "number");
+    assert.equal(TwinSchema.getSchema(schema, ["Sensors", 0, "Id"]).type, "integer");
+    assert.equal(TwinSchema.getSchema(schema, ["Labels", "site"]).type, "string");
+    assert.equal(TwinSchema.getSchema(schema, ["Unknown"]), undefined);
+    assert.deepEqual(TwinSchema.getTypes({ type: ["string", "null"] }), ["string", "null"]);
+    assert.deepEqual(TwinSchema.getTypes({}), []);
+  });
+
+  test("validate", () => {
+    assert.deepEqual(validate(`{"TemperatureThreshold": 25, "Unit": "C", "Sensors": [{"Id": 1}], "Labels": {"site": "a"}, "$version": 1}`), []);
+    assert.deepEqual(validate(`{"TemperatureThreshold": "\${THRESHOLD}"}`), []);
+
+    const problems = validate(`{"TemperatureThreshold": 120, "Unit": "K", "Sensors": [{"Id": 1.5}], "Labels": {"site": 1}, "Extra": true}`);
+    assert.deepEqual(problems.map((problem) => problem.message), [
+      "Value must be less than or equal to 100",
+      "Value must be one of: \"C\", \"F\"",
+      "\"Id\" must be an integer",
+      "\"site\" must be a string",
+      "Property \"Extra\" is not allowed",
+    ]);
+    assert.equal(problems[4].severity, ManifestProblemSeverity.Warning);
+
+    const missing = validate(`{}`);
+    assert.equal(missing.length, 1);
+    assert.equal(missing[0].message, "Missing required property \"TemperatureThreshold\"");
+    assert.equal(missing[0].length, "\"properties.desired\"".length);
+  });
+
+  test("load", async () => {
+    const modulePath: string = await fse.mkdtemp(path.join(os.tmpdir(), "twinSchema-"));
+    try {
+      assert.equal(await TwinSchema.load(modulePath), undefined);
+      await fse.writeJson(path.join(modulePath, "module.json"), { desiredPropertiesSchema: schema });
+      assert.deepEqual(await TwinSchema.load(modulePath), schema);
+      await fse.writeJson(path.join(modulePath, "twin.schema.json"), schema);
+      await fse.writeJson(path.join(modulePath, "module.json"), { desiredPropertiesSchema: "./twin.schema.json" });
+      assert.deepEqual(await TwinSchema.load(modulePath), schema);
+    } finally {
+      await fse.remove(modulePath);
+    }
+  });
+});
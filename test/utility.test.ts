@@ -13,10 +13,9 @@ suite("utility tests", () => {
     // const mapObj: Map<string, string> = new Map<string, string>();
     // mapObj.set("MODULES.SampleModule.amd64", "test.az.io/filter:0.0.1-amd64");
     const imageString: string = "microsoft/tempSensor:1.0.0";
-    process.env.IMAGE = imageString;
-    process.env.edgeAgent = "test";
+    const env = { IMAGE: imageString, edgeAgent: "test" };
     const exceptStr: string[] = ["$edgeHub", "$edgeAgent", "$upstream"];
-    const generated: string = Utility.expandEnv(input, ...exceptStr);
+    const generated: string = Utility.expandEnv(input, env, ...exceptStr);
     const generatedObj = JSON.parse(generated);
     assert.equal(generatedObj.modulesContent
                   .$edgeAgent["properties.desired"]
@@ -135,7 +134,7 @@ suite("utility tests", () => {
     const moduleDir = path.resolve(__dirname, "../../testResources/module1");
     const moduleToImageMap: Map<string, string> = new Map();
     const imageToBuildSettings: Map<string, BuildSettings> = new Map();
-    await Utility.setModuleMap(moduleDir, moduleToImageMap, imageToBuildSettings);
+    await Utility.setModuleMap(moduleDir, {}, moduleToImageMap, imageToBuildSettings);
     assert.equal(moduleToImageMap.size, 7);
     assert.equal(moduleToImageMap.get("MODULES.module1"), "localhost:5000/samplemodule:0.0.1-arm32v7");
     assert.equal(moduleToImageMap.get("MODULES.module1.debug"), "localhost:5000/samplemodule:0.0.1-arm32v7.debug");
@@ -0,0 +1,32 @@
+import * as assert from "assert";
+import { VersionBumper } from "../src/core/versionBumper";
+
+suite("version bumper tests", () => {
+  test("bump", () => {
+    assert.equal(VersionBumper.bump("0.0.1", "patch"), "0.0.2");
+    assert.equal(VersionBumper.bump("0.1.1", "minor"), "0.2.0");
+    assert.equal(VersionBumper.bump("0.1.1", "major"), "1.0.0");
+    assert.equal(VersionBumper.bump("0.0.1", "prerelease"), "0.0.2-0");
+    assert.equal(VersionBumper.bump("0.0.2-rc.1", "prerelease"), "0.0.2-rc.2");
+    assert.equal(VersionBumper.bump("0.0.2-rc", "prerelease"), "0.0.2-rc.0");
+    assert.equal(VersionBumper.bump("0.0.2-rc.1", "patch"), "0.0.2");
+    assert.equal(VersionBumper.bump("1.0.0-1", "major"), "1.0.0");
+    assert.equal(VersionBumper.bump("1.0.0+build", "patch"), "1.0.1");
+    assert.throws(() => VersionBumper.bump("${VERSION}", "patch"), /not a semantic version/);
+    assert.throws(() => VersionBumper.bump("0.0.1", "build"), /Unknown version increment/);
+  });
+
+  test("getChangedModuleFolders", () => {
+    const files: string[] = ["modules/filter/app.js", "modules/filter/module.json", "modules/sensor/Dockerfile", "modules/README.md", "deployment.template.json", ""];
+    assert.deepEqual(VersionBumper.getChangedModuleFolders(files, "modules"), ["filter", "sensor"]);
+  });
+
+  test("addChangelogEntry", () => {
+    const date: Date = new Date(Date.UTC(2018, 6, 1));
+    const created: string = VersionBumper.addChangelogEntry(undefined, "0.0.2", date, "Fix filter");
+    assert.equal(created, "# Changelog\n\n## 0.0.2 - 2018-07-01\n\n- Fix filter\n");
+    assert.equal(VersionBumper.addChangelogEntry(created, "0.1.0", date, "Add threshold"),
+      "# Changelog\n\n## 0.1.0 - 2018-07-01\n\n- Add threshold\n\n## 0.0.2 - 2018-07-01\n\n- Fix filter\n");
+    assert.equal(VersionBumper.addChangelogEntry("# Changelog\n", "0.0.2", date, "Fix filter"), created);
+  });
+});